@@ -1,17 +1,25 @@
 // src/App.tsx
 import React, { Suspense, useState } from 'react';
 import { BrowserRouter, Routes, Route, useLocation } from 'react-router-dom';
-import { Layout, Typography, theme, Spin, Tooltip, App as AntdApp } from 'antd';
+import { Layout, Typography, theme, Spin, Tooltip, Space, App as AntdApp } from 'antd';
 import { withTheme } from '@/config/themeConfig';
 import useAppStore from '@/store/useAppStore';
 import { CONFIG } from '@/config/appConfig';
 import { routes } from '@/routes';
 import NavigationSider from '@/components/NavigationSider';
 import HeaderControls from '@/components/HeaderControls';
+import ThresholdProfileSettings from '@/components/ThresholdProfileSettings';
+import { useDashboardUrlState } from '@/hooks/useDashboardUrlState';
 
 const { Header, Content } = Layout;
 const { Title } = Typography;
 
+// Renders nothing; keeps the dashboard state and the query string in step
+const DashboardUrlSync: React.FC = () => {
+  useDashboardUrlState();
+  return null;
+};
+
 // Inner component that uses routing
 const AppContent: React.FC = () => {
   const { themeMode } = useAppStore();
@@ -60,8 +68,13 @@ const AppContent: React.FC = () => {
             </Title>
           </div>
 
-          {/* HEADER CONTROLS - Visible only on Overview page */}
-          <HeaderControls visible={isOverviewPage} />
+          <Space size="small">
+            {/* HEADER CONTROLS - Visible only on Overview page */}
+            <HeaderControls visible={isOverviewPage} />
+
+            {/* Threshold profile applies to the map and every report page */}
+            <ThresholdProfileSettings />
+          </Space>
         </Header>
 
         {/* Main Content Area */}
@@ -83,7 +96,12 @@ const AppContent: React.FC = () => {
                   <Route 
                     key={route.path} 
                     path={route.path} 
-                    element={<Component />} 
+                    element={
+                      <>
+                        {route.syncUrlState && <DashboardUrlSync />}
+                        <Component />
+                      </>
+                    }
                   />
                 );
               })}
@@ -0,0 +1,122 @@
+// src/components/CompositeIndexSettings.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, Button, Drawer, InputNumber, Space, Table, Typography } from 'antd';
+import { SaveOutlined, UndoOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import useAppStore from '@/store/useAppStore';
+import { KPI_LABELS, MEASURED_KPIS, type MeasuredKPIKey } from '@/config/kpiConfig';
+import {
+  DEFAULT_COMPOSITE_WEIGHTS,
+  getWeightShares,
+  validateCompositeWeights,
+  type CompositeWeights
+} from '@/config/compositeIndex';
+
+const { Text } = Typography;
+
+interface CompositeIndexSettingsProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface WeightRow {
+  key: MeasuredKPIKey;
+}
+
+const rows: WeightRow[] = MEASURED_KPIS.map(kpi => ({ key: kpi }));
+
+/**
+ * Drawer for editing the KPI weights of the composite condition index
+ */
+const CompositeIndexSettings: React.FC<CompositeIndexSettingsProps> = ({ open, onClose }) => {
+  const { compositeWeights, setCompositeWeights } = useAppStore();
+  const [draft, setDraft] = useState<CompositeWeights>(compositeWeights);
+
+  // Start each edit from the saved weights
+  useEffect(() => {
+    if (open) setDraft(compositeWeights);
+  }, [open, compositeWeights]);
+
+  const error = validateCompositeWeights(draft);
+  const shares = useMemo(() => getWeightShares(draft), [draft]);
+  const isDirty = MEASURED_KPIS.some(kpi => draft[kpi] !== compositeWeights[kpi]);
+
+  const handleSave = async () => {
+    if (error) return;
+    await setCompositeWeights(draft);
+    onClose();
+  };
+
+  const columns: ColumnsType<WeightRow> = [
+    {
+      title: 'KPI',
+      dataIndex: 'key',
+      key: 'kpi',
+      render: (kpi: MeasuredKPIKey) => <strong>{KPI_LABELS[kpi]}</strong>
+    },
+    {
+      title: 'Weight',
+      key: 'weight',
+      width: 120,
+      render: (_, row) => (
+        <InputNumber
+          size="small"
+          min={0}
+          value={draft[row.key]}
+          onChange={value => setDraft({ ...draft, [row.key]: value ?? 0 })}
+          style={{ width: 90 }}
+        />
+      )
+    },
+    {
+      title: 'Share',
+      key: 'share',
+      width: 90,
+      align: 'right',
+      render: (_, row) => <Text type="secondary">{shares[row.key].toFixed(0)}%</Text>
+    }
+  ];
+
+  return (
+    <Drawer
+      title="Composite Index Weights"
+      open={open}
+      onClose={onClose}
+      width={420}
+      extra={
+        <Space>
+          <Button icon={<UndoOutlined />} onClick={() => setDraft(DEFAULT_COMPOSITE_WEIGHTS)}>
+            Defaults
+          </Button>
+          <Button
+            type="primary"
+            icon={<SaveOutlined />}
+            disabled={!isDirty || !!error}
+            onClick={handleSave}
+          >
+            Apply
+          </Button>
+        </Space>
+      }
+    >
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Text type="secondary">
+          Each KPI is scored by its condition class under the active threshold profile: its best
+          class scores 100, its worst 0 and the classes between are evenly spaced. The composite is the weighted mean of the KPIs a segment was surveyed for.
+        </Text>
+
+        {error && <Alert type="error" showIcon message={error} />}
+
+        <Table
+          dataSource={rows}
+          columns={columns}
+          pagination={false}
+          size="small"
+          bordered
+        />
+      </Space>
+    </Drawer>
+  );
+};
+
+export default CompositeIndexSettings;
@@ -0,0 +1,178 @@
+// src/components/ConditionFilterEditor.tsx
+import React from 'react';
+import { Button, InputNumber, Select, Space, Tooltip } from 'antd';
+import { CloseOutlined, PlusOutlined } from '@ant-design/icons';
+import { SURVEY_YEARS } from '@/config/constants';
+import {
+  KPI_LABELS,
+  MEASURED_KPIS,
+  getKPIClassification,
+  type ConditionClass,
+  type MeasuredKPIKey
+} from '@/config/kpiConfig';
+import { CLASS_LABELS } from '@/config/rendererConfig';
+import type { ConditionClassFilter, KPIRangeFilter } from '@/types';
+
+const kpiOptions = MEASURED_KPIS.map(kpi => ({ label: KPI_LABELS[kpi], value: kpi }));
+const yearOptions = SURVEY_YEARS.map(year => ({ label: String(year), value: year as number }));
+
+const sectionTitle = (text: string) => <div style={{ fontWeight: 600, marginBottom: 6 }}>{text}</div>;
+
+interface ConditionFilterEditorProps {
+  kpiRanges: KPIRangeFilter[];
+  conditionClasses: ConditionClassFilter[];
+  /** KPI and year new rows start from */
+  defaultKpi: MeasuredKPIKey;
+  defaultYear: number;
+  disabled?: boolean;
+  onChange: (filters: { kpiRanges?: KPIRangeFilter[]; conditionClasses?: ConditionClassFilter[] }) => void;
+}
+
+/**
+ * KPI value range and condition class filter rows for the filter panel.
+ * Every row must match, so rows on different KPIs narrow the selection
+ * (e.g. IRI 2025 above 7 and rut 2025 above 15).
+ */
+const ConditionFilterEditor: React.FC<ConditionFilterEditorProps> = ({
+  kpiRanges,
+  conditionClasses,
+  defaultKpi,
+  defaultYear,
+  disabled,
+  onChange
+}) => {
+  const updateRange = (index: number, changes: Partial<KPIRangeFilter>) =>
+    onChange({ kpiRanges: kpiRanges.map((range, i) => (i === index ? { ...range, ...changes } : range)) });
+
+  const updateClassFilter = (index: number, changes: Partial<ConditionClassFilter>) =>
+    onChange({
+      conditionClasses: conditionClasses.map((filter, i) => (i === index ? { ...filter, ...changes } : filter))
+    });
+
+  return (
+    <>
+      <div>
+        {sectionTitle('KPI Value Range')}
+        <Space direction="vertical" size={4} style={{ width: '100%' }}>
+          {kpiRanges.map((range, index) => {
+            const { unit } = getKPIClassification(range.kpi);
+            return (
+              <Space.Compact key={index} size="small" style={{ width: '100%' }}>
+                <Select
+                  value={range.kpi}
+                  options={kpiOptions}
+                  onChange={kpi => updateRange(index, { kpi })}
+                  disabled={disabled}
+                  style={{ width: 80 }}
+                />
+                <Select
+                  value={range.year}
+                  options={yearOptions}
+                  onChange={year => updateRange(index, { year })}
+                  disabled={disabled}
+                  style={{ width: 72 }}
+                />
+                <InputNumber
+                  value={range.min}
+                  placeholder="above"
+                  onChange={min => updateRange(index, { min })}
+                  disabled={disabled}
+                  style={{ width: '100%' }}
+                />
+                <InputNumber
+                  value={range.max}
+                  placeholder="up to"
+                  addonAfter={unit || undefined}
+                  onChange={max => updateRange(index, { max })}
+                  disabled={disabled}
+                  style={{ width: '100%' }}
+                />
+                <Button
+                  icon={<CloseOutlined />}
+                  onClick={() => onChange({ kpiRanges: kpiRanges.filter((_, i) => i !== index) })}
+                  disabled={disabled}
+                />
+              </Space.Compact>
+            );
+          })}
+          <Tooltip title="Matches values above the lower bound and up to the upper bound; leave one empty for an open range">
+            <Button
+              size="small"
+              type="dashed"
+              icon={<PlusOutlined />}
+              onClick={() => onChange({
+                kpiRanges: [...kpiRanges, { kpi: defaultKpi, year: defaultYear, min: null, max: null }]
+              })}
+              disabled={disabled}
+              block
+            >
+              Add value range
+            </Button>
+          </Tooltip>
+        </Space>
+      </div>
+
+      <div>
+        {sectionTitle('Condition Class')}
+        <Space direction="vertical" size={4} style={{ width: '100%' }}>
+          {conditionClasses.map((filter, index) => (
+            <Space.Compact key={index} size="small" style={{ width: '100%' }}>
+              <Select
+                value={filter.kpi}
+                options={kpiOptions}
+                onChange={kpi => {
+                  // Keep only the classes the new KPI has
+                  const available = getKPIClassification(kpi).bands.map(band => band.conditionClass);
+                  updateClassFilter(index, { kpi, classes: filter.classes.filter(c => available.includes(c)) });
+                }}
+                disabled={disabled}
+                style={{ width: 80 }}
+              />
+              <Select
+                value={filter.year}
+                options={yearOptions}
+                onChange={year => updateClassFilter(index, { year })}
+                disabled={disabled}
+                style={{ width: 72 }}
+              />
+              <Select<ConditionClass[]>
+                mode="multiple"
+                maxTagCount="responsive"
+                placeholder="Any class"
+                value={filter.classes}
+                options={getKPIClassification(filter.kpi).bands.map(band => ({
+                  label: CLASS_LABELS[band.conditionClass],
+                  value: band.conditionClass
+                }))}
+                onChange={classes => updateClassFilter(index, { classes })}
+                disabled={disabled}
+                style={{ width: '100%' }}
+              />
+              <Button
+                icon={<CloseOutlined />}
+                onClick={() => onChange({ conditionClasses: conditionClasses.filter((_, i) => i !== index) })}
+                disabled={disabled}
+              />
+            </Space.Compact>
+          ))}
+          <Tooltip title="Classes follow the active threshold profile">
+            <Button
+              size="small"
+              type="dashed"
+              icon={<PlusOutlined />}
+              onClick={() => onChange({
+                conditionClasses: [...conditionClasses, { kpi: defaultKpi, year: defaultYear, classes: [] }]
+              })}
+              disabled={disabled}
+              block
+            >
+              Add condition class filter
+            </Button>
+          </Tooltip>
+        </Space>
+      </div>
+    </>
+  );
+};
+
+export default ConditionFilterEditor;
@@ -0,0 +1,263 @@
+// src/components/ConditionTransitionView.tsx
+import React, { useMemo } from 'react';
+import { Col, Row, Statistic, Table, Typography, theme } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { KPI_LABELS, type ConditionClass } from '@/config/kpiConfig';
+import { CLASS_LABELS } from '@/config/rendererConfig';
+import TransitionService, { type ConditionTransitionMatrix } from '@/services/TransitionService';
+import { getConditionColors } from '@/utils/themeHelpers';
+
+const { Text } = Typography;
+
+export type TransitionViewMode = 'matrix' | 'sankey';
+
+interface ConditionTransitionViewProps {
+  matrix: ConditionTransitionMatrix;
+  mode: TransitionViewMode;
+  /** Sankey height in pixels */
+  height?: number;
+  compact?: boolean;
+}
+
+interface MatrixRow {
+  key: ConditionClass;
+  total: number;
+  cells: Record<ConditionClass, number>;
+}
+
+const SANKEY_WIDTH = 600;
+const NODE_WIDTH = 14;
+const NODE_GAP = 10;
+const LABEL_WIDTH = 110;
+
+const toCssColor = (rgba: number[], alpha?: number) =>
+  `rgba(${rgba[0]}, ${rgba[1]}, ${rgba[2]}, ${alpha ?? rgba[3]})`;
+
+const formatKm = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+/**
+ * Transition matrix: rows are classes in the first year, columns classes in
+ * the second year. Diagonal cells (unchanged) are emphasised.
+ */
+const TransitionMatrixTable: React.FC<{ matrix: ConditionTransitionMatrix; compact?: boolean }> = ({ matrix, compact }) => {
+  const { token } = theme.useToken();
+
+  const rows: MatrixRow[] = matrix.classes.map(from => ({
+    key: from,
+    total: TransitionService.getClassTotal(matrix, from, 'from'),
+    cells: matrix.lengthKm[from]
+  }));
+
+  const columns: ColumnsType<MatrixRow> = [
+    {
+      title: `${matrix.fromYear} \\ ${matrix.toYear}`,
+      dataIndex: 'key',
+      key: 'from',
+      fixed: 'left',
+      render: (from: ConditionClass) => <strong>{CLASS_LABELS[from]}</strong>
+    },
+    ...matrix.classes.map(to => ({
+      title: CLASS_LABELS[to],
+      key: to,
+      align: 'center' as const,
+      onCell: (row: MatrixRow) => ({
+        style: row.key === to ? { background: token.colorFillSecondary, fontWeight: 600 } : undefined
+      }),
+      render: (_: unknown, row: MatrixRow) => {
+        const km = row.cells[to];
+        if (km === 0) return <Text type="secondary">–</Text>;
+        const share = row.total > 0 ? Math.round((km / row.total) * 100) : 0;
+        return compact ? formatKm(km) : <span>{formatKm(km)} <Text type="secondary">({share}%)</Text></span>;
+      }
+    })),
+    {
+      title: `Total ${matrix.fromYear}`,
+      dataIndex: 'total',
+      key: 'total',
+      align: 'center',
+      render: (total: number) => <strong>{formatKm(total)}</strong>
+    }
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={rows}
+      pagination={false}
+      size="small"
+      bordered
+      scroll={{ x: 'max-content' }}
+      summary={() => (
+        <Table.Summary.Row>
+          <Table.Summary.Cell index={0}><strong>Total {matrix.toYear}</strong></Table.Summary.Cell>
+          {matrix.classes.map((to, index) => (
+            <Table.Summary.Cell key={to} index={index + 1} align="center">
+              <strong>{formatKm(TransitionService.getClassTotal(matrix, to, 'to'))}</strong>
+            </Table.Summary.Cell>
+          ))}
+          <Table.Summary.Cell index={matrix.classes.length + 1} align="center">
+            <strong>{formatKm(matrix.totalKm)}</strong>
+          </Table.Summary.Cell>
+        </Table.Summary.Row>
+      )}
+    />
+  );
+};
+
+/**
+ * Two-column Sankey diagram drawn as SVG: class lengths in the first year on
+ * the left, the second year on the right, with bands for each transition.
+ */
+const TransitionSankey: React.FC<{ matrix: ConditionTransitionMatrix; height: number }> = ({ matrix, height }) => {
+  const { token } = theme.useToken();
+  const colors = useMemo(() => getConditionColors(), [token]);
+
+  const layout = useMemo(() => {
+    const classes = matrix.classes;
+    const usable = height - NODE_GAP * (classes.length - 1);
+    const scale = matrix.totalKm > 0 ? usable / matrix.totalKm : 0;
+    const leftX = LABEL_WIDTH;
+    const rightX = SANKEY_WIDTH - LABEL_WIDTH - NODE_WIDTH;
+
+    const stackNodes = (side: 'from' | 'to') => {
+      let y = 0;
+      return classes.map(conditionClass => {
+        const km = TransitionService.getClassTotal(matrix, conditionClass, side);
+        const node = { conditionClass, km, y, height: km * scale };
+        y += node.height + NODE_GAP;
+        return node;
+      });
+    };
+    const leftNodes = stackNodes('from');
+    const rightNodes = stackNodes('to');
+
+    // Offsets of the next link leaving/entering each node
+    const leftOffsets = leftNodes.map(node => node.y);
+    const rightOffsets = rightNodes.map(node => node.y);
+
+    // Incoming links are stacked on the right in source order, so walk targets in the outer loop
+    const rightStarts = new Map<string, number>();
+    classes.forEach((to, toIndex) => {
+      classes.forEach(from => {
+        rightStarts.set(`${from}-${to}`, rightOffsets[toIndex]);
+        rightOffsets[toIndex] += matrix.lengthKm[from][to] * scale;
+      });
+    });
+
+    const links = TransitionService.getLinks(matrix).map(link => {
+      const fromIndex = classes.indexOf(link.from);
+      const thickness = link.lengthKm * scale;
+      const y0 = leftOffsets[fromIndex];
+      leftOffsets[fromIndex] += thickness;
+      const y1 = rightStarts.get(`${link.from}-${link.to}`)!;
+
+      const x0 = leftX + NODE_WIDTH;
+      const x1 = rightX;
+      const mid = (x0 + x1) / 2;
+      const path = [
+        `M ${x0} ${y0}`,
+        `C ${mid} ${y0}, ${mid} ${y1}, ${x1} ${y1}`,
+        `L ${x1} ${y1 + thickness}`,
+        `C ${mid} ${y1 + thickness}, ${mid} ${y0 + thickness}, ${x0} ${y0 + thickness}`,
+        'Z'
+      ].join(' ');
+
+      return { ...link, path };
+    });
+
+    return { leftNodes, rightNodes, links, leftX, rightX };
+  }, [matrix, height]);
+
+  const textStyle = { fontSize: 11, fill: token.colorText };
+
+  return (
+    <svg
+      viewBox={`0 -16 ${SANKEY_WIDTH} ${height + 24}`}
+      width="100%"
+      role="img"
+      aria-label={`Condition class transitions ${matrix.fromYear} to ${matrix.toYear}`}
+    >
+      <text x={layout.leftX + NODE_WIDTH / 2} y={-4} textAnchor="middle" style={{ ...textStyle, fontWeight: 600 }}>
+        {matrix.fromYear}
+      </text>
+      <text x={layout.rightX + NODE_WIDTH / 2} y={-4} textAnchor="middle" style={{ ...textStyle, fontWeight: 600 }}>
+        {matrix.toYear}
+      </text>
+
+      {layout.links.map(link => (
+        <path key={`${link.from}-${link.to}`} d={link.path} fill={toCssColor(colors[link.from], 0.35)}>
+          <title>{`${CLASS_LABELS[link.from]} → ${CLASS_LABELS[link.to]}: ${formatKm(link.lengthKm)} km`}</title>
+        </path>
+      ))}
+
+      {layout.leftNodes.map(node => node.height > 0 && (
+        <g key={`from-${node.conditionClass}`}>
+          <rect x={layout.leftX} y={node.y} width={NODE_WIDTH} height={node.height} fill={toCssColor(colors[node.conditionClass], 1)} />
+          <text x={layout.leftX - 6} y={node.y + node.height / 2} dy="0.35em" textAnchor="end" style={textStyle}>
+            {CLASS_LABELS[node.conditionClass]} ({formatKm(node.km)} km)
+          </text>
+        </g>
+      ))}
+
+      {layout.rightNodes.map(node => node.height > 0 && (
+        <g key={`to-${node.conditionClass}`}>
+          <rect x={layout.rightX} y={node.y} width={NODE_WIDTH} height={node.height} fill={toCssColor(colors[node.conditionClass], 1)} />
+          <text x={layout.rightX + NODE_WIDTH + 6} y={node.y + node.height / 2} dy="0.35em" style={textStyle}>
+            {CLASS_LABELS[node.conditionClass]} ({formatKm(node.km)} km)
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Improved / unchanged / deteriorated length with shares of the total
+ */
+export const TransitionSummary: React.FC<{ matrix: ConditionTransitionMatrix }> = ({ matrix }) => {
+  const { token } = theme.useToken();
+  const share = (km: number) => (matrix.totalKm > 0 ? Math.round((km / matrix.totalKm) * 100) : 0);
+
+  const items = [
+    { title: 'Improved', km: matrix.improvedKm, color: token.colorSuccess },
+    { title: 'Unchanged', km: matrix.unchangedKm, color: token.colorText },
+    { title: 'Deteriorated', km: matrix.deterioratedKm, color: token.colorError }
+  ];
+
+  return (
+    <Row gutter={16}>
+      {items.map(item => (
+        <Col span={8} key={item.title}>
+          <Statistic
+            title={item.title}
+            value={item.km}
+            precision={1}
+            suffix={<span style={{ fontSize: 12 }}>km ({share(item.km)}%)</span>}
+            valueStyle={{ color: item.color, fontSize: 18 }}
+          />
+        </Col>
+      ))}
+    </Row>
+  );
+};
+
+/**
+ * Condition class transitions between two survey years, as a matrix or Sankey diagram.
+ * Shared by the dashboard transition panel and the report transition section.
+ */
+const ConditionTransitionView: React.FC<ConditionTransitionViewProps> = ({
+  matrix,
+  mode,
+  height = 320,
+  compact = false
+}) => {
+  if (matrix.totalKm === 0) {
+    return <Text type="secondary">No segments have {KPI_LABELS[matrix.kpi]} data in both {matrix.fromYear} and {matrix.toYear} for the current filters.</Text>;
+  }
+
+  return mode === 'sankey'
+    ? <TransitionSankey matrix={matrix} height={height} />
+    : <TransitionMatrixTable matrix={matrix} compact={compact} />;
+};
+
+export default ConditionTransitionView;
@@ -4,18 +4,26 @@ import { Chart, ChartConfiguration, ChartEvent, ActiveElement } from 'chart.js/a
 import { useDebouncedCallback } from '@/hooks/useDebounce';
 import useAppStore from '@/store/useAppStore';
 import { CONFIG, RENDERER_CONFIG } from '@/config/appConfig';
-import { KPI_LABELS, type KPIKey } from '@/config/kpiConfig';
+import { KPI_LABELS, canUseClassFields, isCompositeKPI, type KPIKey, type ConditionClass } from '@/config/kpiConfig';
 import QueryService from '@/services/QueryService';
 import { getChartThemeColors } from '@/utils/themeHelpers';
 import StatisticsService from '@/services/StatisticsService';
+import ForecastService from '@/services/ForecastService';
+import type { ForecastMethod } from '@/utils/deteriorationModel';
+import type { RoadDataInput } from '@/services/RoadDataSource';
 import type { FilterState, GroupedConditionStats } from '@/types';
 import Query from '@arcgis/core/rest/support/Query';
 import type { SummaryStatistics } from '@/types';
 import {
   ROAD_FIELDS,
-  SUBGROUP_OPTIONS,
   getKPIFieldName
 } from '@/config/layerConfig';
+import { where, renderWhere, type WhereClause } from '@/utils/whereClause';
+import {
+  CONDITION_CLASSES,
+  classFieldWhereClause,
+  conditionClassWhereClause
+} from '@/utils/conditionClassification';
 
 const groupByOptions = [
   { label: 'Local Authority', value: ROAD_FIELDS.la },
@@ -23,52 +31,25 @@ const groupByOptions = [
   { label: 'Subgroup', value: 'subgroup' } 
 ];
 
-const buildSubgroupWhereClause = (subgroup: string): string => {
-  const subgroupOption = SUBGROUP_OPTIONS.find(opt => 
-    opt.label === subgroup
-  );
-  
-  if (subgroupOption) {
-    // This logic is based on how subgroups are defined in the data
-    const fieldName = SUBGROUP_OPTIONS.find(o => o.code === subgroupOption.code)?.value;
-    if (fieldName) {
-      return `${fieldName} = 1`;
-    }
-  }
-  // Fallback for 'Rural' or if not found
-  if (subgroup === 'Rural') {
-    const definedSubgroups = SUBGROUP_OPTIONS
-      .filter(o => o.value !== 'Rural')
-      .map(o => `${o.value} = 0`)
-      .join(' AND ');
-    return `(${definedSubgroups})`;
-  }
-  return '1=1';
-};
-
 const buildConditionWhereClause = (
   kpi: KPIKey,
   year: number,
   conditionClass: string
-): string => {
-  const classValue = {
-    'veryGood': 1,
-    'good': 2,
-    'fair': 3,
-    'poor': 4,
-    'veryPoor': 5
-  }[conditionClass];
-
-  if (classValue) {
-    const classFieldName = getKPIFieldName(kpi, year, true);
-    return `${classFieldName} = ${classValue}`;
+): WhereClause => {
+  if (!CONDITION_CLASSES.includes(conditionClass as ConditionClass)) {
+    return where.all();
+  }
+  if (!canUseClassFields()) {
+    return conditionClassWhereClause(kpi, getKPIFieldName(kpi, year), conditionClass as ConditionClass);
   }
-  return '1=1';
+  const classFieldName = getKPIFieldName(kpi, year, true);
+  return classFieldWhereClause(kpi, classFieldName, conditionClass as ConditionClass);
 };
 
 const EnhancedChartPanel: React.FC = React.memo(() => {
   const {
     roadLayer,
+    getRoadDataSource,
     activeKpi,
     currentFilters,
     mapView,
@@ -77,7 +58,12 @@ const EnhancedChartPanel: React.FC = React.memo(() => {
     isChartFilterActive,
     toggleChartSelection,
     clearChartSelections,
-    themeMode
+    themeMode,
+    thresholdRevision,
+    forecastYear,
+    forecastMethod,
+    compositeWeights,
+    getTimeSliderProjectedYear
   } = useAppStore();
   const { token } = theme.useToken();
   const chartRef = useRef<HTMLCanvasElement | null>(null);
@@ -93,6 +79,17 @@ const EnhancedChartPanel: React.FC = React.memo(() => {
   const [selectedSegment, setSelectedSegment] = useState<{group: string, condition: string} | null>(null);
   const [dataStatus, setDataStatus] = useState<'loading' | 'success' | 'no-data' | 'error'>('loading');
   const [errorDetails, setErrorDetails] = useState<string>('');
+  const [showProjected, setShowProjected] = useState<boolean>(false);
+
+  // Projected bars are only available once a forecast year is chosen in the stats panel,
+  // and are always shown on the time slider's projected step
+  const sliderProjectedYear = getTimeSliderProjectedYear();
+  const projectedYear = ForecastService.isForecastKPI(activeKpi)
+    ? sliderProjectedYear ?? (showProjected && forecastYear ? forecastYear : null)
+    : null;
+
+  // Projected and composite classes are not layer attributes, so bars cannot filter the map
+  const canFilterMap = stackedMode && !projectedYear && !isCompositeKPI(activeKpi);
 
   // Track renders for performance monitoring
   renderCount.current += 1;
@@ -124,11 +121,13 @@ const EnhancedChartPanel: React.FC = React.memo(() => {
 
   // Data fetching logic
   const fetchData = async (
-    layer: __esri.FeatureLayer, 
+    layer: RoadDataInput,
     filters: FilterState, 
     kpi: KPIKey, 
     grpBy: string, 
-    isStacked: boolean
+    isStacked: boolean,
+    projectYear: number | null,
+    method: ForecastMethod
   ) => {
     setLoading(true);
     setError(null);
@@ -137,7 +136,18 @@ const EnhancedChartPanel: React.FC = React.memo(() => {
     try {
       let data: GroupedConditionStats[];
       
-      if (isStacked) {
+      if (projectYear) {
+        // Projected statistics carry both class counts and averages
+        data = await ForecastService.computeProjectedGroupedStatistics(
+          layer,
+          kpi,
+          projectYear,
+          grpBy,
+          filters,
+          { method }
+        );
+      } else if (isStacked || isCompositeKPI(kpi)) {
+        // Composite statistics are scored per segment and carry both class counts and averages
         data = await StatisticsService.computeGroupedStatisticsWithConditions(
           layer,
           filters,
@@ -234,8 +244,10 @@ const EnhancedChartPanel: React.FC = React.memo(() => {
       setGroupedData([]);
       return;
     }
-    debouncedFetchData(roadLayer, currentFilters, activeKpi, groupBy, stackedMode);
-  }, [roadLayer, activeKpi, currentFilters, groupBy, stackedMode, debouncedFetchData]);
+    // The dashboard source carries the area filter
+    const roadData = getRoadDataSource() ?? roadLayer;
+    debouncedFetchData(roadData, currentFilters, activeKpi, groupBy, stackedMode, projectedYear, forecastMethod);
+  }, [roadLayer, getRoadDataSource, activeKpi, currentFilters, groupBy, stackedMode, projectedYear, forecastMethod, compositeWeights, thresholdRevision, debouncedFetchData]);
 
   const handleChartClick = useCallback(async (event: ChartEvent, elements: ActiveElement[]) => {
     if (!elements.length || !roadLayer || !mapView) return;
@@ -291,19 +303,14 @@ const EnhancedChartPanel: React.FC = React.memo(() => {
     const whereClauses = selections.map(selection => {
       const year = selection.year;
 
-      let groupClause = '';
-      if (groupBy === 'subgroup') {
-        groupClause = buildSubgroupWhereClause(selection.group);
-      } else {
-        groupClause = `${groupBy} = '${selection.group.replace("'", "''")}'`;
-      }
-
-      const conditionClause = buildConditionWhereClause(selection.kpi, year, selection.condition);
+      const groupClause = groupBy === 'subgroup'
+        ? where.subgroupByLabel(selection.group) ?? where.all()
+        : where.eq(groupBy, selection.group);
 
-      return `(${groupClause} AND ${conditionClause})`;
+      return where.and(groupClause, buildConditionWhereClause(selection.kpi, year, selection.condition));
     });
 
-    const combinedWhere = `(${whereClauses.join(' OR ')})`;
+    const combinedWhere = renderWhere(where.or(...whereClauses));
 
     // Store current definition before overriding
     if (selections.length === 1 && state.chartSelections.length === 1) {
@@ -316,7 +323,7 @@ const EnhancedChartPanel: React.FC = React.memo(() => {
     await roadLayer.refresh(); // Force visual refresh
 
     // Zoom to filtered extent
-    await QueryService.zoomToDefinition(mapView, roadLayer, combinedWhere);
+    await QueryService.zoomToDefinition(mapView, state.getRoadDataSource() ?? roadLayer, combinedWhere);
 
     // Update UI
     const firstSelection = selections[0];
@@ -425,10 +432,10 @@ const EnhancedChartPanel: React.FC = React.memo(() => {
         onHover: (event, elements) => {
           const canvas = event.native?.target as HTMLCanvasElement;
           if (canvas) {
-            canvas.style.cursor = elements.length > 0 && stackedMode ? 'pointer' : 'default';
+            canvas.style.cursor = elements.length > 0 && canFilterMap ? 'pointer' : 'default';
           }
         },
-        onClick: stackedMode ? handleChartClick : undefined,
+        onClick: canFilterMap ? handleChartClick : undefined,
         plugins: {
           legend: {
             display: stackedMode,
@@ -442,6 +449,8 @@ const EnhancedChartPanel: React.FC = React.memo(() => {
           title: {
             display: true,
             text: `${KPI_LABELS[activeKpi]} by ${groupByOptions.find(o => o.value === groupBy)?.label || groupBy}${
+              projectedYear ? ` - Projected ${projectedYear}` : ''
+            }${
               selectedSegment ? ` - Filtered to ${selectedSegment.group} (${selectedSegment.condition})` : ''
             }`,
             color: chartThemeColors.labels
@@ -505,7 +514,7 @@ const EnhancedChartPanel: React.FC = React.memo(() => {
     };
 
     return config;
-  }, [groupedData, chartDatasets, activeKpi, groupBy, stackedMode, selectedSegment, handleChartClick, token]);
+  }, [groupedData, chartDatasets, activeKpi, groupBy, stackedMode, projectedYear, canFilterMap, selectedSegment, handleChartClick, token]);
 
   // Initialize or update chart
   useEffect(() => {
@@ -547,6 +556,7 @@ const EnhancedChartPanel: React.FC = React.memo(() => {
       title={
         <Space>
           Charts
+          {projectedYear && <Tag color="orange">Projected {projectedYear}</Tag>}
           {isChartFilterActive && (
             <Tag color="blue">
               {chartSelections.length} selected
@@ -580,6 +590,16 @@ const EnhancedChartPanel: React.FC = React.memo(() => {
               Clear Selection
             </Button>
           )}
+          {forecastYear && ForecastService.isForecastKPI(activeKpi) && (
+            <Switch
+              checked={showProjected || sliderProjectedYear !== null}
+              onChange={setShowProjected}
+              disabled={sliderProjectedYear !== null}
+              checkedChildren={`${forecastYear}`}
+              unCheckedChildren="Measured"
+              size="small"
+            />
+          )}
           <Switch
             checked={stackedMode}
             onChange={setStackedMode}
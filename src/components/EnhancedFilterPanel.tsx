@@ -1,32 +1,50 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { Card, Select, Button, Space, Badge, Spin, theme } from 'antd'; // ADD Spin
-import { FilterOutlined, ClearOutlined } from '@ant-design/icons'; // ADD icons
+import { Card, Select, Button, Space, Badge, Spin, Tag, Tooltip, Upload, theme } from 'antd'; // ADD Spin
+import { FilterOutlined, ClearOutlined, UploadOutlined, LineChartOutlined } from '@ant-design/icons'; // ADD icons
 import useAppStore from '@/store/useAppStore';
 import QueryService from '@/services/QueryService';
 import { CONFIG } from '@/config/appConfig';
 import { ROAD_FIELDS } from '@/config/layerConfig';
+import { MEASURED_KPIS, isCompositeKPI } from '@/config/kpiConfig';
+import RouteProfilePanel from './RouteProfilePanel';
+import ConditionFilterEditor from './ConditionFilterEditor';
+import SpatialFilterTools from './SpatialFilterTools';
 
 const EnhancedFilterPanel: React.FC = () => {
-  const { roadLayer, currentFilters, setFilters, applyFilters, clearAllFilters, loading } = useAppStore();
+  const {
+    roadLayer,
+    roadDataSource,
+    activeKpi,
+    currentFilters,
+    setFilters,
+    applyFilters,
+    clearAllFilters,
+    loadLocalRoadData,
+    setRoadDataSource,
+    loading
+  } = useAppStore();
+  // A loaded local extract takes precedence over the hosted layer
+  const roadData = roadDataSource ?? roadLayer;
   const [laOptions, setLaOptions] = useState<string[]>([]);
   const [routeOptions, setRouteOptions] = useState<string[]>([]);
   const [availableRoutes, setAvailableRoutes] = useState<string[]>([]);
   const [loadingRoutes, setLoadingRoutes] = useState<boolean>(false);
   const [loadingUniqueValues, setLoadingUniqueValues] = useState<boolean>(false);
+  const [profileOpen, setProfileOpen] = useState<boolean>(false);
   const { token } = theme.useToken();
 
   // Load unique values for LA on mount
   useEffect(() => {
     const loadUniqueValues = async () => {
-      if (!roadLayer || !roadLayer.loaded) {
+      if (!roadDataSource && (!roadLayer || !roadLayer.loaded)) {
         console.log('[FilterPanel] Waiting for layer to load...');
         return;
       }
 
       try {
         setLoadingUniqueValues(true);
-        const las = await QueryService.getUniqueValues(roadLayer, ROAD_FIELDS.la);
-        const routes = await QueryService.getUniqueValues(roadLayer, ROAD_FIELDS.route);
+        const las = await QueryService.getUniqueValues(roadData, ROAD_FIELDS.la);
+        const routes = await QueryService.getUniqueValues(roadData, ROAD_FIELDS.route);
         setLaOptions(las);
         setRouteOptions(routes);
         setAvailableRoutes(routes); // Initially show all routes
@@ -38,17 +56,17 @@ const EnhancedFilterPanel: React.FC = () => {
     };
 
     loadUniqueValues();
-  }, [roadLayer]); // Only depend on roadLayer
+  }, [roadLayer, roadDataSource]); // Only depend on the data source
 
   // Update available routes when LA selection changes
   useEffect(() => {
     const fetchFilteredRoutes = async () => {
-      if (!roadLayer) return;
+      if (!roadData) return;
 
       setLoadingRoutes(true);
       try {
         const routes = await QueryService.queryRoutesForLAs(
-          roadLayer,
+          roadData,
           currentFilters.localAuthority
         );
         setAvailableRoutes(routes);
@@ -70,18 +88,36 @@ const EnhancedFilterPanel: React.FC = () => {
     };
 
     fetchFilteredRoutes();
-  }, [roadLayer, currentFilters.localAuthority]);
+  }, [roadLayer, roadDataSource, currentFilters.localAuthority]);
 
-  const counter = useMemo(() => {
-    return (currentFilters.localAuthority.length ? 1 : 0) +
-           (currentFilters.subgroup.length ? 1 : 0) +
-           (currentFilters.route.length ? 1 : 0);
-  }, [currentFilters]);
+  const counter = useMemo(() => QueryService.countActiveFilters(currentFilters), [currentFilters]);
 
   return (
     <Card 
       size="small" 
       title={<Space>Filters <Badge count={counter} /></Space>} 
+      extra={
+        roadDataSource ? (
+          <Tooltip title="Queries use a local survey extract. Close to return to the hosted layer.">
+            <Tag closable color="blue" onClose={() => setRoadDataSource(null)}>
+              {roadDataSource.id}
+            </Tag>
+          </Tooltip>
+        ) : (
+          <Upload
+            accept=".geojson,.json,.csv"
+            showUploadList={false}
+            beforeUpload={(file) => {
+              loadLocalRoadData(file);
+              return false; // Parse locally, never upload
+            }}
+          >
+            <Tooltip title="Load a local GeoJSON or CSV survey extract">
+              <Button size="small" icon={<UploadOutlined />} disabled={loading} />
+            </Tooltip>
+          </Upload>
+        )
+      }
       actions={[
         <Button 
           key="clear" 
@@ -157,7 +193,28 @@ const EnhancedFilterPanel: React.FC = () => {
                 (option?.label ?? '').toLowerCase().includes(input.toLowerCase())
               }
             />
+            <Button
+              size="small"
+              type="link"
+              icon={<LineChartOutlined />}
+              onClick={() => setProfileOpen(true)}
+              disabled={currentFilters.route.length === 0}
+              style={{ paddingLeft: 0, marginTop: 4 }}
+            >
+              Route Profile
+            </Button>
           </div>
+
+          <ConditionFilterEditor
+            kpiRanges={currentFilters.kpiRanges ?? []}
+            conditionClasses={currentFilters.conditionClasses ?? []}
+            defaultKpi={isCompositeKPI(activeKpi) ? MEASURED_KPIS[0] : activeKpi}
+            defaultYear={currentFilters.year}
+            disabled={loading}
+            onChange={setFilters}
+          />
+
+          <SpatialFilterTools disabled={loading} />
         </Space>
       )}
       {counter > 0 && !loading && (
@@ -172,6 +229,11 @@ const EnhancedFilterPanel: React.FC = () => {
           {counter} filter{counter > 1 ? 's' : ''} active. Clear All will reset while keeping year {currentFilters.year}.
         </div>
       )}
+      <RouteProfilePanel
+        open={profileOpen}
+        onClose={() => setProfileOpen(false)}
+        routes={currentFilters.route}
+      />
     </Card>
   );
 };
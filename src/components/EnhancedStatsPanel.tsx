@@ -1,7 +1,14 @@
 import React, { useEffect, useState } from 'react';
-import { Card, Statistic, Row, Col, Divider, Tag, Space, Segmented, Spin, Alert, theme } from 'antd';
+import { Card, Statistic, Row, Col, Divider, Tag, Space, Segmented, Spin, Alert, Select, Switch, Tooltip, theme } from 'antd';
+import { LineChartOutlined, SwapOutlined } from '@ant-design/icons';
 import useAppStore from '@/store/useAppStore';
-import { KPI_LABELS } from '@/config/kpiConfig';
+import { KPI_LABELS, getKPIClassification } from '@/config/kpiConfig';
+import { FORECAST_YEARS, SURVEY_YEARS, type SurveyYear } from '@/config/constants';
+import ForecastService from '@/services/ForecastService';
+import { TransitionSummary } from './ConditionTransitionView';
+import type { ChangeRendererMethod } from '@/utils/conditionChange';
+import { FORECAST_KPIS, type ForecastMethod } from '@/utils/deteriorationModel';
+import { getChangeDirection, getValueDecimals } from '@/utils/segmentHistory';
 
 const EnhancedStatsPanel: React.FC = () => {
   const { 
@@ -16,7 +23,26 @@ const EnhancedStatsPanel: React.FC = () => {
     isChartFilterActive,
     isCalculatingChartStats,
     chartSelections,
-    themeMode // ADD: Get theme mode
+    themeMode, // ADD: Get theme mode
+    forecastYear,
+    forecastMethod,
+    projectedStats,
+    isCalculatingProjection,
+    setForecastYear,
+    setForecastMethod,
+    calculateProjectedStatistics,
+    roadRendererMode,
+    setRoadRendererMode,
+    changeFromYear,
+    changeToYear,
+    changeMethod,
+    changeStats,
+    isCalculatingChangeStats,
+    setChangeRendererOptions,
+    calculateChangeStatistics,
+    timeSliderYear,
+    showTimeSliderYear,
+    getTimeSliderProjectedYear
   } = useAppStore();
   const [isCalculating, setIsCalculating] = useState(false);
   const { token } = theme.useToken();
@@ -29,11 +55,30 @@ const EnhancedStatsPanel: React.FC = () => {
 
   const onYearChange = async (newYear: number) => {
     setFilters({ year: newYear });
+    // A year picked here takes over from the time slider
+    if (timeSliderYear !== null) {
+      showTimeSliderYear(null);
+    }
     // Trigger map re-rendering and statistics recalculation
     updateRenderer();
     await calculateStatistics();
   };
 
+  // Re-project whenever the measured statistics or forecast settings change
+  useEffect(() => {
+    if (forecastYear) {
+      calculateProjectedStatistics();
+    }
+  }, [forecastYear, forecastMethod, activeKpi, currentStats, calculateProjectedStatistics]);
+
+  // Change statistics follow the change map and the measured statistics
+  const isChangeMap = roadRendererMode === 'change';
+  useEffect(() => {
+    if (isChangeMap) {
+      calculateChangeStatistics();
+    }
+  }, [isChangeMap, changeFromYear, changeToYear, activeKpi, currentStats, calculateChangeStatistics]);
+
   useEffect(() => {
     setIsCalculating(true);
     const timer = setTimeout(() => setIsCalculating(false), 500);
@@ -43,8 +88,11 @@ const EnhancedStatsPanel: React.FC = () => {
   // Get the current selected year
   const selectedYear = currentFilters.year || null;
 
-  // Determine which stats to display
-  const displayStats = isChartFilterActive ? chartFilteredStats : currentStats;
+  // Determine which stats to display; a projected time slider step shows the projection
+  const sliderProjectedYear = getTimeSliderProjectedYear();
+  const showsSliderProjection = sliderProjectedYear !== null && projectedStats !== null;
+  const measuredStats = isChartFilterActive ? chartFilteredStats : currentStats;
+  const displayStats = showsSliderProjection ? projectedStats : measuredStats;
   const isStatsCalculating = isCalculating || isCalculatingChartStats;
 
   if (isStatsCalculating) {
@@ -107,6 +155,11 @@ const EnhancedStatsPanel: React.FC = () => {
     );
   }
 
+  const isForecastKpi = ForecastService.isForecastKPI(activeKpi);
+  const changeUnit = getKPIClassification(activeKpi).unit;
+  const averageChange = changeStats?.averageChange ?? null;
+  const averageChangeDirection = averageChange === null ? null : getChangeDirection(activeKpi, averageChange);
+
   // FIXED: No longer need kpiStats, displayStats is the correct object
   const kpiTitle = `${KPI_LABELS[activeKpi]}`;
 
@@ -116,7 +169,9 @@ const EnhancedStatsPanel: React.FC = () => {
       title={
         <Space>
           Summary Statistics
-          {isChartFilterActive && (
+          {showsSliderProjection ? (
+            <Tag color="orange">Projected {sliderProjectedYear}</Tag>
+          ) : isChartFilterActive && (
             <Tag color="blue">
               Chart Filtered ({chartSelections.length})
             </Tag>
@@ -231,6 +286,171 @@ const EnhancedStatsPanel: React.FC = () => {
         </div>
       )}
 
+      {/* Change between two survey years, shown on the map while switched on */}
+      <div style={{ marginBottom: 12 }}>
+        <Space style={{ width: '100%', justifyContent: 'space-between', marginBottom: 8 }} wrap>
+          <Space>
+            <SwapOutlined />
+            <span style={{ fontSize: 14, fontWeight: 600 }}>Change</span>
+            <Switch
+              size="small"
+              checked={isChangeMap}
+              onChange={(checked) => setRoadRendererMode(checked ? 'change' : 'condition')}
+            />
+            <span style={{ fontSize: 12, color: token.colorTextSecondary }}>Show on map</span>
+          </Space>
+          <Space size="small">
+            <Select<SurveyYear>
+              size="small"
+              value={changeFromYear}
+              options={SURVEY_YEARS.map(year => ({ label: `${year}`, value: year, disabled: year >= changeToYear }))}
+              onChange={(year) => setChangeRendererOptions({ changeFromYear: year })}
+              style={{ width: 80 }}
+            />
+            <span>→</span>
+            <Select<SurveyYear>
+              size="small"
+              value={changeToYear}
+              options={SURVEY_YEARS.map(year => ({ label: `${year}`, value: year, disabled: year <= changeFromYear }))}
+              onChange={(year) => setChangeRendererOptions({ changeToYear: year })}
+              style={{ width: 80 }}
+            />
+            <Tooltip title="Class shift colours segments that moved to a better or worse condition class; value shades them by how much the value improved or deteriorated">
+              <Segmented<ChangeRendererMethod>
+                size="small"
+                value={changeMethod}
+                options={[
+                  { label: 'Class shift', value: 'classShift' },
+                  { label: 'Value', value: 'value' }
+                ]}
+                onChange={(method) => setChangeRendererOptions({ changeMethod: method })}
+              />
+            </Tooltip>
+          </Space>
+        </Space>
+
+        {!isChangeMap ? (
+          <div style={{ fontSize: 12, color: token.colorTextSecondary }}>
+            Show the change map to compare {KPI_LABELS[activeKpi]} between two survey years.
+          </div>
+        ) : isCalculatingChangeStats ? (
+          <div style={{ textAlign: 'center', padding: 12 }}>
+            <Spin size="small" />{' '}
+            <span style={{ color: token.colorTextSecondary }}>Comparing {changeFromYear} with {changeToYear}...</span>
+          </div>
+        ) : changeStats && changeStats.totalKm > 0 ? (
+          <Row gutter={[8, 8]}>
+            <Col span={24}>
+              <TransitionSummary matrix={changeStats} />
+            </Col>
+            <Col span={12}>
+              <Statistic
+                title={`Average change ${changeStats.fromYear} → ${changeStats.toYear}`}
+                value={averageChange ?? '–'}
+                precision={averageChange === null ? undefined : getValueDecimals(activeKpi)}
+                prefix={averageChange !== null && averageChange > 0 ? '+' : undefined}
+                suffix={changeUnit || undefined}
+                valueStyle={{
+                  color: averageChangeDirection === 'better'
+                    ? token.colorSuccess
+                    : averageChangeDirection === 'worse' ? token.colorError : undefined
+                }}
+              />
+            </Col>
+            <Col span={12}>
+              <Statistic title="Compared (km)" value={changeStats.totalKm} precision={1} />
+            </Col>
+          </Row>
+        ) : (
+          <div style={{ fontSize: 12, color: token.colorTextSecondary }}>
+            No segments have {KPI_LABELS[activeKpi]} data in both {changeFromYear} and {changeToYear} for the current filters.
+          </div>
+        )}
+        <Divider style={{ margin: '12px 0' }} />
+      </div>
+
+      {/* Projection - flagged separately from measured survey data */}
+      <div style={{ marginBottom: 12 }}>
+        <Space style={{ width: '100%', justifyContent: 'space-between', marginBottom: 8 }} wrap>
+          <Space>
+            <LineChartOutlined />
+            <span style={{ fontSize: 14, fontWeight: 600 }}>Projection</span>
+          </Space>
+          <Space size="small">
+            <Select<number>
+              size="small"
+              allowClear
+              placeholder="Forecast year"
+              value={forecastYear ?? undefined}
+              options={FORECAST_YEARS.map(year => ({ label: `${year}`, value: year }))}
+              onChange={(year) => setForecastYear(year ?? null)}
+              disabled={!isForecastKpi}
+              style={{ width: 120 }}
+            />
+            <Tooltip title="Per segment uses each segment's own trend where it has one; per subgroup uses the median trend of its road subgroup">
+              <Segmented<ForecastMethod>
+                size="small"
+                value={forecastMethod}
+                options={[
+                  { label: 'Segment', value: 'segment' },
+                  { label: 'Subgroup', value: 'subgroup' }
+                ]}
+                onChange={setForecastMethod}
+                disabled={!forecastYear || !isForecastKpi}
+              />
+            </Tooltip>
+          </Space>
+        </Space>
+
+        {!isForecastKpi ? (
+          <div style={{ fontSize: 12, color: token.colorTextSecondary }}>
+            Forecasts are available for {FORECAST_KPIS.map(kpi => KPI_LABELS[kpi]).join(', ')}.
+          </div>
+        ) : forecastYear && isCalculatingProjection ? (
+          <div style={{ textAlign: 'center', padding: 12 }}>
+            <Spin size="small" /> <span style={{ color: token.colorTextSecondary }}>Projecting to {forecastYear}...</span>
+          </div>
+        ) : forecastYear && projectedStats ? (
+          <Row gutter={[8, 8]}>
+            <Col span={24}>
+              <Tag color="orange">Projected {projectedStats.year}</Tag>
+              <span style={{ fontSize: 12, color: token.colorTextSecondary }}>
+                Modelled from {projectedStats.projection?.baseYears.join(', ')} surveys, not measured
+              </span>
+            </Col>
+            <Col span={8}><Statistic title="Average" value={projectedStats.avgValue} precision={2} /></Col>
+            <Col span={8}>
+              <Statistic title="Fair or Better" value={projectedStats.fairOrBetterPct} precision={1} suffix="%" />
+            </Col>
+            {measuredStats && (
+              <Col span={8}>
+                <Statistic
+                  title={`Change vs ${measuredStats.year}`}
+                  value={projectedStats.fairOrBetterPct - measuredStats.fairOrBetterPct}
+                  precision={1}
+                  suffix="pts"
+                  valueStyle={{
+                    color: projectedStats.fairOrBetterPct < measuredStats.fairOrBetterPct ? token.colorError : token.colorSuccess
+                  }}
+                />
+              </Col>
+            )}
+            <Col span={24}>
+              <div style={{ fontSize: 12, color: token.colorTextSecondary }}>
+                Very Good {projectedStats.veryGoodPct.toFixed(1)}% · Good {projectedStats.goodPct.toFixed(1)}% ·
+                Fair {projectedStats.fairPct.toFixed(1)}% · Poor {projectedStats.poorPct.toFixed(1)}% ·
+                Very Poor {projectedStats.veryPoorPct.toFixed(1)}%
+              </div>
+            </Col>
+          </Row>
+        ) : (
+          <div style={{ fontSize: 12, color: token.colorTextSecondary }}>
+            Choose a forecast year to project the condition distribution.
+          </div>
+        )}
+        <Divider style={{ margin: '12px 0' }} />
+      </div>
+
       <div style={{ fontSize: 12, opacity: 0.7, color: token.colorTextSecondary }}>
         {/* FIXED: Use lastUpdated from displayStats */}
         {isChartFilterActive ? 'Chart selection data' : `Updated for ${selectedYear} data`}: {new Date(displayStats.lastUpdated).toLocaleString()}
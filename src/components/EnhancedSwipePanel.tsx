@@ -1,12 +1,19 @@
 import React, { useState, useEffect, useCallback, FC, useMemo } from 'react';
-import { Card, Select, Button, Space, Radio, Divider, Typography, message } from 'antd';
+import { Card, Select, Button, Space, Radio, Divider, Segmented, Typography, message } from 'antd';
 import { SwapOutlined, CloseOutlined } from '@ant-design/icons';
 import useAppStore from '@/store/useAppStore';
 import type { LAMetricType } from '@/config/appConfig';
+import { KPI_LABELS, type KPIKey } from '@/config/kpiConfig';
 import type Swipe from '@arcgis/core/widgets/Swipe';
 import type FeatureLayer from '@arcgis/core/layers/FeatureLayer';
 import { usePanelStyles } from '@/styles/styled';
-import { cloneLALayer, removeClonedLayer } from '@/utils/layerCloneHelper';
+import {
+  applySpatialFilterToClone,
+  cloneLALayer,
+  cloneRoadLayer,
+  followDefinitionExpression,
+  removeClonedLayer
+} from '@/utils/layerCloneHelper';
 
 const { Text } = Typography;
 
@@ -16,13 +23,21 @@ const YEAR_OPTIONS = [
   { label: '2025', value: 2025 }
 ];
 
+/** Road segments (segment-level symbology) or LA polygons (county summaries) */
+type SwipeLayerType = 'roads' | 'la';
+
+const KPI_OPTIONS = (Object.keys(KPI_LABELS) as KPIKey[]).map(kpi => ({ label: KPI_LABELS[kpi], value: kpi }));
+
 const EnhancedSwipePanel: FC = () => {
   const { styles } = usePanelStyles();
   const {
     mapView,
     webmap,
+    roadLayer,
     laLayer,
     activeKpi,
+    currentFilters,
+    thresholdRevision,
     leftSwipeYear,
     rightSwipeYear,
     setSwipeYears,
@@ -33,12 +48,22 @@ const EnhancedSwipePanel: FC = () => {
     exitSwipeMode,
     setShowSwipe,
     themeMode,
+    getRoadDataSource,
   } = useAppStore();
 
   const [swipeWidget, setSwipeWidget] = useState<Swipe | null>(null);
   const [leftClone, setLeftClone] = useState<FeatureLayer | null>(null);
   const [rightClone, setRightClone] = useState<FeatureLayer | null>(null);
   const [direction, setDirection] = useState<'horizontal' | 'vertical'>('horizontal');
+  const [layerType, setLayerType] = useState<SwipeLayerType>('la');
+  // Road comparisons can show a different KPI on each side (null = the active KPI)
+  const [leftKpiOverride, setLeftKpiOverride] = useState<KPIKey | null>(null);
+  const [rightKpiOverride, setRightKpiOverride] = useState<KPIKey | null>(null);
+
+  const isRoadComparison = layerType === 'roads';
+  const leftKpi = isRoadComparison ? leftKpiOverride ?? activeKpi : activeKpi;
+  const rightKpi = isRoadComparison ? rightKpiOverride ?? activeKpi : activeKpi;
+  const isSameView = leftSwipeYear === rightSwipeYear && leftKpi === rightKpi;
 
   /**
    * Deactivates and destroys the swipe widget
@@ -72,13 +97,14 @@ const EnhancedSwipePanel: FC = () => {
    * MODIFIED: Now awaits async cloneLALayer calls for continuous gradient support
    */
   const activateSwipe = useCallback(async () => {
-    if (!mapView || !webmap || !laLayer) {
+    const sourceLayer = isRoadComparison ? roadLayer : laLayer;
+    if (!mapView || !webmap || !sourceLayer) {
       message.error('Map not initialized');
       return;
     }
 
-    if (leftSwipeYear === rightSwipeYear) {
-      message.warning('Please select different years');
+    if (isSameView) {
+      message.warning(isRoadComparison ? 'Please select different years or KPIs' : 'Please select different years');
       return;
     }
 
@@ -91,24 +117,29 @@ const EnhancedSwipePanel: FC = () => {
       const loadingKey = 'swipe-loading';
       message.loading({ content: 'Preparing comparison layers...', key: loadingKey, duration: 0 });
 
-      // Create clones in parallel for better performance
-      // Each clone queries max values from the data to create dynamic gradients
-      const [left, right] = await Promise.all([
+      // Road clones start from the applied filters; LA clones are created in parallel
+      // and each queries max values from the data to create dynamic gradients
+      const [left, right] = isRoadComparison ? [
+        cloneRoadLayer(sourceLayer, leftKpi, leftSwipeYear, themeMode, `${KPI_LABELS[leftKpi]} ${leftSwipeYear}`),
+        cloneRoadLayer(sourceLayer, rightKpi, rightSwipeYear, themeMode, `${KPI_LABELS[rightKpi]} ${rightSwipeYear}`)
+      ] : await Promise.all([
         cloneLALayer(
-          laLayer,
+          sourceLayer,
           activeKpi,
           leftSwipeYear,
           laMetricType,
           themeMode,
-          `${activeKpi.toUpperCase()} ${leftSwipeYear}`
+          `${activeKpi.toUpperCase()} ${leftSwipeYear}`,
+          getRoadDataSource()
         ),
         cloneLALayer(
-          laLayer,
+          sourceLayer,
           activeKpi,
           rightSwipeYear,
           laMetricType,
           themeMode,
-          `${activeKpi.toUpperCase()} ${rightSwipeYear}`
+          `${activeKpi.toUpperCase()} ${rightSwipeYear}`,
+          getRoadDataSource()
         )
       ]);
 
@@ -135,7 +166,12 @@ const EnhancedSwipePanel: FC = () => {
       setSwipeWidget(swipe);
 
       // Dismiss loading and show success
-      message.success({ content: `Comparing ${leftSwipeYear} vs ${rightSwipeYear}`, key: loadingKey, duration: 2 });
+      const describe = (kpi: KPIKey, year: number) => (leftKpi === rightKpi ? `${year}` : `${KPI_LABELS[kpi]} ${year}`);
+      message.success({
+        content: `Comparing ${describe(leftKpi, leftSwipeYear)} vs ${describe(rightKpi, rightSwipeYear)}`,
+        key: loadingKey,
+        duration: 2
+      });
 
     } catch (error) {
       console.error('[Swipe] Error:', error);
@@ -149,7 +185,7 @@ const EnhancedSwipePanel: FC = () => {
 
       exitSwipeMode();
     }
-  }, [mapView, webmap, laLayer, activeKpi, leftSwipeYear, rightSwipeYear, laMetricType, themeMode, direction, leftClone, rightClone, enterSwipeMode, exitSwipeMode]);
+  }, [mapView, webmap, roadLayer, laLayer, activeKpi, leftKpi, rightKpi, isRoadComparison, isSameView, leftSwipeYear, rightSwipeYear, laMetricType, themeMode, direction, leftClone, rightClone, enterSwipeMode, exitSwipeMode, getRoadDataSource]);
 
   // Effect to clean up widget on unmount
   useEffect(() => {
@@ -160,13 +196,28 @@ const EnhancedSwipePanel: FC = () => {
     };
   }, [swipeWidget, deactivateSwipe]);
 
-  // Restart comparison if KPI or metric changes
+  // Road clones follow the filters applied while comparing, including an
+  // extent filter as the map moves
+  useEffect(() => {
+    if (!mapView || !roadLayer || !isRoadComparison || !leftClone || !rightClone) return;
+
+    const clones = [leftClone, rightClone];
+    clones.forEach(layer => {
+      applySpatialFilterToClone(mapView, layer, currentFilters.spatial).catch(error =>
+        console.error('[Swipe] Error applying the area filter:', error)
+      );
+    });
+    const handle = followDefinitionExpression(roadLayer, clones);
+    return () => handle.remove();
+  }, [mapView, roadLayer, isRoadComparison, leftClone, rightClone, currentFilters.spatial]);
+
+  // Restart comparison if KPI, metric or thresholds change
   useEffect(() => {
     if (isSwipeActive && swipeWidget) {
       deactivateSwipe();
       setTimeout(() => activateSwipe(), 100);
     }
-  }, [activeKpi, laMetricType]);
+  }, [activeKpi, laMetricType, thresholdRevision]);
 
   // Effect to update swipe widget direction if it changes
   useEffect(() => {
@@ -201,6 +252,21 @@ const EnhancedSwipePanel: FC = () => {
         }
       >
         <Space direction="vertical" style={{ width: '100%' }} size="middle">
+          <div>
+            <Text strong>Compare:</Text>
+            <Segmented<SwipeLayerType>
+              value={layerType}
+              onChange={setLayerType}
+              options={[
+                { label: 'Road Network', value: 'roads' },
+                { label: 'Local Authorities', value: 'la' }
+              ]}
+              block
+              disabled={isSwipeActive}
+              style={{ marginTop: 8 }}
+            />
+          </div>
+
           {/* Year Selectors */}
           <div>
             <Text strong>Left/Top Year:</Text>
@@ -211,6 +277,15 @@ const EnhancedSwipePanel: FC = () => {
               options={YEAR_OPTIONS}
               disabled={isSwipeActive}
             />
+            {isRoadComparison && (
+              <Select
+                value={leftKpi}
+                onChange={(kpi) => setLeftKpiOverride(kpi === activeKpi ? null : kpi)}
+                style={{ width: '100%', marginTop: 8 }}
+                options={KPI_OPTIONS}
+                disabled={isSwipeActive}
+              />
+            )}
           </div>
           
           <div>
@@ -222,38 +297,53 @@ const EnhancedSwipePanel: FC = () => {
               options={YEAR_OPTIONS}
               disabled={isSwipeActive}
             />
+            {isRoadComparison && (
+              <Select
+                value={rightKpi}
+                onChange={(kpi) => setRightKpiOverride(kpi === activeKpi ? null : kpi)}
+                style={{ width: '100%', marginTop: 8 }}
+                options={KPI_OPTIONS}
+                disabled={isSwipeActive}
+              />
+            )}
           </div>
           
           <Divider style={{ margin: '8px 0' }} />
           
           {/* Visualization Mode (from LALayerControl) [cite: RMO_SPRINT_ROADMAP.md] */}
-          <div>
-            <Text strong>Visualization Mode:</Text>
-            <Radio.Group 
-              value={laMetricType}
-              onChange={(e) => setLAMetricType(e.target.value)}
-              style={{ marginTop: 8, width: '100%' }}
-            >
-              <Space direction="vertical" style={{ width: '100%' }}>
-                <Radio value="average">
-                  <Space direction="vertical" size={0}>
-                    <Text>Average Values</Text>
-                    <Text type="secondary" style={{ fontSize: '12px' }}>
-                      County average KPI values
-                    </Text>
-                  </Space>
-                </Radio>
-                <Radio value="fairOrBetter">
-                  <Space direction="vertical" size={0}>
-                    <Text>Fair or Better %</Text>
-                    <Text type="secondary" style={{ fontSize: '12px' }}>
-                      % of roads in acceptable condition
-                    </Text>
-                  </Space>
-                </Radio>
-              </Space>
-            </Radio.Group>
-          </div>
+          {isRoadComparison ? (
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              Segments are coloured by condition class and limited to the applied filters.
+            </Text>
+          ) : (
+            <div>
+              <Text strong>Visualization Mode:</Text>
+              <Radio.Group 
+                value={laMetricType}
+                onChange={(e) => setLAMetricType(e.target.value)}
+                style={{ marginTop: 8, width: '100%' }}
+              >
+                <Space direction="vertical" style={{ width: '100%' }}>
+                  <Radio value="average">
+                    <Space direction="vertical" size={0}>
+                      <Text>Average Values</Text>
+                      <Text type="secondary" style={{ fontSize: '12px' }}>
+                        County average KPI values
+                      </Text>
+                    </Space>
+                  </Radio>
+                  <Radio value="fairOrBetter">
+                    <Space direction="vertical" size={0}>
+                      <Text>Fair or Better %</Text>
+                      <Text type="secondary" style={{ fontSize: '12px' }}>
+                        % of roads in acceptable condition
+                      </Text>
+                    </Space>
+                  </Radio>
+                </Space>
+              </Radio.Group>
+            </div>
+          )}
           
           <Divider style={{ margin: '8px 0' }} />
           
@@ -277,7 +367,7 @@ const EnhancedSwipePanel: FC = () => {
               type="primary" 
               block 
               onClick={activateSwipe}
-              disabled={leftSwipeYear === rightSwipeYear}
+              disabled={isSameView}
               icon={<SwapOutlined />}
             >
               Start Comparison
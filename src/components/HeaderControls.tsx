@@ -1,8 +1,13 @@
 // src/components/HeaderControls.tsx
 import React, { useState, useEffect } from 'react';
-import { Segmented, Switch, Space } from 'antd';
+import { useLocation } from 'react-router-dom';
+import { Button, Segmented, Switch, Space, Tooltip, message } from 'antd';
+import { LinkOutlined, SettingOutlined } from '@ant-design/icons';
 import useAppStore from '@/store/useAppStore';
-import { KPI_LABELS, type KPIKey } from '@/config/kpiConfig';
+import { KPI_LABELS, isCompositeKPI, type KPIKey } from '@/config/kpiConfig';
+import { withDashboardState } from '@/utils/urlState';
+import CompositeIndexSettings from './CompositeIndexSettings';
+import SavedViewsSettings from './SavedViewsSettings';
 
 interface HeaderControlsProps {
   visible: boolean; // Only show on Overview page
@@ -20,11 +25,24 @@ const HeaderControls: React.FC<HeaderControlsProps> = ({ visible }) => {
     setShowChart,
     showSwipe,
     setShowSwipe,
+    showTransitions,
+    setShowTransitions,
+    showTreatments,
+    setShowTreatments,
+    showHotspots,
+    setShowHotspots,
+    showSegments,
+    setShowSegments,
+    showSplitView,
+    setShowSplitView,
     activeKpi,
     setActiveKpi,
+    getDashboardUrlState,
   } = useAppStore();
+  const location = useLocation();
 
   const [isHoveringChart, setIsHoveringChart] = useState(false);
+  const [compositeSettingsOpen, setCompositeSettingsOpen] = useState(false);
 
   // Preload chart component when hovering
   useEffect(() => {
@@ -37,6 +55,18 @@ const HeaderControls: React.FC<HeaderControlsProps> = ({ visible }) => {
     return null;
   }
 
+  const copyLink = async () => {
+    const params = withDashboardState(new URLSearchParams(location.search), getDashboardUrlState());
+    const url = `${window.location.origin}${location.pathname}?${params}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      message.success('Link to this view copied to the clipboard');
+    } catch (err) {
+      console.error('[HeaderControls] Error copying link:', err);
+      message.error('Could not copy the link; copy it from the address bar instead');
+    }
+  };
+
   return (
     <Space size="small">
       {/* KPI Selector */}
@@ -50,6 +80,14 @@ const HeaderControls: React.FC<HeaderControlsProps> = ({ visible }) => {
         size="small"
       />
 
+      {/* Composite Index Weights */}
+      {isCompositeKPI(activeKpi) && (
+        <Tooltip title="Composite index weights">
+          <Button size="small" icon={<SettingOutlined />} onClick={() => setCompositeSettingsOpen(true)} />
+        </Tooltip>
+      )}
+      <CompositeIndexSettings open={compositeSettingsOpen} onClose={() => setCompositeSettingsOpen(false)} />
+
       {/* Filter Toggle */}
       <Switch
         checked={showFilters}
@@ -88,6 +126,61 @@ const HeaderControls: React.FC<HeaderControlsProps> = ({ visible }) => {
         size="small"
       />
 
+      {/* Transitions Toggle */}
+      <Switch
+        checked={showTransitions}
+        onChange={setShowTransitions}
+        checkedChildren="Transitions"
+        unCheckedChildren="Transitions"
+        size="small"
+      />
+
+      {/* Treatments Toggle */}
+      <Switch
+        checked={showTreatments}
+        onChange={setShowTreatments}
+        checkedChildren="Treatments"
+        unCheckedChildren="Treatments"
+        size="small"
+      />
+
+      {/* Hotspots Toggle */}
+      <Switch
+        checked={showHotspots}
+        onChange={setShowHotspots}
+        checkedChildren="Hotspots"
+        unCheckedChildren="Hotspots"
+        size="small"
+      />
+
+      {/* Segments Toggle */}
+      <Switch
+        checked={showSegments}
+        onChange={setShowSegments}
+        checkedChildren="Segments"
+        unCheckedChildren="Segments"
+        size="small"
+      />
+
+      {/* Split View Toggle */}
+      <Switch
+        checked={showSplitView}
+        onChange={setShowSplitView}
+        checkedChildren="Split"
+        unCheckedChildren="Split"
+        size="small"
+      />
+
+      {/* Saved Views */}
+      <SavedViewsSettings />
+
+      {/* Shareable Link */}
+      <Tooltip title="Copy a link to this view (KPI, year, filters and chart selections)">
+        <Button size="small" icon={<LinkOutlined />} onClick={copyLink}>
+          Copy link
+        </Button>
+      </Tooltip>
+
       {/* Theme Toggle */}
       <Switch
         checked={themeMode === 'dark'}
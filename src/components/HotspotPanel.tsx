@@ -0,0 +1,249 @@
+// src/components/HotspotPanel.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Card, InputNumber, Progress, Space, Spin, Table, Tag, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import GraphicsLayer from '@arcgis/core/layers/GraphicsLayer';
+import Graphic from '@arcgis/core/Graphic';
+import SimpleLineSymbol from '@arcgis/core/symbols/SimpleLineSymbol';
+import useAppStore from '@/store/useAppStore';
+import {
+  DEFAULT_HOTSPOT_MAX_GAP,
+  DEFAULT_HOTSPOT_MIN_SEGMENTS,
+  MAP_ANIMATION_DURATION,
+  SEGMENT_LENGTH_METERS
+} from '@/config/constants';
+import { KPI_LABELS, getKPIClassification } from '@/config/kpiConfig';
+import { HOTSPOT_COLORS } from '@/config/rendererConfig';
+import type { AggregationProgress } from '@/services/AggregationService';
+import HotspotService, { type Hotspot, type HotspotResult } from '@/services/HotspotService';
+import PaginationService from '@/services/PaginationService';
+
+const { Text } = Typography;
+
+const createSymbol = (selected: boolean) => new SimpleLineSymbol({
+  color: selected ? HOTSPOT_COLORS.selected : HOTSPOT_COLORS.line,
+  width: selected ? 8 : 6,
+  cap: 'round',
+  join: 'round'
+});
+
+/**
+ * Dashboard panel listing poor-condition hotspots for the active KPI and
+ * survey year: runs of consecutive Poor / Very Poor segments along a route.
+ * Hotspots are drawn over the road layer and clicking a row zooms to it.
+ * Runs and lengths follow segment order, so they are approximate.
+ */
+const HotspotPanel: React.FC = () => {
+  const {
+    mapView,
+    getRoadDataSource,
+    activeKpi,
+    currentFilters,
+    thresholdRevision,
+    compositeWeights
+  } = useAppStore();
+  // Dashboard source: a loaded local extract, else the hosted layer, with the area filter
+  const roadData = getRoadDataSource();
+
+  const [minSegments, setMinSegments] = useState(DEFAULT_HOTSPOT_MIN_SEGMENTS);
+  const [maxGap, setMaxGap] = useState(DEFAULT_HOTSPOT_MAX_GAP);
+  const [result, setResult] = useState<HotspotResult | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<AggregationProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const graphicsLayerRef = useRef<GraphicsLayer | null>(null);
+
+  const { localAuthority, subgroup, route, kpiRanges, conditionClasses, spatial, year } = currentFilters;
+  const classification = getKPIClassification(activeKpi);
+
+  // Hotspot layer lives as long as the panel
+  useEffect(() => {
+    if (!mapView?.map) return;
+
+    const layer = new GraphicsLayer({ title: 'Poor-Condition Hotspots' });
+    mapView.map.add(layer);
+    graphicsLayerRef.current = layer;
+
+    return () => {
+      mapView.map?.remove(layer);
+      layer.destroy();
+      graphicsLayerRef.current = null;
+    };
+  }, [mapView]);
+
+  useEffect(() => {
+    if (!roadData) return;
+
+    const controller = new AbortController();
+    setError(null);
+    setSelectedId(null);
+    setProgress({ phase: 'querying', processed: 0, total: 0, percent: 0, message: 'Loading segments...' });
+
+    HotspotService.findHotspots(
+      roadData,
+      activeKpi,
+      year,
+      { localAuthority, subgroup, route, kpiRanges, conditionClasses },
+      { minSegments, maxGap },
+      setProgress,
+      controller.signal
+    )
+      .then(setResult)
+      .catch(err => {
+        if (PaginationService.isAbortError(err)) return;
+        console.error('[HotspotPanel] Error finding hotspots:', err);
+        setError(err instanceof Error ? err.message : 'Failed to find hotspots');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [roadData, activeKpi, year, localAuthority, subgroup, route, kpiRanges, conditionClasses, spatial, minSegments, maxGap, thresholdRevision, compositeWeights]);
+
+  // Redraw when the hotspots or the selection change
+  useEffect(() => {
+    const layer = graphicsLayerRef.current;
+    if (!layer) return;
+
+    layer.removeAll();
+    if (!result) return;
+
+    layer.addMany(result.hotspots
+      .filter(hotspot => hotspot.geometry)
+      .map(hotspot => new Graphic({
+        geometry: hotspot.geometry as unknown as __esri.Polyline,
+        symbol: createSymbol(hotspot.id === selectedId),
+        attributes: { id: hotspot.id, rank: hotspot.rank, route: hotspot.route, lengthKm: hotspot.lengthKm }
+      })));
+  }, [result, selectedId, mapView]);
+
+  const zoomTo = (hotspot: Hotspot) => {
+    setSelectedId(hotspot.id);
+
+    const graphic = graphicsLayerRef.current?.graphics.find(g => g.attributes.id === hotspot.id);
+    if (!mapView || !graphic) return;
+
+    mapView.goTo(graphic, { duration: MAP_ANIMATION_DURATION, easing: 'ease-in-out' }).catch(err => {
+      if (!PaginationService.isAbortError(err)) console.error('[HotspotPanel] Error zooming to hotspot:', err);
+    });
+  };
+
+  const formatValue = (value: number | null) =>
+    value === null ? '-' : `${value.toFixed(Math.max(classification.decimals, 1))}${classification.unit ? ` ${classification.unit}` : ''}`;
+
+  const columns: ColumnsType<Hotspot> = [
+    {
+      title: '#',
+      dataIndex: 'rank',
+      key: 'rank',
+      width: 50
+    },
+    {
+      title: 'Route',
+      dataIndex: 'route',
+      key: 'route',
+      width: 90
+    },
+    {
+      title: 'Local Authority',
+      dataIndex: 'la',
+      key: 'la',
+      ellipsis: true,
+      render: (la: string | null) => la ?? <Text type="secondary">-</Text>
+    },
+    {
+      title: 'Length (km, approx.)',
+      dataIndex: 'lengthKm',
+      key: 'lengthKm',
+      align: 'right',
+      width: 100,
+      sorter: (a, b) => a.lengthKm - b.lengthKm,
+      render: (lengthKm: number) => lengthKm.toFixed(1)
+    },
+    {
+      title: 'Poor',
+      key: 'poorShare',
+      align: 'right',
+      width: 70,
+      render: (_, hotspot) => `${Math.round((hotspot.poorSegments / hotspot.segmentIds.length) * 100)}%`
+    },
+    {
+      title: `Mean ${KPI_LABELS[activeKpi]}`,
+      dataIndex: 'meanValue',
+      key: 'meanValue',
+      align: 'right',
+      width: 110,
+      render: formatValue
+    }
+  ];
+
+  return (
+    <Card
+      size="small"
+      title={
+        <Space>
+          Poor-Condition Hotspots
+          <Tag>{KPI_LABELS[activeKpi]} {year}</Tag>
+        </Space>
+      }
+      extra={result && !progress && (
+        <Text type="secondary" style={{ fontSize: 12 }}>
+          {result.hotspots.length} hotspots, ~{result.totalLengthKm.toFixed(1)} km (approximate, segment order)
+        </Text>
+      )}
+    >
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Space wrap>
+          <Text style={{ fontSize: 12 }}>Minimum run</Text>
+          <InputNumber
+            size="small"
+            min={2}
+            max={100}
+            value={minSegments}
+            onChange={value => value && setMinSegments(value)}
+            addonAfter={`x ${SEGMENT_LENGTH_METERS} m`}
+            style={{ width: 130 }}
+          />
+          <Text style={{ fontSize: 12 }}>Allowed gap</Text>
+          <InputNumber
+            size="small"
+            min={0}
+            max={10}
+            value={maxGap}
+            onChange={value => value !== null && setMaxGap(value)}
+            addonAfter="segments"
+            style={{ width: 130 }}
+          />
+        </Space>
+
+        {error ? (
+          <Alert type="error" showIcon message="Hotspot detection failed" description={error} />
+        ) : progress || !result ? (
+          <div style={{ textAlign: 'center', padding: 24 }}>
+            {progress ? <Progress percent={progress.percent} size="small" /> : <Spin />}
+            <Text type="secondary" style={{ fontSize: 12 }}>{progress?.message}</Text>
+          </div>
+        ) : (
+          <Table
+            dataSource={result.hotspots}
+            columns={columns}
+            rowKey="id"
+            size="small"
+            pagination={{ pageSize: 10, size: 'small', showSizeChanger: false }}
+            scroll={{ y: 320 }}
+            rowClassName={hotspot => (hotspot.id === selectedId ? 'ant-table-row-selected' : '')}
+            onRow={hotspot => ({ onClick: () => zoomTo(hotspot), style: { cursor: 'pointer' } })}
+            locale={{ emptyText: `No runs of ${minSegments} or more poor segments` }}
+          />
+        )}
+        <Text type="secondary" style={{ fontSize: 12 }}>
+          Lengths are approximate (segment order): the layer has no chainage field, so runs are found
+          with segments taken as {SEGMENT_LENGTH_METERS} m each in the order they were digitised.
+        </Text>
+      </Space>
+    </Card>
+  );
+};
+
+export default HotspotPanel;
@@ -1,9 +1,11 @@
 import React from 'react';
-import { Spin } from 'antd';
+import { Progress, Spin } from 'antd';
 
 interface LoadingOverlayProps {
   visible: boolean;
   message?: string | null;
+  /** Optional completion percentage (0-100) shown below the message */
+  progress?: number | null;
 }
 
 const overlayStyle: React.CSSProperties = {
@@ -36,7 +38,12 @@ const messageStyle: React.CSSProperties = {
   color: '#1f2937',
 };
 
-const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ visible, message }) => {
+const progressStyle: React.CSSProperties = {
+  marginTop: 12,
+  width: 200,
+};
+
+const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ visible, message, progress }) => {
   if (!visible) {
     return null;
   }
@@ -46,6 +53,9 @@ const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ visible, message }) =>
       <div style={cardStyle}>
         <Spin size="large" />
         {message ? <div style={messageStyle}>{message}</div> : null}
+        {progress !== null && progress !== undefined ? (
+          <Progress style={progressStyle} percent={Math.round(progress)} size="small" status="active" />
+        ) : null}
       </div>
     </div>
   );
@@ -0,0 +1,321 @@
+// src/components/RouteProfilePanel.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Checkbox, Drawer, Empty, Select, Space, Spin, Switch, Tag, Typography, theme } from 'antd';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  type ChartOptions,
+  type Plugin
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import GraphicsLayer from '@arcgis/core/layers/GraphicsLayer';
+import Graphic from '@arcgis/core/Graphic';
+import SimpleLineSymbol from '@arcgis/core/symbols/SimpleLineSymbol';
+import useAppStore from '@/store/useAppStore';
+import { SURVEY_YEARS, type SurveyYear } from '@/config/constants';
+import { COMPOSITE_KPI, KPI_LABELS, MEASURED_KPIS, getKPIClassification, type KPIKey } from '@/config/kpiConfig';
+import { HOTSPOT_COLORS, SURVEY_YEAR_COLORS } from '@/config/rendererConfig';
+import PaginationService from '@/services/PaginationService';
+import RouteProfileService, { type RouteProfile, type RouteProfileSegment } from '@/services/RouteProfileService';
+import { getConditionColors } from '@/utils/themeHelpers';
+import {
+  getClassBandRanges,
+  getProfileAxisRange,
+  getSeriesKey,
+  type ClassBandRange
+} from '@/utils/routeProfile';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+const { Text } = Typography;
+
+const PROFILE_KPIS: KPIKey[] = [...MEASURED_KPIS, COMPOSITE_KPI];
+
+const SINGLE_TRACK_HEIGHT = 260;
+const STACKED_TRACK_HEIGHT = 140;
+
+const toCssColor = (rgba: number[], alpha?: number) =>
+  `rgba(${rgba[0]}, ${rgba[1]}, ${rgba[2]}, ${alpha ?? rgba[3]})`;
+
+/**
+ * Shades the condition class bands behind the profile lines
+ */
+const createClassBandsPlugin = (bands: ClassBandRange[], colors: Record<string, number[]>): Plugin<'line'> => ({
+  id: 'classBands',
+  beforeDatasetsDraw: chart => {
+    const { ctx, chartArea, scales } = chart;
+    ctx.save();
+    bands.forEach(band => {
+      const top = scales.y.getPixelForValue(band.to);
+      const bottom = scales.y.getPixelForValue(band.from);
+      ctx.fillStyle = toCssColor(colors[band.conditionClass], 0.18);
+      ctx.fillRect(chartArea.left, Math.min(top, bottom), chartArea.width, Math.abs(bottom - top));
+    });
+    ctx.restore();
+  }
+});
+
+interface ProfileTrackProps {
+  profile: RouteProfile;
+  kpi: KPIKey;
+  years: SurveyYear[];
+  height: number;
+  compact: boolean;
+  onHoverSegment: (segment: RouteProfileSegment | null) => void;
+}
+
+/**
+ * One KPI plotted against chainage, a line per survey year
+ */
+const ProfileTrack: React.FC<ProfileTrackProps> = ({ profile, kpi, years, height, compact, onHoverSegment }) => {
+  const { token } = theme.useToken();
+  const classification = getKPIClassification(kpi);
+  const colors = useMemo(() => getConditionColors(), [token]);
+
+  const axis = useMemo(
+    () => getProfileAxisRange(
+      classification,
+      profile.segments.flatMap(segment => years.map(year => segment.values[getSeriesKey(kpi, year)]))
+    ),
+    [classification, profile, kpi, years]
+  );
+
+  const plugins = useMemo(
+    () => [createClassBandsPlugin(getClassBandRanges(classification, axis), colors)],
+    [classification, axis, colors]
+  );
+
+  const data = {
+    datasets: years.map(year => ({
+      label: String(year),
+      data: profile.segments.map(segment => ({ x: segment.chainageKm, y: segment.values[getSeriesKey(kpi, year)] })),
+      borderColor: SURVEY_YEAR_COLORS[year],
+      backgroundColor: SURVEY_YEAR_COLORS[year],
+      borderWidth: 1.5,
+      pointRadius: 0,
+      pointHoverRadius: 3,
+      stepped: 'after' as const,
+      spanGaps: false
+    }))
+  };
+
+  const options: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    parsing: false,
+    interaction: { mode: 'index', intersect: false },
+    onHover: (_, elements) => onHoverSegment(elements.length > 0 ? profile.segments[elements[0].index] : null),
+    plugins: {
+      legend: { display: !compact, position: 'top', labels: { color: token.colorText, boxWidth: 12 } },
+      tooltip: {
+        callbacks: {
+          title: items => {
+            const segment = profile.segments[items[0]?.dataIndex ?? 0];
+            return `~${segment.chainageKm.toFixed(1)} km, approximate (segment order)${segment.la ? ` · ${segment.la}` : ''}`;
+          },
+          label: item => `${item.dataset.label}: ${item.parsed.y === null ? 'No data' : item.parsed.y.toFixed(classification.decimals || 1)}`
+        }
+      }
+    },
+    scales: {
+      x: {
+        type: 'linear',
+        min: 0,
+        max: profile.lengthKm,
+        title: { display: !compact, text: 'Approximate chainage (km, segment order)', color: token.colorTextSecondary },
+        ticks: { color: token.colorTextSecondary },
+        grid: { color: token.colorBorderSecondary }
+      },
+      y: {
+        min: axis.min,
+        max: axis.max,
+        // Lower-is-better KPIs are flipped so good condition is always at the top
+        reverse: !classification.higherIsBetter,
+        title: {
+          display: true,
+          text: classification.unit ? `${KPI_LABELS[kpi]} (${classification.unit})` : KPI_LABELS[kpi],
+          color: token.colorTextSecondary
+        },
+        ticks: { color: token.colorTextSecondary },
+        grid: { color: token.colorBorderSecondary }
+      }
+    }
+  };
+
+  return (
+    <div style={{ height }} onMouseLeave={() => onHoverSegment(null)}>
+      <Line data={data} options={options} plugins={plugins} />
+    </div>
+  );
+};
+
+interface RouteProfilePanelProps {
+  open: boolean;
+  onClose: () => void;
+  /** Routes to choose from, normally the route filter selection */
+  routes: string[];
+}
+
+/**
+ * Bottom drawer with the linear condition profile of a route. Hovering the
+ * chart highlights the segment under the cursor on the map.
+ */
+const RouteProfilePanel: React.FC<RouteProfilePanelProps> = ({ open, onClose, routes }) => {
+  const { mapView, roadLayer, roadDataSource, activeKpi, compositeWeights } = useAppStore();
+  // A loaded local extract takes precedence over the hosted layer; the profile ignores their filters
+  const roadData = roadDataSource ?? roadLayer;
+
+  const [route, setRoute] = useState<string | null>(routes[0] ?? null);
+  const [kpi, setKpi] = useState<KPIKey>(activeKpi);
+  const [allKpis, setAllKpis] = useState(false);
+  const [years, setYears] = useState<SurveyYear[]>([...SURVEY_YEARS]);
+  const [profile, setProfile] = useState<RouteProfile | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const graphicsLayerRef = useRef<GraphicsLayer | null>(null);
+
+  // Keep the route valid as the route filter changes
+  useEffect(() => {
+    if (!route || !routes.includes(route)) setRoute(routes[0] ?? null);
+  }, [routes, route]);
+
+  useEffect(() => {
+    if (open) setKpi(activeKpi);
+  }, [open, activeKpi]);
+
+  useEffect(() => {
+    if (!open || !roadData || !route) return;
+
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    RouteProfileService.getRouteProfile(roadData, route, controller.signal)
+      .then(setProfile)
+      .catch(err => {
+        if (PaginationService.isAbortError(err)) return;
+        console.error('[RouteProfilePanel] Error loading route profile:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load route profile');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [open, roadData, route, compositeWeights]);
+
+  // Hover highlight layer lives while the drawer is open
+  useEffect(() => {
+    if (!open || !mapView?.map) return;
+
+    const layer = new GraphicsLayer({ title: 'Route Profile Highlight', listMode: 'hide' });
+    mapView.map.add(layer);
+    graphicsLayerRef.current = layer;
+
+    return () => {
+      mapView.map?.remove(layer);
+      layer.destroy();
+      graphicsLayerRef.current = null;
+    };
+  }, [open, mapView]);
+
+  const highlightSegment = (segment: RouteProfileSegment | null) => {
+    const layer = graphicsLayerRef.current;
+    if (!layer) return;
+
+    layer.removeAll();
+    if (!segment?.geometry) return;
+
+    layer.add(new Graphic({
+      geometry: segment.geometry as unknown as __esri.Polyline,
+      symbol: new SimpleLineSymbol({ color: HOTSPOT_COLORS.selected, width: 10, cap: 'round' })
+    }));
+  };
+
+  const trackKpis = allKpis ? PROFILE_KPIS : [kpi];
+
+  return (
+    <Drawer
+      title={
+        <Space>
+          Route Profile
+          {profile && <Tag>{profile.lengthKm.toFixed(1)} km</Tag>}
+        </Space>
+      }
+      placement="bottom"
+      height={allKpis ? 560 : 380}
+      open={open}
+      onClose={onClose}
+      mask={false}
+      extra={
+        <Space wrap>
+          <Select
+            size="small"
+            value={route}
+            options={routes.map(r => ({ label: r, value: r }))}
+            onChange={setRoute}
+            style={{ width: 120 }}
+          />
+          <Select<KPIKey>
+            size="small"
+            value={kpi}
+            options={PROFILE_KPIS.map(k => ({ label: KPI_LABELS[k], value: k }))}
+            onChange={setKpi}
+            disabled={allKpis}
+            style={{ width: 120 }}
+          />
+          <Switch
+            size="small"
+            checked={allKpis}
+            onChange={setAllKpis}
+            checkedChildren="All KPIs"
+            unCheckedChildren="All KPIs"
+          />
+          <Checkbox.Group<SurveyYear>
+            value={years}
+            options={SURVEY_YEARS.map(year => ({ label: String(year), value: year }))}
+            onChange={values => setYears(SURVEY_YEARS.filter(year => values.includes(year)))}
+          />
+        </Space>
+      }
+    >
+      {!route ? (
+        <Empty description="Select a route in the filter panel" />
+      ) : error ? (
+        <Alert type="error" showIcon message="Route profile failed" description={error} />
+      ) : loading || !profile ? (
+        <div style={{ textAlign: 'center', padding: 48 }}>
+          <Spin tip={`Loading route ${route}...`} />
+        </div>
+      ) : profile.segments.length === 0 ? (
+        <Empty description={`No segments found for route ${route}`} />
+      ) : (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          {trackKpis.map(trackKpi => (
+            <ProfileTrack
+              key={trackKpi}
+              profile={profile}
+              kpi={trackKpi}
+              years={years}
+              height={allKpis ? STACKED_TRACK_HEIGHT : SINGLE_TRACK_HEIGHT}
+              compact={allKpis && trackKpi !== trackKpis[trackKpis.length - 1]}
+              onHoverSegment={highlightSegment}
+            />
+          ))}
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            Distances are approximate: the layer has no chainage field, so segments are placed 100 m apart
+            in the order they were digitised. On routes crossing several Local Authorities they may be out
+            of place. Shaded bands show the condition classes.
+          </Text>
+        </Space>
+      )}
+    </Drawer>
+  );
+};
+
+export default RouteProfilePanel;
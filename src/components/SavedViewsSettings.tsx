@@ -0,0 +1,225 @@
+// src/components/SavedViewsSettings.tsx
+import React, { useState } from 'react';
+import {
+  Button,
+  Drawer,
+  Empty,
+  Input,
+  Popconfirm,
+  Space,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+  Upload,
+  message
+} from 'antd';
+import {
+  BookOutlined,
+  DeleteOutlined,
+  DownloadOutlined,
+  SaveOutlined,
+  StarFilled,
+  StarOutlined,
+  UploadOutlined
+} from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import useAppStore from '@/store/useAppStore';
+import { KPI_LABELS } from '@/config/kpiConfig';
+import { getSubgroupLabel } from '@/config/layerConfig';
+import type { SavedView } from '@/config/savedViews';
+import { parseSavedViews, serializeSavedViews } from '@/utils/savedViews';
+
+const { Text } = Typography;
+
+const describeList = (values: string[], noun: string) =>
+  values.length <= 2 ? values.join(', ') : `${values.length} ${noun}`;
+
+/**
+ * One-line summary of a view's filters
+ */
+const describeFilters = (view: SavedView): string => {
+  const { localAuthority, subgroup, route } = view.filters;
+  const parts = [
+    localAuthority.length > 0 && describeList(localAuthority, 'LAs'),
+    subgroup.length > 0 && subgroup.map(getSubgroupLabel).join(', '),
+    route.length > 0 && describeList(route, 'routes')
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'All roads';
+};
+
+/**
+ * Header button and drawer for named views: the current filters, KPI and map
+ * extent saved under a name, opened again with one click and shared between
+ * teams as JSON files.
+ */
+const SavedViewsSettings: React.FC = () => {
+  const {
+    savedViews,
+    defaultSavedViewId,
+    saveCurrentView,
+    renameSavedView,
+    deleteSavedView,
+    setDefaultSavedView,
+    importSavedViews,
+    applySavedView,
+    loading
+  } = useAppStore();
+
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    const view = saveCurrentView(name.trim());
+    setName('');
+    message.success(`Saved view "${view.name}"`);
+  };
+
+  const handleApply = async (view: SavedView) => {
+    setOpen(false);
+    await applySavedView(view.id);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { views, skipped } = parseSavedViews(await file.text());
+      importSavedViews(views);
+      message.success(`Imported ${views.length} view${views.length === 1 ? '' : 's'}`);
+      if (skipped > 0) {
+        message.warning(`${skipped} view${skipped === 1 ? ' was' : 's were'} not readable and skipped`);
+      }
+    } catch (err) {
+      console.error('[SavedViews] Error importing views:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to import views');
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeSavedViews(savedViews)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `saved_views_${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const columns: ColumnsType<SavedView> = [
+    {
+      key: 'default',
+      width: 40,
+      render: (_, view) => {
+        const isDefault = view.id === defaultSavedViewId;
+        return (
+          <Tooltip title={isDefault ? 'Opened on load; click to unset' : 'Open this view when the dashboard loads'}>
+            <Button
+              type="text"
+              size="small"
+              icon={isDefault ? <StarFilled style={{ color: '#faad14' }} /> : <StarOutlined />}
+              onClick={() => setDefaultSavedView(isDefault ? null : view.id)}
+            />
+          </Tooltip>
+        );
+      }
+    },
+    {
+      title: 'View',
+      key: 'name',
+      render: (_, view) => (
+        <Space direction="vertical" size={0}>
+          <Text
+            strong
+            editable={{
+              tooltip: 'Rename',
+              onChange: value => value.trim() && renameSavedView(view.id, value.trim())
+            }}
+          >
+            {view.name}
+          </Text>
+          <Space size={4} wrap>
+            <Tag>{KPI_LABELS[view.kpi]} {view.filters.year}</Tag>
+            <Text type="secondary" style={{ fontSize: 12 }}>{describeFilters(view)}</Text>
+          </Space>
+        </Space>
+      )
+    },
+    {
+      key: 'actions',
+      width: 120,
+      render: (_, view) => (
+        <Space size={4}>
+          <Button size="small" type="primary" disabled={loading} onClick={() => handleApply(view)}>
+            Open
+          </Button>
+          <Popconfirm title={`Delete "${view.name}"?`} onConfirm={() => deleteSavedView(view.id)}>
+            <Button size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      )
+    }
+  ];
+
+  return (
+    <>
+      <Tooltip title="Saved views">
+        <Button size="small" icon={<BookOutlined />} onClick={() => setOpen(true)}>
+          Views
+        </Button>
+      </Tooltip>
+
+      <Drawer
+        title="Saved Views"
+        open={open}
+        onClose={() => setOpen(false)}
+        width={520}
+        extra={
+          <Space>
+            <Upload
+              accept=".json"
+              showUploadList={false}
+              beforeUpload={file => {
+                handleImport(file);
+                return false; // Read locally, never upload
+              }}
+            >
+              <Button icon={<UploadOutlined />}>Import</Button>
+            </Upload>
+            <Button icon={<DownloadOutlined />} disabled={savedViews.length === 0} onClick={handleExport}>
+              Export
+            </Button>
+          </Space>
+        }
+      >
+        <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+          <Space.Compact style={{ width: '100%' }}>
+            <Input
+              placeholder="Name for the current filters, KPI and extent"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onPressEnter={() => name.trim() && handleSave()}
+              maxLength={80}
+            />
+            <Button type="primary" icon={<SaveOutlined />} disabled={!name.trim()} onClick={handleSave}>
+              Save
+            </Button>
+          </Space.Compact>
+
+          {savedViews.length === 0 ? (
+            <Empty description="No saved views yet" />
+          ) : (
+            <Table
+              dataSource={savedViews}
+              columns={columns}
+              rowKey="id"
+              pagination={false}
+              size="small"
+              showHeader={false}
+            />
+          )}
+        </Space>
+      </Drawer>
+    </>
+  );
+};
+
+export default SavedViewsSettings;
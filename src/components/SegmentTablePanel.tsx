@@ -0,0 +1,308 @@
+// src/components/SegmentTablePanel.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Button, Card, Space, Table, Tag, Tooltip, Typography, message } from 'antd';
+import type { TableRef } from 'antd/es/table';
+import type { ColumnsType, SorterResult } from 'antd/es/table/interface';
+import { DownloadOutlined } from '@ant-design/icons';
+import GraphicsLayer from '@arcgis/core/layers/GraphicsLayer';
+import Graphic from '@arcgis/core/Graphic';
+import SimpleLineSymbol from '@arcgis/core/symbols/SimpleLineSymbol';
+import useAppStore from '@/store/useAppStore';
+import { MAP_ANIMATION_DURATION, SURVEY_YEARS } from '@/config/constants';
+import { KPI_LABELS, MEASURED_KPIS, getKPIClassification } from '@/config/kpiConfig';
+import { ROAD_FIELDS } from '@/config/layerConfig';
+import { HOTSPOT_COLORS } from '@/config/rendererConfig';
+import PaginationService from '@/services/PaginationService';
+import SegmentTableService, { type SegmentTableSort } from '@/services/SegmentTableService';
+
+const { Text } = Typography;
+
+type SegmentRow = Record<string, any>;
+
+const DEFAULT_PAGE_SIZE = 200;
+
+/**
+ * Dashboard panel listing the segments behind the statistics: those matching
+ * the filters and chart selections. Paged and sorted on the server; clicking
+ * a row zooms to the segment, clicking a segment on the map finds its row.
+ */
+const SegmentTablePanel: React.FC = () => {
+  const { mapView, roadLayer, roadDataSource, getRoadDataSource, currentFilters, chartSelections, thresholdRevision } = useAppStore();
+  // Dashboard source: a loaded local extract, else the hosted layer, with the area filter
+  const roadData = getRoadDataSource();
+  const objectIdField = roadData?.objectIdField ?? 'OBJECTID';
+
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [sort, setSort] = useState<SegmentTableSort | null>(null);
+  const [rows, setRows] = useState<SegmentRow[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [exportProgress, setExportProgress] = useState<string | null>(null);
+
+  const tableRef = useRef<TableRef>(null);
+  const graphicsLayerRef = useRef<GraphicsLayer | null>(null);
+  // Row to scroll to once the page holding it has loaded
+  const pendingScrollId = useRef<number | null>(null);
+
+  const { localAuthority, subgroup, route, kpiRanges, conditionClasses, spatial } = currentFilters;
+  // Condition class filters follow the active thresholds
+  const whereClause = useMemo(
+    () => SegmentTableService.buildWhere({ localAuthority, subgroup, route, kpiRanges, conditionClasses }, chartSelections),
+    [localAuthority, subgroup, route, kpiRanges, conditionClasses, chartSelections, thresholdRevision]
+  );
+
+  // A new view starts from the first page (the area filter is applied by the data source)
+  useEffect(() => {
+    setPage(1);
+  }, [whereClause, spatial, sort]);
+
+  useEffect(() => {
+    if (!roadData) return;
+
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    SegmentTableService.queryPage(roadData, whereClause, sort, (page - 1) * pageSize, pageSize, controller.signal)
+      .then(result => {
+        setRows(result.rows);
+        setTotalCount(result.totalCount);
+      })
+      .catch(err => {
+        if (PaginationService.isAbortError(err)) return;
+        console.error('[SegmentTablePanel] Error loading segments:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load segments');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [roadData, whereClause, spatial, sort, page, pageSize]);
+
+  useEffect(() => {
+    const id = pendingScrollId.current;
+    if (id === null || !rows.some(row => row[objectIdField] === id)) return;
+    pendingScrollId.current = null;
+    tableRef.current?.scrollTo({ key: id });
+  }, [rows, objectIdField]);
+
+  // Highlight layer lives as long as the panel
+  useEffect(() => {
+    if (!mapView?.map) return;
+
+    const layer = new GraphicsLayer({ title: 'Selected Segment', listMode: 'hide' });
+    mapView.map.add(layer);
+    graphicsLayerRef.current = layer;
+
+    return () => {
+      mapView.map?.remove(layer);
+      layer.destroy();
+      graphicsLayerRef.current = null;
+    };
+  }, [mapView]);
+
+  const highlightSegment = async (objectId: number, zoom: boolean) => {
+    setSelectedId(objectId);
+    if (!roadData) return;
+
+    try {
+      const geometry = await SegmentTableService.getSegmentGeometry(roadData, objectId);
+      const layer = graphicsLayerRef.current;
+      if (!layer) return;
+
+      layer.removeAll();
+      if (!geometry) return;
+
+      const graphic = new Graphic({
+        geometry: geometry as unknown as __esri.Polyline,
+        symbol: new SimpleLineSymbol({ color: HOTSPOT_COLORS.selected, width: 8, cap: 'round' })
+      });
+      layer.add(graphic);
+      if (zoom && mapView) {
+        await mapView.goTo({ target: graphic, zoom: Math.max(mapView.zoom, 15) }, { duration: MAP_ANIMATION_DURATION });
+      }
+    } catch (err) {
+      if (!PaginationService.isAbortError(err)) console.error('[SegmentTablePanel] Error highlighting segment:', err);
+    }
+  };
+
+  // Map click finds the segment's row, loading its page if needed
+  useEffect(() => {
+    // Local extracts are not drawn on the map, so there is nothing to click
+    if (!mapView || !roadLayer || !roadData || roadDataSource) return;
+
+    const handle = mapView.on('click', async event => {
+      const response = await mapView.hitTest(event, { include: [roadLayer] });
+      const hit = response.results.find(result => result.type === 'graphic');
+      const objectId = hit?.type === 'graphic' ? hit.graphic.attributes?.[objectIdField] : undefined;
+      if (typeof objectId !== 'number') return;
+
+      highlightSegment(objectId, false);
+
+      if (rows.some(row => row[objectIdField] === objectId)) {
+        tableRef.current?.scrollTo({ key: objectId });
+        return;
+      }
+
+      const index = await SegmentTableService.findRowIndex(roadData, whereClause, sort, objectId);
+      if (index === null) {
+        message.info('That segment is not in the table (check the filters and chart selections)');
+        return;
+      }
+      pendingScrollId.current = objectId;
+      setPage(Math.floor(index / pageSize) + 1);
+    });
+
+    return () => handle.remove();
+  }, [mapView, roadLayer, roadDataSource, roadData, rows, whereClause, sort, pageSize, objectIdField]);
+
+  const exportCSV = async () => {
+    if (!roadData) return;
+
+    setExportProgress('Preparing...');
+    try {
+      const csv = await SegmentTableService.exportCSV(roadData, whereClause, sort, (current, total) =>
+        setExportProgress(`${current.toLocaleString()} / ${(total ?? current).toLocaleString()}`)
+      );
+      const blob = new Blob([csv], { type: 'text/csv' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `segments_${new Date().toISOString().slice(0, 10)}.csv`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('[SegmentTablePanel] Error exporting segments:', err);
+      message.error('Failed to export segments');
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const sortOrderFor = (field: string) =>
+    sort?.field === field ? (sort.descending ? 'descend' as const : 'ascend' as const) : null;
+
+  const columns: ColumnsType<SegmentRow> = [
+    {
+      title: 'ID',
+      dataIndex: objectIdField,
+      key: objectIdField,
+      fixed: 'left',
+      width: 90,
+      sorter: true,
+      sortOrder: sortOrderFor(objectIdField)
+    },
+    {
+      title: 'Route',
+      dataIndex: ROAD_FIELDS.route,
+      key: ROAD_FIELDS.route,
+      fixed: 'left',
+      width: 80,
+      sorter: true,
+      sortOrder: sortOrderFor(ROAD_FIELDS.route)
+    },
+    {
+      title: 'Local Authority',
+      dataIndex: ROAD_FIELDS.la,
+      key: ROAD_FIELDS.la,
+      width: 140,
+      ellipsis: true,
+      sorter: true,
+      sortOrder: sortOrderFor(ROAD_FIELDS.la)
+    },
+    ...MEASURED_KPIS.map(kpi => {
+      const { decimals } = getKPIClassification(kpi);
+      return {
+        title: KPI_LABELS[kpi],
+        key: kpi,
+        children: SegmentTableService.getKPIColumns()
+          .filter(column => column.kpi === kpi)
+          .map(column => ({
+            title: String(column.year),
+            dataIndex: column.field,
+            key: column.field,
+            width: 80,
+            align: 'right' as const,
+            sorter: true,
+            sortOrder: sortOrderFor(column.field),
+            render: (value: number | null) =>
+              value === null || value === undefined ? <Text type="secondary">-</Text> : Number(value).toFixed(Math.max(decimals, 1))
+          }))
+      };
+    })
+  ];
+
+  const handleTableChange = (sorter: SorterResult<SegmentRow> | SorterResult<SegmentRow>[]) => {
+    const single = Array.isArray(sorter) ? sorter[0] : sorter;
+    setSort(single?.order && single.columnKey
+      ? { field: String(single.columnKey), descending: single.order === 'descend' }
+      : null);
+  };
+
+  return (
+    <Card
+      size="small"
+      title={
+        <Space>
+          Segments
+          <Tag>{totalCount.toLocaleString()}</Tag>
+          {chartSelections.length > 0 && <Tag color="blue">Chart selection</Tag>}
+        </Space>
+      }
+      extra={
+        <Tooltip title="Export every segment in this view, in table order">
+          <Button
+            size="small"
+            icon={<DownloadOutlined />}
+            loading={!!exportProgress}
+            disabled={!roadData || totalCount === 0}
+            onClick={exportCSV}
+          >
+            {exportProgress ?? 'Export CSV'}
+          </Button>
+        </Tooltip>
+      }
+    >
+      {error ? (
+        <Alert type="error" showIcon message="Failed to load segments" description={error} />
+      ) : (
+        <Table<SegmentRow>
+          ref={tableRef}
+          virtual
+          dataSource={rows}
+          columns={columns}
+          rowKey={row => row[objectIdField]}
+          loading={loading}
+          size="small"
+          bordered
+          scroll={{ x: 310 + MEASURED_KPIS.length * SURVEY_YEARS.length * 80, y: 320 }}
+          pagination={{
+            current: page,
+            pageSize,
+            total: totalCount,
+            size: 'small',
+            showSizeChanger: true,
+            pageSizeOptions: [100, 200, 500, 1000],
+            showTotal: (total, [from, to]) => `${from}-${to} of ${total.toLocaleString()}`,
+            onChange: (nextPage, nextPageSize) => {
+              setPage(nextPageSize === pageSize ? nextPage : 1);
+              setPageSize(nextPageSize);
+            }
+          }}
+          onChange={(_, __, sorter, { action }) => action === 'sort' && handleTableChange(sorter)}
+          rowClassName={row => (row[objectIdField] === selectedId ? 'ant-table-row-selected' : '')}
+          onRow={row => ({
+            onClick: () => highlightSegment(row[objectIdField], true),
+            style: { cursor: 'pointer' }
+          })}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default SegmentTablePanel;
@@ -0,0 +1,175 @@
+// src/components/SpatialFilterTools.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { Button, InputNumber, Space, Switch, Tag, Tooltip } from 'antd';
+import { AimOutlined, BorderOutlined, GatewayOutlined } from '@ant-design/icons';
+import GraphicsLayer from '@arcgis/core/layers/GraphicsLayer';
+import Graphic from '@arcgis/core/Graphic';
+import Polygon from '@arcgis/core/geometry/Polygon';
+import type Point from '@arcgis/core/geometry/Point';
+import * as geometryEngine from '@arcgis/core/geometry/geometryEngine';
+import SimpleFillSymbol from '@arcgis/core/symbols/SimpleFillSymbol';
+import SketchViewModel from '@arcgis/core/widgets/Sketch/SketchViewModel';
+import useAppStore from '@/store/useAppStore';
+import { DEFAULT_SPATIAL_BUFFER_KM } from '@/config/constants';
+import { SPATIAL_FILTER_COLORS } from '@/config/rendererConfig';
+import type { SpatialFilter, SpatialFilterGeometry } from '@/types';
+
+type DrawMode = Exclude<SpatialFilter['mode'], 'extent'>;
+
+const SKETCH_TOOLS: Record<DrawMode, 'polygon' | 'rectangle' | 'point'> = {
+  polygon: 'polygon',
+  rectangle: 'rectangle',
+  buffer: 'point'
+};
+
+const areaSymbol = new SimpleFillSymbol({
+  color: SPATIAL_FILTER_COLORS.fill,
+  outline: { color: SPATIAL_FILTER_COLORS.outline, width: 2, style: 'dash' }
+});
+
+const toSpatialGeometry = (polygon: Polygon): SpatialFilterGeometry => ({
+  type: 'polygon',
+  rings: polygon.rings,
+  // Sketches are in the view's spatial reference: Web Mercator on every basemap here
+  spatialReference: { wkid: polygon.spatialReference.wkid ?? 102100 }
+});
+
+const describeArea = (spatial: SpatialFilter): string => {
+  switch (spatial.mode) {
+    case 'polygon':
+      return 'Drawn polygon';
+    case 'rectangle':
+      return 'Drawn rectangle';
+    case 'buffer':
+      return `${spatial.radiusKm ?? DEFAULT_SPATIAL_BUFFER_KM} km around point`;
+    case 'extent':
+      return 'Current map extent';
+  }
+};
+
+/**
+ * Spatial selection for the filter panel: draw a polygon or rectangle, or
+ * click a point with a buffer radius, or follow the current map extent.
+ * Areas apply straight away; segments must intersect them.
+ */
+const SpatialFilterTools: React.FC<{ disabled?: boolean }> = ({ disabled }) => {
+  const { mapView, currentFilters, applySpatialFilter, setExtentFilter } = useAppStore();
+  const spatial = currentFilters.spatial ?? null;
+  const [drawing, setDrawing] = useState<DrawMode | null>(null);
+  const [radiusKm, setRadiusKm] = useState<number>(DEFAULT_SPATIAL_BUFFER_KM);
+  const graphicsLayerRef = useRef<GraphicsLayer | null>(null);
+  const sketchRef = useRef<SketchViewModel | null>(null);
+
+  // Sketch layer lives as long as the panel
+  useEffect(() => {
+    if (!mapView?.map) return;
+
+    const layer = new GraphicsLayer({ title: 'Spatial Filter', listMode: 'hide' });
+    mapView.map.add(layer);
+    graphicsLayerRef.current = layer;
+    sketchRef.current = new SketchViewModel({ view: mapView, layer, polygonSymbol: areaSymbol });
+
+    return () => {
+      sketchRef.current?.destroy();
+      sketchRef.current = null;
+      mapView.map?.remove(layer);
+      layer.destroy();
+      graphicsLayerRef.current = null;
+    };
+  }, [mapView]);
+
+  // Outline the filtered area (the extent filter is the whole view, so it has none)
+  useEffect(() => {
+    const layer = graphicsLayerRef.current;
+    if (!layer || drawing) return;
+
+    layer.removeAll();
+    if (spatial && spatial.mode !== 'extent') {
+      layer.add(new Graphic({ geometry: Polygon.fromJSON(spatial.geometry), symbol: areaSymbol }));
+    }
+  }, [spatial, drawing, mapView]);
+
+  const startDrawing = (mode: DrawMode) => {
+    const sketch = sketchRef.current;
+    if (!sketch) return;
+
+    sketch.cancel();
+    graphicsLayerRef.current?.removeAll();
+    setDrawing(mode);
+
+    const handle = sketch.on('create', event => {
+      if (event.state === 'cancel') {
+        handle.remove();
+        setDrawing(null);
+        return;
+      }
+      if (event.state !== 'complete') return;
+
+      handle.remove();
+      setDrawing(null);
+
+      const polygon = mode === 'buffer'
+        ? geometryEngine.geodesicBuffer(event.graphic.geometry as Point, radiusKm, 'kilometers') as Polygon
+        : event.graphic.geometry as Polygon;
+      applySpatialFilter({
+        mode,
+        geometry: toSpatialGeometry(polygon),
+        ...(mode === 'buffer' ? { radiusKm } : {})
+      });
+    });
+    sketch.create(SKETCH_TOOLS[mode]);
+  };
+
+  const toolButton = (mode: DrawMode, icon: React.ReactNode, title: string) => (
+    <Tooltip title={title}>
+      <Button
+        icon={icon}
+        type={drawing === mode ? 'primary' : 'default'}
+        onClick={() => (drawing === mode ? sketchRef.current?.cancel() : startDrawing(mode))}
+        disabled={disabled || !mapView}
+      />
+    </Tooltip>
+  );
+
+  return (
+    <div>
+      <div style={{ fontWeight: 600, marginBottom: 6 }}>Area</div>
+      <Space direction="vertical" size={6} style={{ width: '100%' }}>
+        <Space size={4} wrap>
+          <Space.Compact size="small">
+            {toolButton('polygon', <GatewayOutlined />, 'Draw a polygon (double-click to finish)')}
+            {toolButton('rectangle', <BorderOutlined />, 'Draw a rectangle')}
+            {toolButton('buffer', <AimOutlined />, 'Click a point to select roads within the radius')}
+          </Space.Compact>
+          <InputNumber
+            size="small"
+            min={0.1}
+            max={100}
+            step={1}
+            value={radiusKm}
+            addonAfter="km"
+            onChange={value => setRadiusKm(value ?? DEFAULT_SPATIAL_BUFFER_KM)}
+            disabled={disabled}
+            style={{ width: 100 }}
+          />
+        </Space>
+        <Space size={6}>
+          <Switch
+            size="small"
+            checked={spatial?.mode === 'extent'}
+            onChange={checked => setExtentFilter(checked)}
+            disabled={disabled || !mapView}
+          />
+          <span>Only current map extent</span>
+        </Space>
+        {spatial && (
+          <Tag closable color="cyan" onClose={() => applySpatialFilter(null)}>
+            {describeArea(spatial)}
+          </Tag>
+        )}
+      </Space>
+    </div>
+  );
+};
+
+export default SpatialFilterTools;
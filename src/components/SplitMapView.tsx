@@ -0,0 +1,272 @@
+// src/components/SplitMapView.tsx
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Alert, Button, Segmented, Select, Space, Spin, Tooltip, theme } from 'antd';
+import { CloseOutlined } from '@ant-design/icons';
+import type MapView from '@arcgis/core/views/MapView';
+import type FeatureLayer from '@arcgis/core/layers/FeatureLayer';
+import useAppStore from '@/store/useAppStore';
+import { SURVEY_YEARS } from '@/config/constants';
+import { KPI_LABELS, type KPIKey } from '@/config/kpiConfig';
+import ReportMapService from '@/services/ReportMapService';
+import type { RoadDataInput } from '@/services/RoadDataSource';
+import type { SplitMapMetric, SplitMapPaneConfig } from '@/types';
+import {
+  applySpatialFilterToClone,
+  cloneLALayer,
+  cloneRoadLayer,
+  followDefinitionExpression
+} from '@/utils/layerCloneHelper';
+
+type PaneCount = 2 | 4;
+
+const KPI_OPTIONS = (Object.keys(KPI_LABELS) as KPIKey[]).map(kpi => ({ label: KPI_LABELS[kpi], value: kpi }));
+const YEAR_OPTIONS = SURVEY_YEARS.map(year => ({ label: String(year), value: year }));
+
+export const SPLIT_MAP_METRIC_OPTIONS: { label: string; value: SplitMapMetric }[] = [
+  { label: 'Road segments', value: 'segments' },
+  { label: 'LA average', value: 'average' },
+  { label: 'LA fair or better %', value: 'fairOrBetter' }
+];
+
+/**
+ * Layer for a pane: the road layer or LA layer cloned with the renderer for
+ * its KPI, year and metric (renderers come from the shared caches). Road
+ * clones start from the applied filters; SplitMapPane keeps them in step.
+ */
+export async function createSplitMapLayer(
+  config: SplitMapPaneConfig,
+  sources: { roadLayer: FeatureLayer | null; laLayer: FeatureLayer | null; roadData: RoadDataInput | null },
+  themeMode: 'light' | 'dark'
+): Promise<FeatureLayer> {
+  const title = `${KPI_LABELS[config.kpi]} ${config.year}`;
+  if (config.metric === 'segments') {
+    if (!sources.roadLayer) throw new Error('Road layer not loaded');
+    return cloneRoadLayer(sources.roadLayer, config.kpi, config.year, themeMode, title);
+  }
+  if (!sources.laLayer) throw new Error('LA layer not loaded');
+  return cloneLALayer(sources.laLayer, config.kpi, config.year, config.metric, themeMode, title, sources.roadData);
+}
+
+const defaultPanes = (kpi: KPIKey, leftYear: number, rightYear: number): SplitMapPaneConfig[] => [
+  { kpi, year: leftYear, metric: 'segments' },
+  { kpi, year: rightYear, metric: 'segments' },
+  { kpi, year: leftYear, metric: 'average' },
+  { kpi, year: rightYear, metric: 'average' }
+];
+
+interface SplitMapPaneProps {
+  config: SplitMapPaneConfig;
+  onConfigChange?: (config: SplitMapPaneConfig) => void;
+  onViewChange: (view: MapView | null) => void;
+}
+
+/**
+ * One view of the split screen: its own map and selectors, starting at the
+ * dashboard map's extent. The layer is rebuilt when the selection changes.
+ */
+export const SplitMapPane: React.FC<SplitMapPaneProps> = ({ config, onConfigChange, onViewChange }) => {
+  const { token } = theme.useToken();
+  const { mapView, roadLayer, laLayer, themeMode, currentFilters, thresholdRevision, getRoadDataSource } = useAppStore();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<MapView | null>(null);
+  const [paneLayer, setPaneLayer] = useState<FeatureLayer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The map lives as long as the pane
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let cleanup: (() => void) | null = null;
+    let mounted = true;
+
+    ReportMapService.createLayerMap(container, [], {
+      basemap: mapView?.map?.basemap?.clone(),
+      extent: mapView?.extent,
+      showLegend: true
+    })
+      .then(result => {
+        if (!mounted) {
+          result.cleanup();
+          return;
+        }
+        cleanup = result.cleanup;
+        setView(result.view);
+        onViewChange(result.view);
+      })
+      .catch(err => {
+        console.error('[SplitMapView] Error creating map:', err);
+        if (mounted) setError(err instanceof Error ? err.message : 'Failed to create map');
+      });
+
+    return () => {
+      mounted = false;
+      onViewChange(null);
+      cleanup?.();
+    };
+    // Created once; later extent changes come from the synchronised views
+  }, []);
+
+  // Swap the layer whenever the selection or thresholds change
+  useEffect(() => {
+    const map = view?.map;
+    if (!map) return;
+
+    let cancelled = false;
+    let layer: FeatureLayer | null = null;
+    setLoading(true);
+    setError(null);
+
+    createSplitMapLayer(config, { roadLayer, laLayer, roadData: getRoadDataSource() }, themeMode)
+      .then(created => {
+        if (cancelled) {
+          created.destroy();
+          return;
+        }
+        layer = created;
+        map.add(created);
+        setPaneLayer(created);
+      })
+      .catch(err => {
+        console.error('[SplitMapView] Error creating layer:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to create layer');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setPaneLayer(null);
+      // On unmount the map may already be gone with the pane
+      if (layer && !map.destroyed) {
+        map.remove(layer);
+        layer.destroy();
+      }
+    };
+  }, [view, config, roadLayer, laLayer, themeMode, thresholdRevision, getRoadDataSource]);
+
+  // Road segments follow the filters as they are applied, including the area filter
+  const isSegments = config.metric === 'segments';
+  useEffect(() => {
+    if (!view || !paneLayer || !roadLayer || !isSegments) return;
+
+    applySpatialFilterToClone(view, paneLayer, currentFilters.spatial).catch(err =>
+      console.error('[SplitMapView] Error applying the area filter:', err)
+    );
+    const handle = followDefinitionExpression(roadLayer, [paneLayer]);
+    return () => handle.remove();
+  }, [view, paneLayer, roadLayer, isSegments, currentFilters.spatial]);
+
+  return (
+    <div style={{ position: 'relative', display: 'flex', flexDirection: 'column', minHeight: 0, border: `1px solid ${token.colorBorderSecondary}` }}>
+      {onConfigChange && (
+        <Space size={4} wrap style={{ padding: 6, background: token.colorBgContainer }}>
+          <Select
+            size="small"
+            value={config.kpi}
+            options={KPI_OPTIONS}
+            onChange={(kpi) => onConfigChange({ ...config, kpi })}
+            style={{ width: 150 }}
+          />
+          <Select
+            size="small"
+            value={config.year}
+            options={YEAR_OPTIONS}
+            onChange={(year) => onConfigChange({ ...config, year })}
+            style={{ width: 80 }}
+          />
+          <Select
+            size="small"
+            value={config.metric}
+            options={SPLIT_MAP_METRIC_OPTIONS}
+            onChange={(metric) => onConfigChange({ ...config, metric })}
+            style={{ width: 160 }}
+          />
+        </Space>
+      )}
+      <div ref={containerRef} style={{ flex: 1, minHeight: 0 }} />
+      {loading && !error && (
+        <Spin size="small" style={{ position: 'absolute', top: onConfigChange ? 48 : 12, right: 12 }} />
+      )}
+      {error && (
+        <Alert type="error" message={error} showIcon style={{ position: 'absolute', top: 48, left: 12, right: 12 }} />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Split-screen comparison over the dashboard map: two or four views with
+ * their own KPI, year and metric, moving together and mirroring the pointer
+ */
+const SplitMapView: React.FC = () => {
+  const { token } = theme.useToken();
+  const { activeKpi, leftSwipeYear, rightSwipeYear, setShowSplitView } = useAppStore();
+  const [paneCount, setPaneCount] = useState<PaneCount>(2);
+  const [panes, setPanes] = useState<SplitMapPaneConfig[]>(() => defaultPanes(activeKpi, leftSwipeYear, rightSwipeYear));
+  const [views, setViews] = useState<(MapView | null)[]>([]);
+
+  const setPaneView = useCallback((index: number, view: MapView | null) => {
+    setViews(current => {
+      const next = [...current];
+      next[index] = view;
+      return next;
+    });
+  }, []);
+
+  // Link the views once every visible pane has one
+  useEffect(() => {
+    const ready = views.slice(0, paneCount).filter((view): view is MapView => !!view && !view.destroyed);
+    if (ready.length < paneCount) return;
+    return ReportMapService.synchronizeViews(ready);
+  }, [views, paneCount]);
+
+  return (
+    <div style={{ position: 'absolute', inset: 0, zIndex: 5, display: 'flex', flexDirection: 'column', background: token.colorBgLayout }}>
+      <Space style={{ padding: '6px 12px', justifyContent: 'space-between', width: '100%' }}>
+        <Space>
+          <span style={{ fontWeight: 600 }}>Split view</span>
+          <Segmented<PaneCount>
+            size="small"
+            value={paneCount}
+            options={[
+              { label: '2 maps', value: 2 },
+              { label: '4 maps', value: 4 }
+            ]}
+            onChange={setPaneCount}
+          />
+          <span style={{ fontSize: 12, color: token.colorTextSecondary }}>
+            Maps move together; the ring marks the pointer position in the other maps.
+          </span>
+        </Space>
+        <Tooltip title="Close split view">
+          <Button size="small" type="text" icon={<CloseOutlined />} onClick={() => setShowSplitView(false)} />
+        </Tooltip>
+      </Space>
+      <div
+        style={{
+          flex: 1,
+          minHeight: 0,
+          display: 'grid',
+          gridTemplateColumns: '1fr 1fr',
+          gridTemplateRows: paneCount === 4 ? '1fr 1fr' : '1fr',
+          gap: 4,
+          padding: '0 4px 4px'
+        }}
+      >
+        {panes.slice(0, paneCount).map((config, index) => (
+          <SplitMapPane
+            key={index}
+            config={config}
+            onConfigChange={(next) => setPanes(current => current.map((pane, i) => (i === index ? next : pane)))}
+            onViewChange={(view) => setPaneView(index, view)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SplitMapView;
@@ -0,0 +1,234 @@
+// src/components/ThresholdProfileSettings.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Drawer,
+  Input,
+  InputNumber,
+  Popconfirm,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Tooltip,
+  Typography
+} from 'antd';
+import { CopyOutlined, DeleteOutlined, SaveOutlined, SlidersOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import useAppStore from '@/store/useAppStore';
+import { KPI_LABELS, type KPIKey } from '@/config/kpiConfig';
+import { CLASS_LABELS } from '@/config/rendererConfig';
+import {
+  BUILT_IN_THRESHOLD_PROFILES,
+  CLASS_FIELD_PROFILE_ID,
+  duplicateThresholdProfile,
+  type ThresholdProfile
+} from '@/config/thresholdProfiles';
+import {
+  getBandBoundaries,
+  validateClassification,
+  withBandBoundaries
+} from '@/utils/conditionClassification';
+
+const { Text } = Typography;
+
+interface BoundaryRow {
+  key: KPIKey;
+  error: string | null;
+}
+
+/**
+ * Header button and drawer for choosing and editing condition class threshold profiles.
+ * Built-in profiles are read-only; duplicating one creates an editable custom profile.
+ */
+const ThresholdProfileSettings: React.FC = () => {
+  const {
+    activeThresholdProfileId,
+    customThresholdProfiles,
+    getActiveThresholdProfile,
+    setActiveThresholdProfile,
+    saveThresholdProfile,
+    deleteThresholdProfile
+  } = useAppStore();
+
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ThresholdProfile | null>(null);
+
+  const activeProfile = getActiveThresholdProfile();
+
+  // Start each edit from the saved copy of the selected profile
+  useEffect(() => {
+    setDraft(activeProfile.builtIn ? null : activeProfile);
+  }, [activeProfile]);
+
+  const profile = draft ?? activeProfile;
+  const editable = !profile.builtIn;
+  const isDirty = draft !== null && draft !== activeProfile;
+
+  const rows: BoundaryRow[] = useMemo(
+    () => (Object.keys(KPI_LABELS) as KPIKey[]).map(kpi => ({
+      key: kpi,
+      error: profile.classifications[kpi] ? validateClassification(profile.classifications[kpi]) : null
+    })),
+    [profile]
+  );
+  const hasErrors = rows.some(row => row.error) || !profile.name.trim();
+
+  const updateBoundary = (kpi: KPIKey, index: number, value: number | null) => {
+    if (!draft) return;
+    const classification = draft.classifications[kpi];
+    const boundaries = getBandBoundaries(classification);
+    boundaries[index] = value ?? NaN;
+    setDraft({
+      ...draft,
+      classifications: { ...draft.classifications, [kpi]: withBandBoundaries(classification, boundaries) }
+    });
+  };
+
+  const handleDuplicate = async () => {
+    const copy = duplicateThresholdProfile(profile, `${profile.name} (copy)`);
+    await saveThresholdProfile(copy);
+    await setActiveThresholdProfile(copy.id);
+  };
+
+  const handleSave = async () => {
+    if (!draft || hasErrors) return;
+    await saveThresholdProfile(draft);
+  };
+
+  const columns: ColumnsType<BoundaryRow> = [
+    {
+      title: 'KPI',
+      dataIndex: 'key',
+      key: 'kpi',
+      width: 110,
+      render: (kpi: KPIKey) => (
+        <Space direction="vertical" size={0}>
+          <strong>{KPI_LABELS[kpi]}</strong>
+          <Text type="secondary" style={{ fontSize: 11 }}>
+            {profile.classifications[kpi]?.higherIsBetter ? 'Higher is better' : 'Lower is better'}
+          </Text>
+        </Space>
+      )
+    },
+    {
+      title: 'Class boundaries',
+      key: 'boundaries',
+      render: (_, row) => {
+        const classification = profile.classifications[row.key];
+        if (!classification) return <Text type="secondary">Default bands</Text>;
+        const { bands } = classification;
+
+        return (
+          <Space direction="vertical" size={4}>
+            <Space wrap size={[12, 4]}>
+              {getBandBoundaries(classification).map((boundary, index) => (
+                <Space key={index} size={4}>
+                  <Text type="secondary" style={{ fontSize: 11 }}>
+                    {CLASS_LABELS[bands[index].conditionClass]} / {CLASS_LABELS[bands[index + 1].conditionClass]}
+                  </Text>
+                  <InputNumber
+                    size="small"
+                    value={Number.isFinite(boundary) ? boundary : null}
+                    step={classification.decimals > 0 ? 1 / 10 ** classification.decimals : 1}
+                    disabled={!editable}
+                    onChange={value => updateBoundary(row.key, index, value)}
+                    style={{ width: 80 }}
+                  />
+                </Space>
+              ))}
+            </Space>
+            {row.error && <Text type="danger" style={{ fontSize: 12 }}>{row.error}</Text>}
+          </Space>
+        );
+      }
+    }
+  ];
+
+  const profileOptions = [...BUILT_IN_THRESHOLD_PROFILES, ...customThresholdProfiles].map(p => ({
+    label: p.builtIn ? p.name : `${p.name} (custom)`,
+    value: p.id
+  }));
+
+  return (
+    <>
+      <Tooltip title="Condition class thresholds">
+        <Button size="small" icon={<SlidersOutlined />} onClick={() => setOpen(true)}>
+          {activeProfile.name}
+        </Button>
+      </Tooltip>
+
+      <Drawer
+        title="Condition Class Thresholds"
+        open={open}
+        onClose={() => setOpen(false)}
+        width={680}
+        extra={
+          <Space>
+            <Button icon={<CopyOutlined />} onClick={handleDuplicate}>Duplicate</Button>
+            {editable && (
+              <Popconfirm
+                title="Delete this threshold profile?"
+                onConfirm={() => deleteThresholdProfile(profile.id)}
+              >
+                <Button danger icon={<DeleteOutlined />}>Delete</Button>
+              </Popconfirm>
+            )}
+            {editable && (
+              <Button
+                type="primary"
+                icon={<SaveOutlined />}
+                disabled={!isDirty || hasErrors}
+                onClick={handleSave}
+              >
+                Save
+              </Button>
+            )}
+          </Space>
+        }
+      >
+        <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+          <Select
+            value={activeThresholdProfileId}
+            options={profileOptions}
+            onChange={setActiveThresholdProfile}
+            style={{ width: '100%' }}
+          />
+
+          {editable ? (
+            <Input
+              addonBefore="Name"
+              value={profile.name}
+              onChange={e => draft && setDraft({ ...draft, name: e.target.value })}
+            />
+          ) : (
+            <Space>
+              <Tag color="blue">Built-in</Tag>
+              <Text type="secondary">{profile.description} — duplicate to edit.</Text>
+            </Space>
+          )}
+
+          {profile.id !== CLASS_FIELD_PROFILE_ID && (
+            <Alert
+              type="info"
+              showIcon
+              message="Raw KPI values are classified with these thresholds"
+              description="The pre-calculated condition class fields only match the RMO 2018 thresholds, so maps, statistics and reports may take longer to update."
+            />
+          )}
+
+          <Table
+            dataSource={rows}
+            columns={columns}
+            pagination={false}
+            size="small"
+            bordered
+          />
+        </Space>
+      </Drawer>
+    </>
+  );
+};
+
+export default ThresholdProfileSettings;
@@ -0,0 +1,133 @@
+// src/components/TimeSliderControl.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button, Card, Slider, Space, Tag, Tooltip, theme } from 'antd';
+import { CaretRightOutlined, PauseOutlined } from '@ant-design/icons';
+import useAppStore from '@/store/useAppStore';
+import { KPI_LABELS } from '@/config/kpiConfig';
+import { SURVEY_YEARS, TIME_SLIDER_STEP_DURATION } from '@/config/constants';
+import ForecastService from '@/services/ForecastService';
+import { usePanelStyles } from '@/styles/styled';
+
+const isSurveyYear = (year: number) => (SURVEY_YEARS as readonly number[]).includes(year);
+
+/**
+ * Steps the overview map, statistics and chart through the survey years, then
+ * the forecast year chosen in the stats panel, with a large year label for
+ * presentations. Each year is held on screen once the map has updated.
+ */
+const TimeSliderControl: React.FC = () => {
+  const { styles } = usePanelStyles();
+  const { token } = theme.useToken();
+  const {
+    mapView,
+    activeKpi,
+    currentFilters,
+    forecastYear,
+    timeSliderYear,
+    isSwipeActive,
+    showTimeSliderYear
+  } = useAppStore();
+  const [playing, setPlaying] = useState(false);
+  const [dragYear, setDragYear] = useState<number | null>(null);
+  const nextIndexRef = useRef(0);
+
+  const steps = useMemo<number[]>(() => (
+    forecastYear && ForecastService.isForecastKPI(activeKpi)
+      ? [...SURVEY_YEARS, forecastYear]
+      : [...SURVEY_YEARS]
+  ), [forecastYear, activeKpi]);
+
+  const currentYear = timeSliderYear ?? currentFilters.year ?? steps[steps.length - 1];
+  const isProjected = !isSurveyYear(currentYear);
+
+  // Show the next year, hold it, and repeat until the last step
+  useEffect(() => {
+    if (!playing) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const advance = async () => {
+      const index = nextIndexRef.current;
+      await showTimeSliderYear(steps[index]);
+      if (cancelled) return;
+      if (index >= steps.length - 1) {
+        setPlaying(false);
+        return;
+      }
+      nextIndexRef.current = index + 1;
+      timer = setTimeout(advance, TIME_SLIDER_STEP_DURATION);
+    };
+    advance();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [playing, steps, showTimeSliderYear]);
+
+  const togglePlaying = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    // Start over once the last year has been reached
+    const index = steps.indexOf(currentYear);
+    nextIndexRef.current = index < 0 || index >= steps.length - 1 ? 0 : index + 1;
+    setPlaying(true);
+  };
+
+  const marks = Object.fromEntries(steps.map(year => [
+    year,
+    isSurveyYear(year) ? String(year) : { label: <i>{year}</i> }
+  ]));
+
+  const disabled = !mapView || isSwipeActive;
+
+  return (
+    <div className={styles.timeSliderPanel}>
+      <Card size="small">
+        <Space align="baseline" style={{ width: '100%', justifyContent: 'space-between' }}>
+          <Space align="baseline">
+            <span style={{ fontSize: 32, fontWeight: 700, lineHeight: 1, color: token.colorText }}>
+              {dragYear ?? currentYear}
+            </span>
+            {isProjected && <Tag color="orange">Projected</Tag>}
+          </Space>
+          <span style={{ fontSize: 12, color: token.colorTextSecondary }}>
+            {KPI_LABELS[activeKpi]}
+            {isProjected && ` · roads show ${SURVEY_YEARS[SURVEY_YEARS.length - 1]} survey`}
+          </span>
+        </Space>
+        <Space style={{ width: '100%' }} align="center">
+          <Tooltip title={playing ? 'Pause' : 'Play through the survey years'}>
+            <Button
+              shape="circle"
+              icon={playing ? <PauseOutlined /> : <CaretRightOutlined />}
+              onClick={togglePlaying}
+              disabled={disabled}
+              aria-label={playing ? 'Pause time slider' : 'Play time slider'}
+            />
+          </Tooltip>
+          <Slider
+            min={steps[0]}
+            max={steps[steps.length - 1]}
+            marks={marks}
+            step={null}
+            value={dragYear ?? currentYear}
+            onChange={setDragYear}
+            onChangeComplete={(year) => {
+              setDragYear(null);
+              setPlaying(false);
+              if (year !== currentYear) showTimeSliderYear(year);
+            }}
+            tooltip={{ open: false }}
+            disabled={disabled}
+            style={{ width: 330, margin: '8px 12px 16px' }}
+          />
+        </Space>
+      </Card>
+    </div>
+  );
+};
+
+export default TimeSliderControl;
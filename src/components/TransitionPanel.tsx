@@ -0,0 +1,125 @@
+// src/components/TransitionPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { Alert, Card, Progress, Segmented, Select, Space, Spin, Tag, Typography } from 'antd';
+import { SwapRightOutlined } from '@ant-design/icons';
+import useAppStore from '@/store/useAppStore';
+import { KPI_LABELS } from '@/config/kpiConfig';
+import { SURVEY_YEARS, type SurveyYear } from '@/config/constants';
+import type { AggregationProgress } from '@/services/AggregationService';
+import PaginationService from '@/services/PaginationService';
+import QueryService from '@/services/QueryService';
+import TransitionService, { type ConditionTransitionMatrix } from '@/services/TransitionService';
+import ConditionTransitionView, { TransitionSummary, type TransitionViewMode } from './ConditionTransitionView';
+
+const { Text } = Typography;
+
+const yearOptions = SURVEY_YEARS.map(year => ({ label: String(year), value: year }));
+
+/**
+ * Dashboard panel showing how segments moved between condition classes for
+ * the active KPI. Uses the applied LA, route and subgroup filters.
+ */
+const TransitionPanel: React.FC = () => {
+  const {
+    getRoadDataSource,
+    activeKpi,
+    currentFilters,
+    thresholdRevision
+  } = useAppStore();
+  // Dashboard source: a loaded local extract, else the hosted layer, with the area filter
+  const roadData = getRoadDataSource();
+
+  const [fromYear, setFromYear] = useState<SurveyYear>(2018);
+  const [toYear, setToYear] = useState<SurveyYear>(2025);
+  const [mode, setMode] = useState<TransitionViewMode>('sankey');
+  const [matrix, setMatrix] = useState<ConditionTransitionMatrix | null>(null);
+  const [progress, setProgress] = useState<AggregationProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { localAuthority, subgroup, route, kpiRanges, conditionClasses, spatial } = currentFilters;
+
+  useEffect(() => {
+    if (!roadData || fromYear === toYear) return;
+
+    const controller = new AbortController();
+    setError(null);
+    setProgress({ phase: 'querying', processed: 0, total: 0, percent: 0, message: 'Loading segments...' });
+
+    TransitionService.computeTransitions(
+      roadData,
+      activeKpi,
+      fromYear,
+      toYear,
+      { localAuthority, subgroup, route, kpiRanges, conditionClasses },
+      setProgress,
+      controller.signal
+    )
+      .then(setMatrix)
+      .catch(err => {
+        if (PaginationService.isAbortError(err)) return;
+        console.error('[TransitionPanel] Error computing transitions:', err);
+        setError(err instanceof Error ? err.message : 'Failed to compute transitions');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [roadData, activeKpi, fromYear, toYear, localAuthority, subgroup, route, kpiRanges, conditionClasses, spatial, thresholdRevision]);
+
+  const filterCount = QueryService.countActiveFilters(currentFilters);
+
+  return (
+    <Card
+      size="small"
+      title={
+        <Space>
+          {KPI_LABELS[activeKpi]} Transitions
+          {filterCount > 0 && <Tag color="blue">{filterCount} filter{filterCount > 1 ? 's' : ''}</Tag>}
+        </Space>
+      }
+      extra={
+        <Segmented<TransitionViewMode>
+          size="small"
+          value={mode}
+          onChange={setMode}
+          options={[
+            { label: 'Sankey', value: 'sankey' },
+            { label: 'Matrix', value: 'matrix' }
+          ]}
+        />
+      }
+    >
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Space>
+          <Select<SurveyYear> size="small" value={fromYear} options={yearOptions} onChange={setFromYear} style={{ width: 90 }} />
+          <SwapRightOutlined />
+          <Select<SurveyYear> size="small" value={toYear} options={yearOptions} onChange={setToYear} style={{ width: 90 }} />
+        </Space>
+
+        {fromYear === toYear ? (
+          <Alert type="info" showIcon message="Choose two different survey years to compare." />
+        ) : error ? (
+          <Alert type="error" showIcon message="Transition analysis failed" description={error} />
+        ) : progress || !matrix ? (
+          <div style={{ textAlign: 'center', padding: 24 }}>
+            {progress ? <Progress percent={progress.percent} size="small" /> : <Spin />}
+            <Text type="secondary" style={{ fontSize: 12 }}>{progress?.message}</Text>
+          </div>
+        ) : (
+          <>
+            <TransitionSummary matrix={matrix} />
+            <ConditionTransitionView matrix={matrix} mode={mode} height={260} compact />
+            {matrix.unclassifiedSegments > 0 && (
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                {matrix.unclassifiedSegments.toLocaleString()} segments without a class in one of the years are excluded.
+              </Text>
+            )}
+          </>
+        )}
+      </Space>
+    </Card>
+  );
+};
+
+export default TransitionPanel;
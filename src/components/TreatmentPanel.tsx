@@ -0,0 +1,193 @@
+// src/components/TreatmentPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { Alert, Button, Card, Progress, Select, Space, Spin, Switch, Table, Tag, Typography } from 'antd';
+import { DownloadOutlined, SettingOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import useAppStore from '@/store/useAppStore';
+import { TREATMENT_COLORS } from '@/config/rendererConfig';
+import {
+  BUILT_IN_TREATMENT_RULE_SETS,
+  TREATMENT_CATEGORIES,
+  TREATMENT_LABELS
+} from '@/config/treatmentRules';
+import type { AggregationProgress } from '@/services/AggregationService';
+import PaginationService from '@/services/PaginationService';
+import TreatmentService, { type TreatmentLengthRow, type TreatmentSummary } from '@/services/TreatmentService';
+import TreatmentRuleSettings from './TreatmentRuleSettings';
+
+const { Text } = Typography;
+
+/**
+ * Dashboard panel recommending maintenance treatments for the filtered network.
+ * Shows km by treatment per Local Authority for the selected survey year, with
+ * a CSV export and a switch to colour the road layer by treatment.
+ */
+const TreatmentPanel: React.FC = () => {
+  const {
+    getRoadDataSource,
+    currentFilters,
+    roadRendererMode,
+    setRoadRendererMode,
+    activeTreatmentRuleSetId,
+    customTreatmentRuleSets,
+    getActiveTreatmentRuleSet,
+    setActiveTreatmentRuleSet,
+    thresholdRevision
+  } = useAppStore();
+  // Dashboard source: a loaded local extract, else the hosted layer, with the area filter
+  const roadData = getRoadDataSource();
+  const ruleSet = getActiveTreatmentRuleSet();
+
+  const [summary, setSummary] = useState<TreatmentSummary | null>(null);
+  const [progress, setProgress] = useState<AggregationProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  const { localAuthority, subgroup, route, kpiRanges, conditionClasses, spatial, year } = currentFilters;
+
+  useEffect(() => {
+    if (!roadData) return;
+
+    const controller = new AbortController();
+    setError(null);
+    setProgress({ phase: 'querying', processed: 0, total: 0, percent: 0, message: 'Loading segments...' });
+
+    TreatmentService.computeTreatmentsByLA(
+      roadData,
+      ruleSet,
+      year,
+      { localAuthority, subgroup, route, kpiRanges, conditionClasses },
+      setProgress,
+      controller.signal
+    )
+      .then(setSummary)
+      .catch(err => {
+        if (PaginationService.isAbortError(err)) return;
+        console.error('[TreatmentPanel] Error computing treatments:', err);
+        setError(err instanceof Error ? err.message : 'Failed to compute treatments');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [roadData, ruleSet, year, localAuthority, subgroup, route, kpiRanges, conditionClasses, spatial, thresholdRevision]);
+
+  const exportCSV = () => {
+    if (!summary) return;
+
+    const blob = new Blob([TreatmentService.toCSV(summary)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = TreatmentService.getCSVFilename(summary);
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const columns: ColumnsType<TreatmentLengthRow> = [
+    {
+      title: 'Local Authority',
+      dataIndex: 'la',
+      key: 'la',
+      fixed: 'left',
+      width: 140
+    },
+    ...TREATMENT_CATEGORIES.map(treatment => ({
+      title: <Tag color={TREATMENT_COLORS[treatment]}>{TREATMENT_LABELS[treatment]}</Tag>,
+      key: treatment,
+      align: 'right' as const,
+      width: 110,
+      sorter: (a: TreatmentLengthRow, b: TreatmentLengthRow) => a.lengthKm[treatment] - b.lengthKm[treatment],
+      render: (_: unknown, row: TreatmentLengthRow) => row.lengthKm[treatment].toFixed(1)
+    })),
+    {
+      title: 'Not Assessed',
+      key: 'unassessed',
+      align: 'right',
+      width: 100,
+      render: (_, row) => <Text type="secondary">{row.unassessedKm.toFixed(1)}</Text>
+    }
+  ];
+
+  const ruleSetOptions = [...BUILT_IN_TREATMENT_RULE_SETS, ...customTreatmentRuleSets].map(r => ({
+    label: r.builtIn ? r.name : `${r.name} (custom)`,
+    value: r.id
+  }));
+
+  return (
+    <Card
+      size="small"
+      title={
+        <Space>
+          Treatment Recommendations
+          <Tag>{year} survey</Tag>
+        </Space>
+      }
+      extra={
+        <Switch
+          size="small"
+          checked={roadRendererMode === 'treatment'}
+          onChange={checked => setRoadRendererMode(checked ? 'treatment' : 'condition')}
+          checkedChildren="Map"
+          unCheckedChildren="Map"
+        />
+      }
+    >
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Space wrap>
+          <Select
+            size="small"
+            value={activeTreatmentRuleSetId}
+            options={ruleSetOptions}
+            onChange={setActiveTreatmentRuleSet}
+            style={{ width: 220 }}
+          />
+          <Button size="small" icon={<SettingOutlined />} onClick={() => setSettingsOpen(true)}>
+            Rules
+          </Button>
+          <Button size="small" icon={<DownloadOutlined />} disabled={!summary || !!progress} onClick={exportCSV}>
+            Export CSV
+          </Button>
+        </Space>
+
+        {error ? (
+          <Alert type="error" showIcon message="Treatment analysis failed" description={error} />
+        ) : progress || !summary ? (
+          <div style={{ textAlign: 'center', padding: 24 }}>
+            {progress ? <Progress percent={progress.percent} size="small" /> : <Spin />}
+            <Text type="secondary" style={{ fontSize: 12 }}>{progress?.message}</Text>
+          </div>
+        ) : (
+          <Table
+            dataSource={summary.rows}
+            columns={columns}
+            rowKey="la"
+            pagination={false}
+            size="small"
+            scroll={{ x: 800, y: 360 }}
+            summary={() => (
+              <Table.Summary fixed>
+                <Table.Summary.Row>
+                  <Table.Summary.Cell index={0}><strong>Total (km)</strong></Table.Summary.Cell>
+                  {TREATMENT_CATEGORIES.map((treatment, index) => (
+                    <Table.Summary.Cell key={treatment} index={index + 1} align="right">
+                      <strong>{summary.total.lengthKm[treatment].toFixed(1)}</strong>
+                    </Table.Summary.Cell>
+                  ))}
+                  <Table.Summary.Cell index={TREATMENT_CATEGORIES.length + 1} align="right">
+                    <Text type="secondary">{summary.total.unassessedKm.toFixed(1)}</Text>
+                  </Table.Summary.Cell>
+                </Table.Summary.Row>
+              </Table.Summary>
+            )}
+          />
+        )}
+      </Space>
+
+      <TreatmentRuleSettings open={settingsOpen} onClose={() => setSettingsOpen(false)} />
+    </Card>
+  );
+};
+
+export default TreatmentPanel;
@@ -0,0 +1,342 @@
+// src/components/TreatmentRuleSettings.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Drawer,
+  Input,
+  InputNumber,
+  Popconfirm,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography
+} from 'antd';
+import {
+  ArrowDownOutlined,
+  ArrowUpOutlined,
+  CopyOutlined,
+  DeleteOutlined,
+  MinusCircleOutlined,
+  PlusOutlined,
+  SaveOutlined
+} from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import useAppStore from '@/store/useAppStore';
+import { KPI_LABELS } from '@/config/kpiConfig';
+import { TREATMENT_COLORS } from '@/config/rendererConfig';
+import {
+  BUILT_IN_TREATMENT_RULE_SETS,
+  TREATMENT_CATEGORIES,
+  TREATMENT_KPIS,
+  TREATMENT_LABELS,
+  TREATMENT_OPERATORS,
+  duplicateTreatmentRuleSet,
+  type TreatmentCondition,
+  type TreatmentRule,
+  type TreatmentRuleSet
+} from '@/config/treatmentRules';
+import {
+  createTreatmentRule,
+  describeRule,
+  validateTreatmentRuleSet
+} from '@/utils/treatmentRecommendation';
+
+const { Text } = Typography;
+
+interface TreatmentRuleSettingsProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const treatmentOptions = TREATMENT_CATEGORIES.map(treatment => ({
+  label: TREATMENT_LABELS[treatment],
+  value: treatment
+}));
+
+const kpiOptions = TREATMENT_KPIS.map(kpi => ({ label: KPI_LABELS[kpi], value: kpi }));
+
+const operatorOptions = TREATMENT_OPERATORS.map(operator => ({ label: operator, value: operator }));
+
+/**
+ * Drawer for choosing and editing treatment rule sets.
+ * Built-in rule sets are read-only; duplicating one creates an editable custom rule set.
+ */
+const TreatmentRuleSettings: React.FC<TreatmentRuleSettingsProps> = ({ open, onClose }) => {
+  const {
+    activeTreatmentRuleSetId,
+    customTreatmentRuleSets,
+    getActiveTreatmentRuleSet,
+    setActiveTreatmentRuleSet,
+    saveTreatmentRuleSet,
+    deleteTreatmentRuleSet
+  } = useAppStore();
+
+  const [draft, setDraft] = useState<TreatmentRuleSet | null>(null);
+
+  const activeRuleSet = getActiveTreatmentRuleSet();
+
+  // Start each edit from the saved copy of the selected rule set
+  useEffect(() => {
+    setDraft(activeRuleSet.builtIn ? null : activeRuleSet);
+  }, [activeRuleSet]);
+
+  const ruleSet = draft ?? activeRuleSet;
+  const editable = !ruleSet.builtIn;
+  const isDirty = draft !== null && draft !== activeRuleSet;
+  const error = validateTreatmentRuleSet(ruleSet);
+
+  const updateRules = (update: (rules: TreatmentRule[]) => TreatmentRule[]) => {
+    if (!draft) return;
+    setDraft({ ...draft, rules: update(draft.rules) });
+  };
+
+  const updateRule = (index: number, changes: Partial<TreatmentRule>) =>
+    updateRules(rules => rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+
+  const updateCondition = (ruleIndex: number, conditionIndex: number, changes: Partial<TreatmentCondition>) => {
+    const rule = ruleSet.rules[ruleIndex];
+    updateRule(ruleIndex, {
+      conditions: rule.conditions.map((condition, i) => (i === conditionIndex ? { ...condition, ...changes } : condition))
+    });
+  };
+
+  const moveRule = (index: number, offset: number) =>
+    updateRules(rules => {
+      const next = [...rules];
+      const [rule] = next.splice(index, 1);
+      next.splice(index + offset, 0, rule);
+      return next;
+    });
+
+  const handleDuplicate = async () => {
+    const copy = duplicateTreatmentRuleSet(ruleSet, `${ruleSet.name} (copy)`);
+    await saveTreatmentRuleSet(copy);
+    await setActiveTreatmentRuleSet(copy.id);
+  };
+
+  const handleSave = async () => {
+    if (!draft || error) return;
+    await saveTreatmentRuleSet(draft);
+  };
+
+  const columns: ColumnsType<TreatmentRule> = [
+    {
+      title: '#',
+      key: 'order',
+      width: 40,
+      render: (_, __, index) => index + 1
+    },
+    {
+      title: 'Treatment',
+      dataIndex: 'treatment',
+      key: 'treatment',
+      width: 200,
+      render: (treatment: TreatmentRule['treatment'], rule, index) => (
+        <Space direction="vertical" size={4} style={{ width: '100%' }}>
+          {editable ? (
+            <Select
+              size="small"
+              value={treatment}
+              options={treatmentOptions}
+              onChange={value => updateRule(index, { treatment: value })}
+              style={{ width: '100%' }}
+            />
+          ) : (
+            <Tag color={TREATMENT_COLORS[treatment]}>{TREATMENT_LABELS[treatment]}</Tag>
+          )}
+          {editable ? (
+            <Input
+              size="small"
+              placeholder="Note"
+              value={rule.note}
+              onChange={e => updateRule(index, { note: e.target.value })}
+            />
+          ) : (
+            rule.note && <Text type="secondary" style={{ fontSize: 12 }}>{rule.note}</Text>
+          )}
+        </Space>
+      )
+    },
+    {
+      title: 'When all of',
+      key: 'conditions',
+      render: (_, rule, ruleIndex) => {
+        if (!editable) return describeRule(rule);
+
+        return (
+          <Space direction="vertical" size={4}>
+            {rule.conditions.map((condition, conditionIndex) => (
+              <Space key={conditionIndex} size={4}>
+                <Select
+                  size="small"
+                  value={condition.kpi}
+                  options={kpiOptions}
+                  onChange={kpi => updateCondition(ruleIndex, conditionIndex, { kpi })}
+                  style={{ width: 100 }}
+                />
+                <Select
+                  size="small"
+                  value={condition.operator}
+                  options={operatorOptions}
+                  onChange={operator => updateCondition(ruleIndex, conditionIndex, { operator })}
+                  style={{ width: 60 }}
+                />
+                <InputNumber
+                  size="small"
+                  value={Number.isFinite(condition.value) ? condition.value : null}
+                  step={0.1}
+                  onChange={value => updateCondition(ruleIndex, conditionIndex, { value: value ?? NaN })}
+                  style={{ width: 80 }}
+                />
+                <Button
+                  size="small"
+                  type="text"
+                  icon={<MinusCircleOutlined />}
+                  disabled={rule.conditions.length === 1}
+                  onClick={() => updateRule(ruleIndex, {
+                    conditions: rule.conditions.filter((_, i) => i !== conditionIndex)
+                  })}
+                />
+              </Space>
+            ))}
+            <Button
+              size="small"
+              type="dashed"
+              icon={<PlusOutlined />}
+              onClick={() => updateRule(ruleIndex, {
+                conditions: [...rule.conditions, { kpi: 'psci', operator: '<=', value: 0 }]
+              })}
+            >
+              Condition
+            </Button>
+          </Space>
+        );
+      }
+    },
+    ...(editable ? [{
+      key: 'actions',
+      width: 100,
+      render: (_: unknown, __: TreatmentRule, index: number) => (
+        <Space size={0}>
+          <Button size="small" type="text" icon={<ArrowUpOutlined />} disabled={index === 0} onClick={() => moveRule(index, -1)} />
+          <Button
+            size="small"
+            type="text"
+            icon={<ArrowDownOutlined />}
+            disabled={index === ruleSet.rules.length - 1}
+            onClick={() => moveRule(index, 1)}
+          />
+          <Button
+            size="small"
+            type="text"
+            danger
+            icon={<DeleteOutlined />}
+            onClick={() => updateRules(rules => rules.filter((_, i) => i !== index))}
+          />
+        </Space>
+      )
+    }] : [])
+  ];
+
+  const ruleSetOptions = [...BUILT_IN_TREATMENT_RULE_SETS, ...customTreatmentRuleSets].map(r => ({
+    label: r.builtIn ? r.name : `${r.name} (custom)`,
+    value: r.id
+  }));
+
+  return (
+    <Drawer
+      title="Treatment Rules"
+      open={open}
+      onClose={onClose}
+      width={760}
+      extra={
+        <Space>
+          <Button icon={<CopyOutlined />} onClick={handleDuplicate}>Duplicate</Button>
+          {editable && (
+            <Popconfirm
+              title="Delete this rule set?"
+              onConfirm={() => deleteTreatmentRuleSet(ruleSet.id)}
+            >
+              <Button danger icon={<DeleteOutlined />}>Delete</Button>
+            </Popconfirm>
+          )}
+          {editable && (
+            <Button
+              type="primary"
+              icon={<SaveOutlined />}
+              disabled={!isDirty || !!error}
+              onClick={handleSave}
+            >
+              Save
+            </Button>
+          )}
+        </Space>
+      }
+    >
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Select
+          value={activeTreatmentRuleSetId}
+          options={ruleSetOptions}
+          onChange={setActiveTreatmentRuleSet}
+          style={{ width: '100%' }}
+        />
+
+        {editable ? (
+          <Input
+            addonBefore="Name"
+            value={ruleSet.name}
+            onChange={e => draft && setDraft({ ...draft, name: e.target.value })}
+          />
+        ) : (
+          <Space>
+            <Tag color="blue">Built-in</Tag>
+            <Text type="secondary">{ruleSet.description} — duplicate to edit.</Text>
+          </Space>
+        )}
+
+        <Text type="secondary">
+          Rules are checked from the top; a segment gets the treatment of the first rule whose
+          conditions all hold. Conditions on a KPI the segment has no value for do not hold.
+        </Text>
+
+        {error && <Alert type="error" showIcon message={error} />}
+
+        <Table
+          dataSource={ruleSet.rules}
+          columns={columns}
+          rowKey="id"
+          pagination={false}
+          size="small"
+          bordered
+        />
+
+        {editable && (
+          <Button
+            type="dashed"
+            block
+            icon={<PlusOutlined />}
+            onClick={() => updateRules(rules => [...rules, createTreatmentRule('routine')])}
+          >
+            Add rule
+          </Button>
+        )}
+
+        <Space>
+          <Text>Otherwise:</Text>
+          <Select
+            size="small"
+            value={ruleSet.defaultTreatment}
+            options={treatmentOptions}
+            disabled={!editable}
+            onChange={defaultTreatment => draft && setDraft({ ...draft, defaultTreatment })}
+            style={{ width: 240 }}
+          />
+        </Space>
+      </Space>
+    </Drawer>
+  );
+};
+
+export default TreatmentRuleSettings;
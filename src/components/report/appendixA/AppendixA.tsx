@@ -0,0 +1,391 @@
+// src/components/report/appendixA/AppendixA.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, Card, Progress, Radio, Space, Spin, Switch, Table, Tag, Typography, theme } from 'antd';
+import type { TableColumnsType } from 'antd';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title as ChartTitle,
+  Tooltip,
+  Legend,
+  ChartData,
+  ChartOptions
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { KPI_LABELS, type MeasuredKPIKey } from '@/config/kpiConfig';
+import { SUBGROUP_OPTIONS } from '@/config/layerConfig';
+import useAppStore from '@/store/useAppStore';
+import CumulativeFrequencyService, { type CumulativeData } from '@/services/CumulativeFrequencyService';
+import {
+  CUMULATIVE_FREQUENCY_CONFIGS,
+  CUMULATIVE_FREQUENCY_KPIS
+} from '@/components/report/section3/CumulativeFrequencyCharts';
+import {
+  compareCumulativeDistributions,
+  findNearestPointIndex,
+  type CumulativeStatisticDelta
+} from '@/utils/cumulativeComparison';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  ChartTitle,
+  Tooltip,
+  Legend
+);
+
+const { Title, Paragraph } = Typography;
+
+const FROM_YEAR = 2018;
+const TO_YEAR = 2025;
+const FROM_YEAR_COLOR = '#8c8c8c';
+
+/** Subgroup code, or 'all' for the whole network (Radio values cannot be null) */
+type SubgroupSelection = number | 'all';
+
+type YearData = Record<MeasuredKPIKey, CumulativeData>;
+
+interface ComparisonData {
+  from: YearData;
+  to: YearData;
+}
+
+/**
+ * Median and P90 markers for one year: a point where the curve crosses 50%
+ * and 90%, drawn at the nearest value on the x axis
+ */
+const buildMarkerDatasets = (data: CumulativeData, year: number, color: string) => {
+  if (data.stats.count === 0) return [];
+  const marker = (label: string, value: number, percent: number, pointStyle: 'circle' | 'triangle') => {
+    const index = findNearestPointIndex(data.dataPoints, value);
+    return {
+      label: `${year} ${label}`,
+      data: data.dataPoints.map((_, i) => (i === index ? percent : null)),
+      borderColor: color,
+      backgroundColor: color,
+      pointStyle,
+      pointRadius: 6,
+      pointHoverRadius: 8,
+      showLine: false
+    };
+  };
+  return [
+    marker('median', data.stats.median, 50, 'circle'),
+    marker('P90', data.stats.percentile90, 90, 'triangle')
+  ];
+};
+
+interface ComparisonFigureProps {
+  kpi: MeasuredKPIKey;
+  figureNumber: number;
+  from: CumulativeData;
+  to: CumulativeData;
+  subgroupLabel: string;
+  showGrid: boolean;
+}
+
+/**
+ * One figure: both years' curves with their markers, and the delta table
+ */
+const ComparisonFigure: React.FC<ComparisonFigureProps> = ({ kpi, figureNumber, from, to, subgroupLabel, showGrid }) => {
+  const { token } = theme.useToken();
+  const config = CUMULATIVE_FREQUENCY_CONFIGS[kpi];
+  const unit = config.unit ? ` ${config.unit}` : '';
+
+  const chartData = useMemo<ChartData<'line', (number | null)[], string>>(() => {
+    // Both years are sampled on the same grid from the KPI ranges
+    const points = to.dataPoints.length > 0 ? to.dataPoints : from.dataPoints;
+    const curve = (data: CumulativeData, year: number, color: string) => ({
+      label: `${year}`,
+      data: data.dataPoints.map(d => d.cumulativePercent),
+      borderColor: color,
+      backgroundColor: color,
+      borderWidth: 2,
+      borderDash: year === FROM_YEAR ? [6, 4] : undefined,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      tension: 0.4
+    });
+
+    return {
+      labels: points.map(d => d.value.toFixed(2)),
+      datasets: [
+        curve(from, FROM_YEAR, FROM_YEAR_COLOR),
+        curve(to, TO_YEAR, config.color),
+        ...buildMarkerDatasets(from, FROM_YEAR, FROM_YEAR_COLOR),
+        ...buildMarkerDatasets(to, TO_YEAR, config.color)
+      ]
+    };
+  }, [from, to, config.color]);
+
+  const chartOptions = useMemo<ChartOptions<'line'>>(() => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top',
+        labels: { color: token.colorText, usePointStyle: true }
+      },
+      tooltip: {
+        mode: 'index',
+        intersect: false,
+        callbacks: {
+          label: (context) => {
+            const y = context.parsed.y ?? 0;
+            return `${context.dataset.label}: ${y.toFixed(1)}% ≤ ${context.label}${unit}`;
+          }
+        }
+      }
+    },
+    scales: {
+      x: {
+        title: {
+          display: true,
+          text: config.unit ? `${config.label} (${config.unit})` : config.label,
+          color: token.colorText,
+          font: { size: 13, weight: 'bold' }
+        },
+        ticks: { color: token.colorTextSecondary, maxTicksLimit: 15 },
+        grid: { display: showGrid, color: token.colorBorderSecondary }
+      },
+      y: {
+        title: {
+          display: true,
+          text: 'Cumulative Percentage (%)',
+          color: token.colorText,
+          font: { size: 13, weight: 'bold' }
+        },
+        min: 0,
+        max: 100,
+        ticks: { color: token.colorTextSecondary, callback: (value) => `${value}%` },
+        grid: { display: showGrid, color: token.colorBorderSecondary }
+      }
+    },
+    interaction: { mode: 'nearest', axis: 'x', intersect: false }
+  }), [config, unit, showGrid, token]);
+
+  const deltas = useMemo(() => compareCumulativeDistributions(kpi, from, to), [kpi, from, to]);
+
+  const formatValue = (row: CumulativeStatisticDelta, value: number | null) => {
+    if (value === null) return '–';
+    return row.statistic === 'count' ? value.toLocaleString() : `${value.toFixed(2)}${unit}`;
+  };
+
+  const columns: TableColumnsType<CumulativeStatisticDelta> = [
+    { title: 'Statistic', dataIndex: 'label', key: 'label' },
+    { title: String(FROM_YEAR), key: 'from', align: 'right', render: (_, row) => formatValue(row, row.from) },
+    { title: String(TO_YEAR), key: 'to', align: 'right', render: (_, row) => formatValue(row, row.to) },
+    {
+      title: 'Change',
+      key: 'change',
+      align: 'right',
+      render: (_, row) => {
+        if (row.change === null) return '–';
+        const sign = row.change > 0 ? '+' : '';
+        const color = row.direction === 'better'
+          ? token.colorSuccess
+          : row.direction === 'worse' ? token.colorError : undefined;
+        return <span style={{ color, fontWeight: 600 }}>{sign}{formatValue(row, row.change)}</span>;
+      }
+    }
+  ];
+
+  const noData = from.stats.count === 0 && to.stats.count === 0;
+
+  return (
+    <Card
+      title={`Figure A.${figureNumber}: ${config.label} Cumulative Frequency (${FROM_YEAR} vs ${TO_YEAR})`}
+      extra={<Tag>{subgroupLabel}</Tag>}
+      variant="borderless"
+    >
+      {noData ? (
+        <Alert type="info" showIcon message={`No ${KPI_LABELS[kpi]} data for the selected roads`} />
+      ) : (
+        <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+          <div style={{ height: 400 }}>
+            <Line data={chartData} options={chartOptions} />
+          </div>
+          <Table<CumulativeStatisticDelta>
+            size="small"
+            rowKey="statistic"
+            columns={columns}
+            dataSource={deltas}
+            pagination={false}
+          />
+        </Space>
+      )}
+    </Card>
+  );
+};
+
+/**
+ * Appendix A: National Comparisons (2018 vs 2025)
+ *
+ * Overlaid cumulative frequency curves for the two surveys, with median and
+ * P90 markers and a table of changes, for the whole network or one subgroup:
+ * - Figure A.1: Average IRI
+ * - Figure A.2: Left Rut Depth
+ * - Figure A.3: Mean Profile Depth
+ * - Figure A.4: SCRIM CSC
+ * - Figure A.5: PSCI
+ */
+const AppendixA: React.FC = () => {
+  const { token } = theme.useToken();
+  const roadLayer = useAppStore(state => state.roadLayer);
+  const [subgroup, setSubgroup] = useState<SubgroupSelection>('all');
+  const [showGrid, setShowGrid] = useState(true);
+  const [data, setData] = useState<ComparisonData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingProgress, setLoadingProgress] = useState(0);
+  const [loadingMessage, setLoadingMessage] = useState('Initializing...');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!roadLayer) {
+      setError('Road layer not available');
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const subgroupCode = subgroup === 'all' ? null : subgroup;
+    const total = CUMULATIVE_FREQUENCY_KPIS.length * 2;
+    let completed = 0;
+
+    const fetchYear = async (year: number): Promise<YearData> => {
+      const results = await Promise.all(CUMULATIVE_FREQUENCY_KPIS.map(async kpi => {
+        const result = await CumulativeFrequencyService.fetchCumulativeDataForKPI(
+          roadLayer,
+          kpi,
+          year,
+          CUMULATIVE_FREQUENCY_CONFIGS[kpi],
+          undefined,
+          subgroupCode
+        );
+        completed += 1;
+        if (!cancelled) {
+          setLoadingProgress(Math.round((completed / total) * 100));
+          setLoadingMessage(`Loaded ${KPI_LABELS[kpi]} ${year} (${completed}/${total})...`);
+        }
+        return [kpi, result] as const;
+      }));
+      return Object.fromEntries(results) as YearData;
+    };
+
+    setLoading(true);
+    setError(null);
+    setLoadingProgress(0);
+    setLoadingMessage('Initializing...');
+
+    Promise.all([fetchYear(FROM_YEAR), fetchYear(TO_YEAR)])
+      .then(([from, to]) => {
+        if (!cancelled) setData({ from, to });
+      })
+      .catch(err => {
+        console.error('[AppendixA] Error loading cumulative data:', err);
+        if (!cancelled) setError('Failed to load cumulative frequency data');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roadLayer, subgroup]);
+
+  const subgroupLabel = subgroup === 'all'
+    ? 'All Roads'
+    : SUBGROUP_OPTIONS.find(option => option.code === subgroup)?.label ?? String(subgroup);
+
+  return (
+    <Space direction="vertical" size="large" style={{ width: '100%' }}>
+      <div>
+        <Title level={2}>Appendix A: National Comparisons ({FROM_YEAR} vs {TO_YEAR})</Title>
+        <Paragraph>
+          Each figure overlays the cumulative frequency curves of the {FROM_YEAR} and {TO_YEAR} surveys, so
+          a shift of the curve shows how the whole distribution of the indicator has changed rather than
+          only its average. Markers give the median (circle) and 90th percentile (triangle) of each survey.
+        </Paragraph>
+        <Paragraph type="secondary">
+          Changes in the tables are coloured green where condition improved and red where it deteriorated.
+          Each year includes every segment surveyed in that year.
+        </Paragraph>
+      </div>
+
+      <Card size="small">
+        <Space direction="vertical" style={{ width: '100%' }} size="middle">
+          <div>
+            <strong>Road Subgroup:</strong>
+          </div>
+          <Radio.Group
+            value={subgroup}
+            onChange={(e) => setSubgroup(e.target.value as SubgroupSelection)}
+            buttonStyle="solid"
+          >
+            <Radio.Button value="all">All Roads</Radio.Button>
+            {SUBGROUP_OPTIONS.map(option => (
+              <Radio.Button key={option.code} value={option.code}>{option.label}</Radio.Button>
+            ))}
+          </Radio.Group>
+          <Switch
+            checked={showGrid}
+            onChange={setShowGrid}
+            checkedChildren="Grid On"
+            unCheckedChildren="Grid Off"
+            style={{ alignSelf: 'flex-start' }}
+          />
+        </Space>
+      </Card>
+
+      {loading ? (
+        <div style={{
+          height: 400,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: 16
+        }}>
+          <Spin size="large" />
+          <div style={{ width: 300 }}>
+            <Progress
+              percent={loadingProgress}
+              status="active"
+              strokeColor={{
+                '0%': '#108ee9',
+                '100%': '#87d068',
+              }}
+            />
+            <div style={{ textAlign: 'center', marginTop: 8, color: token.colorTextSecondary }}>
+              {loadingMessage}
+            </div>
+          </div>
+        </div>
+      ) : error ? (
+        <Alert message="Error" description={error} type="error" showIcon />
+      ) : data && (
+        <>
+          {CUMULATIVE_FREQUENCY_KPIS.map((kpi, index) => (
+            <ComparisonFigure
+              key={kpi}
+              kpi={kpi}
+              figureNumber={index + 1}
+              from={data.from[kpi]}
+              to={data.to[kpi]}
+              subgroupLabel={subgroupLabel}
+              showGrid={showGrid}
+            />
+          ))}
+        </>
+      )}
+    </Space>
+  );
+};
+
+export default AppendixA;
@@ -0,0 +1,3 @@
+// src/components/report/appendixA/index.ts
+export { default } from './AppendixA';
+export { default as AppendixA } from './AppendixA';
@@ -0,0 +1,409 @@
+// src/components/report/appendixB/AppendixB.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Button, Card, Col, Empty, Progress, Row, Select, Space, Spin, Table, Typography, theme } from 'antd';
+import type { TableColumnsType } from 'antd';
+import { AppstoreOutlined, PictureOutlined, StopOutlined } from '@ant-design/icons';
+import type FeatureLayer from '@arcgis/core/layers/FeatureLayer';
+import useAppStore from '@/store/useAppStore';
+import { KPI_LABELS, type MeasuredKPIKey } from '@/config/kpiConfig';
+import { ROAD_FIELDS } from '@/config/layerConfig';
+import QueryService from '@/services/QueryService';
+import RendererService from '@/services/RendererService';
+import ReportMapService from '@/services/ReportMapService';
+import StatisticsService from '@/services/StatisticsService';
+import { CUMULATIVE_FREQUENCY_KPIS } from '@/components/report/section3/CumulativeFrequencyCharts';
+import { cloneRoadLayer, createNetworkLayer } from '@/utils/layerCloneHelper';
+import { compareCountySummaries, type CountySummaryRow } from '@/utils/countyComparison';
+import { getValueDecimals } from '@/utils/segmentHistory';
+import { renderWhere, where } from '@/utils/whereClause';
+
+const { Title, Paragraph, Text } = Typography;
+
+const FROM_YEAR = 2018;
+const TO_YEAR = 2025;
+const MAP_IMAGE_WIDTH = 640;
+const MAP_IMAGE_HEIGHT = 480;
+
+/** Figures B.1–B.5 follow the KPI order of Appendix A */
+const COUNTY_MAP_KPIS: MeasuredKPIKey[] = CUMULATIVE_FREQUENCY_KPIS;
+
+interface CountyKPIFigure {
+  kpi: MeasuredKPIKey;
+  fromImage: string;
+  toImage: string;
+  summary: CountySummaryRow[];
+}
+
+interface CountyFigureSet {
+  la: string;
+  figures: CountyKPIFigure[];
+}
+
+interface GenerationProgress {
+  percent: number;
+  message: string;
+}
+
+/**
+ * Maps and summary numbers for one Local Authority: each KPI drawn over the
+ * LA's roads for both survey years, captured one map at a time. Pass a layer
+ * without dashboard filters (createNetworkLayer), so the maps, the extent and
+ * the numbers all describe every road in the county.
+ *
+ * @returns The figures, or null if generation was cancelled
+ */
+export async function generateCountyFigureSet(
+  networkLayer: FeatureLayer,
+  la: string,
+  container: HTMLDivElement,
+  themeMode: 'light' | 'dark',
+  onStep: (message: string, done: number, total: number) => void,
+  isCancelled: () => boolean
+): Promise<CountyFigureSet | null> {
+  const filters = { localAuthority: [la], subgroup: [], route: [] };
+  const extent = await QueryService.queryExtentForFilters(networkLayer, filters);
+  if (!extent) throw new Error(`No road segments found for ${la}`);
+
+  const definitionExpression = renderWhere(where.eq(ROAD_FIELDS.la, la));
+  const total = COUNTY_MAP_KPIS.length * 2;
+  const figures: CountyKPIFigure[] = [];
+
+  for (const kpi of COUNTY_MAP_KPIS) {
+    const images: string[] = [];
+    for (const year of [FROM_YEAR, TO_YEAR]) {
+      if (isCancelled()) return null;
+      onStep(`${la}: ${KPI_LABELS[kpi]} ${year}`, figures.length * 2 + images.length, total);
+
+      const layer = cloneRoadLayer(networkLayer, kpi, year, themeMode, `${KPI_LABELS[kpi]} ${year}`);
+      layer.definitionExpression = definitionExpression;
+      images.push(await ReportMapService.captureLayerMap(container, [layer], {
+        extent,
+        width: MAP_IMAGE_WIDTH,
+        height: MAP_IMAGE_HEIGHT
+      }));
+    }
+
+    const [fromStats, toStats] = await Promise.all([
+      StatisticsService.computeSummary(networkLayer, { ...filters, year: FROM_YEAR }, kpi),
+      StatisticsService.computeSummary(networkLayer, { ...filters, year: TO_YEAR }, kpi)
+    ]);
+    figures.push({
+      kpi,
+      fromImage: images[0],
+      toImage: images[1],
+      summary: compareCountySummaries(kpi, fromStats, toStats)
+    });
+  }
+
+  onStep(`${la}: complete`, total, total);
+  return { la, figures };
+}
+
+const lineColor = (symbol: __esri.SymbolUnion | null | undefined): string | undefined =>
+  symbol?.type === 'simple-line' ? symbol.color?.toCss(true) : undefined;
+
+/**
+ * Legend shared by both maps of a figure: the classes of the KPI renderer,
+ * which are the same in every survey year
+ */
+const ConditionLegend: React.FC<{ kpi: MeasuredKPIKey }> = ({ kpi }) => {
+  const { token } = theme.useToken();
+  const themeMode = useAppStore(state => state.themeMode);
+  const thresholdRevision = useAppStore(state => state.thresholdRevision);
+
+  const items = useMemo(() => {
+    const renderer = RendererService.createRenderer(kpi, TO_YEAR, themeMode);
+    return [
+      ...(renderer.classBreakInfos ?? []).map(info => ({ label: info.label ?? '', color: lineColor(info.symbol) })),
+      { label: renderer.defaultLabel ?? 'No Data', color: lineColor(renderer.defaultSymbol) }
+    ];
+    // Renderers follow the active thresholds
+  }, [kpi, themeMode, thresholdRevision]);
+
+  return (
+    <Space size="middle" wrap style={{ justifyContent: 'center', width: '100%' }}>
+      {items.map(item => (
+        <Space key={item.label} size={6}>
+          <span style={{ display: 'inline-block', width: 24, height: 4, borderRadius: 2, background: item.color ?? token.colorTextQuaternary }} />
+          <Text style={{ fontSize: 12 }}>{item.label}</Text>
+        </Space>
+      ))}
+    </Space>
+  );
+};
+
+interface CountyFigureProps {
+  la: string;
+  figure: CountyKPIFigure;
+  figureNumber: number;
+}
+
+/**
+ * One figure: the two maps side by side, the shared legend and the summary numbers
+ */
+const CountyFigure: React.FC<CountyFigureProps> = ({ la, figure, figureNumber }) => {
+  const { token } = theme.useToken();
+  const decimals = getValueDecimals(figure.kpi);
+
+  const formatValue = (row: CountySummaryRow, value: number | null) => {
+    if (value === null) return '–';
+    return value.toFixed(row.metric === 'average' ? decimals : 1);
+  };
+
+  const columns: TableColumnsType<CountySummaryRow> = [
+    { title: KPI_LABELS[figure.kpi], dataIndex: 'label', key: 'label' },
+    { title: String(FROM_YEAR), key: 'from', align: 'right', render: (_, row) => formatValue(row, row.from) },
+    { title: String(TO_YEAR), key: 'to', align: 'right', render: (_, row) => formatValue(row, row.to) },
+    {
+      title: 'Change',
+      key: 'change',
+      align: 'right',
+      render: (_, row) => {
+        if (row.change === null) return '–';
+        const sign = row.change > 0 ? '+' : '';
+        const color = row.direction === 'better'
+          ? token.colorSuccess
+          : row.direction === 'worse' ? token.colorError : undefined;
+        return <span style={{ color, fontWeight: 600 }}>{sign}{formatValue(row, row.change)}</span>;
+      }
+    }
+  ];
+
+  const mapImage = (src: string, year: number) => (
+    <Col xs={24} md={12}>
+      <img
+        src={src}
+        alt={`${KPI_LABELS[figure.kpi]} ${year}, ${la}`}
+        style={{ width: '100%', display: 'block', border: `1px solid ${token.colorBorderSecondary}` }}
+      />
+      <div style={{ textAlign: 'center', marginTop: 4, fontWeight: 600 }}>{year}</div>
+    </Col>
+  );
+
+  return (
+    <Card
+      title={`Figure B.${figureNumber}: ${KPI_LABELS[figure.kpi]} – ${la} (${FROM_YEAR} vs ${TO_YEAR})`}
+      variant="borderless"
+    >
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Row gutter={[16, 16]}>
+          {mapImage(figure.fromImage, FROM_YEAR)}
+          {mapImage(figure.toImage, TO_YEAR)}
+        </Row>
+        <ConditionLegend kpi={figure.kpi} />
+        <Table<CountySummaryRow>
+          size="small"
+          rowKey="metric"
+          columns={columns}
+          dataSource={figure.summary}
+          pagination={false}
+        />
+      </Space>
+    </Card>
+  );
+};
+
+/**
+ * Appendix B: Local Authority Comparisons (2018 vs 2025)
+ *
+ * For a chosen county, static 2018 and 2025 maps of each KPI zoomed to the
+ * Local Authority (Figures B.1–B.5), drawn through ReportMapService in an
+ * off-screen container. Sets can be generated for every LA in sequence and
+ * are kept while the page is open.
+ */
+const AppendixB: React.FC = () => {
+  const { token } = theme.useToken();
+  const { roadLayer, themeMode, thresholdRevision } = useAppStore();
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Bumped to stop a running batch; a batch only keeps results from its own generation
+  const generationRef = useRef(0);
+
+  const [networkLayer, setNetworkLayer] = useState<FeatureLayer | null>(null);
+  const [laOptions, setLaOptions] = useState<string[]>([]);
+  const [selectedLA, setSelectedLA] = useState<string | null>(null);
+  const [figureSets, setFigureSets] = useState<Record<string, CountyFigureSet>>({});
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // The appendix covers every county's whole network, not the dashboard's filtered view
+  useEffect(() => {
+    if (!roadLayer) return;
+
+    let cancelled = false;
+    const layer = createNetworkLayer(roadLayer);
+    layer.load()
+      .then(() => {
+        if (!cancelled) setNetworkLayer(layer);
+      })
+      .catch(err => console.error('[AppendixB] Error loading the road network:', err));
+
+    return () => {
+      cancelled = true;
+      setNetworkLayer(null);
+      layer.destroy();
+    };
+  }, [roadLayer]);
+
+  useEffect(() => {
+    if (!networkLayer) return;
+    QueryService.getUniqueValues(networkLayer, ROAD_FIELDS.la).then(values => {
+      const sorted = [...values].sort((a, b) => a.localeCompare(b));
+      setLaOptions(sorted);
+      setSelectedLA(current => current ?? sorted[0] ?? null);
+    });
+  }, [networkLayer]);
+
+  // Maps drawn with another theme or threshold profile are out of date, and so
+  // is anything a running batch has still to draw
+  useEffect(() => {
+    generationRef.current += 1;
+    setFigureSets({});
+  }, [themeMode, thresholdRevision]);
+
+  // Stop a running batch when leaving the page
+  useEffect(() => () => {
+    generationRef.current += 1;
+  }, []);
+
+  const generate = async (las: string[]) => {
+    const container = containerRef.current;
+    if (!networkLayer || !container || las.length === 0) return;
+
+    const generation = ++generationRef.current;
+    const isStale = () => generationRef.current !== generation;
+    setErrors([]);
+
+    for (const [index, la] of las.entries()) {
+      setSelectedLA(la);
+      try {
+        const figureSet = await generateCountyFigureSet(
+          networkLayer,
+          la,
+          container,
+          themeMode,
+          (message, done, total) => setProgress({
+            percent: Math.round(((index + done / total) / las.length) * 100),
+            message: las.length > 1 ? `${message} (${index + 1}/${las.length})` : message
+          }),
+          isStale
+        );
+        if (!figureSet || isStale()) break;
+        setFigureSets(current => ({ ...current, [la]: figureSet }));
+      } catch (err) {
+        if (isStale()) break;
+        console.error(`[AppendixB] Error generating maps for ${la}:`, err);
+        setErrors(current => [...current, `${la}: ${err instanceof Error ? err.message : 'Unknown error'}`]);
+      }
+    }
+
+    setProgress(null);
+  };
+
+  const remainingLAs = laOptions.filter(la => !figureSets[la]);
+  const selectedSet = selectedLA ? figureSets[selectedLA] : undefined;
+  const generating = progress !== null;
+
+  return (
+    <Space direction="vertical" size="large" style={{ width: '100%' }}>
+      <div>
+        <Title level={2}>Appendix B: Local Authority Comparisons ({FROM_YEAR} vs {TO_YEAR})</Title>
+        <Paragraph>
+          Each figure shows the roads of one Local Authority in the {FROM_YEAR} and {TO_YEAR} surveys side by
+          side, drawn with the same condition classes, with the county's average, share in fair or better
+          condition and share in poor or worse condition for both years underneath.
+        </Paragraph>
+        <Paragraph type="secondary">
+          Maps are generated as images for the selected county, or for every county in turn. Generated
+          counties can be revisited without drawing the maps again.
+        </Paragraph>
+      </div>
+
+      <Card size="small">
+        <Space wrap>
+          <Text strong>County:</Text>
+          <Select
+            showSearch
+            value={selectedLA}
+            options={laOptions.map(la => ({
+              label: figureSets[la] ? `${la} ✓` : la,
+              value: la
+            }))}
+            onChange={setSelectedLA}
+            disabled={generating}
+            placeholder="Select a Local Authority"
+            style={{ width: 240 }}
+          />
+          <Button
+            type="primary"
+            icon={<PictureOutlined />}
+            onClick={() => selectedLA && generate([selectedLA])}
+            disabled={!selectedLA || !networkLayer || generating}
+          >
+            {selectedSet ? 'Regenerate Maps' : 'Generate Maps'}
+          </Button>
+          <Button
+            icon={<AppstoreOutlined />}
+            onClick={() => generate(remainingLAs)}
+            disabled={remainingLAs.length === 0 || !networkLayer || generating}
+          >
+            Generate All ({remainingLAs.length} remaining)
+          </Button>
+          {generating && (
+            <Button danger icon={<StopOutlined />} onClick={() => { generationRef.current += 1; }}>
+              Stop
+            </Button>
+          )}
+        </Space>
+        {progress && (
+          <div style={{ marginTop: 12 }}>
+            <Progress percent={progress.percent} status="active" />
+            <Text type="secondary" style={{ fontSize: 12 }}>{progress.message}</Text>
+          </div>
+        )}
+      </Card>
+
+      {errors.length > 0 && (
+        <Alert
+          type="error"
+          showIcon
+          message="Some maps could not be generated"
+          description={errors.map(error => <div key={error}>{error}</div>)}
+        />
+      )}
+
+      {selectedSet ? (
+        selectedSet.figures.map((figure, index) => (
+          <CountyFigure key={figure.kpi} la={selectedSet.la} figure={figure} figureNumber={index + 1} />
+        ))
+      ) : generating ? (
+        <div style={{ height: 300, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          <Spin size="large" tip={`Drawing maps for ${selectedLA}...`}>
+            <div style={{ width: 200 }} />
+          </Spin>
+        </div>
+      ) : (
+        <Card variant="borderless">
+          <Empty
+            description={selectedLA ? `No maps generated for ${selectedLA} yet` : 'Select a county'}
+          />
+        </Card>
+      )}
+
+      {/* Maps are drawn here before being captured; it needs a size, so it is moved off screen rather than hidden */}
+      <div
+        ref={containerRef}
+        aria-hidden
+        style={{
+          position: 'fixed',
+          left: -10000,
+          top: 0,
+          width: MAP_IMAGE_WIDTH,
+          height: MAP_IMAGE_HEIGHT,
+          background: token.colorBgContainer
+        }}
+      />
+    </Space>
+  );
+};
+
+export default AppendixB;
@@ -0,0 +1,3 @@
+// src/components/report/appendixB/index.ts
+export { default } from './AppendixB';
+export { default as AppendixB } from './AppendixB';
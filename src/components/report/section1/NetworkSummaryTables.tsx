@@ -1,6 +1,6 @@
 // src/components/report/section1/NetworkSummaryTables.tsx
 import React, { useEffect, useState } from 'react';
-import { Card, Table, Space, Spin, Alert, Button, theme } from 'antd';
+import { Card, Table, Space, Alert, Button, theme } from 'antd';
 import { DownloadOutlined } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
 import {
@@ -8,6 +8,8 @@ import {
   RoadLengthByLA,
   RoadWidthByLA
 } from '@/services/NetworkDataService';
+import type { AggregationProgress } from '@/services/AggregationService';
+import LoadingOverlay from '@/components/LoadingOverlay';
 import useAppStore from '@/store/useAppStore';
 
 interface NetworkSummaryTablesProps {
@@ -20,6 +22,7 @@ const NetworkSummaryTables: React.FC<NetworkSummaryTablesProps> = ({
   const { token } = theme.useToken();
   const { roadLayer } = useAppStore();
   const [loading, setLoading] = useState(true);
+  const [progress, setProgress] = useState<AggregationProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [lengthData, setLengthData] = useState<RoadLengthByLA[]>([]);
   const [widthData, setWidthData] = useState<RoadWidthByLA[]>([]);
@@ -46,7 +49,7 @@ const NetworkSummaryTables: React.FC<NetworkSummaryTablesProps> = ({
 
         // Fetch both tables and summary in parallel
         const [lengthResult, widthResult, summaryResult] = await Promise.all([
-          networkDataService.getRoadLengthByLA(year),
+          networkDataService.getRoadLengthByLA(year, setProgress),
           networkDataService.getRoadWidthByLA(year),
           networkDataService.getNetworkSummary(year)
         ]);
@@ -59,6 +62,7 @@ const NetworkSummaryTables: React.FC<NetworkSummaryTablesProps> = ({
         setError('Failed to load network summary data');
       } finally {
         setLoading(false);
+        setProgress(null);
       }
     };
 
@@ -158,13 +162,12 @@ const NetworkSummaryTables: React.FC<NetworkSummaryTablesProps> = ({
     return (
       <Space direction="vertical" size="large" style={{ width: '100%' }}>
         <Card variant="borderless">
-          <div style={{
-            height: 300,
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center'
-          }}>
-            <Spin size="large" tip="Loading network summary data..." />
+          <div style={{ position: 'relative', height: 300 }}>
+            <LoadingOverlay
+              visible
+              message={progress?.message ?? 'Loading network summary data...'}
+              progress={progress?.percent ?? 0}
+            />
           </div>
         </Card>
       </Space>
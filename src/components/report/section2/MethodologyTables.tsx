@@ -1,7 +1,15 @@
 // src/components/report/section2/MethodologyTables.tsx
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Card, Table, Space, Tag, theme } from 'antd';
 import type { ColumnsType } from 'antd/es/table';
+import { getKPIClassification, type ConditionClass } from '@/config/kpiConfig';
+import { CLASS_LABELS } from '@/config/rendererConfig';
+import {
+  formatBandRange,
+  getConditionClassDefinitionRows,
+  type ConditionClassDefinitionRow
+} from '@/utils/conditionClassification';
+import useAppStore from '@/store/useAppStore';
 
 interface IRIScaleData {
   key: string;
@@ -10,52 +18,29 @@ interface IRIScaleData {
   description: string;
 }
 
-interface ConditionClassData {
-  key: string;
-  parameter: string;
-  veryGood: string;
-  good: string;
-  fair: string;
-  poor: string;
-  veryPoor: string;
-}
+// Ride quality descriptions for Table 2.1; ranges come from the IRI class bands
+const IRI_DESCRIPTIONS: Record<ConditionClass, string> = {
+  veryGood: 'New or recently resurfaced pavement. Very smooth ride.',
+  good: 'Pavement in good condition. Smooth ride with minor imperfections.',
+  fair: 'Pavement showing signs of wear. Noticeable roughness.',
+  poor: 'Significant deterioration. Uncomfortable ride quality.',
+  veryPoor: 'Severe deterioration. Very rough and uncomfortable ride.'
+};
 
 const MethodologyTables: React.FC = () => {
   const { token } = theme.useToken();
 
+  // Tables follow the selected threshold profile
+  const thresholdRevision = useAppStore(state => state.thresholdRevision);
+  const thresholdProfile = useAppStore(state => state.getActiveThresholdProfile());
+
   // Table 2.1: IRI Scale Data
-  const iriScaleData: IRIScaleData[] = [
-    {
-      key: '1',
-      iriRange: '< 2.0',
-      classification: 'Very Good',
-      description: 'New or recently resurfaced pavement. Very smooth ride.'
-    },
-    {
-      key: '2',
-      iriRange: '2.0 - 3.5',
-      classification: 'Good',
-      description: 'Pavement in good condition. Smooth ride with minor imperfections.'
-    },
-    {
-      key: '3',
-      iriRange: '3.5 - 5.5',
-      classification: 'Fair',
-      description: 'Pavement showing signs of wear. Noticeable roughness.'
-    },
-    {
-      key: '4',
-      iriRange: '5.5 - 8.0',
-      classification: 'Poor',
-      description: 'Significant deterioration. Uncomfortable ride quality.'
-    },
-    {
-      key: '5',
-      iriRange: '> 8.0',
-      classification: 'Very Poor',
-      description: 'Severe deterioration. Very rough and uncomfortable ride.'
-    }
-  ];
+  const iriScaleData: IRIScaleData[] = useMemo(() => getKPIClassification('iri').bands.map(band => ({
+    key: String(band.classValue),
+    iriRange: formatBandRange('iri', band),
+    classification: CLASS_LABELS[band.conditionClass],
+    description: IRI_DESCRIPTIONS[band.conditionClass]
+  })), [thresholdRevision]);
 
   // Table 2.1 Columns
   const iriColumns: ColumnsType<IRIScaleData> = [
@@ -95,56 +80,13 @@ const MethodologyTables: React.FC = () => {
   ];
 
   // Table 2.2: Condition Class Definitions Data (2025)
-  const conditionClassData: ConditionClassData[] = [
-    {
-      key: '1',
-      parameter: 'IRI (mm/m)',
-      veryGood: '< 2.0',
-      good: '2.0 - 3.5',
-      fair: '3.5 - 5.5',
-      poor: '5.5 - 8.0',
-      veryPoor: '> 8.0'
-    },
-    {
-      key: '2',
-      parameter: 'Rut Depth (mm)',
-      veryGood: '< 5',
-      good: '5 - 10',
-      fair: '10 - 20',
-      poor: '20 - 30',
-      veryPoor: '> 30'
-    },
-    {
-      key: '3',
-      parameter: 'PSCI Rating',
-      veryGood: '9 - 10',
-      good: '7 - 8',
-      fair: '5 - 6',
-      poor: '3 - 4',
-      veryPoor: '1 - 2'
-    },
-    {
-      key: '4',
-      parameter: 'CSC',
-      veryGood: '> 0.50',
-      good: '0.45 - 0.50',
-      fair: '0.40 - 0.45',
-      poor: '0.35 - 0.40',
-      veryPoor: '< 0.35'
-    },
-    {
-      key: '5',
-      parameter: 'MPD (mm)',
-      veryGood: '> 0.7',
-      good: '0.65 - 0.7',
-      fair: '0.6 - 0.65',
-      poor: '< 0.6',
-      veryPoor: '—'
-    }
-  ];
+  const conditionClassData: ConditionClassDefinitionRow[] = useMemo(
+    () => getConditionClassDefinitionRows(),
+    [thresholdRevision]
+  );
 
   // Helper function to get cell style based on condition
-  const getCellStyle = (condition: 'veryGood' | 'good' | 'fair' | 'poor' | 'veryPoor') => {
+  const getCellStyle = (condition: ConditionClass) => {
     const colorMap = {
       veryGood: { bg: '#f6ffed', border: '#b7eb8f' },
       good: { bg: '#e6fffb', border: '#87e8de' },
@@ -160,7 +102,7 @@ const MethodologyTables: React.FC = () => {
   };
 
   // Table 2.2 Columns
-  const conditionColumns: ColumnsType<ConditionClassData> = [
+  const conditionColumns: ColumnsType<ConditionClassDefinitionRow> = [
     {
       title: 'Parameter',
       dataIndex: 'parameter',
@@ -242,6 +184,7 @@ const MethodologyTables: React.FC = () => {
       {/* Table 2.2: Condition Class Definitions */}
       <Card
         title="Table 2.2: Condition Class Definitions, 2025"
+        extra={<Tag>{thresholdProfile.name} thresholds</Tag>}
         variant="borderless"
       >
         <Table
@@ -280,6 +223,10 @@ const MethodologyTables: React.FC = () => {
               <strong>MPD (Mean Profile Depth):</strong> Surface texture depth in mm. 
               Values below 0.6mm indicate poor skid resistance.
             </li>
+            <li>
+              <strong>LPV (Longitudinal Profile Variance, 3m):</strong> Variance of the 
+              longitudinal profile over a 3m wavelength. Lower values indicate a more even ride.
+            </li>
           </ul>
         </div>
       </Card>
@@ -15,7 +15,7 @@ import {
   ChartOptions
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
-import { KPIKey, KPI_LABELS } from '@/config/kpiConfig';
+import { MeasuredKPIKey, KPI_LABELS } from '@/config/kpiConfig';
 import useAppStore from '@/store/useAppStore';
 import CumulativeFrequencyService, { CumulativeData } from '@/services/CumulativeFrequencyService';
 
@@ -31,6 +31,58 @@ ChartJS.register(
   Filler
 );
 
+export interface CumulativeFrequencyConfig {
+  ranges: { min: number; max: number; step: number };
+  unit: string;
+  color: string;
+  label: string;
+}
+
+/**
+ * KPI configuration with ranges and colors (shared with Appendix A)
+ */
+export const CUMULATIVE_FREQUENCY_CONFIGS: Record<MeasuredKPIKey, CumulativeFrequencyConfig> = {
+  iri: {
+    ranges: { min: 0, max: 12, step: 0.1 },
+    unit: 'mm/m',
+    color: '#1890ff',
+    label: 'Average IRI'
+  },
+  rut: {
+    ranges: { min: 0, max: 30, step: 0.5 },
+    unit: 'mm',
+    color: '#52c41a',
+    label: 'Left Rut Depth'
+  },
+  mpd: {
+    ranges: { min: 0, max: 3, step: 0.05 },
+    unit: 'mm',
+    color: '#faad14',
+    label: 'Mean Profile Depth'
+  },
+  csc: {
+    ranges: { min: 0, max: 1, step: 0.01 },
+    unit: '',
+    color: '#f5222d',
+    label: 'SCRIM CSC'
+  },
+  psci: {
+    ranges: { min: 1, max: 10, step: 0.1 },
+    unit: '',
+    color: '#722ed1',
+    label: 'PSCI'
+  },
+  lpv3: {
+    ranges: { min: 0, max: 20, step: 0.2 },
+    unit: '',
+    color: '#13c2c2',
+    label: 'LPV'
+  }
+};
+
+/** KPIs with a cumulative frequency figure, in figure order */
+export const CUMULATIVE_FREQUENCY_KPIS: MeasuredKPIKey[] = ['iri', 'rut', 'mpd', 'csc', 'psci'];
+
 interface CumulativeFrequencyChartsProps {
   year?: number;
 }
@@ -52,7 +104,7 @@ const CumulativeFrequencyCharts: React.FC<CumulativeFrequencyChartsProps> = ({
   const { roadLayer, themeMode } = useAppStore();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedKPI, setSelectedKPI] = useState<KPIKey>('iri');
+  const [selectedKPI, setSelectedKPI] = useState<MeasuredKPIKey>('iri');
   const [showGrid, setShowGrid] = useState(true);
   const [compareYears, setCompareYears] = useState(false);
 
@@ -61,53 +113,10 @@ const CumulativeFrequencyCharts: React.FC<CumulativeFrequencyChartsProps> = ({
   const [loadingMessage, setLoadingMessage] = useState('Initializing...');
 
   // Store cumulative data for all KPIs
-  const [cumulativeData, setCumulativeData] = useState<Record<KPIKey, CumulativeData> | null>(null);
-  const [comparisonData, setComparisonData] = useState<Record<KPIKey, CumulativeData> | null>(null);
-
-  // KPI configuration with ranges and colors
-  const kpiConfigs: Record<KPIKey, {
-    ranges: { min: number; max: number; step: number };
-    unit: string;
-    color: string;
-    label: string;
-  }> = {
-    iri: {
-      ranges: { min: 0, max: 12, step: 0.1 },
-      unit: 'mm/m',
-      color: '#1890ff',
-      label: 'Average IRI'
-    },
-    rut: {
-      ranges: { min: 0, max: 30, step: 0.5 },
-      unit: 'mm',
-      color: '#52c41a',
-      label: 'Left Rut Depth'
-    },
-    mpd: {
-      ranges: { min: 0, max: 3, step: 0.05 },
-      unit: 'mm',
-      color: '#faad14',
-      label: 'Mean Profile Depth'
-    },
-    csc: {
-      ranges: { min: 0, max: 1, step: 0.01 },
-      unit: '',
-      color: '#f5222d',
-      label: 'SCRIM CSC'
-    },
-    psci: {
-      ranges: { min: 1, max: 10, step: 0.1 },
-      unit: '',
-      color: '#722ed1',
-      label: 'PSCI'
-    },
-    lpv3: {
-      ranges: { min: 0, max: 20, step: 0.2 },
-      unit: '',
-      color: '#13c2c2',
-      label: 'LPV'
-    }
-  };
+  const [cumulativeData, setCumulativeData] = useState<Record<MeasuredKPIKey, CumulativeData> | null>(null);
+  const [comparisonData, setComparisonData] = useState<Record<MeasuredKPIKey, CumulativeData> | null>(null);
+
+  const kpiConfigs = CUMULATIVE_FREQUENCY_CONFIGS;
 
   /**
    * Fetch cumulative data for all KPIs using the optimized service
@@ -120,7 +129,7 @@ const CumulativeFrequencyCharts: React.FC<CumulativeFrequencyChartsProps> = ({
 
     console.log('[CumulativeFrequencyCharts] Fetching data for year:', targetYear);
 
-    const kpiKeys: KPIKey[] = ['iri', 'rut', 'mpd', 'csc', 'psci'];
+    const kpiKeys = CUMULATIVE_FREQUENCY_KPIS;
 
     // Fetch all KPIs in parallel with progress tracking
     const results = await CumulativeFrequencyService.fetchCumulativeDataForAllKPIs(
@@ -301,7 +310,7 @@ const CumulativeFrequencyCharts: React.FC<CumulativeFrequencyChartsProps> = ({
 
   // Handle KPI selection change
   const handleKPIChange = (e: RadioChangeEvent) => {
-    setSelectedKPI(e.target.value as KPIKey);
+    setSelectedKPI(e.target.value as MeasuredKPIKey);
   };
 
   if (loading) {
@@ -396,7 +405,7 @@ const CumulativeFrequencyCharts: React.FC<CumulativeFrequencyChartsProps> = ({
 
       {/* Chart */}
       <Card
-        title={`Figure 3.${['iri', 'rut', 'mpd', 'csc', 'psci'].indexOf(selectedKPI) + 1}: ${config.label} Cumulative Frequency Plot (${year})`}
+        title={`Figure 3.${CUMULATIVE_FREQUENCY_KPIS.indexOf(selectedKPI) + 1}: ${config.label} Cumulative Frequency Plot (${year})`}
         variant="borderless"
       >
         <div style={{ height: 450 }}>
@@ -4,7 +4,8 @@ import { Card, Table, Button, Switch, Space, Spin, Alert, Tag } from 'antd';
 import { DownloadOutlined } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
 import { KPIKey } from '@/config/kpiConfig';
-import { getKPIFieldName, buildSubgroupWhereClause } from '@/config/layerConfig';
+import { getKPIFieldName } from '@/config/layerConfig';
+import { where, renderWhere, type WhereClause } from '@/utils/whereClause';
 import useAppStore from '@/store/useAppStore';
 
 interface AveragePerformance {
@@ -70,11 +71,11 @@ const PerformanceSummaryTables: React.FC<PerformanceSummaryTablesProps> = ({
    * Build a WHERE clause to check if data exists for a given year
    * Uses KPI field existence instead of HasData field (which may not exist for all years)
    */
-  const buildDataExistsWhereClause = (targetYear: number): string => {
+  const buildDataExistsWhereClause = (targetYear: number): WhereClause => {
     // Check if any of the primary KPI fields exist for this year
     // Using AIRI (IRI) as the primary indicator since it's always collected
     const primaryField = `AIRI_${targetYear}`;
-    return `${primaryField} IS NOT NULL`;
+    return where.isNotNull(primaryField);
   };
 
   /**
@@ -85,7 +86,7 @@ const PerformanceSummaryTables: React.FC<PerformanceSummaryTablesProps> = ({
 
     const fieldName = getKPIFieldName(kpi, targetYear, false);
     const query = roadLayer.createQuery();
-    query.where = `${fieldName} IS NOT NULL AND ${fieldName} > 0`;
+    query.where = renderWhere(where.and(where.isNotNull(fieldName), where.gt(fieldName, 0)));
     query.outStatistics = [{
       statisticType: 'avg',
       onStatisticField: fieldName,
@@ -112,10 +113,11 @@ const PerformanceSummaryTables: React.FC<PerformanceSummaryTablesProps> = ({
   const calculateSubgroupLength = async (subgroupCode: number, targetYear: number): Promise<number> => {
     if (!roadLayer) return 0;
 
-    const whereClause = buildSubgroupWhereClause(subgroupCode);
-    const dataExistsClause = buildDataExistsWhereClause(targetYear);
     const query = roadLayer.createQuery();
-    query.where = `${whereClause} AND ${dataExistsClause}`;
+    query.where = renderWhere(where.and(
+      where.subgroup(subgroupCode),
+      buildDataExistsWhereClause(targetYear)
+    ));
 
     try {
       const count = await roadLayer.queryFeatureCount(query);
@@ -136,7 +138,7 @@ const PerformanceSummaryTables: React.FC<PerformanceSummaryTablesProps> = ({
     try {
       // Get unique Local Authorities
       const laQuery = roadLayer.createQuery();
-      laQuery.where = buildDataExistsWhereClause(targetYear);
+      laQuery.where = renderWhere(buildDataExistsWhereClause(targetYear));
       laQuery.outFields = ['LA'];
       laQuery.returnDistinctValues = true;
       laQuery.returnGeometry = false;
@@ -171,10 +173,12 @@ const PerformanceSummaryTables: React.FC<PerformanceSummaryTablesProps> = ({
         ];
 
         for (const sg of subgroups) {
-          const sgWhere = buildSubgroupWhereClause(sg.code);
-          const dataExistsClause = buildDataExistsWhereClause(targetYear);
           const query = roadLayer.createQuery();
-          query.where = `${sgWhere} AND LA = '${la}' AND ${dataExistsClause}`;
+          query.where = renderWhere(where.and(
+            where.subgroup(sg.code),
+            where.eq('LA', la),
+            buildDataExistsWhereClause(targetYear)
+          ));
 
           try {
             const count = await roadLayer.queryFeatureCount(query);
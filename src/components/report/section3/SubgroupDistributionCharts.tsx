@@ -13,8 +13,10 @@ import {
   ChartOptions
 } from 'chart.js';
 import { Bar } from 'react-chartjs-2';
-import { KPIKey } from '@/config/kpiConfig';
-import { getKPIFieldName, buildSubgroupWhereClause } from '@/config/layerConfig';
+import { KPIKey, getConditionClass, getKPIClassification } from '@/config/kpiConfig';
+import { CLASS_LABELS } from '@/config/rendererConfig';
+import { getKPIFieldName } from '@/config/layerConfig';
+import { where, renderWhere } from '@/utils/whereClause';
 import useAppStore from '@/store/useAppStore';
 
 // Register Chart.js components
@@ -54,12 +56,7 @@ const CONDITION_COLORS: Record<string, string> = {
   'Good': '#52c41a',
   'Fair': '#faad14',
   'Poor': '#ff7a45',
-  'Very Poor': '#cf1322',
-  // PSCI specific
-  '9-10': '#2d5016',
-  '7-8': '#52c41a',
-  '5-6': '#faad14',
-  '1-4': '#cf1322'
+  'Very Poor': '#cf1322'
 };
 
 /**
@@ -76,7 +73,7 @@ const SubgroupDistributionCharts: React.FC<SubgroupDistributionChartsProps> = ({
   year = 2025
 }) => {
   const { token } = theme.useToken();
-  const { roadLayer, themeMode } = useAppStore();
+  const { roadLayer, themeMode, thresholdRevision } = useAppStore();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedKPI, setSelectedKPI] = useState<KPIKey>('iri');
@@ -85,37 +82,18 @@ const SubgroupDistributionCharts: React.FC<SubgroupDistributionChartsProps> = ({
   const [distributionData, setDistributionData] = useState<Record<KPIKey, SubgroupDistribution[]> | null>(null);
 
   /**
-   * Map class values to condition labels
+   * Classify a raw KPI value with the active threshold profile
    */
-  const getClassLabel = (kpi: KPIKey, classValue: number): string => {
-    if (kpi === 'psci') {
-      // PSCI uses 1-10 scale, group into 4 categories
-      if (classValue >= 9) return '9-10';
-      if (classValue >= 7) return '7-8';
-      if (classValue >= 5) return '5-6';
-      return '1-4';
-    }
-
-    // Standard 5-class system
-    switch (classValue) {
-      case 1: return 'Very Good';
-      case 2: return 'Good';
-      case 3: return 'Fair';
-      case 4: return 'Poor';
-      case 5: return 'Very Poor';
-      default: return 'Unknown';
-    }
+  const getClassLabel = (kpi: KPIKey, value: number): string => {
+    const conditionClass = getConditionClass(kpi, value, true);
+    return conditionClass ? CLASS_LABELS[conditionClass] : 'Unknown';
   };
 
   /**
-   * Get condition classes for a KPI
+   * Get condition classes for a KPI (PSCI has no Very Poor class)
    */
-  const getConditionClasses = (kpi: KPIKey): string[] => {
-    if (kpi === 'psci') {
-      return ['9-10', '7-8', '5-6', '1-4'];
-    }
-    return ['Very Good', 'Good', 'Fair', 'Poor', 'Very Poor'];
-  };
+  const getConditionClasses = (kpi: KPIKey): string[] =>
+    getKPIClassification(kpi).bands.map(band => CLASS_LABELS[band.conditionClass]);
 
   /**
    * Fetch distribution data for a specific KPI and subgroup
@@ -130,13 +108,13 @@ const SubgroupDistributionCharts: React.FC<SubgroupDistributionChartsProps> = ({
       throw new Error('Road layer not available');
     }
 
-    const classFieldName = getKPIFieldName(kpi, year, true);
-    const whereClause = buildSubgroupWhereClause(subgroupCode);
+    // Raw values so any threshold profile can be applied
+    const kpiFieldName = getKPIFieldName(kpi, year, false);
 
     // Query all features in this subgroup
     const query = roadLayer.createQuery();
-    query.where = `${whereClause} AND ${classFieldName} IS NOT NULL`;
-    query.outFields = [classFieldName]; // FIXED: Removed 'Shape_Length' from outFields
+    query.where = renderWhere(where.and(where.subgroup(subgroupCode), where.isNotNull(kpiFieldName)));
+    query.outFields = [kpiFieldName]; // FIXED: Removed 'Shape_Length' from outFields
     query.returnGeometry = false;
 
     try {
@@ -155,8 +133,8 @@ const SubgroupDistributionCharts: React.FC<SubgroupDistributionChartsProps> = ({
       });
 
       result.features.forEach(feature => {
-        const classValue = feature.attributes[classFieldName] as number;
-        const label = getClassLabel(kpi, classValue);
+        const value = feature.attributes[kpiFieldName] as number;
+        const label = getClassLabel(kpi, value);
 
         if (label !== 'Unknown') {
           classCounts[label] = (classCounts[label] || 0) + 1;
@@ -241,7 +219,7 @@ const SubgroupDistributionCharts: React.FC<SubgroupDistributionChartsProps> = ({
     };
 
     loadData();
-  }, [roadLayer, year]);
+  }, [roadLayer, year, thresholdRevision]);
 
   // Prepare chart data
   const chartData = useMemo(() => {
@@ -343,7 +321,7 @@ const SubgroupDistributionCharts: React.FC<SubgroupDistributionChartsProps> = ({
     const insights: string[] = [];
 
     // Find subgroup with best performance (highest % in good classes)
-    const goodClasses = selectedKPI === 'psci' ? ['9-10', '7-8'] : ['Very Good', 'Good'];
+    const goodClasses = [CLASS_LABELS.veryGood, CLASS_LABELS.good];
     const subgroupScores = distributions.map(d => {
       const goodPercent = goodClasses.reduce((sum, cls) => sum + (d.classDistribution[cls] || 0), 0);
       return { subgroup: d.subgroup, score: goodPercent };
@@ -1,33 +1,21 @@
 // rmo-analytics-hub/src/components/report/section4/LAPerformanceTables.tsx
 
 import React, { useEffect, useState } from 'react';
-import { Card, Table, Spin, Alert, Button, Space, Typography, Tabs } from 'antd';
+import { Card, Table, Alert, Button, Space, Typography, Tabs } from 'antd';
 import { TableOutlined, DownloadOutlined } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
-import { KPIKey, KPI_LABELS, getConditionClass } from '@/config/kpiConfig';
+import { MeasuredKPIKey, KPI_LABELS } from '@/config/kpiConfig';
+import { SEGMENT_LENGTH_KM } from '@/config/constants';
+import AggregationService, { type AggregationProgress } from '@/services/AggregationService';
 import PaginationService from '@/services/PaginationService';
+import type { AggregationResult } from '@/utils/segmentAggregation';
+import { where, renderWhere } from '@/utils/whereClause';
+import LoadingOverlay from '@/components/LoadingOverlay';
+import useAppStore from '@/store/useAppStore';
 
 const { Title, Paragraph } = Typography;
 const { TabPane } = Tabs;
 
-/**
- * Convert condition class key to readable name
- */
-const getConditionClassName = (kpi: KPIKey, value: number): string => {
-  const classKey = getConditionClass(kpi, value, true);
-  if (!classKey) return 'Unknown';
-
-  const classNames: Record<string, string> = {
-    veryGood: 'Very Good',
-    good: 'Good',
-    fair: 'Fair',
-    poor: 'Poor',
-    veryPoor: 'Very Poor'
-  };
-
-  return classNames[classKey] || 'Unknown';
-};
-
 interface LAPerformanceTablesProps {
   roadLayer: __esri.FeatureLayer | null;
 }
@@ -53,16 +41,72 @@ interface ConditionClassByLA {
   fairOrBetter: number;
 }
 
+const KPI_KEYS: MeasuredKPIKey[] = ['iri', 'rut', 'csc', 'psci', 'mpd', 'lpv3'];
+
+const KPI_FIELDS: Record<MeasuredKPIKey, string> = {
+  iri: 'AIRI_2025',
+  rut: 'LRUT_2025',
+  csc: 'CSC_2025',
+  psci: 'ModeRating_2025',
+  mpd: 'MPD_2025',
+  lpv3: 'LPV3_2025'
+};
+
+/**
+ * Table 4.1 rows from aggregated results
+ * Length uses segment count × 100m (the layer has no Shape_Length field)
+ */
+const toAverageRows = (result: AggregationResult): AverageByLA[] =>
+  result.groups.map(group => ({
+    localAuthority: group.group,
+    iri: group.averages[KPI_FIELDS.iri]?.avg ?? 0,
+    rut: group.averages[KPI_FIELDS.rut]?.avg ?? 0,
+    csc: group.averages[KPI_FIELDS.csc]?.avg ?? 0,
+    mpd: group.averages[KPI_FIELDS.mpd]?.avg ?? 0,
+    psci: group.averages[KPI_FIELDS.psci]?.avg ?? 0,
+    lpv3: group.averages[KPI_FIELDS.lpv3]?.avg ?? 0,
+    totalLength: (group.averages[KPI_FIELDS.iri]?.count ?? 0) * SEGMENT_LENGTH_KM
+  }));
+
+/**
+ * Tables 4.2-4.6 rows (percentage of segments per class) for one KPI
+ */
+const toConditionRows = (result: AggregationResult, kpi: MeasuredKPIKey): ConditionClassByLA[] =>
+  result.groups.flatMap(group => {
+    const counts = group.classCounts[kpi];
+    if (!counts) return [];
+
+    const total = counts.veryGood + counts.good + counts.fair + counts.poor + counts.veryPoor;
+    if (total === 0) return [];
+
+    const veryGood = (counts.veryGood / total) * 100;
+    const good = (counts.good / total) * 100;
+    const fair = (counts.fair / total) * 100;
+
+    return [{
+      localAuthority: group.group,
+      veryGood: Math.round(veryGood),
+      good: Math.round(good),
+      fair: Math.round(fair),
+      poor: Math.round((counts.poor / total) * 100),
+      veryPoor: Math.round((counts.veryPoor / total) * 100),
+      fairOrBetter: Math.round(veryGood + good + fair)
+    }];
+  });
+
 /**
  * LAPerformanceTables Component
  * Replicates Table 4.1 and Tables 4.2-4.6 from the 2018 Regional Report
  * Shows Local Authority performance metrics and condition class distributions
  */
 export const LAPerformanceTables: React.FC<LAPerformanceTablesProps> = ({ roadLayer }) => {
+  // Condition class tables are recalculated when the threshold profile changes
+  const thresholdRevision = useAppStore(state => state.thresholdRevision);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<AggregationProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [averageData, setAverageData] = useState<AverageByLA[]>([]);
-  const [conditionData, setConditionData] = useState<Record<KPIKey, ConditionClassByLA[]>>({
+  const [conditionData, setConditionData] = useState<Record<MeasuredKPIKey, ConditionClassByLA[]>>({
     iri: [],
     rut: [],
     csc: [],
@@ -79,17 +123,21 @@ export const LAPerformanceTables: React.FC<LAPerformanceTablesProps> = ({ roadLa
       console.log('[LAPerformanceTables] Road layer available, fetching data...');
       console.log('[LAPerformanceTables] Layer URL:', roadLayer.url);
       console.log('[LAPerformanceTables] Layer loaded:', roadLayer.loaded);
-      fetchAllData();
+
+      // Cancel outstanding page requests when the section unmounts or the layer changes
+      const controller = new AbortController();
+      fetchAllData(controller.signal);
+      return () => controller.abort();
     } else {
       console.warn('[LAPerformanceTables] Road layer is null or undefined');
       setError('Road layer not available. Please ensure data is loaded.');
     }
-  }, [roadLayer]);
+  }, [roadLayer, thresholdRevision]);
 
   /**
    * Fetch all LA performance data
    */
-  const fetchAllData = async () => {
+  const fetchAllData = async (signal?: AbortSignal) => {
     if (!roadLayer) {
       console.error('[LAPerformanceTables] Cannot fetch - roadLayer is null');
       setError('Data layer not available');
@@ -119,256 +167,51 @@ export const LAPerformanceTables: React.FC<LAPerformanceTablesProps> = ({ roadLa
         throw new Error(`Missing required fields: ${missingFields.join(', ')}. Available fields: ${layerFields.join(', ')}`);
       }
 
-      console.log('[LAPerformanceTables] All required fields present, executing queries...');
-
-      // Fetch both average values and condition class distributions in parallel
-      const [avgData, condData] = await Promise.all([
-        fetchAveragesByLA(),
-        fetchConditionClassesByLA()
-      ]);
-
-      console.log('[LAPerformanceTables] ✅ Data fetched successfully');
+      console.log('[LAPerformanceTables] All required fields present, aggregating segments...');
+
+      // One pass over the segments yields both the averages and the class distributions
+      const result = await AggregationService.aggregateFromSource(
+        roadLayer,
+        renderWhere(where.or(...KPI_KEYS.map(kpi => where.isNotNull(KPI_FIELDS[kpi])))),
+        {
+          groupByField: 'LA',
+          averageFields: KPI_KEYS.map(kpi => KPI_FIELDS[kpi]),
+          classCounts: KPI_KEYS.map(kpi => ({ kpi, field: KPI_FIELDS[kpi] }))
+        },
+        setProgress,
+        signal
+      );
+
+      if (signal?.aborted) return;
+
+      const avgData = toAverageRows(result);
+      const condData = KPI_KEYS.reduce((acc, kpi) => {
+        acc[kpi] = toConditionRows(result, kpi);
+        return acc;
+      }, {} as Record<MeasuredKPIKey, ConditionClassByLA[]>);
+
+      console.log('[LAPerformanceTables] ✅ Data aggregated successfully');
       console.log('[LAPerformanceTables] Average data rows:', avgData.length);
-      console.log('[LAPerformanceTables] Condition data keys:', Object.keys(condData));
 
       setAverageData(avgData);
       setConditionData(condData);
 
     } catch (err) {
+      if (PaginationService.isAbortError(err)) {
+        console.log('[LAPerformanceTables] Data fetch cancelled');
+        return;
+      }
       console.error('[LAPerformanceTables] ❌ Error fetching LA performance data:', err);
       const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
       setError(`Failed to load data: ${errorMessage}`);
     } finally {
-      setLoading(false);
-    }
-  };
-
-  /**
-   * Fetch average values for all KPIs by Local Authority
-   */
-  const fetchAveragesByLA = async (): Promise<AverageByLA[]> => {
-    if (!roadLayer) {
-      console.error('[LAPerformanceTables] fetchAveragesByLA - roadLayer is null');
-      return [];
-    }
-
-    console.log('[LAPerformanceTables] Querying average values...');
-
-    try {
-      const result = await PaginationService.queryAllFeatures(roadLayer, {
-        where: 'AIRI_2025 IS NOT NULL',
-        outFields: ['LA', 'AIRI_2025', 'LRUT_2025', 'CSC_2025', 'MPD_2025', 'ModeRating_2025', 'LPV3_2025', 'Shape_Length'],
-        returnGeometry: false
-      });
-
-      console.log(`[LAPerformanceTables] Query returned ${result.totalCount} features (${result.pagesQueried} pages)`);
-
-      if (result.features.length === 0) {
-        console.warn('[LAPerformanceTables] No features returned from query');
-        return [];
-      }
-
-    // Group by LA and calculate averages
-    const laMap = new Map<string, {
-      iri: number[];
-      rut: number[];
-      csc: number[];
-      mpd: number[];
-      psci: number[];
-      lpv3: number[];
-      lengths: number[];
-    }>();
-
-      result.features.forEach(feature => {
-        const la = feature.attributes.LA;
-        if (!la) {
-          console.warn('[LAPerformanceTables] Feature missing LA attribute:', feature.attributes);
-          return;
-        }
-
-        const iri = feature.attributes.AIRI_2025;
-        const rut = feature.attributes.LRUT_2025;
-        const csc = feature.attributes.CSC_2025;
-        const mpd = feature.attributes.MPD_2025;
-        const psci = feature.attributes.ModeRating_2025;
-        const lpv3 = feature.attributes.LPV3_2025;
-        const length = feature.attributes.Shape_Length;
-
-        if (!laMap.has(la)) {
-        laMap.set(la, {
-          iri: [],
-          rut: [],
-          csc: [],
-          mpd: [],
-          psci: [],
-          lpv3: [],
-          lengths: []
-        });
+      if (!signal?.aborted) {
+        setLoading(false);
+        setProgress(null);
       }
-
-      const laData = laMap.get(la)!;
-      if (iri != null) laData.iri.push(iri);
-      if (rut != null) laData.rut.push(rut);
-      if (csc != null) laData.csc.push(csc);
-      if (mpd != null) laData.mpd.push(mpd);
-      if (psci != null) laData.psci.push(psci);
-        if (lpv3 != null) laData.lpv3.push(lpv3);
-        if (length != null) laData.lengths.push(length);
-      });
-
-      // Calculate averages
-      const averages: AverageByLA[] = [];
-      laMap.forEach((data, la) => {
-        averages.push({
-          localAuthority: la,
-          iri: data.iri.length > 0 ? data.iri.reduce((a, b) => a + b, 0) / data.iri.length : 0,
-          rut: data.rut.length > 0 ? data.rut.reduce((a, b) => a + b, 0) / data.rut.length : 0,
-          csc: data.csc.length > 0 ? data.csc.reduce((a, b) => a + b, 0) / data.csc.length : 0,
-          mpd: data.mpd.length > 0 ? data.mpd.reduce((a, b) => a + b, 0) / data.mpd.length : 0,
-          psci: data.psci.length > 0 ? data.psci.reduce((a, b) => a + b, 0) / data.psci.length : 0,
-          lpv3: data.lpv3.length > 0 ? data.lpv3.reduce((a, b) => a + b, 0) / data.lpv3.length : 0,
-          totalLength: data.lengths.reduce((a, b) => a + b, 0) / 1000 // Convert to km
-        });
-      });
-
-      console.log('[LAPerformanceTables] Calculated averages for', averages.length, 'Local Authorities');
-      return averages.sort((a, b) => a.localAuthority.localeCompare(b.localAuthority));
-
-    } catch (error) {
-      console.error('[LAPerformanceTables] Query error:', error);
-      throw error;
     }
   };
 
-  /**
-   * Fetch condition class distributions for all KPIs by Local Authority
-   */
-  const fetchConditionClassesByLA = async (): Promise<Record<KPIKey, ConditionClassByLA[]>> => {
-    if (!roadLayer) {
-      return { iri: [], rut: [], csc: [], psci: [], mpd: [], lpv3: [] };
-    }
-
-    const kpis: KPIKey[] = ['iri', 'rut', 'csc', 'psci', 'mpd', 'lpv3'];
-    const fieldMap = {
-      iri: 'AIRI_2025',
-      rut: 'LRUT_2025',
-      csc: 'CSC_2025',
-      psci: 'ModeRating_2025',
-      mpd: 'MPD_2025',
-      lpv3: 'LPV3_2025'
-    };
-
-    // Fetch data for all KPIs in parallel
-    const results = await Promise.all(
-      kpis.map(kpi => fetchConditionClassForKPI(kpi, fieldMap[kpi]))
-    );
-
-    // Combine results
-    const conditionData: Record<KPIKey, ConditionClassByLA[]> = {
-      iri: results[0],
-      rut: results[1],
-      csc: results[2],
-      psci: results[3],
-      mpd: results[4],
-      lpv3: results[5]
-    };
-
-    return conditionData;
-  };
-
-  /**
-   * Fetch condition class distribution for a single KPI
-   */
-  const fetchConditionClassForKPI = async (
-    kpi: KPIKey,
-    fieldName: string
-  ): Promise<ConditionClassByLA[]> => {
-    if (!roadLayer) return [];
-
-    console.log(`[LAPerformanceTables] Querying condition classes for ${kpi}...`);
-
-    const result = await PaginationService.queryAllFeatures(roadLayer, {
-      where: `${fieldName} IS NOT NULL`,
-      outFields: ['LA', fieldName, 'Shape_Length'],
-      returnGeometry: false
-    });
-
-    console.log(`[LAPerformanceTables] Retrieved ${result.totalCount} features for ${kpi} (${result.pagesQueried} pages)`);
-
-    // Group by LA
-    const laMap = new Map<string, {
-      veryGood: number;
-      good: number;
-      fair: number;
-      poor: number;
-      veryPoor: number;
-      total: number;
-    }>();
-
-    result.features.forEach(feature => {
-      const la = feature.attributes.LA;
-      const value = feature.attributes[fieldName];
-      const length = feature.attributes.Shape_Length || 0;
-
-      if (value == null) return;
-
-      if (!laMap.has(la)) {
-        laMap.set(la, {
-          veryGood: 0,
-          good: 0,
-          fair: 0,
-          poor: 0,
-          veryPoor: 0,
-          total: 0
-        });
-      }
-
-      const laData = laMap.get(la)!;
-      const className = getConditionClassName(kpi, value);
-
-      switch (className) {
-        case 'Very Good':
-          laData.veryGood += length;
-          break;
-        case 'Good':
-          laData.good += length;
-          break;
-        case 'Fair':
-          laData.fair += length;
-          break;
-        case 'Poor':
-          laData.poor += length;
-          break;
-        case 'Very Poor':
-          laData.veryPoor += length;
-          break;
-      }
-
-      laData.total += length;
-    });
-
-    // Calculate percentages
-    const distributions: ConditionClassByLA[] = [];
-    laMap.forEach((data, la) => {
-      const total = data.total || 1; // Avoid division by zero
-      const veryGood = (data.veryGood / total) * 100;
-      const good = (data.good / total) * 100;
-      const fair = (data.fair / total) * 100;
-
-      distributions.push({
-        localAuthority: la,
-        veryGood: Math.round(veryGood),
-        good: Math.round(good),
-        fair: Math.round(fair),
-        poor: Math.round((data.poor / total) * 100),
-        veryPoor: Math.round((data.veryPoor / total) * 100),
-        fairOrBetter: Math.round(veryGood + good + fair)
-      });
-    });
-
-    return distributions.sort((a, b) => a.localAuthority.localeCompare(b.localAuthority));
-  };
-
   /**
    * Export table data to CSV
    */
@@ -501,7 +344,7 @@ export const LAPerformanceTables: React.FC<LAPerformanceTablesProps> = ({ roadLa
   /**
    * Render condition class distribution table for a specific KPI
    */
-  const renderConditionTable = (kpi: KPIKey, tableNumber: string) => {
+  const renderConditionTable = (kpi: MeasuredKPIKey, tableNumber: string) => {
     const data = conditionData[kpi];
 
     const columns: ColumnsType<ConditionClassByLA> = [
@@ -563,7 +406,7 @@ export const LAPerformanceTables: React.FC<LAPerformanceTablesProps> = ({ roadLa
       }
     ];
 
-    const kpiDescriptions: Record<KPIKey, string> = {
+    const kpiDescriptions: Record<MeasuredKPIKey, string> = {
       iri: 'IRI measures ride quality. Lower values indicate better ride quality. The IRI classes range from Very Good (< 3 mm/m) to Very Poor (> 7 mm/m).',
       rut: 'Rut Depth measures structural condition. Lower values indicate better structural condition. The Rut Classes range from Very Good (< 6 mm) to Very Poor (> 20 mm).',
       csc: 'CSC (SCRIM Coefficient) measures skid resistance. Higher values indicate better wet skidding resistance. The classes range from Very Good (CSC > 0.50) to Very Poor (≤ 0.35).',
@@ -610,8 +453,12 @@ export const LAPerformanceTables: React.FC<LAPerformanceTablesProps> = ({ roadLa
   if (loading) {
     return (
       <Card>
-        <div style={{ textAlign: 'center', padding: '60px 0' }}>
-          <Spin size="large" tip="Loading Local Authority performance data..." />
+        <div style={{ position: 'relative', minHeight: 240 }}>
+          <LoadingOverlay
+            visible
+            message={progress?.message ?? 'Loading Local Authority performance data...'}
+            progress={progress?.percent ?? 0}
+          />
         </div>
       </Card>
     );
@@ -0,0 +1,247 @@
+// src/components/report/section5/ConditionTransitionsSection.tsx
+import React, { useEffect, useState } from 'react';
+import { Alert, Card, Col, Divider, Row, Select, Space, Tag, Typography } from 'antd';
+import { ApartmentOutlined, FilterOutlined, SwapRightOutlined, TableOutlined } from '@ant-design/icons';
+import useAppStore from '@/store/useAppStore';
+import { KPI_LABELS, type KPIKey } from '@/config/kpiConfig';
+import { SURVEY_YEARS, type SurveyYear } from '@/config/constants';
+import { ROAD_FIELDS, SUBGROUP_OPTIONS } from '@/config/layerConfig';
+import type { AggregationProgress } from '@/services/AggregationService';
+import PaginationService from '@/services/PaginationService';
+import QueryService from '@/services/QueryService';
+import TransitionService, { type ConditionTransitionMatrix } from '@/services/TransitionService';
+import ConditionTransitionView, { TransitionSummary } from '@/components/ConditionTransitionView';
+import LoadingOverlay from '@/components/LoadingOverlay';
+import type { FilterState } from '@/types';
+
+const { Title, Paragraph, Text } = Typography;
+
+interface ConditionTransitionsSectionProps {
+  roadLayer: __esri.FeatureLayer | null;
+}
+
+type TransitionFilters = Pick<FilterState, 'localAuthority' | 'subgroup' | 'route'>;
+
+const EMPTY_FILTERS: TransitionFilters = { localAuthority: [], subgroup: [], route: [] };
+
+const yearOptions = SURVEY_YEARS.map(year => ({ label: String(year), value: year }));
+
+const kpiOptions = (Object.keys(KPI_LABELS) as KPIKey[]).map(kpi => ({ label: KPI_LABELS[kpi], value: kpi }));
+
+/**
+ * Section 5: Condition Transitions
+ *
+ * Follows each 100 m segment between two survey years to show how much of the
+ * network moved between condition classes, rather than only the change in
+ * class percentages:
+ *
+ * - Figure 5.1: Sankey diagram of class transitions
+ * - Table 5.1: Transition matrix (km) with row shares
+ */
+const ConditionTransitionsSection: React.FC<ConditionTransitionsSectionProps> = ({ roadLayer }) => {
+  // Transitions are reclassified when the threshold profile changes
+  const thresholdRevision = useAppStore(state => state.thresholdRevision);
+
+  const [kpi, setKpi] = useState<KPIKey>('iri');
+  const [fromYear, setFromYear] = useState<SurveyYear>(2018);
+  const [toYear, setToYear] = useState<SurveyYear>(2025);
+  const [filters, setFilters] = useState<TransitionFilters>(EMPTY_FILTERS);
+  const [laOptions, setLaOptions] = useState<string[]>([]);
+  const [routeOptions, setRouteOptions] = useState<string[]>([]);
+
+  const [matrix, setMatrix] = useState<ConditionTransitionMatrix | null>(null);
+  const [progress, setProgress] = useState<AggregationProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // LA options once; routes follow the selected LAs as in the dashboard filter panel
+  useEffect(() => {
+    if (!roadLayer) return;
+    QueryService.getUniqueValues(roadLayer, ROAD_FIELDS.la).then(setLaOptions);
+  }, [roadLayer]);
+
+  useEffect(() => {
+    if (!roadLayer) return;
+    QueryService.queryRoutesForLAs(roadLayer, filters.localAuthority).then(routes => {
+      setRouteOptions(routes);
+      setFilters(current => ({ ...current, route: current.route.filter(route => routes.includes(route)) }));
+    });
+  }, [roadLayer, filters.localAuthority]);
+
+  useEffect(() => {
+    if (!roadLayer || fromYear === toYear) return;
+
+    const controller = new AbortController();
+    setError(null);
+
+    TransitionService.computeTransitions(roadLayer, kpi, fromYear, toYear, filters, setProgress, controller.signal)
+      .then(setMatrix)
+      .catch(err => {
+        if (PaginationService.isAbortError(err)) {
+          console.log('[ConditionTransitionsSection] Transition fetch cancelled');
+          return;
+        }
+        console.error('[ConditionTransitionsSection] Error computing transitions:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error occurred');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [roadLayer, kpi, fromYear, toYear, filters, thresholdRevision]);
+
+  const filterTags = [
+    ...filters.localAuthority,
+    ...filters.subgroup.map(code => SUBGROUP_OPTIONS.find(option => option.code === code)?.label ?? String(code)),
+    ...filters.route
+  ];
+
+  return (
+    <Space direction="vertical" size="large" style={{ width: '100%' }}>
+      <div>
+        <Title level={2}>Section 5: Condition Transitions</Title>
+        <Paragraph>
+          Class percentages show how the condition of the network has changed overall, but not which
+          roads improved or deteriorated. This section follows each 100 m segment between two survey
+          years and reports the length that moved from each condition class to every other class.
+        </Paragraph>
+        <Paragraph type="secondary">
+          Only segments surveyed in both years are included. Segments are classified with the active
+          condition class thresholds in both years so that transitions are not caused by a change of
+          definitions.
+        </Paragraph>
+      </div>
+
+      <Card
+        size="small"
+        title={<Space><FilterOutlined /> Analysis Settings</Space>}
+      >
+        <Row gutter={[16, 12]}>
+          <Col xs={24} md={8}>
+            <Text type="secondary">Indicator</Text>
+            <Select value={kpi} options={kpiOptions} onChange={setKpi} style={{ width: '100%' }} />
+          </Col>
+          <Col xs={24} md={8}>
+            <Text type="secondary">Survey years</Text>
+            <Space style={{ width: '100%' }}>
+              <Select<SurveyYear> value={fromYear} options={yearOptions} onChange={setFromYear} style={{ width: 100 }} />
+              <SwapRightOutlined />
+              <Select<SurveyYear> value={toYear} options={yearOptions} onChange={setToYear} style={{ width: 100 }} />
+            </Space>
+          </Col>
+          <Col xs={24} md={8}>
+            <Text type="secondary">Subgroup</Text>
+            <Select
+              mode="multiple"
+              allowClear
+              placeholder="All subgroups"
+              value={filters.subgroup}
+              options={SUBGROUP_OPTIONS.map(option => ({ label: option.label, value: option.code }))}
+              onChange={subgroup => setFilters({ ...filters, subgroup })}
+              style={{ width: '100%' }}
+            />
+          </Col>
+          <Col xs={24} md={12}>
+            <Text type="secondary">Local Authority</Text>
+            <Select
+              mode="multiple"
+              allowClear
+              placeholder="All Local Authorities"
+              value={filters.localAuthority}
+              options={laOptions.map(la => ({ label: la, value: la }))}
+              onChange={localAuthority => setFilters({ ...filters, localAuthority })}
+              maxTagCount="responsive"
+              style={{ width: '100%' }}
+            />
+          </Col>
+          <Col xs={24} md={12}>
+            <Text type="secondary">Route</Text>
+            <Select
+              mode="multiple"
+              allowClear
+              showSearch
+              placeholder="All routes"
+              value={filters.route}
+              options={routeOptions.map(route => ({ label: route, value: route }))}
+              onChange={route => setFilters({ ...filters, route })}
+              maxTagCount="responsive"
+              style={{ width: '100%' }}
+            />
+          </Col>
+        </Row>
+      </Card>
+
+      {fromYear === toYear && (
+        <Alert type="info" showIcon message="Choose two different survey years to compare." />
+      )}
+
+      {error && (
+        <Alert type="error" showIcon message="Transition analysis failed" description={error} />
+      )}
+
+      {matrix && fromYear !== toYear && (
+        <div style={{ position: 'relative' }}>
+          <LoadingOverlay
+            visible={!!progress}
+            message={progress?.message ?? 'Loading transitions...'}
+            progress={progress?.percent}
+          />
+
+          <Card
+            title={
+              <Space>
+                <ApartmentOutlined />
+                Figure 5.1: {KPI_LABELS[matrix.kpi]} Condition Transitions {matrix.fromYear} – {matrix.toYear}
+              </Space>
+            }
+            extra={filterTags.length > 0 && (
+              <Space size={4} wrap>
+                {filterTags.slice(0, 3).map(tag => <Tag key={tag}>{tag}</Tag>)}
+                {filterTags.length > 3 && <Tag>+{filterTags.length - 3}</Tag>}
+              </Space>
+            )}
+            style={{ marginBottom: 24 }}
+          >
+            <TransitionSummary matrix={matrix} />
+            <Divider style={{ margin: '16px 0' }} />
+            <ConditionTransitionView matrix={matrix} mode="sankey" height={360} />
+          </Card>
+
+          <Card
+            title={
+              <Space>
+                <TableOutlined />
+                Table 5.1: {KPI_LABELS[matrix.kpi]} Transition Matrix (km)
+              </Space>
+            }
+          >
+            <Paragraph type="secondary">
+              Rows give the condition class in {matrix.fromYear} and columns the class in {matrix.toYear}.
+              Percentages are shares of each {matrix.fromYear} class; the shaded diagonal is length whose
+              class did not change.
+            </Paragraph>
+            <ConditionTransitionView matrix={matrix} mode="matrix" />
+            {matrix.unclassifiedSegments > 0 && (
+              <Paragraph type="secondary" style={{ marginTop: 12, marginBottom: 0 }}>
+                {matrix.unclassifiedSegments.toLocaleString()} segments could not be classified in one of the
+                years and are excluded.
+              </Paragraph>
+            )}
+          </Card>
+        </div>
+      )}
+
+      {!matrix && !error && fromYear !== toYear && (
+        <div style={{ position: 'relative', minHeight: 200 }}>
+          <LoadingOverlay
+            visible
+            message={progress?.message ?? 'Loading transitions...'}
+            progress={progress?.percent}
+          />
+        </div>
+      )}
+    </Space>
+  );
+};
+
+export default ConditionTransitionsSection;
@@ -0,0 +1,3 @@
+// src/components/report/section5/index.ts
+export { default } from './ConditionTransitionsSection';
+export { default as ConditionTransitionsSection } from './ConditionTransitionsSection';
@@ -1,7 +1,7 @@
 // rmo-analytics-hub/src/config/appConfig.ts
 
 import { getConditionColors } from '@/utils/themeHelpers';
-import { KPIKey, KPI_LABELS } from './kpiConfig';
+import { KPIKey, KPI_LABELS, MEASURED_KPIS } from './kpiConfig';
 
 // IMPORT from the single source of truth
 import {
@@ -137,8 +137,7 @@ export const SWIPE_LAYER_CONFIG: {
   // Corresponds to the 'leadingLayers' in the swipe widget
   leftPanel: {
     label: 'Left/Top Layer (2018)',
-    layers: Object.keys(KPI_LABELS).map(key => {
-      const kpi = key as KPIKey;
+    layers: MEASURED_KPIS.map(kpi => {
       return {
         title: LA_LAYER_CONFIG.layerTitlePattern(kpi, 2018),
         label: `${KPI_LABELS[kpi]} (2018)`,
@@ -150,8 +149,7 @@ export const SWIPE_LAYER_CONFIG: {
   // Corresponds to the 'trailingLayers' in the swipe widget
   rightPanel: {
     label: 'Right/Bottom Layer (2025)',
-    layers: Object.keys(KPI_LABELS).map(key => {
-      const kpi = key as KPIKey;
+    layers: MEASURED_KPIS.map(kpi => {
       return {
         title: LA_LAYER_CONFIG.layerTitlePattern(kpi, 2025),
         label: `${KPI_LABELS[kpi]} (2025)`,
@@ -0,0 +1,76 @@
+// src/config/budgetScenarios.ts
+
+import { DEFAULT_YEAR } from './constants';
+import type { KPIKey } from './kpiConfig';
+import { DEFAULT_TREATMENT_RULE_SET_ID, type TreatmentCategory } from './treatmentRules';
+import type { BudgetOutcome, PrioritisationMethod } from '@/utils/budgetPlanner';
+
+/**
+ * ============================================================================
+ * BUDGET SCENARIOS
+ * ============================================================================
+ *
+ * Inputs for the budget planner page: unit costs per treatment, carriageway
+ * width and the annual budget per Local Authority. Saved scenarios keep the
+ * network total of their last run so they can be compared side by side.
+ *
+ * The allocation itself lives in utils/budgetPlanner.ts.
+ */
+
+export const PRIORITISATION_METHODS: PrioritisationMethod[] = ['worstFirst', 'benefitCost'];
+
+export const PRIORITISATION_LABELS: Record<PrioritisationMethod, string> = {
+  worstFirst: 'Worst first',
+  benefitCost: 'Benefit / cost'
+};
+
+/** Indicative resurfacing rates (€/m²) */
+export const DEFAULT_UNIT_COSTS: Record<TreatmentCategory, number> = {
+  routine: 2,
+  skidResistance: 8,
+  surfaceRestoration: 20,
+  overlay: 35,
+  reconstruction: 90
+};
+
+/** Typical regional road carriageway width (m) */
+export const DEFAULT_CARRIAGEWAY_WIDTH_M = 6.2;
+
+/** Annual budget (€) for Local Authorities without their own entry */
+export const DEFAULT_LA_BUDGET = 2000000;
+
+export const DEFAULT_OUTCOME_KPI: KPIKey = 'psci';
+
+export interface BudgetScenario {
+  id: string;
+  name: string;
+  ruleSetId: string;
+  /** Survey year the treatment rules are applied to */
+  year: number;
+  /** KPI whose fair-or-better percentage measures the outcome */
+  outcomeKpi: KPIKey;
+  method: PrioritisationMethod;
+  unitCosts: Record<TreatmentCategory, number>;
+  carriagewayWidthM: number;
+  defaultBudget: number;
+  /** Budgets that differ from the default, keyed by Local Authority */
+  laBudgets: Record<string, number>;
+  /** Network total from the last run */
+  summary?: BudgetOutcome;
+  savedAt?: string;
+}
+
+export function createBudgetScenario(name = 'New scenario'): BudgetScenario {
+  return {
+    id: `scenario-${Date.now().toString(36)}`,
+    name,
+    ruleSetId: DEFAULT_TREATMENT_RULE_SET_ID,
+    year: DEFAULT_YEAR,
+    outcomeKpi: DEFAULT_OUTCOME_KPI,
+    method: 'worstFirst',
+    unitCosts: { ...DEFAULT_UNIT_COSTS },
+    carriagewayWidthM: DEFAULT_CARRIAGEWAY_WIDTH_M,
+    defaultBudget: DEFAULT_LA_BUDGET,
+    laBudgets: {}
+  };
+}
@@ -0,0 +1,76 @@
+// src/config/compositeIndex.ts
+
+import { KPI_LABELS, MEASURED_KPIS, type MeasuredKPIKey } from './kpiConfig';
+
+/**
+ * ============================================================================
+ * COMPOSITE CONDITION INDEX
+ * ============================================================================
+ *
+ * A single 0-100 score per segment combining the measured KPIs. Each KPI value
+ * is normalised by the position of its class band under the active threshold
+ * profile (best band = 100 ... worst band = 0), and the scores are averaged
+ * with the weights below. KPIs a segment was not surveyed for are left out
+ * and the remaining weights rescaled.
+ *
+ * The composite is classified with its own bands in KPI_CLASSIFICATIONS. The
+ * per-segment calculation lives in utils/compositeIndex.ts.
+ */
+
+export type CompositeWeights = Record<MeasuredKPIKey, number>;
+
+/** Relative weight of each KPI; 0 leaves the KPI out */
+export const DEFAULT_COMPOSITE_WEIGHTS: CompositeWeights = {
+  psci: 30,
+  iri: 25,
+  rut: 15,
+  csc: 10,
+  mpd: 10,
+  lpv3: 10
+};
+
+/**
+ * Normalised score for a band by its position among the KPI's bands, best
+ * first: the best band scores 100, the worst 0 and the others are evenly
+ * spaced between. KPIs with three, four or five classes then span the same
+ * range (MPD 'good' is its best class and scores 100).
+ */
+export function getBandScore(bandIndex: number, bandCount: number): number {
+  return bandCount > 1 ? (100 * (bandCount - 1 - bandIndex)) / (bandCount - 1) : 100;
+}
+
+/** === ACTIVE WEIGHTS === */
+
+let activeWeights: CompositeWeights = DEFAULT_COMPOSITE_WEIGHTS;
+
+/**
+ * Weights currently in use (set from the app store)
+ */
+export function getActiveCompositeWeights(): CompositeWeights {
+  return activeWeights;
+}
+
+export function setActiveCompositeWeights(weights: CompositeWeights): void {
+  activeWeights = { ...DEFAULT_COMPOSITE_WEIGHTS, ...weights };
+}
+
+/**
+ * Each weight as a percentage of the total
+ */
+export function getWeightShares(weights: CompositeWeights): CompositeWeights {
+  const total = MEASURED_KPIS.reduce((sum, kpi) => sum + Math.max(0, weights[kpi] ?? 0), 0);
+  return MEASURED_KPIS.reduce((shares, kpi) => {
+    shares[kpi] = total > 0 ? (Math.max(0, weights[kpi] ?? 0) / total) * 100 : 0;
+    return shares;
+  }, {} as CompositeWeights);
+}
+
+/**
+ * Problem with a set of weights, or null if usable
+ */
+export function validateCompositeWeights(weights: CompositeWeights): string | null {
+  const invalid = MEASURED_KPIS.find(kpi => !Number.isFinite(weights[kpi]) || weights[kpi] < 0);
+  if (invalid) return `${KPI_LABELS[invalid]} weight must be zero or more`;
+  if (MEASURED_KPIS.every(kpi => weights[kpi] === 0)) return 'At least one KPI needs a weight';
+  return null;
+}
@@ -43,6 +43,11 @@ export type SurveyYear = typeof SURVEY_YEARS[number];
  */
 export const DEFAULT_YEAR: SurveyYear = 2025;
 
+/**
+ * Future years offered for condition forecasts
+ */
+export const FORECAST_YEARS = [2028, 2030, 2032, 2035] as const;
+
 /**
  * Minimum valid year for data queries
  */
@@ -99,6 +104,17 @@ export const MAP_ANIMATION_DURATION = 1000;
  */
 export const MAP_ANIMATION_EASING = 'ease-in-out';
 
+/**
+ * Default buffer radius (km) around a clicked point for spatial filters
+ */
+export const DEFAULT_SPATIAL_BUFFER_KM = 5;
+
+/**
+ * Time each year stays on screen while the time slider plays (ms),
+ * counted from when the map and statistics have updated
+ */
+export const TIME_SLIDER_STEP_DURATION = 2500;
+
 /**
  * ============================================================================
  * UI CONFIGURATION CONSTANTS
@@ -176,6 +192,22 @@ export const MIN_SEGMENTS_FOR_STATS = 1;
  */
 export const PROGRESS_REPORT_INTERVAL = 10000;
 
+/**
+ * Number of feature pages fetched concurrently by PaginationService
+ */
+export const PAGINATION_CONCURRENCY = 4;
+
+/**
+ * Retry attempts for a failed feature page before the query fails
+ */
+export const PAGINATION_MAX_RETRIES = 3;
+
+/**
+ * Base delay before retrying a failed page (milliseconds)
+ * Doubles on each subsequent attempt
+ */
+export const PAGINATION_RETRY_DELAY = 500;
+
 /**
  * Statistics cache timeout (milliseconds)
  * Cached statistics expire after 5 minutes
@@ -333,6 +365,29 @@ export const FULL_CLASS_COUNT = 5;
  */
 export const DEFAULT_USE_5_CLASSES = true;
 
+/**
+ * ============================================================================
+ * HOTSPOT CONSTANTS
+ * ============================================================================
+ */
+
+/**
+ * Default fewest Poor / Very Poor segments in a hotspot
+ * 5 segments = 500 metres of poor road
+ */
+export const DEFAULT_HOTSPOT_MIN_SEGMENTS = 5;
+
+/**
+ * Default most consecutive better segments a hotspot may bridge
+ */
+export const DEFAULT_HOTSPOT_MAX_GAP = 1;
+
+/**
+ * Segment IDs per geometry request when drawing hotspots
+ * Keeps the IN (...) list of each where clause short
+ */
+export const HOTSPOT_GEOMETRY_BATCH_SIZE = 500;
+
 /**
  * ============================================================================
  * PERCENTAGE CONSTANTS
@@ -2,7 +2,22 @@
 
 import { RENDERER_CONFIG } from '../config/rendererConfig';
 
-export type KPIKey = 'iri' | 'rut' | 'psci' | 'csc' | 'mpd' | 'lpv3';
+export type KPIKey = 'iri' | 'rut' | 'psci' | 'csc' | 'mpd' | 'lpv3' | 'composite';
+
+/** KPIs surveyed on the road network, i.e. everything except the composite index */
+export type MeasuredKPIKey = Exclude<KPIKey, 'composite'>;
+
+/**
+ * Composite condition index computed per segment from the measured KPIs
+ * (see config/compositeIndex.ts); it has no field on the road layer
+ */
+export const COMPOSITE_KPI = 'composite' satisfies KPIKey;
+
+export const MEASURED_KPIS: MeasuredKPIKey[] = ['iri', 'rut', 'psci', 'csc', 'mpd', 'lpv3'];
+
+export function isCompositeKPI(kpi: KPIKey): kpi is typeof COMPOSITE_KPI {
+  return kpi === COMPOSITE_KPI;
+}
 
 export const KPI_LABELS: Record<KPIKey, string> = {
   iri: 'IRI',
@@ -10,114 +25,232 @@ export const KPI_LABELS: Record<KPIKey, string> = {
   psci: 'PSCI',
   csc: 'CSC',
   mpd: 'MPD',
-  lpv3: 'LPV'
+  lpv3: 'LPV',
+  composite: 'Composite'
 };
 
-// Consolidated KPI thresholds from RendererService and StatisticsService
-// Based on the 2018 Regional Report condition class definitions
-export const KPI_THRESHOLDS: Record<KPIKey, {
-  veryGood?: number;
-  good: number;
-  fair: number;
-  poor?: number;
-  veryPoor?: number;
-}> = {
+export type ConditionClass = 'veryGood' | 'good' | 'fair' | 'poor' | 'veryPoor';
+
+export type SimplifiedConditionClass = 'good' | 'fair' | 'poor';
+
+/**
+ * A single condition class band: min/max bounds on the raw KPI value.
+ * An omitted bound is open-ended. By default min is inclusive and max exclusive.
+ */
+export interface ConditionClassBand {
+  conditionClass: ConditionClass;
+  /** Value stored in the pre-calculated *_Class_<year> field for this band */
+  classValue: number;
+  min?: number;
+  max?: number;
+  minInclusive?: boolean;
+  maxInclusive?: boolean;
+  /** Display override for ordinal scales (e.g. PSCI '9 - 10') */
+  rangeLabel?: string;
+}
+
+export interface KPIClassification {
+  unit: string;
+  /** Decimal places used when formatting band bounds */
+  decimals: number;
+  higherIsBetter: boolean;
+  /** Ordered best to worst; bands must not overlap */
+  bands: ConditionClassBand[];
+}
+
+/**
+ * ============================================================================
+ * CONDITION CLASS BANDS
+ * ============================================================================
+ *
+ * Single definition of the condition classes for every KPI, based on the 2018
+ * Regional Report condition class definitions. The JS classifier below, the SQL
+ * CASE/WHERE expressions, the map renderer class breaks and the methodology
+ * tables are all generated from these bands (see utils/conditionClassification).
+ */
+export const KPI_CLASSIFICATIONS: Record<KPIKey, KPIClassification> = {
   // International Roughness Index (mm/m) - lower values are better
   iri: {
-    veryGood: 3,
-    good: 4,
-    fair: 5,
-    poor: 7
+    unit: 'mm/m',
+    decimals: 1,
+    higherIsBetter: false,
+    bands: [
+      { conditionClass: 'veryGood', classValue: 1, max: 3 },
+      { conditionClass: 'good', classValue: 2, min: 3, max: 4 },
+      { conditionClass: 'fair', classValue: 3, min: 4, max: 5 },
+      { conditionClass: 'poor', classValue: 4, min: 5, max: 7 },
+      { conditionClass: 'veryPoor', classValue: 5, min: 7 }
+    ]
   },
   // Rut Depth (mm) - lower values are better
   rut: {
-    veryGood: 6,
-    good: 9,
-    fair: 15,
-    poor: 20
+    unit: 'mm',
+    decimals: 0,
+    higherIsBetter: false,
+    bands: [
+      { conditionClass: 'veryGood', classValue: 1, max: 6 },
+      { conditionClass: 'good', classValue: 2, min: 6, max: 9 },
+      { conditionClass: 'fair', classValue: 3, min: 9, max: 15 },
+      { conditionClass: 'poor', classValue: 4, min: 15, max: 20 },
+      { conditionClass: 'veryPoor', classValue: 5, min: 20 }
+    ]
+  },
+  // Pavement Surface Condition Index (1-10 visual rating) - higher is better
+  // Rated in 4 classes; there is no Very Poor PSCI class
+  psci: {
+    unit: '',
+    decimals: 0,
+    higherIsBetter: true,
+    bands: [
+      { conditionClass: 'veryGood', classValue: 1, min: 9, rangeLabel: '9 - 10' },
+      { conditionClass: 'good', classValue: 2, min: 7, max: 9, rangeLabel: '7 - 8' },
+      { conditionClass: 'fair', classValue: 3, min: 5, max: 7, rangeLabel: '5 - 6' },
+      { conditionClass: 'poor', classValue: 4, max: 5, rangeLabel: '1 - 4' }
+    ]
   },
-  // Characteristic SCRIM Coefficient - higher values are better (inverted)
+  // Characteristic SCRIM Coefficient - higher values are better
+  // Each band includes its upper bound (e.g. Good is 0.45 < CSC <= 0.50)
   csc: {
-    veryPoor: 0.35,
-    poor: 0.40,
-    fair: 0.45,
-    good: 0.50
+    unit: '',
+    decimals: 2,
+    higherIsBetter: true,
+    bands: [
+      { conditionClass: 'veryGood', classValue: 1, min: 0.50, minInclusive: false },
+      { conditionClass: 'good', classValue: 2, min: 0.45, max: 0.50, minInclusive: false, maxInclusive: true },
+      { conditionClass: 'fair', classValue: 3, min: 0.40, max: 0.45, minInclusive: false, maxInclusive: true },
+      { conditionClass: 'poor', classValue: 4, min: 0.35, max: 0.40, minInclusive: false, maxInclusive: true },
+      { conditionClass: 'veryPoor', classValue: 5, max: 0.35, maxInclusive: true }
+    ]
+  },
+  // Mean Profile Depth (mm) - higher is better, 3 classes for skid resistance
+  mpd: {
+    unit: 'mm',
+    decimals: 1,
+    higherIsBetter: true,
+    bands: [
+      { conditionClass: 'good', classValue: 1, min: 0.7 },
+      { conditionClass: 'fair', classValue: 2, min: 0.6, max: 0.7 },
+      { conditionClass: 'poor', classValue: 3, max: 0.6 }
+    ]
   },
   // Longitudinal Profile Variance (3m) - lower values are better
   lpv3: {
-    veryGood: 2,
-    good: 4,
-    fair: 7,
-    poor: 10
+    unit: 'mm',
+    decimals: 0,
+    higherIsBetter: false,
+    bands: [
+      { conditionClass: 'veryGood', classValue: 1, max: 2 },
+      { conditionClass: 'good', classValue: 2, min: 2, max: 4 },
+      { conditionClass: 'fair', classValue: 3, min: 4, max: 7 },
+      { conditionClass: 'poor', classValue: 4, min: 7, max: 10 },
+      { conditionClass: 'veryPoor', classValue: 5, min: 10 }
+    ]
   },
-  // Pavement Surface Condition Index (1-10 scale) - higher is better
-  psci: {
-    veryPoor: 2,
-    poor: 4,
-    fair: 6,
-    good: 8
-  },
-  // Mean Profile Depth (mm) - specific thresholds for skid resistance
-  mpd: {
-    poor: 0.6,
-    good: 0.7,
-    fair: 0.65
+  // Composite condition index (0-100 weighted score) - higher is better
+  composite: {
+    unit: '',
+    decimals: 0,
+    higherIsBetter: true,
+    bands: [
+      { conditionClass: 'veryGood', classValue: 1, min: 80 },
+      { conditionClass: 'good', classValue: 2, min: 60, max: 80 },
+      { conditionClass: 'fair', classValue: 3, min: 40, max: 60 },
+      { conditionClass: 'poor', classValue: 4, min: 20, max: 40 },
+      { conditionClass: 'veryPoor', classValue: 5, max: 20 }
+    ]
   }
 };
 
-// Helper function to determine condition class based on KPI value and thresholds
+/**
+ * ============================================================================
+ * ACTIVE THRESHOLDS
+ * ============================================================================
+ *
+ * The bands every classifier, query and renderer uses. Defaults to
+ * KPI_CLASSIFICATIONS and is switched by the selected threshold profile
+ * (see config/thresholdProfiles.ts and the app store).
+ */
+let activeClassifications: Record<KPIKey, KPIClassification> = KPI_CLASSIFICATIONS;
+let activeMatchesClassFields = true;
+
+/**
+ * Bands currently in use for a KPI
+ */
+export function getKPIClassification(kpi: KPIKey): KPIClassification {
+  // Profiles saved before a KPI existed keep the default bands for it
+  return activeClassifications[kpi] ?? KPI_CLASSIFICATIONS[kpi];
+}
+
+export function getActiveClassifications(): Record<KPIKey, KPIClassification> {
+  return activeClassifications;
+}
+
+/**
+ * Switch the bands used for all classification
+ * @param matchesClassFields - Whether the pre-calculated *_Class_<year> fields were
+ *   computed with these bands; when false, raw KPI values are classified instead
+ */
+export function setActiveClassifications(
+  classifications: Record<KPIKey, KPIClassification>,
+  matchesClassFields: boolean
+): void {
+  activeClassifications = classifications;
+  activeMatchesClassFields = matchesClassFields;
+}
+
+/**
+ * Whether the pre-calculated class fields agree with the active bands
+ */
+export function canUseClassFields(): boolean {
+  return activeMatchesClassFields;
+}
+
+/**
+ * Collapse a 5-class condition into the simplified 3-class system
+ */
+export function toSimplifiedClass(conditionClass: ConditionClass): SimplifiedConditionClass {
+  if (conditionClass === 'veryGood' || conditionClass === 'good') return 'good';
+  if (conditionClass === 'fair') return 'fair';
+  return 'poor';
+}
+
+/**
+ * Whether a raw value falls inside a band
+ */
+export function isValueInBand(band: ConditionClassBand, value: number): boolean {
+  if (band.min !== undefined) {
+    if ((band.minInclusive ?? true) ? value < band.min : value <= band.min) return false;
+  }
+  if (band.max !== undefined) {
+    if ((band.maxInclusive ?? false) ? value > band.max : value >= band.max) return false;
+  }
+  return true;
+}
+
+/**
+ * Band for a condition class, or undefined when the KPI has no such class
+ */
+export function getClassBand(kpi: KPIKey, conditionClass: ConditionClass): ConditionClassBand | undefined {
+  return getKPIClassification(kpi).bands.find(band => band.conditionClass === conditionClass);
+}
+
+// Helper function to determine condition class based on KPI value and class bands
 export function getConditionClass(
   kpi: KPIKey,
   value: number,
-  use5Classes: boolean = RENDERER_CONFIG.use5ClassRenderers
-): 'veryGood' | 'good' | 'fair' | 'poor' | 'veryPoor' | null {
+  use5Classes: boolean = RENDERER_CONFIG.use5ClassRenderers,
+  classification: KPIClassification = getKPIClassification(kpi)
+): ConditionClass | null {
   if (value === null || value === undefined || isNaN(value)) return null;
-  const thresholds = KPI_THRESHOLDS[kpi];
-
-  if (kpi === 'iri' || kpi === 'rut' || kpi === 'lpv3') {
-    if (use5Classes && thresholds.veryGood !== undefined && value < thresholds.veryGood) return 'veryGood';
-    if (value < thresholds.good) return 'good';
-    if (value < thresholds.fair) return 'fair';
-    if (use5Classes && thresholds.poor !== undefined) {
-      if (value < thresholds.poor) return 'poor';
-      return 'veryPoor';
-    }
-    return 'poor';
-  } else if (kpi === 'csc') {
-    if (use5Classes && thresholds.good !== undefined && value > thresholds.good) return 'veryGood';
-    if (value >= thresholds.fair) return 'good';
-    if (value >= thresholds.poor! && thresholds.poor !== undefined) return 'fair';
-    if (use5Classes && thresholds.veryPoor !== undefined) {
-      if (value >= thresholds.veryPoor) return 'poor';
-      return 'veryPoor';
-    }
-    return 'poor';
-  } else if (kpi === 'psci') {
-    if (use5Classes) {
-      if (value > 8) return 'veryGood';
-      if (value > thresholds.good) return 'good';
-      if (value > thresholds.fair) return 'fair';
-      if (value > thresholds.poor!) return 'poor';
-      return 'veryPoor';
-    }
-    if (value > thresholds.fair) return 'good';
-    if (value > thresholds.poor!) return 'fair';
-    return 'poor';
-  } else if (kpi === 'mpd') {
-    if (value >= thresholds.good) return 'good';
-    if (value >= thresholds.fair) return 'fair';
-    return 'poor';
-  }
-  return null;
+  const band = classification.bands.find(candidate => isValueInBand(candidate, value));
+  if (!band) return null;
+  return use5Classes ? band.conditionClass : toSimplifiedClass(band.conditionClass);
 }
 
 export function getSimplifiedConditionClass(
   kpi: KPIKey,
   value: number
-): 'good' | 'fair' | 'poor' | null {
+): SimplifiedConditionClass | null {
   const detailed = getConditionClass(kpi, value, true);
-  if (!detailed) return null;
-  if (detailed === 'veryGood' || detailed === 'good') return 'good';
-  if (detailed === 'fair') return 'fair';
-  return 'poor';
-}
\ No newline at end of file
+  return detailed ? toSimplifiedClass(detailed) : null;
+}
@@ -66,7 +66,8 @@ export const LA_FIELD_PATTERNS = {
       'csc': 'csc',
       'mpd': 'mpd',
       'psci': 'psci',
-      'lpv3': 'lpv'  // Note: lpv3 → lpv in LA fields
+      'lpv3': 'lpv',  // Note: lpv3 → lpv in LA fields
+      'composite': 'composite'  // Computed on demand, never stored on the LA layer
     };
     return `avg_${kpiMap[kpi]}_${year}`;
   },
@@ -82,7 +83,8 @@ export const LA_FIELD_PATTERNS = {
       'csc': 'CSC',
       'mpd': 'MPD',
       'psci': 'PSCI',
-      'lpv3': 'LPV'
+      'lpv3': 'LPV',
+      'composite': 'COMPOSITE'
     };
     return `${kpiMap[kpi]}_FB_${year}`;
   }
@@ -106,6 +108,7 @@ export const ROAD_FIELDS = {
   csc: 'CSC',               // Characteristic SCRIM Coefficient
   mpd: 'MPD',               // Mean Profile Depth
   lpv3: 'LPV3',             // Longitudinal Profile Variance (3m)
+  composite: 'Composite',   // Composite condition index (computed per segment, not on the layer)
   
   // Pre-calculated condition class fields (base names, year suffix added dynamically)
   iriClass: 'IRI_Class',
@@ -114,6 +117,7 @@ export const ROAD_FIELDS = {
   psciClass: 'PSCI_Class',
   mpdClass: 'MPD_Class',
   lpvClass: 'LPV_Class',
+  compositeClass: 'Composite_Class',
   
   // Attribute fields
   route: 'Route',           // Route identifier
@@ -201,7 +205,8 @@ export function getKPIFieldName(kpi: KPIKey, year: number, useClass: boolean = f
       'csc': ROAD_FIELDS.cscClass,
       'mpd': ROAD_FIELDS.mpdClass,
       'psci': ROAD_FIELDS.psciClass,
-      'lpv3': ROAD_FIELDS.lpvClass
+      'lpv3': ROAD_FIELDS.lpvClass,
+      'composite': ROAD_FIELDS.compositeClass
     };
     return `${classFieldMap[kpi]}_${year}`;
   }
@@ -221,30 +226,6 @@ export function getLAFieldName(kpi: KPIKey, year: number, metricType: LAMetricTy
   return LA_FIELD_PATTERNS[metricType](kpi, year);
 }
 
-/**
- * Helper function to build a WHERE clause for a specific subgroup
- * @param subgroupCode - The subgroup code (10, 20, 30, 40, or 50)
- * @returns SQL WHERE clause fragment
- */
-export function buildSubgroupWhereClause(subgroupCode: number): string {
-  const fieldName = SUBGROUP_CODE_TO_FIELD[subgroupCode];
-  
-  if (!fieldName) {
-    console.warn(`Unknown subgroup code: ${subgroupCode}`);
-    return '1=1'; // Return neutral clause if code not found
-  }
-  
-  // Rural is the default (all roads that are NOT in other categories)
-  if (subgroupCode === 50) {
-    const otherSubgroups = [10, 20, 30, 40];
-    const conditions = otherSubgroups.map(code => `${SUBGROUP_CODE_TO_FIELD[code]} = 0`);
-    return conditions.join(' AND ');
-  }
-  
-  // For specific subgroups, check that their boolean field is 1
-  return `${fieldName} = 1`;
-}
-
 /**
  * Helper function to get subgroup label from code
  * @param code - The subgroup code
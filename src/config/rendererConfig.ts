@@ -1,6 +1,9 @@
 // src/config/rendererConfig.ts
 
+import type { SurveyYear } from './constants';
 import type { KPIKey } from './kpiConfig';
+import type { TreatmentCategory } from './treatmentRules';
+import type { ChangeCategory } from '@/utils/conditionChange';
 import { getConditionColors } from '@/utils/themeHelpers';
 
 /**
@@ -196,6 +199,19 @@ export const LA_COLOR_GRADIENTS: Record<KPIKey, LAColorGradient> = {
     fair: [145, 115, 155],        // Purple - 70-75% range
     good: [180, 150, 190],        // Light purple - 75-85% range
     veryGood: [210, 185, 215]     // Very light purple/pink - 85-90% range
+  },
+
+  /**
+   * Composite condition index - Green Gradient
+   * Range: Dark green (poor) → Light green (good)
+   * Used for: Average score and % Fair or Better (score ≥ 40) visualization
+   */
+  composite: {
+    veryPoor: [45, 110, 70],     // Dark green - 50-60% range
+    poor: [70, 140, 90],          // Medium green - 60-70% range
+    fair: [110, 170, 120],        // Green - 70-80% range
+    good: [160, 205, 160],        // Light green - 80-90% range
+    veryGood: [205, 235, 200]     // Very light green - 90-100% range
   }
 };
 
@@ -214,6 +230,7 @@ export const LA_COLOR_GRADIENTS: Record<KPIKey, LAColorGradient> = {
  * - CSC: 40-100% (wide variation, safety-critical)
  * - MPD: 0-10% (shows % POOR, inverted - lower is better)
  * - LPV3: 50-90% (moderate variation)
+ * - Composite: 50-100% (weighted across all KPIs)
  */
 export const LA_PERCENTAGE_RANGES: Record<KPIKey, { min: number; max: number }> = {
   iri: { 
@@ -241,6 +258,10 @@ export const LA_PERCENTAGE_RANGES: Record<KPIKey, { min: number; max: number }>
   lpv3: { 
     min: 50,   // Minimum expected % Fair or Better
     max: 90    // Maximum expected % Fair or Better
+  },
+  composite: {
+    min: 50,   // Minimum expected % Fair or Better
+    max: 100   // Maximum expected % Fair or Better
   }
 };
 
@@ -285,6 +306,61 @@ export const SIMPLIFIED_CLASS_LABELS = {
   poor: 'Poor'
 } as const;
 
+/**
+ * Colors for recommended maintenance treatments, least to most intensive
+ * Used by the treatment map renderer and the treatment tables.
+ */
+export const TREATMENT_COLORS: Record<TreatmentCategory, string> = {
+  routine: '#2e7d32',
+  skidResistance: '#9ccc65',
+  surfaceRestoration: '#fbc02d',
+  overlay: '#ef6c00',
+  reconstruction: '#c62828'
+};
+
+/**
+ * Colors for year-to-year change on the road network (class shift renderer).
+ * The value renderer ramps from deteriorated through stable to improved.
+ */
+export const CHANGE_COLORS: Record<ChangeCategory, string> = {
+  improved: '#1a9850',
+  stable: '#d9d9d9',
+  deteriorated: '#d73027'
+};
+
+/**
+ * Highlight colors for poor-condition hotspots drawn over the road layer
+ */
+export const HOTSPOT_COLORS = {
+  line: [216, 27, 96, 0.75] as [number, number, number, number],
+  selected: [0, 229, 255, 1] as [number, number, number, number]
+};
+
+/**
+ * Outline of the area a spatial filter selects
+ */
+export const SPATIAL_FILTER_COLORS = {
+  fill: [0, 229, 255, 0.08] as [number, number, number, number],
+  outline: [0, 151, 167, 1] as [number, number, number, number]
+};
+
+/**
+ * Marker mirroring the pointer position across synchronised map views
+ */
+export const SYNC_POINTER_COLORS = {
+  fill: [255, 255, 255, 0] as [number, number, number, number],
+  outline: [233, 30, 99, 1] as [number, number, number, number]
+};
+
+/**
+ * Line colors for each survey year on route profile charts
+ */
+export const SURVEY_YEAR_COLORS: Record<SurveyYear, string> = {
+  2011: '#8c8c8c',
+  2018: '#1677ff',
+  2025: '#722ed1'
+};
+
 /**
  * ============================================================================
  * FILL SYMBOL CONFIGURATION (LA LAYERS)
@@ -0,0 +1,61 @@
+// src/config/savedViews.ts
+
+import type { KPIKey } from './kpiConfig';
+import type { FilterState } from '@/types';
+
+/**
+ * ============================================================================
+ * SAVED VIEWS
+ * ============================================================================
+ *
+ * Named filter presets for the overview dashboard: the filters, KPI and map
+ * extent a user returns to every week. Views are kept in the app store and
+ * can be shared between teams as a JSON file (see utils/savedViews.ts).
+ */
+
+/** Map extent as plain JSON, so it survives localStorage and export files */
+export interface SavedViewExtent {
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+  spatialReference: { wkid: number };
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  kpi: KPIKey;
+  filters: FilterState;
+  /** Extent to zoom to after applying the filters, or null to fit the filtered roads */
+  extent: SavedViewExtent | null;
+  savedAt: string;
+}
+
+/** Identifies saved view export files */
+export const SAVED_VIEWS_FILE_FORMAT = 'rmo-saved-views';
+export const SAVED_VIEWS_FILE_VERSION = 1;
+
+export function createSavedView(
+  name: string,
+  kpi: KPIKey,
+  filters: FilterState,
+  extent: SavedViewExtent | null
+): SavedView {
+  return {
+    id: `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    kpi,
+    filters: {
+      localAuthority: [...filters.localAuthority],
+      subgroup: [...filters.subgroup],
+      route: [...filters.route],
+      kpiRanges: [...(filters.kpiRanges ?? [])],
+      conditionClasses: [...(filters.conditionClasses ?? [])],
+      spatial: filters.spatial ?? null,
+      year: filters.year
+    },
+    extent,
+    savedAt: new Date().toISOString()
+  };
+}
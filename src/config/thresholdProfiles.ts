@@ -0,0 +1,75 @@
+// src/config/thresholdProfiles.ts
+
+import {
+  KPI_CLASSIFICATIONS,
+  type KPIClassification,
+  type KPIKey
+} from './kpiConfig';
+
+/**
+ * ============================================================================
+ * THRESHOLD PROFILES
+ * ============================================================================
+ *
+ * Named sets of condition class bands. The selected profile is held in the app
+ * store and applied with setActiveClassifications(), so the map renderer,
+ * statistics, charts and report sections all classify with the same bands.
+ */
+
+export interface ThresholdProfile {
+  id: string;
+  name: string;
+  description?: string;
+  /** Built-in profiles are read-only; duplicate them to edit */
+  builtIn: boolean;
+  classifications: Record<KPIKey, KPIClassification>;
+}
+
+export const RMO_2018_PROFILE_ID = 'rmo-2018';
+
+export const DEFAULT_THRESHOLD_PROFILE_ID = RMO_2018_PROFILE_ID;
+
+/**
+ * Profile the pre-calculated *_Class_<year> fields were computed with.
+ * Any other profile classifies raw KPI values instead.
+ */
+export const CLASS_FIELD_PROFILE_ID = RMO_2018_PROFILE_ID;
+
+export const RMO_2018_PROFILE: ThresholdProfile = {
+  id: RMO_2018_PROFILE_ID,
+  name: 'RMO 2018',
+  description: '2018 Regional Report condition class definitions',
+  builtIn: true,
+  classifications: KPI_CLASSIFICATIONS
+};
+
+/** Other band sets are added as user-defined profiles until a published source can be cited */
+export const BUILT_IN_THRESHOLD_PROFILES: ThresholdProfile[] = [RMO_2018_PROFILE];
+
+/**
+ * Look up a profile by id among the built-in and given custom profiles,
+ * falling back to the default profile
+ */
+export function resolveThresholdProfile(id: string, customProfiles: ThresholdProfile[] = []): ThresholdProfile {
+  return [...BUILT_IN_THRESHOLD_PROFILES, ...customProfiles].find(profile => profile.id === id)
+    ?? RMO_2018_PROFILE;
+}
+
+/**
+ * Create an editable copy of a profile
+ */
+export function duplicateThresholdProfile(source: ThresholdProfile, name: string): ThresholdProfile {
+  const classifications = {} as Record<KPIKey, KPIClassification>;
+  (Object.keys(source.classifications) as KPIKey[]).forEach(kpi => {
+    const classification = source.classifications[kpi];
+    classifications[kpi] = { ...classification, bands: classification.bands.map(band => ({ ...band })) };
+  });
+
+  return {
+    id: `custom-${Date.now().toString(36)}`,
+    name,
+    description: `Based on ${source.name}`,
+    builtIn: false,
+    classifications
+  };
+}
@@ -0,0 +1,195 @@
+// src/config/treatmentRules.ts
+
+import type { KPIKey } from './kpiConfig';
+
+/**
+ * ============================================================================
+ * TREATMENT RULE SETS
+ * ============================================================================
+ *
+ * Rules that map a segment's condition to a recommended maintenance treatment.
+ * Rules are checked in order and the first rule whose conditions all hold
+ * wins, so more intensive treatments are listed first. Segments matching no
+ * rule get the rule set's default treatment.
+ *
+ * The selected rule set is held in the app store; evaluation, the map renderer
+ * expression and validation live in utils/treatmentRecommendation.ts.
+ */
+
+export type TreatmentCategory =
+  | 'routine'
+  | 'skidResistance'
+  | 'surfaceRestoration'
+  | 'overlay'
+  | 'reconstruction';
+
+/** Ordered least to most intensive */
+export const TREATMENT_CATEGORIES: TreatmentCategory[] = [
+  'routine',
+  'skidResistance',
+  'surfaceRestoration',
+  'overlay',
+  'reconstruction'
+];
+
+export const TREATMENT_LABELS: Record<TreatmentCategory, string> = {
+  routine: 'Routine Maintenance',
+  skidResistance: 'Restoration of Skid Resistance',
+  surfaceRestoration: 'Surface Restoration',
+  overlay: 'Structural Overlay',
+  reconstruction: 'Reconstruction'
+};
+
+/** Value returned by the map renderer expression for each treatment */
+export const TREATMENT_CODES: Record<TreatmentCategory, number> = {
+  routine: 1,
+  skidResistance: 2,
+  surfaceRestoration: 3,
+  overlay: 4,
+  reconstruction: 5
+};
+
+/** KPIs that rule conditions can test */
+export const TREATMENT_KPIS: KPIKey[] = ['psci', 'iri', 'rut', 'mpd', 'csc'];
+
+export type TreatmentOperator = '<' | '<=' | '>' | '>=';
+
+export const TREATMENT_OPERATORS: TreatmentOperator[] = ['<', '<=', '>', '>='];
+
+/**
+ * A test on one raw KPI value; segments without a value never match
+ */
+export interface TreatmentCondition {
+  kpi: KPIKey;
+  operator: TreatmentOperator;
+  value: number;
+}
+
+export interface TreatmentRule {
+  id: string;
+  treatment: TreatmentCategory;
+  /** All conditions must hold */
+  conditions: TreatmentCondition[];
+  note?: string;
+}
+
+export interface TreatmentRuleSet {
+  id: string;
+  name: string;
+  description?: string;
+  /** Built-in rule sets are read-only; duplicate them to edit */
+  builtIn: boolean;
+  rules: TreatmentRule[];
+  /** Treatment for assessed segments that match no rule */
+  defaultTreatment: TreatmentCategory;
+}
+
+export const RMO_TREATMENT_RULE_SET_ID = 'rmo-psci';
+
+export const DEFAULT_TREATMENT_RULE_SET_ID = RMO_TREATMENT_RULE_SET_ID;
+
+/**
+ * PSCI treatment bands from the Pavement Surface Condition Index manual
+ * (9-10 routine, 7-8 skid resistance, 5-6 surface restoration, 3-4 overlay,
+ * 1-2 reconstruction), escalated by ride quality, rutting and texture/skid
+ */
+export const RMO_TREATMENT_RULE_SET: TreatmentRuleSet = {
+  id: RMO_TREATMENT_RULE_SET_ID,
+  name: 'RMO PSCI Guidance',
+  description: 'PSCI treatment bands escalated by IRI, rut depth, MPD and CSC',
+  builtIn: true,
+  defaultTreatment: 'routine',
+  rules: [
+    {
+      id: 'reconstruction-psci',
+      treatment: 'reconstruction',
+      conditions: [{ kpi: 'psci', operator: '<=', value: 2 }],
+      note: 'Structural failure'
+    },
+    {
+      id: 'reconstruction-ride',
+      treatment: 'reconstruction',
+      conditions: [
+        { kpi: 'psci', operator: '<=', value: 4 },
+        { kpi: 'iri', operator: '>=', value: 9 }
+      ],
+      note: 'Structural distress with very poor ride quality'
+    },
+    {
+      id: 'overlay-psci',
+      treatment: 'overlay',
+      conditions: [{ kpi: 'psci', operator: '<=', value: 4 }],
+      note: 'Structural distress'
+    },
+    {
+      id: 'overlay-iri',
+      treatment: 'overlay',
+      conditions: [{ kpi: 'iri', operator: '>=', value: 7 }],
+      note: 'Very poor ride quality'
+    },
+    {
+      id: 'overlay-rut',
+      treatment: 'overlay',
+      conditions: [{ kpi: 'rut', operator: '>=', value: 20 }],
+      note: 'Very deep rutting'
+    },
+    {
+      id: 'surface-psci',
+      treatment: 'surfaceRestoration',
+      conditions: [{ kpi: 'psci', operator: '<=', value: 6 }],
+      note: 'Surface defects'
+    },
+    {
+      id: 'surface-rut',
+      treatment: 'surfaceRestoration',
+      conditions: [{ kpi: 'rut', operator: '>=', value: 15 }],
+      note: 'Deep rutting'
+    },
+    {
+      id: 'skid-psci',
+      treatment: 'skidResistance',
+      conditions: [{ kpi: 'psci', operator: '<=', value: 8 }],
+      note: 'Surface wear'
+    },
+    {
+      id: 'skid-mpd',
+      treatment: 'skidResistance',
+      conditions: [{ kpi: 'mpd', operator: '<', value: 0.6 }],
+      note: 'Low texture depth'
+    },
+    {
+      id: 'skid-csc',
+      treatment: 'skidResistance',
+      conditions: [{ kpi: 'csc', operator: '<=', value: 0.35 }],
+      note: 'Low skid resistance'
+    }
+  ]
+};
+
+export const BUILT_IN_TREATMENT_RULE_SETS: TreatmentRuleSet[] = [RMO_TREATMENT_RULE_SET];
+
+/**
+ * Look up a rule set by id among the built-in and given custom rule sets,
+ * falling back to the default rule set
+ */
+export function resolveTreatmentRuleSet(id: string, customRuleSets: TreatmentRuleSet[] = []): TreatmentRuleSet {
+  return [...BUILT_IN_TREATMENT_RULE_SETS, ...customRuleSets].find(ruleSet => ruleSet.id === id)
+    ?? RMO_TREATMENT_RULE_SET;
+}
+
+/**
+ * Create an editable copy of a rule set
+ */
+export function duplicateTreatmentRuleSet(source: TreatmentRuleSet, name: string): TreatmentRuleSet {
+  return {
+    id: `custom-${Date.now().toString(36)}`,
+    name,
+    description: `Based on ${source.name}`,
+    builtIn: false,
+    defaultTreatment: source.defaultTreatment,
+    rules: source.rules.map(rule => ({
+      ...rule,
+      conditions: rule.conditions.map(condition => ({ ...condition }))
+    }))
+  };
+}
@@ -0,0 +1,80 @@
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { message } from 'antd';
+import useAppStore from '@/store/useAppStore';
+import { URL_STATE_VERSION, parseDashboardState, withDashboardState } from '@/utils/urlState';
+
+/**
+ * Keeps the dashboard state and the URL query string in step
+ *
+ * On arrival, state carried by the URL replaces the stored state and is
+ * applied to the map once the road data has loaded; without a link, the
+ * user's default saved view is opened instead. From then on every change
+ * in effect on the map is written back to the URL (replacing the history
+ * entry), so the address bar is always a shareable link to the current view.
+ * Filter edits reach the URL once they are applied.
+ */
+export function useDashboardUrlState(): void {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const {
+    activeKpi,
+    appliedFilters,
+    currentFilters,
+    laMetricType,
+    leftSwipeYear,
+    rightSwipeYear,
+    chartSelections,
+    roadLayer,
+    roadDataSource,
+    mapInitialized,
+    getDashboardUrlState,
+    restoreDashboardState,
+    applySavedView,
+    applyFilters,
+    calculateChartFilteredStatistics
+  } = useAppStore();
+
+  // Set when a link's filters still have to be applied to the map
+  const pendingApply = useRef(false);
+  // Default saved view to open once the road data has loaded
+  const pendingViewId = useRef<string | null>(null);
+
+  // Restore once, from the URL the page was opened with (mount only)
+  useEffect(() => {
+    const state = parseDashboardState(searchParams);
+    if (state) {
+      restoreDashboardState(state);
+      pendingApply.current = true;
+    } else if (Number(searchParams.get('v')) > URL_STATE_VERSION) {
+      message.warning('This link was made by a newer version of the dashboard and could not be opened');
+    } else {
+      pendingViewId.current = useAppStore.getState().defaultSavedViewId;
+    }
+  }, []);
+
+  useEffect(() => {
+    const dataReady = roadDataSource || (mapInitialized && roadLayer?.loaded);
+    if (!dataReady) return;
+
+    if (pendingViewId.current) {
+      applySavedView(pendingViewId.current);
+      pendingViewId.current = null;
+    }
+    if (!pendingApply.current) return;
+    pendingApply.current = false;
+
+    applyFilters().then(() => {
+      if (useAppStore.getState().chartSelections.length > 0) {
+        calculateChartFilteredStatistics();
+      }
+    });
+  }, [mapInitialized, roadLayer, roadDataSource, applySavedView, applyFilters, calculateChartFilteredStatistics]);
+
+  // Read from the store rather than the render values, which are stale on the
+  // first run straight after a restore. A link's filters stay in the URL until
+  // they have been applied.
+  useEffect(() => {
+    if (pendingApply.current) return;
+    setSearchParams(current => withDashboardState(current, getDashboardUrlState()), { replace: true });
+  }, [activeKpi, appliedFilters, currentFilters.year, laMetricType, leftSwipeYear, rightSwipeYear, chartSelections, getDashboardUrlState, setSearchParams]);
+}
@@ -0,0 +1,632 @@
+// src/pages/BudgetPlanner/index.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  Divider,
+  Empty,
+  Form,
+  Input,
+  InputNumber,
+  Layout,
+  Popconfirm,
+  Row,
+  Segmented,
+  Select,
+  Space,
+  Spin,
+  Statistic,
+  Table,
+  Tag,
+  Typography,
+  message,
+  theme
+} from 'antd';
+import {
+  DeleteOutlined,
+  DownloadOutlined,
+  FolderOpenOutlined,
+  PlayCircleOutlined,
+  PlusOutlined,
+  SaveOutlined
+} from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import useAppStore from '@/store/useAppStore';
+import {
+  PRIORITISATION_LABELS,
+  PRIORITISATION_METHODS,
+  createBudgetScenario,
+  type BudgetScenario
+} from '@/config/budgetScenarios';
+import { SEGMENT_LENGTH_KM, SURVEY_YEARS } from '@/config/constants';
+import { KPI_LABELS, MEASURED_KPIS } from '@/config/kpiConfig';
+import { ROAD_FIELDS } from '@/config/layerConfig';
+import { TREATMENT_COLORS } from '@/config/rendererConfig';
+import {
+  BUILT_IN_TREATMENT_RULE_SETS,
+  TREATMENT_CATEGORIES,
+  TREATMENT_LABELS,
+  resolveTreatmentRuleSet,
+  type TreatmentCategory
+} from '@/config/treatmentRules';
+import type { AggregationProgress } from '@/services/AggregationService';
+import BudgetService from '@/services/BudgetService';
+import PaginationService from '@/services/PaginationService';
+import QueryService from '@/services/QueryService';
+import LoadingOverlay from '@/components/LoadingOverlay';
+import type { BudgetOutcome, BudgetPlan, BudgetPlanLA, PlannedSegment } from '@/utils/budgetPlanner';
+
+const { Content } = Layout;
+const { Title, Paragraph, Text } = Typography;
+
+const yearOptions = SURVEY_YEARS.map(year => ({ label: String(year), value: year }));
+
+// The outcome is measured on surveyed values, so the composite index is not offered
+const kpiOptions = MEASURED_KPIS.map(kpi => ({ label: KPI_LABELS[kpi], value: kpi }));
+
+const methodOptions = PRIORITISATION_METHODS.map(method => ({ label: PRIORITISATION_LABELS[method], value: method }));
+
+/** Routine maintenance is never funded by the planner */
+const FUNDED_TREATMENTS = TREATMENT_CATEGORIES.filter(treatment => treatment !== 'routine');
+
+const formatEuro = (value: number) => `€${Math.round(value).toLocaleString()}`;
+
+// Thousands separators in the budget inputs
+const formatThousands = (value?: string | number) =>
+  value === undefined || `${value}` === '' ? '' : Number(value).toLocaleString();
+
+const parseThousands = (value?: string) => Number((value ?? '').replace(/[^\d.]/g, ''));
+
+const formatPct = (value: number) => `${value.toFixed(1)}%`;
+
+const formatChange = (outcome: BudgetOutcome) => {
+  const change = outcome.fairOrBetterAfterPct - outcome.fairOrBetterBeforePct;
+  return `${change >= 0 ? '+' : ''}${change.toFixed(1)} pts`;
+};
+
+/**
+ * Budget Planner
+ *
+ * Spends an annual budget per Local Authority on the treatments recommended by
+ * a treatment rule set, worst-first or by benefit/cost, and shows the treated
+ * segments, the spend and the change in fair-or-better %. Scenarios can be
+ * saved and compared against each other.
+ */
+const BudgetPlanner: React.FC = () => {
+  const { token } = theme.useToken();
+  const {
+    initializeLayersDirectly,
+    roadLayer,
+    roadDataSource,
+    loading,
+    loadingMessage,
+    customTreatmentRuleSets,
+    budgetScenarios,
+    saveBudgetScenario,
+    deleteBudgetScenario
+  } = useAppStore();
+  // A loaded local extract takes precedence over the hosted layer
+  const roadData = roadDataSource ?? roadLayer;
+
+  const [scenario, setScenario] = useState<BudgetScenario>(() => createBudgetScenario());
+  const [laOptions, setLaOptions] = useState<string[]>([]);
+  const [plan, setPlan] = useState<BudgetPlan | null>(null);
+  // The plan no longer reflects the inputs once they change
+  const [stale, setStale] = useState(false);
+  const [progress, setProgress] = useState<AggregationProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!roadLayer && !roadDataSource) {
+      initializeLayersDirectly();
+    }
+  }, [initializeLayersDirectly, roadLayer, roadDataSource]);
+
+  useEffect(() => {
+    if (!roadData) return;
+    QueryService.getUniqueValues(roadData, ROAD_FIELDS.la).then(values => setLaOptions([...values].sort()));
+  }, [roadData]);
+
+  // Cancel a running allocation when leaving the page
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const ruleSet = resolveTreatmentRuleSet(scenario.ruleSetId, customTreatmentRuleSets);
+
+  const update = (changes: Partial<BudgetScenario>) => {
+    setScenario(current => ({ ...current, ...changes }));
+    setStale(true);
+  };
+
+  const setUnitCost = (treatment: TreatmentCategory, value: number | null) =>
+    update({ unitCosts: { ...scenario.unitCosts, [treatment]: value ?? 0 } });
+
+  const setLABudget = (la: string, value: number | null) => {
+    const laBudgets = { ...scenario.laBudgets };
+    if (value === null || value === scenario.defaultBudget) {
+      delete laBudgets[la];
+    } else {
+      laBudgets[la] = value;
+    }
+    update({ laBudgets });
+  };
+
+  const runScenario = async () => {
+    if (!roadData) return;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setError(null);
+    setProgress({ phase: 'querying', processed: 0, total: 0, percent: 0, message: 'Loading segments...' });
+
+    try {
+      const result = await BudgetService.runScenario(roadData, scenario, ruleSet, setProgress, controller.signal);
+      setPlan(result);
+      setStale(false);
+    } catch (err) {
+      if (PaginationService.isAbortError(err)) return;
+      console.error('[BudgetPlanner] Error running scenario:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run scenario');
+    } finally {
+      if (!controller.signal.aborted) setProgress(null);
+    }
+  };
+
+  const handleSave = () => {
+    if (!scenario.name.trim()) {
+      message.warning('Give the scenario a name before saving');
+      return;
+    }
+    // Keep the last run's total only while it still matches the inputs
+    const summary = stale ? undefined : plan?.total ?? scenario.summary;
+    const saved = { ...scenario, summary };
+    saveBudgetScenario(saved);
+    setScenario(saved);
+    message.success(`Saved '${scenario.name}'`);
+  };
+
+  const handleLoad = (saved: BudgetScenario) => {
+    controllerRef.current?.abort();
+    setScenario(saved);
+    setPlan(null);
+    setStale(false);
+  };
+
+  const handleNew = () => {
+    controllerRef.current?.abort();
+    setScenario(createBudgetScenario());
+    setPlan(null);
+    setStale(false);
+  };
+
+  const exportCSV = () => {
+    if (!plan) return;
+
+    const blob = new Blob([BudgetService.toCSV(plan)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = BudgetService.getCSVFilename(scenario);
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const ruleSetOptions = [...BUILT_IN_TREATMENT_RULE_SETS, ...customTreatmentRuleSets].map(r => ({
+    label: r.builtIn ? r.name : `${r.name} (custom)`,
+    value: r.id
+  }));
+
+  const laBudgetRows = useMemo(() => laOptions.map(la => ({ la })), [laOptions]);
+
+  const laBudgetColumns: ColumnsType<{ la: string }> = [
+    { title: 'Local Authority', dataIndex: 'la', key: 'la' },
+    {
+      title: 'Annual budget',
+      key: 'budget',
+      width: 170,
+      render: (_, { la }) => (
+        <InputNumber
+          size="small"
+          prefix="€"
+          min={0}
+          step={100000}
+          value={scenario.laBudgets[la] ?? null}
+          placeholder={scenario.defaultBudget.toLocaleString()}
+          formatter={formatThousands}
+          parser={parseThousands}
+          onChange={value => setLABudget(la, value)}
+          style={{ width: '100%' }}
+        />
+      )
+    }
+  ];
+
+  const laColumns: ColumnsType<BudgetPlanLA> = [
+    { title: 'Local Authority', dataIndex: 'la', key: 'la', fixed: 'left', width: 140 },
+    {
+      title: 'Budget',
+      dataIndex: 'budget',
+      key: 'budget',
+      align: 'right',
+      render: formatEuro
+    },
+    {
+      title: 'Spend',
+      dataIndex: 'spend',
+      key: 'spend',
+      align: 'right',
+      sorter: (a, b) => a.spend - b.spend,
+      render: formatEuro
+    },
+    {
+      title: 'Backlog',
+      dataIndex: 'candidateCost',
+      key: 'candidateCost',
+      align: 'right',
+      sorter: (a, b) => a.candidateCost - b.candidateCost,
+      render: formatEuro
+    },
+    {
+      title: 'Treated (km)',
+      dataIndex: 'treatedKm',
+      key: 'treatedKm',
+      align: 'right',
+      sorter: (a, b) => a.treatedKm - b.treatedKm,
+      render: (value: number) => value.toFixed(1)
+    },
+    {
+      title: 'Fair or better',
+      key: 'fairOrBetter',
+      align: 'right',
+      sorter: (a, b) =>
+        (a.fairOrBetterAfterPct - a.fairOrBetterBeforePct) - (b.fairOrBetterAfterPct - b.fairOrBetterBeforePct),
+      render: (_, row) => (
+        <Space size={4}>
+          <Text type="secondary">{formatPct(row.fairOrBetterBeforePct)}</Text>→
+          <Text strong>{formatPct(row.fairOrBetterAfterPct)}</Text>
+        </Space>
+      )
+    }
+  ];
+
+  const segmentColumns: ColumnsType<PlannedSegment> = [
+    { title: 'Local Authority', dataIndex: 'la', key: 'la', width: 140 },
+    { title: 'Priority', dataIndex: 'rank', key: 'rank', align: 'right', width: 80 },
+    { title: 'Route', dataIndex: 'route', key: 'route', width: 90 },
+    { title: 'Segment', dataIndex: 'id', key: 'id', width: 90 },
+    {
+      title: 'Treatment',
+      dataIndex: 'treatment',
+      key: 'treatment',
+      render: (treatment: TreatmentCategory) => (
+        <Tag color={TREATMENT_COLORS[treatment]}>{TREATMENT_LABELS[treatment]}</Tag>
+      )
+    },
+    {
+      title: KPI_LABELS[scenario.outcomeKpi],
+      dataIndex: 'outcomeValue',
+      key: 'outcomeValue',
+      align: 'right',
+      render: (value: number | null) => (value === null ? '—' : value)
+    },
+    {
+      title: 'Cost',
+      dataIndex: 'cost',
+      key: 'cost',
+      align: 'right',
+      render: formatEuro
+    }
+  ];
+
+  const scenarioColumns: ColumnsType<BudgetScenario> = [
+    {
+      title: 'Scenario',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, saved) => (
+        <Space direction="vertical" size={0}>
+          <Text strong={saved.id === scenario.id}>{name}</Text>
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            {PRIORITISATION_LABELS[saved.method]} · {saved.year} · {KPI_LABELS[saved.outcomeKpi]}
+          </Text>
+        </Space>
+      )
+    },
+    {
+      title: 'Budget',
+      key: 'budget',
+      align: 'right',
+      render: (_, saved) => (saved.summary ? formatEuro(saved.summary.budget) : '—')
+    },
+    {
+      title: 'Spend',
+      key: 'spend',
+      align: 'right',
+      render: (_, saved) => (saved.summary ? formatEuro(saved.summary.spend) : '—')
+    },
+    {
+      title: 'Treated (km)',
+      key: 'treatedKm',
+      align: 'right',
+      render: (_, saved) => (saved.summary ? saved.summary.treatedKm.toFixed(1) : '—')
+    },
+    {
+      title: 'Fair or better',
+      key: 'fairOrBetter',
+      align: 'right',
+      render: (_, saved) => (saved.summary
+        ? `${formatPct(saved.summary.fairOrBetterBeforePct)} → ${formatPct(saved.summary.fairOrBetterAfterPct)}`
+        : <Text type="secondary">Not run</Text>)
+    },
+    {
+      title: 'Change',
+      key: 'change',
+      align: 'right',
+      render: (_, saved) => (saved.summary ? <Tag color="green">{formatChange(saved.summary)}</Tag> : '—')
+    },
+    {
+      key: 'actions',
+      width: 80,
+      render: (_, saved) => (
+        <Space size={0}>
+          <Button size="small" type="text" icon={<FolderOpenOutlined />} onClick={() => handleLoad(saved)} />
+          <Popconfirm title="Delete this scenario?" onConfirm={() => deleteBudgetScenario(saved.id)}>
+            <Button size="small" type="text" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      )
+    }
+  ];
+
+  if (loading || !roadData) {
+    return (
+      <div style={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', padding: 48 }}>
+        <Spin size="large" tip={loadingMessage || 'Loading road network...'} />
+      </div>
+    );
+  }
+
+  return (
+    <Layout style={{ height: '100%', background: token.colorBgContainer }}>
+      <Content style={{ padding: 24, overflow: 'auto', background: token.colorBgContainer }}>
+        <Space direction="vertical" size="large" style={{ width: '100%' }}>
+          <div>
+            <Title level={2} style={{ marginBottom: 4 }}>Budget Planner</Title>
+            <Paragraph type="secondary" style={{ marginBottom: 0 }}>
+              Fund the treatments recommended by a rule set within each Local Authority's annual budget
+              and see the effect on the network's fair-or-better percentage.
+            </Paragraph>
+          </div>
+
+          <Row gutter={16}>
+            <Col xs={24} xl={9}>
+              <Card
+                title="Scenario"
+                size="small"
+                extra={<Button size="small" icon={<PlusOutlined />} onClick={handleNew}>New</Button>}
+              >
+                <Form layout="vertical" size="small">
+                  <Form.Item label="Name">
+                    <Input value={scenario.name} onChange={e => setScenario({ ...scenario, name: e.target.value })} />
+                  </Form.Item>
+                  <Row gutter={8}>
+                    <Col span={14}>
+                      <Form.Item label="Treatment rules">
+                        <Select
+                          value={ruleSet.id}
+                          options={ruleSetOptions}
+                          onChange={ruleSetId => update({ ruleSetId })}
+                        />
+                      </Form.Item>
+                    </Col>
+                    <Col span={10}>
+                      <Form.Item label="Survey year">
+                        <Select value={scenario.year} options={yearOptions} onChange={year => update({ year })} />
+                      </Form.Item>
+                    </Col>
+                  </Row>
+                  <Row gutter={8}>
+                    <Col span={10}>
+                      <Form.Item label="Outcome KPI">
+                        <Select
+                          value={scenario.outcomeKpi}
+                          options={kpiOptions}
+                          onChange={outcomeKpi => update({ outcomeKpi })}
+                        />
+                      </Form.Item>
+                    </Col>
+                    <Col span={14}>
+                      <Form.Item label="Prioritisation">
+                        <Segmented
+                          block
+                          value={scenario.method}
+                          options={methodOptions}
+                          onChange={value => update({ method: value as BudgetScenario['method'] })}
+                        />
+                      </Form.Item>
+                    </Col>
+                  </Row>
+                  <Row gutter={8}>
+                    <Col span={10}>
+                      <Form.Item label="Carriageway width">
+                        <InputNumber
+                          suffix="m"
+                          min={1}
+                          step={0.1}
+                          value={scenario.carriagewayWidthM}
+                          onChange={value => value !== null && update({ carriagewayWidthM: value })}
+                          style={{ width: '100%' }}
+                        />
+                      </Form.Item>
+                    </Col>
+                    <Col span={14}>
+                      <Form.Item label="Default annual budget per LA">
+                        <InputNumber
+                          prefix="€"
+                          min={0}
+                          step={100000}
+                          value={scenario.defaultBudget}
+                          formatter={formatThousands}
+                          parser={parseThousands}
+                          onChange={value => value !== null && update({ defaultBudget: value })}
+                          style={{ width: '100%' }}
+                        />
+                      </Form.Item>
+                    </Col>
+                  </Row>
+
+                  <Divider orientation="left" plain style={{ margin: '4px 0 12px' }}>Unit costs (€/m²)</Divider>
+                  <Row gutter={8}>
+                    {FUNDED_TREATMENTS.map(treatment => (
+                      <Col span={12} key={treatment}>
+                        <Form.Item label={TREATMENT_LABELS[treatment]}>
+                          <InputNumber
+                            prefix="€"
+                            min={0}
+                            step={1}
+                            value={scenario.unitCosts[treatment]}
+                            onChange={value => setUnitCost(treatment, value)}
+                            style={{ width: '100%' }}
+                          />
+                        </Form.Item>
+                      </Col>
+                    ))}
+                  </Row>
+
+                  <Divider orientation="left" plain style={{ margin: '4px 0 12px' }}>Budget by Local Authority</Divider>
+                  <Table
+                    dataSource={laBudgetRows}
+                    columns={laBudgetColumns}
+                    rowKey="la"
+                    pagination={false}
+                    size="small"
+                    scroll={{ y: 240 }}
+                  />
+                </Form>
+
+                <Space style={{ marginTop: 16 }}>
+                  <Button type="primary" icon={<PlayCircleOutlined />} loading={!!progress} onClick={runScenario}>
+                    Run
+                  </Button>
+                  <Button icon={<SaveOutlined />} onClick={handleSave}>Save</Button>
+                </Space>
+              </Card>
+            </Col>
+
+            <Col xs={24} xl={15}>
+              <Card
+                title={
+                  <Space>
+                    Outcome
+                    {plan && <Tag>{PRIORITISATION_LABELS[scenario.method]}</Tag>}
+                    {plan && stale && <Tag color="orange">Inputs changed — run again</Tag>}
+                  </Space>
+                }
+                size="small"
+                extra={
+                  <Button size="small" icon={<DownloadOutlined />} disabled={!plan || !!progress} onClick={exportCSV}>
+                    Export CSV
+                  </Button>
+                }
+                style={{ position: 'relative', minHeight: 300 }}
+              >
+                <LoadingOverlay
+                  visible={!!progress}
+                  message={progress?.message ?? 'Allocating budget...'}
+                  progress={progress?.percent}
+                />
+
+                {error ? (
+                  <Alert type="error" showIcon message="Budget allocation failed" description={error} />
+                ) : !plan ? (
+                  <Empty description="Run the scenario to allocate the budget" />
+                ) : (
+                  <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+                    <Row gutter={16}>
+                      <Col span={6}>
+                        <Statistic title="Spend" value={formatEuro(plan.total.spend)} />
+                        <Text type="secondary" style={{ fontSize: 12 }}>
+                          of {formatEuro(plan.total.budget)}
+                        </Text>
+                      </Col>
+                      <Col span={6}>
+                        <Statistic title="Treated" value={plan.total.treatedKm} precision={1} suffix="km" />
+                        <Text type="secondary" style={{ fontSize: 12 }}>
+                          of {(plan.total.candidateSegments * SEGMENT_LENGTH_KM).toFixed(1)} km recommended
+                        </Text>
+                      </Col>
+                      <Col span={6}>
+                        <Statistic
+                          title={`${KPI_LABELS[scenario.outcomeKpi]} fair or better`}
+                          value={plan.total.fairOrBetterAfterPct}
+                          precision={1}
+                          suffix="%"
+                        />
+                        <Text type="secondary" style={{ fontSize: 12 }}>
+                          from {formatPct(plan.total.fairOrBetterBeforePct)}
+                        </Text>
+                      </Col>
+                      <Col span={6}>
+                        <Statistic
+                          title="Change"
+                          value={plan.total.fairOrBetterAfterPct - plan.total.fairOrBetterBeforePct}
+                          precision={1}
+                          prefix="+"
+                          suffix="pts"
+                          valueStyle={{ color: token.colorSuccess }}
+                        />
+                      </Col>
+                    </Row>
+
+                    <Space wrap>
+                      {FUNDED_TREATMENTS.map(treatment => (
+                        <Tag key={treatment} color={TREATMENT_COLORS[treatment]}>
+                          {TREATMENT_LABELS[treatment]}: {plan.total.treatedKmByTreatment[treatment].toFixed(1)} km
+                        </Tag>
+                      ))}
+                    </Space>
+
+                    <Table
+                      dataSource={plan.las}
+                      columns={laColumns}
+                      rowKey="la"
+                      pagination={false}
+                      size="small"
+                      scroll={{ x: 700, y: 320 }}
+                    />
+
+                    <Title level={5} style={{ margin: 0 }}>Treated segments</Title>
+                    <Table
+                      dataSource={plan.treated}
+                      columns={segmentColumns}
+                      rowKey={segment => `${segment.la}-${segment.id}`}
+                      pagination={{ pageSize: 20, showSizeChanger: false }}
+                      size="small"
+                    />
+                  </Space>
+                )}
+              </Card>
+            </Col>
+          </Row>
+
+          <Card title="Saved Scenarios" size="small">
+            <Table
+              dataSource={budgetScenarios}
+              columns={scenarioColumns}
+              rowKey="id"
+              pagination={false}
+              size="small"
+              locale={{ emptyText: 'Save a scenario to compare it here' }}
+            />
+          </Card>
+        </Space>
+      </Content>
+    </Layout>
+  );
+};
+
+export default BudgetPlanner;
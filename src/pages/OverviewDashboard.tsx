@@ -8,9 +8,15 @@ import LoadingOverlay from '@/components/LoadingOverlay';
 import EnhancedFilterPanel from '@/components/EnhancedFilterPanel';
 import EnhancedStatsPanel from '@/components/EnhancedStatsPanel';
 import EnhancedSwipePanel from '@/components/EnhancedSwipePanel';
+import TimeSliderControl from '@/components/TimeSliderControl';
 
 // Lazy load heavy components
 const EnhancedChartPanel = lazy(() => import('@/components/EnhancedChartPanel'));
+const TransitionPanel = lazy(() => import('@/components/TransitionPanel'));
+const TreatmentPanel = lazy(() => import('@/components/TreatmentPanel'));
+const HotspotPanel = lazy(() => import('@/components/HotspotPanel'));
+const SegmentTablePanel = lazy(() => import('@/components/SegmentTablePanel'));
+const SplitMapView = lazy(() => import('@/components/SplitMapView'));
 
 const OverviewDashboard: React.FC = () => {
   const {
@@ -19,6 +25,11 @@ const OverviewDashboard: React.FC = () => {
     showStats,
     showChart,
     showSwipe,
+    showTransitions,
+    showTreatments,
+    showHotspots,
+    showSegments,
+    showSplitView,
     loading,
     loadingMessage,
   } = useAppStore();
@@ -38,8 +49,15 @@ const OverviewDashboard: React.FC = () => {
 
       <div id="viewDiv" style={{ width: '100%', height: '100%' }} />
       <MapWidgets />
+      {!showSplitView && <TimeSliderControl />}
       <LoadingOverlay visible={loading} message={loadingMessage ?? 'Updating map...'} />
 
+      {showSplitView && (
+        <Suspense fallback={<Spin />}>
+          <SplitMapView />
+        </Suspense>
+      )}
+
       {(showFilters && showChart) ? (
         <div className={styles.panelContainer}>
           <EnhancedFilterPanel />
@@ -78,6 +96,38 @@ const OverviewDashboard: React.FC = () => {
         </>
       )}
 
+      {showTransitions && (
+        <div className={styles.chartPanel}>
+          <Suspense fallback={<Card size="small"><Spin /></Card>}>
+            <TransitionPanel />
+          </Suspense>
+        </div>
+      )}
+
+      {showTreatments && (
+        <div className={styles.chartPanel}>
+          <Suspense fallback={<Card size="small"><Spin /></Card>}>
+            <TreatmentPanel />
+          </Suspense>
+        </div>
+      )}
+
+      {showHotspots && (
+        <div className={styles.chartPanel}>
+          <Suspense fallback={<Card size="small"><Spin /></Card>}>
+            <HotspotPanel />
+          </Suspense>
+        </div>
+      )}
+
+      {showSegments && (
+        <div className={styles.tablePanel}>
+          <Suspense fallback={<Card size="small"><Spin /></Card>}>
+            <SegmentTablePanel />
+          </Suspense>
+        </div>
+      )}
+
       {showStats && (
         <div className={styles.statsPanel}>
           <EnhancedStatsPanel />
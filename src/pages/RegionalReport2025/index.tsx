@@ -1,12 +1,13 @@
 // src/pages/RegionalReport2025/index.tsx
 import React, { useState, useEffect, lazy, Suspense } from 'react';
-import { Layout, Menu, Typography, theme, Card, Space, Spin, Alert } from 'antd';
+import { Layout, Menu, Typography, theme, Card, Spin, Alert } from 'antd';
 import type { MenuProps } from 'antd';
 import {
   BarChartOutlined,
   LineChartOutlined,
   AppstoreOutlined,
-  ExperimentOutlined
+  ExperimentOutlined,
+  SwapOutlined
 } from '@ant-design/icons';
 import useAppStore from '@/store/useAppStore';
 
@@ -15,6 +16,9 @@ const NetworkOverviewSection = lazy(() => import('@/components/report/section1/N
 const MethodologySection = lazy(() => import('@/components/report/section2/MethodologySection'));
 const Section3 = lazy(() => import('@/components/report/section3/Section3'));
 const Section4 = lazy(() => import('@/components/report/section4/Section4').then(module => ({ default: module.Section4 })));
+const ConditionTransitionsSection = lazy(() => import('@/components/report/section5/ConditionTransitionsSection'));
+const AppendixA = lazy(() => import('@/components/report/appendixA/AppendixA'));
+const AppendixB = lazy(() => import('@/components/report/appendixB/AppendixB'));
 
 const { Sider, Content } = Layout;
 const { Title, Paragraph } = Typography;
@@ -55,6 +59,11 @@ const RegionalReport2025: React.FC = () => {
       icon: <BarChartOutlined />,
       label: 'Section 4: LA Performance',
     },
+    {
+      key: 'section5',
+      icon: <SwapOutlined />,
+      label: 'Section 5: Condition Transitions',
+    },
     {
       key: 'appendixA',
       icon: <LineChartOutlined />,
@@ -165,40 +174,52 @@ const RegionalReport2025: React.FC = () => {
           </Suspense>
         );
 
+      case 'section5':
+        return (
+          <Suspense fallback={
+            <div style={{
+              height: 400,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}>
+              <Spin size="large" tip="Loading Section 5..." />
+            </div>
+          }>
+            <ConditionTransitionsSection roadLayer={roadLayer} />
+          </Suspense>
+        );
+
       case 'appendixA':
         return (
-          <Space direction="vertical" size="large" style={{ width: '100%' }}>
-            <Title level={2}>Appendix A: National Comparisons (2018 vs 2025)</Title>
-            <Paragraph>
-              This section will contain:
-              <ul>
-                <li><strong>Figures A.1-A.5:</strong> Cumulative Frequency Plots comparing 2018 and 2025 data</li>
-              </ul>
-            </Paragraph>
-            <Card title="Historical Comparison Charts" variant="borderless">
-              <div style={{ height: 400, background: token.colorBgLayout, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
-                <Paragraph type="secondary">5 comparison line charts will be rendered here</Paragraph>
-              </div>
-            </Card>
-          </Space>
+          <Suspense fallback={
+            <div style={{
+              height: 400,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}>
+              <Spin size="large" tip="Loading Appendix A..." />
+            </div>
+          }>
+            <AppendixA />
+          </Suspense>
         );
       
       case 'appendixB':
         return (
-          <Space direction="vertical" size="large" style={{ width: '100%' }}>
-            <Title level={2}>Appendix B: Local Authority Comparisons (2018 vs 2025)</Title>
-            <Paragraph>
-              This section will contain:
-              <ul>
-                <li><strong>Figures B.1-B.5:</strong> Split-screen maps comparing 2018 and 2025 by county</li>
-              </ul>
-            </Paragraph>
-            <Card title="County Comparison Maps" variant="borderless">
-              <div style={{ height: 400, background: token.colorBgLayout, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
-                <Paragraph type="secondary">5 split-screen county comparison maps will be rendered here (using existing Swipe tool)</Paragraph>
-              </div>
-            </Card>
-          </Space>
+          <Suspense fallback={
+            <div style={{
+              height: 400,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}>
+              <Spin size="large" tip="Loading Appendix B..." />
+            </div>
+          }>
+            <AppendixB />
+          </Suspense>
         );
       
       default:
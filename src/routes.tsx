@@ -1,16 +1,19 @@
 // src/routes.tsx
 import { lazy } from 'react';
-import { FileTextOutlined, BarChartOutlined } from '@ant-design/icons';
+import { FileTextOutlined, BarChartOutlined, CalculatorOutlined } from '@ant-design/icons';
 
 // Lazy load pages for code splitting
 const OverviewDashboard = lazy(() => import('@/pages/OverviewDashboard'));
 const RegionalReport2025 = lazy(() => import('@/pages/RegionalReport2025'));
+const BudgetPlanner = lazy(() => import('@/pages/BudgetPlanner'));
 
 export interface RouteConfig {
   path: string;
   element: React.LazyExoticComponent<React.ComponentType<any>>;
   label: string;
   icon: React.ReactNode;
+  /** Mirror the dashboard state in the query string so the page can be shared as a link */
+  syncUrlState?: boolean;
 }
 
 export const routes: RouteConfig[] = [
@@ -18,12 +21,19 @@ export const routes: RouteConfig[] = [
     path: '/',
     element: OverviewDashboard,
     label: 'Overview Dashboard',
-    icon: <BarChartOutlined style={{ fontSize: 24 }} />
+    icon: <BarChartOutlined style={{ fontSize: 24 }} />,
+    syncUrlState: true
   },
   {
     path: '/report-2025',
     element: RegionalReport2025,
     label: '2025 Regional Report',
     icon: <FileTextOutlined style={{ fontSize: 24 }} />
+  },
+  {
+    path: '/budget-planner',
+    element: BudgetPlanner,
+    label: 'Budget Planner',
+    icon: <CalculatorOutlined style={{ fontSize: 24 }} />
   }
 ];
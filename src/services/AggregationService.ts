@@ -0,0 +1,331 @@
+/**
+ * AggregationService.ts
+ *
+ * Runs segment-level aggregation (grouped averages, condition class counts,
+ * cumulative distributions, class transitions, condition projections and composite
+ * index scores) in a web worker so report sections stay responsive
+ * while the full national network is processed.
+ * Falls back to the main thread when workers are unavailable (tests, SSR).
+ */
+
+import PaginationService from './PaginationService';
+import type { RoadDataInput } from './RoadDataSource';
+import { SEGMENT_LENGTH_KM } from '@/config/constants';
+import { getKPIClassification, toSimplifiedClass, type ConditionClass, type KPIKey } from '@/config/kpiConfig';
+import type { SummaryStatistics } from '@/types';
+import { getComponentKPIs } from '@/utils/compositeIndex';
+import {
+  aggregateSegments,
+  type AggregationRequest,
+  type AggregationResult,
+  type GroupAggregate,
+  type SegmentRow
+} from '@/utils/segmentAggregation';
+import type {
+  AggregationWorkerRequest,
+  AggregationWorkerResponse
+} from '@/workers/aggregation.worker';
+
+export interface AggregationProgress {
+  phase: 'querying' | 'aggregating';
+  processed: number;
+  total: number;
+  /** Overall progress across both phases (0-100) */
+  percent: number;
+  message: string;
+}
+
+export type AggregationProgressHandler = (progress: AggregationProgress) => void;
+
+interface PendingJob {
+  resolve: (result: AggregationResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (processed: number, total: number) => void;
+}
+
+// Share of the overall progress bar given to fetching segments from the source
+const QUERY_PHASE_WEIGHT = 80;
+
+const createAbortError = (): Error => new DOMException('Aggregation aborted', 'AbortError');
+
+export class AggregationService {
+  private static worker: Worker | null = null;
+  private static workerFailed = false;
+  private static nextJobId = 1;
+  private static pendingJobs = new Map<number, PendingJob>();
+
+  /**
+   * Check whether aggregation can run off the main thread
+   */
+  static isWorkerSupported(): boolean {
+    return typeof Worker !== 'undefined' && !this.workerFailed;
+  }
+
+  private static getWorker(): Worker | null {
+    if (!this.isWorkerSupported()) return null;
+    if (this.worker) return this.worker;
+
+    try {
+      this.worker = new Worker(new URL('../workers/aggregation.worker.ts', import.meta.url), {
+        type: 'module'
+      });
+      this.worker.onmessage = (event: MessageEvent<AggregationWorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event: ErrorEvent) => {
+        console.error('[AggregationService] Worker error:', event.message);
+        this.rejectAll(new Error(event.message || 'Aggregation worker failed'));
+        this.terminate();
+        this.workerFailed = true;
+      };
+      console.log('[AggregationService] Aggregation worker started');
+    } catch (error) {
+      console.warn('[AggregationService] Could not start worker, using main thread:', error);
+      this.workerFailed = true;
+      this.worker = null;
+    }
+
+    return this.worker;
+  }
+
+  private static handleMessage(message: AggregationWorkerResponse): void {
+    const job = this.pendingJobs.get(message.id);
+    if (!job) return;
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.processed, message.total);
+        break;
+      case 'result':
+        this.pendingJobs.delete(message.id);
+        job.resolve(message.result);
+        break;
+      case 'error':
+        this.pendingJobs.delete(message.id);
+        job.reject(new Error(message.error));
+        break;
+    }
+  }
+
+  private static rejectAll(error: Error): void {
+    this.pendingJobs.forEach(job => job.reject(error));
+    this.pendingJobs.clear();
+  }
+
+  /**
+   * Stop the worker and reject any in-flight jobs
+   */
+  static terminate(): void {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.rejectAll(new Error('Aggregation worker terminated'));
+  }
+
+  /**
+   * Aggregate raw segment attributes
+   *
+   * @param rows - Segment attribute records
+   * @param request - What to aggregate
+   * @param onProgress - Called with rows processed so far
+   * @param signal - Rejects with an AbortError when aborted; a job already in
+   *   the worker runs to the end but its result is dropped
+   */
+  static aggregate(
+    rows: SegmentRow[],
+    request: AggregationRequest,
+    onProgress?: (processed: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<AggregationResult> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    const worker = this.getWorker();
+    const classifiedRequest = this.withActiveClassifications(request);
+
+    if (!worker) {
+      return Promise.resolve().then(() => {
+        const result = aggregateSegments(rows, classifiedRequest, onProgress);
+        if (signal?.aborted) throw createAbortError();
+        return result;
+      });
+    }
+
+    const id = this.nextJobId++;
+    return new Promise<AggregationResult>((resolve, reject) => {
+      const onAbort = () => {
+        this.pendingJobs.delete(id);
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pendingJobs.set(id, {
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress
+      });
+      const message: AggregationWorkerRequest = { id, rows, request: classifiedRequest };
+      worker.postMessage(message);
+    });
+  }
+
+  /**
+   * Attach the active threshold profile's bands for any class counts, transitions,
+   * projections or composite components
+   */
+  private static withActiveClassifications(request: AggregationRequest): AggregationRequest {
+    const kpis: KPIKey[] = [...(request.classCounts ?? []), ...(request.transitions ?? [])].map(spec => spec.kpi);
+    if (request.budget) kpis.push(request.budget.outcomeKpi);
+    request.composites?.forEach(spec => kpis.push(...getComponentKPIs(spec.fields, spec.weights)));
+    const projections = request.projections?.map(spec =>
+      spec.classification ? spec : { ...spec, classification: getKPIClassification(spec.kpi) }
+    );
+    if (kpis.length === 0 || request.classifications) return projections ? { ...request, projections } : request;
+
+    const classifications: AggregationRequest['classifications'] = {};
+    kpis.forEach(kpi => {
+      classifications[kpi] = getKPIClassification(kpi);
+    });
+    return { ...request, classifications, projections };
+  }
+
+  /**
+   * Fields needed from the source to satisfy an aggregation request
+   */
+  static getRequiredFields(request: AggregationRequest): string[] {
+    const fields = new Set<string>();
+    request.projections?.forEach(spec => {
+      spec.yearFields.forEach(({ field }) => fields.add(field));
+      spec.subgroupFields.forEach(field => fields.add(field));
+    });
+    request.composites?.forEach(spec => {
+      Object.values(spec.fields).forEach(field => field && fields.add(field));
+      spec.subgroupFields?.forEach(field => fields.add(field));
+    });
+    if (request.groupByField) fields.add(request.groupByField);
+    request.averageFields?.forEach(field => fields.add(field));
+    request.classCounts?.forEach(spec => fields.add(spec.field));
+    request.distributions?.forEach(spec => fields.add(spec.field));
+    request.transitions?.forEach(spec => {
+      fields.add(spec.fromField);
+      fields.add(spec.toField);
+    });
+    request.treatments?.forEach(spec => {
+      Object.values(spec.fields).forEach(field => field && fields.add(field));
+    });
+    if (request.budget) {
+      const { treatmentFields, outcomeField, laField, routeField, idField } = request.budget;
+      Object.values(treatmentFields).forEach(field => field && fields.add(field));
+      [outcomeField, laField, routeField, idField].forEach(field => fields.add(field));
+    }
+    // Projected and composite fields are computed from the survey fields, not fetched
+    [...(request.projections ?? []), ...(request.composites ?? [])].forEach(spec => {
+      fields.delete(spec.outputField);
+      if (spec.subgroupKeyField) fields.delete(spec.subgroupKeyField);
+    });
+    return Array.from(fields);
+  }
+
+  /**
+   * SummaryStatistics for an aggregated group over a computed field (projected
+   * or composite values); counts and length cover segments with a value
+   */
+  static toSummaryStatistics(
+    kpi: KPIKey,
+    year: number,
+    group: GroupAggregate | null,
+    field: string
+  ): SummaryStatistics {
+    const counts = group?.classCounts[kpi];
+    const count = (conditionClass: ConditionClass) => counts?.[conditionClass] ?? 0;
+    const totalSegments = group?.averages[field]?.count ?? 0;
+    const pct = (value: number) => (totalSegments > 0 ? (value / totalSegments) * 100 : 0);
+
+    const fairOrBetterCount = (Object.keys(counts ?? {}) as ConditionClass[])
+      .filter(conditionClass => toSimplifiedClass(conditionClass) !== 'poor')
+      .reduce((sum, conditionClass) => sum + count(conditionClass), 0);
+
+    return {
+      kpi: kpi.toUpperCase(),
+      year,
+      totalSegments,
+      totalLengthKm: totalSegments * SEGMENT_LENGTH_KM,
+      veryGoodCount: count('veryGood'),
+      goodCount: count('good'),
+      fairCount: count('fair'),
+      poorCount: count('poor'),
+      veryPoorCount: count('veryPoor'),
+      veryGoodPct: pct(count('veryGood')),
+      goodPct: pct(count('good')),
+      fairPct: pct(count('fair')),
+      poorPct: pct(count('poor')),
+      veryPoorPct: pct(count('veryPoor')),
+      fairOrBetterPct: pct(fairOrBetterCount),
+      avgValue: group?.averages[field]?.avg ?? 0,
+      minValue: group?.ranges[field]?.min ?? 0,
+      maxValue: group?.ranges[field]?.max ?? 0,
+      lastUpdated: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Fetch all matching segments from a road data source and aggregate them
+   * Progress covers both the paginated fetch and the aggregation pass.
+   * Aborting the signal cancels outstanding page requests and the aggregation.
+   */
+  static async aggregateFromSource(
+    layer: RoadDataInput,
+    where: string,
+    request: AggregationRequest,
+    onProgress?: AggregationProgressHandler,
+    signal?: AbortSignal
+  ): Promise<AggregationResult> {
+    const startTime = performance.now();
+
+    const queryResult = await PaginationService.queryAllFeatures(layer, {
+      where,
+      outFields: this.getRequiredFields(request),
+      returnGeometry: false,
+      signal,
+      onProgress: onProgress
+        ? (current, total) => {
+          const safeTotal = total || current || 1;
+          onProgress({
+            phase: 'querying',
+            processed: current,
+            total: safeTotal,
+            percent: Math.round((current / safeTotal) * QUERY_PHASE_WEIGHT),
+            message: `Loading segments (${current.toLocaleString()} of ${safeTotal.toLocaleString()})...`
+          });
+        }
+        : undefined
+    });
+
+    console.log(`[AggregationService] Retrieved ${queryResult.totalCount} segments (${queryResult.pagesQueried} pages)`);
+
+    const rows = queryResult.features.map(feature => feature.attributes);
+
+    const result = await this.aggregate(rows, request, onProgress
+      ? (processed, total) => {
+        const safeTotal = total || 1;
+        onProgress({
+          phase: 'aggregating',
+          processed,
+          total,
+          percent: QUERY_PHASE_WEIGHT + Math.round((processed / safeTotal) * (100 - QUERY_PHASE_WEIGHT)),
+          message: `Aggregating segments (${processed.toLocaleString()} of ${total.toLocaleString()})...`
+        });
+      }
+      : undefined, signal);
+
+    console.log(`[AggregationService] Aggregated ${result.totalRows} segments into ${result.groups.length} groups in ${Math.round(performance.now() - startTime)}ms`);
+
+    return result;
+  }
+}
+
+export default AggregationService;
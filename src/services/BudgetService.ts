@@ -0,0 +1,90 @@
+/**
+ * BudgetService.ts
+ *
+ * Budget scenarios for the planner page. A scenario's annual budget per Local
+ * Authority is spent on the segments the selected treatment rule set
+ * recommends work on, in the scenario's priority order, and the change in the
+ * outcome KPI's fair-or-better percentage is reported (utils/budgetPlanner.ts).
+ */
+
+import AggregationService, { type AggregationProgressHandler } from './AggregationService';
+import { toRoadDataSource, type RoadDataInput } from './RoadDataSource';
+import type { BudgetScenario } from '@/config/budgetScenarios';
+import { ROAD_FIELDS, getKPIFieldName } from '@/config/layerConfig';
+import { TREATMENT_LABELS, type TreatmentRuleSet } from '@/config/treatmentRules';
+import type { BudgetPlan, BudgetPlanSpec } from '@/utils/budgetPlanner';
+import { getTreatmentFields } from '@/utils/treatmentRecommendation';
+
+export class BudgetService {
+  /**
+   * Allocate the scenario's budgets across the whole network
+   *
+   * @param layer - Road data source (or FeatureLayer) to query
+   * @param ruleSet - Treatment rule set the scenario refers to
+   * @param onProgress - Progress across the segment fetch and allocation
+   * @param signal - Aborting cancels outstanding page requests
+   */
+  static async runScenario(
+    layer: RoadDataInput,
+    scenario: BudgetScenario,
+    ruleSet: TreatmentRuleSet,
+    onProgress?: AggregationProgressHandler,
+    signal?: AbortSignal
+  ): Promise<BudgetPlan> {
+    console.log(`[BudgetService] Running '${scenario.name}' with '${ruleSet.name}' on ${scenario.year} survey`);
+
+    const spec: BudgetPlanSpec = {
+      ruleSet,
+      treatmentFields: getTreatmentFields(ruleSet, scenario.year),
+      outcomeKpi: scenario.outcomeKpi,
+      outcomeField: getKPIFieldName(scenario.outcomeKpi, scenario.year),
+      method: scenario.method,
+      unitCosts: scenario.unitCosts,
+      carriagewayWidthM: scenario.carriagewayWidthM,
+      budgets: scenario.laBudgets,
+      defaultBudget: scenario.defaultBudget,
+      laField: ROAD_FIELDS.la,
+      routeField: ROAD_FIELDS.route,
+      idField: toRoadDataSource(layer).objectIdField
+    };
+
+    const result = await AggregationService.aggregateFromSource(
+      layer,
+      '1=1',
+      { budget: spec },
+      onProgress,
+      signal
+    );
+
+    if (!result.budgetPlan) {
+      throw new Error('Budget allocation returned no plan');
+    }
+    return result.budgetPlan;
+  }
+
+  /**
+   * CSV of the funded segments in priority order within each LA
+   */
+  static toCSV(plan: BudgetPlan): string {
+    const header = ['Local Authority', 'Priority', 'Segment ID', 'Route', 'Treatment', 'Cost (EUR)', 'Outcome Value'];
+
+    const lines = plan.treated.map(segment => [
+      `"${segment.la.replace(/"/g, '""')}"`,
+      segment.rank,
+      segment.id,
+      `"${segment.route.replace(/"/g, '""')}"`,
+      `"${TREATMENT_LABELS[segment.treatment]}"`,
+      Math.round(segment.cost),
+      segment.outcomeValue ?? ''
+    ].join(','));
+
+    return [header.join(','), ...lines].join('\n');
+  }
+
+  static getCSVFilename(scenario: BudgetScenario): string {
+    const slug = scenario.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+    return `budget_${slug || 'scenario'}_${scenario.year}.csv`;
+  }
+}
+
+export default BudgetService;
@@ -0,0 +1,164 @@
+/**
+ * CompositeIndexService.ts
+ *
+ * Statistics for the composite condition index (config/compositeIndex.ts).
+ * The composite has no field on the road layer, so each segment is scored
+ * from its measured KPIs inside the aggregation worker and results are
+ * returned in the same shape as the measured statistics (SummaryStatistics /
+ * GroupedConditionStats).
+ */
+
+import AggregationService, { type AggregationProgressHandler } from './AggregationService';
+import QueryService from './QueryService';
+import type { RoadDataInput } from './RoadDataSource';
+import { getActiveCompositeWeights, type CompositeWeights } from '@/config/compositeIndex';
+import { COMPOSITE_KPI } from '@/config/kpiConfig';
+import { ROAD_FIELDS, SUBGROUP_OPTIONS, getKPIFieldName, type LAMetricType } from '@/config/layerConfig';
+import type { GroupedConditionStats, SegmentFilters, SummaryStatistics } from '@/types';
+import { getComponentKPIs, getCompositeFields, type CompositeSpec } from '@/utils/compositeIndex';
+import { DEFAULT_SUBGROUP_KEY } from '@/utils/deteriorationModel';
+import { where, renderWhere } from '@/utils/whereClause';
+
+export interface CompositeOptions {
+  /** Defaults to the active weights */
+  weights?: CompositeWeights;
+  onProgress?: AggregationProgressHandler;
+  signal?: AbortSignal;
+}
+
+/** Chart grouping key for subgroups, matching EnhancedChartPanel */
+const SUBGROUP_GROUP_BY = 'subgroup';
+
+/** Synthetic row field holding each segment's subgroup key */
+const SUBGROUP_KEY_FIELD = '__subgroup';
+
+const SUBGROUP_FIELDS = SUBGROUP_OPTIONS
+  .map(option => option.value)
+  .filter(value => value !== DEFAULT_SUBGROUP_KEY);
+
+export class CompositeIndexService {
+  /**
+   * Synthetic field holding the composite score (never queried from the layer)
+   */
+  static getCompositeFieldName(year: number): string {
+    return getKPIFieldName(COMPOSITE_KPI, year);
+  }
+
+  /**
+   * Composite spec for a survey year
+   */
+  static buildSpec(
+    year: number,
+    weights: CompositeWeights = getActiveCompositeWeights(),
+    subgroupKeyField?: string
+  ): CompositeSpec {
+    return {
+      fields: getCompositeFields(year),
+      weights,
+      outputField: this.getCompositeFieldName(year),
+      subgroupFields: subgroupKeyField ? SUBGROUP_FIELDS : undefined,
+      subgroupKeyField
+    };
+  }
+
+  /**
+   * Composite network summary for the filtered segments
+   */
+  static async computeSummary(
+    layer: RoadDataInput,
+    year: number,
+    filters: SegmentFilters,
+    options: CompositeOptions = {}
+  ): Promise<SummaryStatistics> {
+    const [summary] = await this.computeGroups(layer, year, filters, undefined, options);
+    return summary?.stats ?? AggregationService.toSummaryStatistics(COMPOSITE_KPI, year, null, '');
+  }
+
+  /**
+   * Composite statistics grouped by a field (LA, Route) or by subgroup
+   */
+  static async computeGroupedStatistics(
+    layer: RoadDataInput,
+    year: number,
+    groupByField: string,
+    filters: SegmentFilters,
+    options: CompositeOptions = {}
+  ): Promise<GroupedConditionStats[]> {
+    const groups = await this.computeGroups(layer, year, filters, groupByField, options);
+
+    if (groupByField !== SUBGROUP_GROUP_BY) return groups;
+
+    // Subgroup keys are flag field names; show the labels the chart uses
+    return groups.map(group => ({
+      ...group,
+      group: SUBGROUP_OPTIONS.find(option => option.value === group.group)?.label ?? group.group
+    }));
+  }
+
+  /**
+   * Composite LA polygon values keyed by Local Authority name
+   * 'fairOrBetter' is the percentage of length in Fair or better.
+   */
+  static async computeLAValues(
+    layer: RoadDataInput,
+    year: number,
+    metricType: LAMetricType,
+    options: CompositeOptions = {}
+  ): Promise<Record<string, number>> {
+    const groups = await this.computeGroups(
+      layer,
+      year,
+      { localAuthority: [], subgroup: [], route: [] },
+      ROAD_FIELDS.la,
+      options
+    );
+
+    return groups.reduce((values, { group, stats }) => {
+      values[group] = metricType === 'fairOrBetter' ? stats.fairOrBetterPct : stats.avgValue;
+      return values;
+    }, {} as Record<string, number>);
+  }
+
+  private static async computeGroups(
+    layer: RoadDataInput,
+    year: number,
+    filters: SegmentFilters,
+    groupByField: string | undefined,
+    { weights, onProgress, signal }: CompositeOptions
+  ): Promise<GroupedConditionStats[]> {
+    const bySubgroup = groupByField === SUBGROUP_GROUP_BY;
+    const spec = this.buildSpec(year, weights, bySubgroup ? SUBGROUP_KEY_FIELD : undefined);
+    const components = getComponentKPIs(spec.fields, spec.weights);
+
+    if (components.length === 0) {
+      throw new Error('Composite index has no weighted KPIs');
+    }
+
+    console.log(`[CompositeIndexService] Scoring ${year} composite from ${components.join(', ')}`);
+
+    const result = await AggregationService.aggregateFromSource(
+      layer,
+      renderWhere(where.and(
+        QueryService.buildFilterClause(filters),
+        where.or(...components.map(kpi => where.isNotNull(spec.fields[kpi]!)))
+      )),
+      {
+        groupByField: bySubgroup ? SUBGROUP_KEY_FIELD : groupByField,
+        averageFields: [spec.outputField],
+        classCounts: [{ kpi: COMPOSITE_KPI, field: spec.outputField }],
+        composites: [spec]
+      },
+      onProgress,
+      signal
+    );
+
+    return result.groups
+      .filter(group => (group.averages[spec.outputField]?.count ?? 0) > 0)
+      .map(group => ({
+        group: group.group,
+        stats: AggregationService.toSummaryStatistics(COMPOSITE_KPI, year, group, spec.outputField)
+      }));
+  }
+}
+
+export default CompositeIndexService;
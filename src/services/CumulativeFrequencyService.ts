@@ -6,27 +6,24 @@
  * downloading and processing all features client-side.
  */
 
-import type FeatureLayer from '@arcgis/core/layers/FeatureLayer';
 import { KPIKey } from '@/config/kpiConfig';
 import { getKPIFieldName } from '@/config/layerConfig';
-import PaginationService from './PaginationService';
-
-interface CumulativeDataPoint {
-  value: number;
-  cumulativePercent: number;
-}
-
-export interface CumulativeData {
-  dataPoints: CumulativeDataPoint[];
-  stats: {
-    average: number;
-    median: number;
-    percentile90: number;
-    count: number;
-    min: number;
-    max: number;
-  };
-}
+import AggregationService from './AggregationService';
+import {
+  toRoadDataSource,
+  type RoadDataInput,
+  type RoadDataSource,
+  type RoadStatisticDefinition
+} from './RoadDataSource';
+import type {
+  CumulativeDistribution,
+  CumulativeDistributionPoint
+} from '@/utils/segmentAggregation';
+import { where, renderWhere } from '@/utils/whereClause';
+
+type CumulativeDataPoint = CumulativeDistributionPoint;
+
+export type CumulativeData = CumulativeDistribution;
 
 interface KPIConfig {
   ranges: { min: number; max: number; step: number };
@@ -35,10 +32,22 @@ interface KPIConfig {
 
 /**
  * Cache for cumulative frequency data
- * Key format: ${kpi}-${year}
+ * Key format: ${kpi}-${year}-${subgroupCode or 'all'}
  */
 const cumulativeCache = new Map<string, CumulativeData>();
 
+const getCacheKey = (kpi: KPIKey, year: number, subgroupCode: number | null) =>
+  `${kpi}-${year}-${subgroupCode ?? 'all'}`;
+
+/**
+ * Segments with a value for the field, optionally limited to one subgroup
+ */
+const buildDistributionWhere = (fieldName: string, subgroupCode: number | null): string =>
+  renderWhere(where.and(
+    where.isNotNull(fieldName),
+    subgroupCode !== null && where.subgroup(subgroupCode)
+  ));
+
 export class CumulativeFrequencyService {
   /**
    * Clear the cache (useful when filters change)
@@ -49,35 +58,36 @@ export class CumulativeFrequencyService {
   }
 
   /**
-   * Clear cache for a specific KPI and year
+   * Clear cache for a specific KPI and year (all subgroups)
    */
   static clearCacheForKPI(kpi: KPIKey, year: number): void {
-    const cacheKey = `${kpi}-${year}`;
-    cumulativeCache.delete(cacheKey);
-    console.log(`[CumulativeFrequencyService] Cache cleared for ${cacheKey}`);
+    const prefix = `${kpi}-${year}-`;
+    [...cumulativeCache.keys()]
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => cumulativeCache.delete(key));
+    console.log(`[CumulativeFrequencyService] Cache cleared for ${kpi}-${year}`);
   }
 
   /**
    * Check if server supports percentile statistics
    * ArcGIS Server 10.6.1+ supports percentile_cont
    */
-  private static async supportsPercentiles(layer: FeatureLayer): Promise<boolean> {
+  private static async supportsPercentiles(source: RoadDataSource): Promise<boolean> {
     try {
       // Try to query with a percentile statistic
-      const testField = layer.fields.find(f => f.type === 'double' || f.type === 'integer');
+      const testField = source.fields.find(f => f.type === 'double' || f.type === 'integer');
       if (!testField) return false;
 
-      const query = layer.createQuery();
-      query.where = '1=1';
-      query.outStatistics = [{
-        onStatisticField: testField.name,
-        outStatisticFieldName: 'test_p50',
-        statisticType: 'percentile_cont',
-        statisticParameters: { value: 0.5 }
-      } as any];
-      query.num = 1;
-
-      await layer.queryFeatures(query);
+      await source.query({
+        where: '1=1',
+        outStatistics: [{
+          onStatisticField: testField.name,
+          outStatisticFieldName: 'test_p50',
+          statisticType: 'percentile_cont',
+          statisticParameters: { value: 0.5 }
+        }],
+        num: 1
+      });
       return true;
     } catch (error) {
       console.log('[CumulativeFrequencyService] Server does not support percentile statistics');
@@ -90,10 +100,11 @@ export class CumulativeFrequencyService {
    * This is MUCH faster than downloading all features
    */
   private static async computeWithServerSidePercentiles(
-    layer: FeatureLayer,
+    source: RoadDataSource,
     kpi: KPIKey,
     year: number,
-    config: KPIConfig
+    config: KPIConfig,
+    subgroupCode: number | null
   ): Promise<CumulativeData> {
     const fieldName = getKPIFieldName(kpi, year, false);
 
@@ -103,12 +114,12 @@ export class CumulativeFrequencyService {
     const percentiles = Array.from({ length: 101 }, (_, i) => i);
 
     // Build statistics definitions for all percentiles
-    const statDefinitions = [
+    const statDefinitions: RoadStatisticDefinition[] = [
       // Basic stats
-      { onStatisticField: fieldName, outStatisticFieldName: 'count', statisticType: 'count' as const },
-      { onStatisticField: fieldName, outStatisticFieldName: 'avg', statisticType: 'avg' as const },
-      { onStatisticField: fieldName, outStatisticFieldName: 'min', statisticType: 'min' as const },
-      { onStatisticField: fieldName, outStatisticFieldName: 'max', statisticType: 'max' as const },
+      { onStatisticField: fieldName, outStatisticFieldName: 'count', statisticType: 'count' },
+      { onStatisticField: fieldName, outStatisticFieldName: 'avg', statisticType: 'avg' },
+      { onStatisticField: fieldName, outStatisticFieldName: 'min', statisticType: 'min' },
+      { onStatisticField: fieldName, outStatisticFieldName: 'max', statisticType: 'max' },
       // Percentiles
       ...percentiles.map(p => ({
         onStatisticField: fieldName,
@@ -118,11 +129,10 @@ export class CumulativeFrequencyService {
       }))
     ];
 
-    const query = layer.createQuery();
-    query.where = `${fieldName} IS NOT NULL`;
-    query.outStatistics = statDefinitions as any;
-
-    const result = await layer.queryFeatures(query);
+    const result = await source.query({
+      where: buildDistributionWhere(fieldName, subgroupCode),
+      outStatistics: statDefinitions
+    });
 
     if (result.features.length === 0 || !result.features[0].attributes) {
       return this.getEmptyData();
@@ -173,82 +183,44 @@ export class CumulativeFrequencyService {
    * Downloads all features and processes locally
    */
   private static async computeWithClientSide(
-    layer: FeatureLayer,
+    source: RoadDataSource,
     kpi: KPIKey,
     year: number,
     config: KPIConfig,
+    subgroupCode: number | null,
     onProgress?: (current: number, total: number) => void
   ): Promise<CumulativeData> {
     const fieldName = getKPIFieldName(kpi, year, false);
 
     console.log(`[CumulativeFrequencyService] Using client-side processing for ${kpi} ${year}`);
 
-    // Query all features with progress tracking
-    const result = await PaginationService.queryAllFeatures(layer, {
-      where: `${fieldName} IS NOT NULL`,
-      outFields: [fieldName],
-      returnGeometry: false,
-      orderByFields: ['OBJECTID ASC'],
-      onProgress: onProgress ? (current, total) => onProgress(current, total || 0) : undefined
-    });
-
-    // Extract and filter values
-    const values = result.features
-      .map(f => f.attributes[fieldName] as number)
-      .filter(v => v !== null && v !== undefined && !isNaN(v));
-
-    if (values.length === 0) {
-      return this.getEmptyData();
-    }
-
-    // Sort values for percentile calculations
-    const sortedValues = [...values].sort((a, b) => a - b);
-    const totalCount = sortedValues.length;
+    // Download and aggregate in the aggregation worker with progress tracking
+    const result = await AggregationService.aggregateFromSource(
+      source,
+      buildDistributionWhere(fieldName, subgroupCode),
+      { distributions: [{ key: kpi, field: fieldName, ranges: config.ranges }] },
+      onProgress ? progress => onProgress(progress.processed, progress.total) : undefined
+    );
 
-    // Calculate data points
-    const dataPoints: CumulativeDataPoint[] = [];
-    for (let value = config.ranges.min; value <= config.ranges.max; value += config.ranges.step) {
-      const count = sortedValues.filter(v => v <= value).length;
-      const cumulativePercent = (count / totalCount) * 100;
-
-      dataPoints.push({
-        value: Math.round(value * 100) / 100,
-        cumulativePercent: Math.round(cumulativePercent * 100) / 100
-      });
-    }
-
-    // Calculate statistics
-    const sum = values.reduce((acc, val) => acc + val, 0);
-    const average = sum / values.length;
-    const median = sortedValues[Math.floor(sortedValues.length * 0.5)];
-    const percentile90 = sortedValues[Math.floor(sortedValues.length * 0.9)];
-
-    return {
-      dataPoints,
-      stats: {
-        average: Math.round(average * 100) / 100,
-        median: Math.round(median * 100) / 100,
-        percentile90: Math.round(percentile90 * 100) / 100,
-        count: values.length,
-        min: sortedValues[0],
-        max: sortedValues[sortedValues.length - 1]
-      }
-    };
+    return result.distributions[kpi] ?? this.getEmptyData();
   }
 
   /**
    * Fetch cumulative data for a single KPI
    * Uses cache if available, otherwise queries with server-side or client-side processing
+   *
+   * @param subgroupCode - Limit to one road subgroup (SUBGROUP_OPTIONS code), or null for all roads
    */
   static async fetchCumulativeDataForKPI(
-    layer: FeatureLayer,
+    layer: RoadDataInput,
     kpi: KPIKey,
     year: number,
     config: KPIConfig,
-    onProgress?: (current: number, total: number) => void
+    onProgress?: (current: number, total: number) => void,
+    subgroupCode: number | null = null
   ): Promise<CumulativeData> {
     // Check cache first
-    const cacheKey = `${kpi}-${year}`;
+    const cacheKey = getCacheKey(kpi, year, subgroupCode);
     if (cumulativeCache.has(cacheKey)) {
       console.log(`[CumulativeFrequencyService] Cache hit for ${cacheKey}`);
       return cumulativeCache.get(cacheKey)!;
@@ -256,15 +228,17 @@ export class CumulativeFrequencyService {
 
     console.log(`[CumulativeFrequencyService] Cache miss for ${cacheKey}, querying...`);
 
+    const source = toRoadDataSource(layer);
+
     try {
       // Try server-side percentiles first (much faster)
-      const supportsPercentiles = await this.supportsPercentiles(layer);
+      const supportsPercentiles = await this.supportsPercentiles(source);
 
       let data: CumulativeData;
       if (supportsPercentiles) {
-        data = await this.computeWithServerSidePercentiles(layer, kpi, year, config);
+        data = await this.computeWithServerSidePercentiles(source, kpi, year, config, subgroupCode);
       } else {
-        data = await this.computeWithClientSide(layer, kpi, year, config, onProgress);
+        data = await this.computeWithClientSide(source, kpi, year, config, subgroupCode, onProgress);
       }
 
       // Cache the result
@@ -275,7 +249,7 @@ export class CumulativeFrequencyService {
       console.error(`[CumulativeFrequencyService] Error fetching data for ${kpi}:`, error);
       // Fallback to client-side if server-side fails
       try {
-        const data = await this.computeWithClientSide(layer, kpi, year, config, onProgress);
+        const data = await this.computeWithClientSide(source, kpi, year, config, subgroupCode, onProgress);
         cumulativeCache.set(cacheKey, data);
         return data;
       } catch (fallbackError) {
@@ -289,13 +263,14 @@ export class CumulativeFrequencyService {
    * Fetch cumulative data for multiple KPIs in parallel
    * This is the main optimization: queries all KPIs at once instead of sequentially
    */
-  static async fetchCumulativeDataForAllKPIs(
-    layer: FeatureLayer,
-    kpis: KPIKey[],
+  static async fetchCumulativeDataForAllKPIs<K extends KPIKey>(
+    layer: RoadDataInput,
+    kpis: K[],
     year: number,
-    configs: Record<KPIKey, KPIConfig>,
-    onKPIComplete?: (kpi: KPIKey, index: number, total: number) => void
-  ): Promise<Record<KPIKey, CumulativeData>> {
+    configs: Record<K, KPIConfig>,
+    onKPIComplete?: (kpi: K, index: number, total: number) => void,
+    subgroupCode: number | null = null
+  ): Promise<Record<K, CumulativeData>> {
     console.log(`[CumulativeFrequencyService] Fetching data for ${kpis.length} KPIs in parallel...`);
 
     const startTime = performance.now();
@@ -311,7 +286,8 @@ export class CumulativeFrequencyService {
           (current, total) => {
             // Progress callback for this specific KPI
             console.log(`[${kpi}] ${current}/${total}`);
-          }
+          },
+          subgroupCode
         );
 
         // Notify completion of this KPI
@@ -338,7 +314,7 @@ export class CumulativeFrequencyService {
       dataRecord[kpi] = data;
     });
 
-    return dataRecord as Record<KPIKey, CumulativeData>;
+    return dataRecord as Record<K, CumulativeData>;
   }
 
   /**
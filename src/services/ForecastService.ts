@@ -0,0 +1,197 @@
+/**
+ * ForecastService.ts
+ *
+ * Projects condition to a future year with the deterioration model in
+ * utils/deteriorationModel.ts and returns results in the same shape as the
+ * measured statistics (SummaryStatistics / GroupedConditionStats), flagged
+ * with `projection` so panels, charts and the LA map can label them.
+ *
+ * Projection runs inside the aggregation worker alongside the class counts.
+ */
+
+import AggregationService, { type AggregationProgressHandler } from './AggregationService';
+import QueryService from './QueryService';
+import type { RoadDataInput } from './RoadDataSource';
+import { SURVEY_YEARS } from '@/config/constants';
+import type { KPIKey } from '@/config/kpiConfig';
+import { ROAD_FIELDS, SUBGROUP_OPTIONS, getKPIFieldName, type LAMetricType } from '@/config/layerConfig';
+import type { GroupedConditionStats, ProjectionInfo, SegmentFilters, SummaryStatistics } from '@/types';
+import {
+  DEFAULT_SUBGROUP_KEY,
+  FORECAST_KPIS,
+  type ForecastMethod,
+  type ProjectionSpec
+} from '@/utils/deteriorationModel';
+import type { GroupAggregate } from '@/utils/segmentAggregation';
+import { where, renderWhere } from '@/utils/whereClause';
+
+export interface ForecastOptions {
+  method: ForecastMethod;
+  onProgress?: AggregationProgressHandler;
+  signal?: AbortSignal;
+}
+
+/** Chart grouping key for subgroups, matching EnhancedChartPanel */
+const SUBGROUP_GROUP_BY = 'subgroup';
+
+/** Synthetic row field holding each segment's subgroup key */
+const SUBGROUP_KEY_FIELD = '__subgroup';
+
+const SUBGROUP_FIELDS = SUBGROUP_OPTIONS
+  .map(option => option.value)
+  .filter(value => value !== DEFAULT_SUBGROUP_KEY);
+
+export class ForecastService {
+  /**
+   * Whether the KPI has a deterioration model
+   */
+  static isForecastKPI(kpi: KPIKey): boolean {
+    return FORECAST_KPIS.includes(kpi);
+  }
+
+  /**
+   * Synthetic field holding the projected value (never queried from the layer)
+   */
+  static getProjectedFieldName(kpi: KPIKey, year: number): string {
+    return `${getKPIFieldName(kpi, year)}_Projected`;
+  }
+
+  /**
+   * Projection spec for a KPI, fitted to every survey year
+   */
+  static buildProjectionSpec(
+    kpi: KPIKey,
+    targetYear: number,
+    method: ForecastMethod,
+    subgroupKeyField?: string
+  ): ProjectionSpec {
+    return {
+      kpi,
+      yearFields: SURVEY_YEARS.map(year => ({ year, field: getKPIFieldName(kpi, year) })),
+      targetYear,
+      outputField: this.getProjectedFieldName(kpi, targetYear),
+      method,
+      subgroupFields: SUBGROUP_FIELDS,
+      subgroupKeyField
+    };
+  }
+
+  /**
+   * Projected network summary for the filtered segments
+   */
+  static async computeProjectedSummary(
+    layer: RoadDataInput,
+    kpi: KPIKey,
+    targetYear: number,
+    filters: SegmentFilters,
+    options: ForecastOptions
+  ): Promise<SummaryStatistics> {
+    const [summary] = await this.computeProjectedGroups(layer, kpi, targetYear, filters, undefined, options);
+    return summary?.stats ?? this.toSummaryStatistics(kpi, targetYear, options.method, null, '');
+  }
+
+  /**
+   * Projected statistics grouped by a field (LA, Route) or by subgroup
+   */
+  static async computeProjectedGroupedStatistics(
+    layer: RoadDataInput,
+    kpi: KPIKey,
+    targetYear: number,
+    groupByField: string,
+    filters: SegmentFilters,
+    options: ForecastOptions
+  ): Promise<GroupedConditionStats[]> {
+    const groups = await this.computeProjectedGroups(layer, kpi, targetYear, filters, groupByField, options);
+
+    if (groupByField !== SUBGROUP_GROUP_BY) return groups;
+
+    // Subgroup keys are flag field names; show the labels the chart uses
+    return groups.map(group => ({
+      ...group,
+      group: SUBGROUP_OPTIONS.find(option => option.value === group.group)?.label ?? group.group
+    }));
+  }
+
+  /**
+   * Projected LA polygon values keyed by Local Authority name
+   * 'fairOrBetter' is the percentage of length in Fair or better.
+   */
+  static async computeProjectedLAValues(
+    layer: RoadDataInput,
+    kpi: KPIKey,
+    targetYear: number,
+    metricType: LAMetricType,
+    options: ForecastOptions
+  ): Promise<Record<string, number>> {
+    const groups = await this.computeProjectedGroups(
+      layer,
+      kpi,
+      targetYear,
+      { localAuthority: [], subgroup: [], route: [] },
+      ROAD_FIELDS.la,
+      options
+    );
+
+    return groups.reduce((values, { group, stats }) => {
+      values[group] = metricType === 'fairOrBetter' ? stats.fairOrBetterPct : stats.avgValue;
+      return values;
+    }, {} as Record<string, number>);
+  }
+
+  private static async computeProjectedGroups(
+    layer: RoadDataInput,
+    kpi: KPIKey,
+    targetYear: number,
+    filters: SegmentFilters,
+    groupByField: string | undefined,
+    { method, onProgress, signal }: ForecastOptions
+  ): Promise<GroupedConditionStats[]> {
+    if (!this.isForecastKPI(kpi)) {
+      throw new Error(`No deterioration model for ${kpi.toUpperCase()}`);
+    }
+
+    const bySubgroup = groupByField === SUBGROUP_GROUP_BY;
+    const spec = this.buildProjectionSpec(kpi, targetYear, method, bySubgroup ? SUBGROUP_KEY_FIELD : undefined);
+
+    console.log(`[ForecastService] Projecting ${kpi} to ${targetYear} (${method} rates)`);
+
+    const result = await AggregationService.aggregateFromSource(
+      layer,
+      renderWhere(where.and(
+        QueryService.buildFilterClause(filters),
+        where.or(...spec.yearFields.map(({ field }) => where.isNotNull(field)))
+      )),
+      {
+        groupByField: bySubgroup ? SUBGROUP_KEY_FIELD : groupByField,
+        averageFields: [spec.outputField],
+        classCounts: [{ kpi, field: spec.outputField }],
+        projections: [spec]
+      },
+      onProgress,
+      signal
+    );
+
+    return result.groups
+      .filter(group => (group.averages[spec.outputField]?.count ?? 0) > 0)
+      .map(group => ({
+        group: group.group,
+        stats: this.toSummaryStatistics(kpi, targetYear, method, group, spec.outputField)
+      }));
+  }
+
+  /**
+   * SummaryStatistics for a projected group, flagged with the projection method
+   */
+  private static toSummaryStatistics(
+    kpi: KPIKey,
+    targetYear: number,
+    method: ForecastMethod,
+    group: GroupAggregate | null,
+    field: string
+  ): SummaryStatistics {
+    const projection: ProjectionInfo = { method, baseYears: [...SURVEY_YEARS] };
+    return { ...AggregationService.toSummaryStatistics(kpi, targetYear, group, field), projection };
+  }
+}
+
+export default ForecastService;
@@ -0,0 +1,297 @@
+/**
+ * HotspotService.ts
+ *
+ * Poor-condition hotspots along routes. Every segment of the selected routes
+ * is read, runs of Poor / Very Poor segments are found with
+ * utils/hotspotDetection.ts, and each run is returned as one merged polyline
+ * with its length and mean KPI value, ranked longest first.
+ *
+ * The road layer has no chainage field, so segments are placed along a route
+ * in object ID (digitising) order, 100 m each: positions and lengths are
+ * approximate. Filters other than LA, route and area would take segments out
+ * of that sequence and join runs that are apart on the road, so they only
+ * choose which of the detected runs are returned.
+ */
+
+import PaginationService from './PaginationService';
+import QueryService from './QueryService';
+import CompositeIndexService from './CompositeIndexService';
+import { toRoadDataSource, type RoadDataInput, type RoadDataSource, type RoadFeature } from './RoadDataSource';
+import type { AggregationProgressHandler } from './AggregationService';
+import { HOTSPOT_GEOMETRY_BATCH_SIZE, SEGMENT_LENGTH_KM } from '@/config/constants';
+import { isCompositeKPI, type KPIKey } from '@/config/kpiConfig';
+import { ROAD_FIELDS, getKPIFieldName } from '@/config/layerConfig';
+import type { SegmentFilters } from '@/types';
+import { computeCompositeScore, getCompositeFields } from '@/utils/compositeIndex';
+import {
+  detectHotspotRuns,
+  isPoorValue,
+  type HotspotOptions,
+  type HotspotRun,
+  type HotspotSegment
+} from '@/utils/hotspotDetection';
+import { where, renderWhere, type WhereClause } from '@/utils/whereClause';
+
+/**
+ * Plain polyline JSON. Autocasts to __esri.Polyline when set on a Graphic
+ */
+export interface HotspotGeometry {
+  type: 'polyline';
+  paths: number[][][];
+  spatialReference: { wkid?: number; wkt?: string };
+}
+
+export interface Hotspot extends HotspotRun {
+  /** Stable key: route and first segment ID */
+  id: string;
+  /** 1 = longest hotspot */
+  rank: number;
+  lengthKm: number;
+  /** Null when none of the segments have geometry (e.g. a CSV extract) */
+  geometry: HotspotGeometry | null;
+}
+
+export interface HotspotResult {
+  kpi: KPIKey;
+  year: number;
+  options: HotspotOptions;
+  hotspots: Hotspot[];
+  totalLengthKm: number;
+}
+
+// Share of the overall progress bar given to reading segment values
+const SEGMENT_PHASE_WEIGHT = 80;
+
+// GeoJSON coordinates are WGS84 by specification
+const WGS84 = { wkid: 4326 };
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const NO_FILTERS: SegmentFilters = {
+  localAuthority: [],
+  subgroup: [],
+  route: [],
+  kpiRanges: [],
+  conditionClasses: [],
+  spatial: null
+};
+
+/**
+ * Paths of a segment geometry: an ArcGIS polyline or a GeoJSON line
+ */
+const toPaths = (geometry: unknown): Pick<HotspotGeometry, 'paths' | 'spatialReference'> | null => {
+  if (!geometry || typeof geometry !== 'object') return null;
+  const line = geometry as {
+    paths?: number[][][];
+    spatialReference?: HotspotGeometry['spatialReference'];
+    type?: string;
+    coordinates?: any;
+  };
+
+  if (Array.isArray(line.paths)) return { paths: line.paths, spatialReference: line.spatialReference ?? WGS84 };
+  if (line.type === 'LineString') return { paths: [line.coordinates], spatialReference: WGS84 };
+  if (line.type === 'MultiLineString') return { paths: line.coordinates, spatialReference: WGS84 };
+  return null;
+};
+
+export class HotspotService {
+  /**
+   * Poor-condition hotspots for a KPI and survey year
+   *
+   * @param layer - Road data source (or FeatureLayer) to query; its definition expression is not used
+   * @param filters - LA and route filters select the routes; the subgroup, KPI range
+   *   and condition class filters keep runs with a poor segment matching them all
+   *   (year is ignored)
+   * @param options - Minimum run length and gap tolerance, in segments
+   * @param onProgress - Progress across the segment and geometry fetches
+   * @param signal - Aborting cancels outstanding page requests
+   */
+  static async findHotspots(
+    layer: RoadDataInput,
+    kpi: KPIKey,
+    year: number,
+    filters: SegmentFilters,
+    options: HotspotOptions,
+    onProgress?: AggregationProgressHandler,
+    signal?: AbortSignal
+  ): Promise<HotspotResult> {
+    // Whole routes, within the area filter
+    const source = await toRoadDataSource(layer).withoutDefinitionExpression();
+    const objectIdField = source.objectIdField;
+    const readValue = this.createValueReader(kpi, year);
+    const sequenceWhere = where.and(
+      QueryService.buildFilterClause({ ...NO_FILTERS, localAuthority: filters.localAuthority, route: filters.route }),
+      where.isNotNull(ROAD_FIELDS.route)
+    );
+
+    console.log(`[HotspotService] Finding ${kpi} ${year} hotspots (${options.minSegments}+ segments, gaps up to ${options.maxGap})`);
+
+    // Unsurveyed segments are read too, so they count as gaps rather than being skipped over
+    const { features } = await PaginationService.queryAllFeatures(source, {
+      where: renderWhere(sequenceWhere),
+      outFields: [objectIdField, ROAD_FIELDS.route, ROAD_FIELDS.la, ...readValue.fields],
+      returnGeometry: false,
+      signal,
+      onProgress: onProgress
+        ? (current, total) => {
+          const safeTotal = total || current || 1;
+          onProgress({
+            phase: 'querying',
+            processed: current,
+            total: safeTotal,
+            percent: Math.round((current / safeTotal) * SEGMENT_PHASE_WEIGHT),
+            message: `Loading segments (${current.toLocaleString()} of ${safeTotal.toLocaleString()})...`
+          });
+        }
+        : undefined
+    });
+
+    const segments: HotspotSegment[] = features.map(({ attributes }) => ({
+      id: attributes[objectIdField],
+      route: String(attributes[ROAD_FIELDS.route]),
+      order: attributes[objectIdField],
+      la: attributes[ROAD_FIELDS.la],
+      value: readValue.read(attributes)
+    }));
+
+    const poorIds = new Set(segments.filter(segment => isPoorValue(kpi, segment.value)).map(segment => segment.id));
+    const detected = detectHotspotRuns(segments, segment => poorIds.has(segment.id), options);
+
+    const maskIds = await this.queryMaskIds(source, sequenceWhere, filters, signal);
+    const runs = maskIds
+      ? detected.filter(run => run.segmentIds.some(id => poorIds.has(id) && maskIds.has(id)))
+      : detected;
+    console.log(`[HotspotService] Found ${runs.length} hotspots in ${segments.length} segments`);
+
+    const geometries = await this.fetchGeometries(
+      source,
+      runs.flatMap(run => run.segmentIds),
+      onProgress,
+      signal
+    );
+
+    const hotspots = runs
+      .map(run => ({
+        ...run,
+        id: `${run.route}-${run.segmentIds[0]}`,
+        rank: 0,
+        lengthKm: round1(run.segmentIds.length * SEGMENT_LENGTH_KM),
+        geometry: this.mergeGeometries(run.segmentIds.map(id => geometries.get(id)))
+      }))
+      .sort((a, b) => b.segmentIds.length - a.segmentIds.length || b.poorSegments - a.poorSegments)
+      .map((hotspot, index) => ({ ...hotspot, rank: index + 1 }));
+
+    return {
+      kpi,
+      year,
+      options,
+      hotspots,
+      totalLengthKm: round1(hotspots.reduce((sum, hotspot) => sum + hotspot.segmentIds.length, 0) * SEGMENT_LENGTH_KM)
+    };
+  }
+
+  /**
+   * IDs of the segments matching the filters that do not narrow the route
+   * sequence, or null when there are none
+   */
+  private static async queryMaskIds(
+    source: RoadDataSource,
+    sequenceWhere: WhereClause,
+    filters: SegmentFilters,
+    signal?: AbortSignal
+  ): Promise<Set<number> | null> {
+    const maskWhere = QueryService.buildFilterClause({
+      ...NO_FILTERS,
+      subgroup: filters.subgroup,
+      kpiRanges: filters.kpiRanges,
+      conditionClasses: filters.conditionClasses
+    });
+    if (renderWhere(maskWhere) === '1=1') return null;
+
+    const { features } = await PaginationService.queryAllFeatures(source, {
+      where: renderWhere(where.and(sequenceWhere, maskWhere)),
+      outFields: [source.objectIdField],
+      returnGeometry: false,
+      signal
+    });
+    return new Set(features.map(feature => feature.attributes[source.objectIdField]));
+  }
+
+  /**
+   * Join segment geometries, in route order, into one multi-path polyline
+   */
+  static mergeGeometries(geometries: unknown[]): HotspotGeometry | null {
+    const parts = geometries.map(toPaths).filter((part): part is NonNullable<typeof part> => part !== null);
+    if (parts.length === 0) return null;
+
+    return {
+      type: 'polyline',
+      paths: parts.flatMap(part => part.paths),
+      spatialReference: parts[0].spatialReference
+    };
+  }
+
+  /**
+   * Fields to read and how to get a segment's KPI value from them
+   * The composite is scored from its component KPIs with the active weights.
+   */
+  private static createValueReader(kpi: KPIKey, year: number) {
+    if (isCompositeKPI(kpi)) {
+      const spec = CompositeIndexService.buildSpec(year);
+      return {
+        fields: Object.values(getCompositeFields(year)),
+        read: (attributes: Record<string, any>) => computeCompositeScore(attributes, spec.fields, spec.weights)
+      };
+    }
+
+    const field = getKPIFieldName(kpi, year);
+    return {
+      fields: [field],
+      read: (attributes: Record<string, any>) => {
+        const value = attributes[field];
+        if (value === null || value === undefined || value === '') return null;
+        return Number.isFinite(Number(value)) ? Number(value) : null;
+      }
+    };
+  }
+
+  /**
+   * Geometries for the hotspot segments only, fetched in batches of IDs
+   */
+  private static async fetchGeometries(
+    layer: RoadDataInput,
+    segmentIds: number[],
+    onProgress?: AggregationProgressHandler,
+    signal?: AbortSignal
+  ): Promise<Map<number, unknown>> {
+    const source = toRoadDataSource(layer);
+    const geometries = new Map<number, unknown>();
+
+    for (let start = 0; start < segmentIds.length; start += HOTSPOT_GEOMETRY_BATCH_SIZE) {
+      const batch = segmentIds.slice(start, start + HOTSPOT_GEOMETRY_BATCH_SIZE);
+      const { features } = await PaginationService.queryAllFeatures(source, {
+        where: renderWhere(where.in(source.objectIdField, batch)),
+        outFields: [source.objectIdField],
+        returnGeometry: true,
+        signal
+      });
+
+      features.forEach((feature: RoadFeature) => {
+        geometries.set(feature.attributes[source.objectIdField], feature.geometry);
+      });
+
+      const processed = Math.min(start + batch.length, segmentIds.length);
+      onProgress?.({
+        phase: 'querying',
+        processed,
+        total: segmentIds.length,
+        percent: SEGMENT_PHASE_WEIGHT + Math.round((processed / segmentIds.length) * (100 - SEGMENT_PHASE_WEIGHT)),
+        message: `Loading hotspot geometry (${processed.toLocaleString()} of ${segmentIds.length.toLocaleString()})...`
+      });
+    }
+
+    return geometries;
+  }
+}
+
+export default HotspotService;
@@ -0,0 +1,517 @@
+// src/services/InMemoryRoadDataSource.ts
+import {
+  compileSqlExpression,
+  compileSqlPredicate,
+  type CompiledSqlExpression,
+  type SqlValue
+} from '@/utils/sqlExpression';
+import { geometryIntersectsRings, toWGS84Rings } from '@/utils/spatialFilter';
+import type { SpatialFilterGeometry } from '@/types';
+import type {
+  RoadDataExtent,
+  RoadDataField,
+  RoadDataSource,
+  RoadExtentResult,
+  RoadFeature,
+  RoadQueryParams,
+  RoadQueryResult,
+  RoadStatisticDefinition
+} from './RoadDataSource';
+
+/**
+ * In-memory road data source.
+ *
+ * Loads a survey extract (GeoJSON FeatureCollection or CSV) with the same
+ * attribute schema as the hosted layer (LA, Route, AIRI_2025, IRI_Class_2025,
+ * IsFormerNa, ...) and answers the same queries the FeatureLayer would, by
+ * evaluating the SQL where clauses and statistic expressions locally.
+ *
+ * Intended for offline use against files on disk and for unit tests.
+ */
+
+type Row = Record<string, any>;
+
+interface GeoJSONFeature {
+  type: 'Feature';
+  geometry: { type: string; coordinates: any } | null;
+  properties: Row | null;
+}
+
+interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
+
+export interface InMemoryRoadDataOptions {
+  /** Identifier shown in logs (defaults to 'memory') */
+  id?: string;
+  /** Page size reported to PaginationService (defaults to 2000) */
+  maxRecordCount?: number;
+}
+
+const OBJECTID_FIELD = 'OBJECTID';
+
+/**
+ * ============================================================================
+ * PARSERS
+ * ============================================================================
+ */
+
+/**
+ * Split a single CSV line, honouring double-quoted values
+ */
+function splitCSVLine(line: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      values.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  values.push(current);
+  return values;
+}
+
+/**
+ * Convert a CSV cell to a typed value (empty → null, numeric → number)
+ */
+function parseCSVValue(raw: string): string | number | null {
+  const value = raw.trim();
+  if (value === '' || value.toUpperCase() === 'NULL') return null;
+  if (/^-?\d*\.?\d+(?:[eE][+-]?\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+function parseCSV(text: string): Row[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const headers = splitCSVLine(lines[0]).map(h => h.trim().replace(/^\uFEFF/, ''));
+
+  return lines.slice(1).map(line => {
+    const cells = splitCSVLine(line);
+    const row: Row = {};
+    headers.forEach((header, index) => {
+      row[header] = parseCSVValue(cells[index] ?? '');
+    });
+    return row;
+  });
+}
+
+function inferFieldType(values: unknown[]): RoadDataField['type'] {
+  let sawNumber = false;
+  let allIntegers = true;
+
+  for (const value of values) {
+    if (value === null || value === undefined) continue;
+    if (typeof value !== 'number') return 'string';
+    sawNumber = true;
+    if (!Number.isInteger(value)) allIntegers = false;
+  }
+
+  if (!sawNumber) return 'unknown';
+  return allIntegers ? 'integer' : 'double';
+}
+
+/**
+ * Walk nested GeoJSON coordinate arrays and expand the bounding box
+ */
+function expandBounds(coords: any, bounds: number[]): void {
+  if (!Array.isArray(coords)) return;
+  if (typeof coords[0] === 'number') {
+    const [x, y] = coords as number[];
+    bounds[0] = Math.min(bounds[0], x);
+    bounds[1] = Math.min(bounds[1], y);
+    bounds[2] = Math.max(bounds[2], x);
+    bounds[3] = Math.max(bounds[3], y);
+    return;
+  }
+  coords.forEach(c => expandBounds(c, bounds));
+}
+
+/**
+ * ============================================================================
+ * STATISTICS
+ * ============================================================================
+ */
+
+function percentile(sorted: number[], p: number, discrete: boolean): number | null {
+  if (sorted.length === 0) return null;
+  if (discrete) {
+    const index = Math.max(0, Math.ceil(p * sorted.length) - 1);
+    return sorted[Math.min(index, sorted.length - 1)];
+  }
+  const position = p * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function computeStatistic(stat: RoadStatisticDefinition, values: SqlValue[]): number | null {
+  const nonNull = values.filter(v => v !== null);
+
+  if (stat.statisticType === 'count') {
+    return nonNull.length;
+  }
+
+  const numbers = nonNull
+    .map(v => (typeof v === 'boolean' ? (v ? 1 : 0) : Number(v)))
+    .filter(v => !isNaN(v));
+
+  if (numbers.length === 0) return null;
+
+  switch (stat.statisticType) {
+    case 'sum':
+      return numbers.reduce((acc, v) => acc + v, 0);
+    case 'avg':
+      return numbers.reduce((acc, v) => acc + v, 0) / numbers.length;
+    case 'min':
+      return numbers.reduce((acc, v) => Math.min(acc, v), Infinity);
+    case 'max':
+      return numbers.reduce((acc, v) => Math.max(acc, v), -Infinity);
+    case 'var':
+    case 'stddev': {
+      if (numbers.length < 2) return 0;
+      const mean = numbers.reduce((acc, v) => acc + v, 0) / numbers.length;
+      const variance = numbers.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (numbers.length - 1);
+      return stat.statisticType === 'var' ? variance : Math.sqrt(variance);
+    }
+    case 'percentile_cont':
+    case 'percentile_disc': {
+      const sorted = [...numbers].sort((a, b) => a - b);
+      const p = stat.statisticParameters?.value ?? 0.5;
+      return percentile(sorted, p, stat.statisticType === 'percentile_disc');
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * ============================================================================
+ * DATA SOURCE
+ * ============================================================================
+ */
+
+export class InMemoryRoadDataSource implements RoadDataSource {
+  readonly kind = 'memory' as const;
+  readonly id: string;
+  readonly maxRecordCount: number;
+  readonly objectIdField = OBJECTID_FIELD;
+  readonly fields: RoadDataField[];
+  definitionExpression: string | null = null;
+  spatialFilter: SpatialFilterGeometry | null = null;
+
+  private readonly rows: Row[];
+  private readonly geometries: Array<GeoJSONFeature['geometry']>;
+  private readonly fieldLookup = new Map<string, string>();
+  private readonly expressionCache = new Map<string, CompiledSqlExpression>();
+
+  constructor(
+    records: Row[],
+    geometries: Array<GeoJSONFeature['geometry']> = [],
+    options: InMemoryRoadDataOptions = {}
+  ) {
+    this.id = options.id ?? 'memory';
+    this.maxRecordCount = options.maxRecordCount ?? 2000;
+
+    // Guarantee an OBJECTID so default orderByFields ('OBJECTID ASC') work
+    this.rows = records.map((record, index) => (
+      OBJECTID_FIELD in record ? { ...record } : { [OBJECTID_FIELD]: index + 1, ...record }
+    ));
+    this.geometries = geometries;
+
+    const fieldNames = new Set<string>();
+    this.rows.forEach(row => Object.keys(row).forEach(key => fieldNames.add(key)));
+
+    this.fields = Array.from(fieldNames).map(name => ({
+      name,
+      type: name === OBJECTID_FIELD ? 'oid' : inferFieldType(this.rows.map(row => row[name]))
+    }));
+    this.fields.forEach(field => this.fieldLookup.set(field.name.toUpperCase(), field.name));
+
+    console.log(`[InMemoryRoadDataSource] Loaded ${this.rows.length} segments with ${this.fields.length} fields from ${this.id}`);
+  }
+
+  /**
+   * Create a data source from a parsed GeoJSON FeatureCollection
+   */
+  static fromGeoJSON(
+    collection: GeoJSONFeatureCollection,
+    options?: InMemoryRoadDataOptions
+  ): InMemoryRoadDataSource {
+    if (!collection || collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+      throw new Error('Invalid GeoJSON: expected a FeatureCollection');
+    }
+    const records = collection.features.map(feature => ({ ...(feature.properties || {}) }));
+    const geometries = collection.features.map(feature => feature.geometry ?? null);
+    return new InMemoryRoadDataSource(records, geometries, options);
+  }
+
+  /**
+   * Create a data source from CSV text (first row is the header)
+   */
+  static fromCSV(text: string, options?: InMemoryRoadDataOptions): InMemoryRoadDataSource {
+    return new InMemoryRoadDataSource(parseCSV(text), [], options);
+  }
+
+  /**
+   * Create a data source from a local File (from an <input type="file"> or drag & drop)
+   * Format is detected from the extension, falling back to content sniffing.
+   */
+  static async fromFile(file: File, options: InMemoryRoadDataOptions = {}): Promise<InMemoryRoadDataSource> {
+    const text = await file.text();
+    return this.fromText(text, file.name, { id: file.name, ...options });
+  }
+
+  /**
+   * Fetch and load a GeoJSON or CSV extract from a URL
+   */
+  static async fromUrl(url: string, options: InMemoryRoadDataOptions = {}): Promise<InMemoryRoadDataSource> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch road data from ${url}: ${response.status} ${response.statusText}`);
+    }
+    const text = await response.text();
+    return this.fromText(text, url, { id: url, ...options });
+  }
+
+  private static fromText(text: string, name: string, options: InMemoryRoadDataOptions): InMemoryRoadDataSource {
+    const lower = name.toLowerCase();
+    const looksLikeJSON = text.trimStart().startsWith('{');
+
+    if (lower.endsWith('.geojson') || lower.endsWith('.json') || (!lower.endsWith('.csv') && looksLikeJSON)) {
+      return this.fromGeoJSON(JSON.parse(text) as GeoJSONFeatureCollection, options);
+    }
+    return this.fromCSV(text, options);
+  }
+
+  /** Number of loaded segments */
+  get size(): number {
+    return this.rows.length;
+  }
+
+  hasField(fieldName: string): boolean {
+    return this.fieldLookup.has(fieldName.toUpperCase());
+  }
+
+  /**
+   * Field names are matched case-insensitively, as on ArcGIS services
+   */
+  private resolveField = (name: string): string => {
+    return this.fieldLookup.get(name.toUpperCase()) ?? name;
+  };
+
+  private compile(sql: string): CompiledSqlExpression {
+    let compiled = this.expressionCache.get(sql);
+    if (!compiled) {
+      compiled = compileSqlExpression(sql, this.resolveField);
+      this.expressionCache.set(sql, compiled);
+    }
+    return compiled;
+  }
+
+  async withoutDefinitionExpression(): Promise<RoadDataSource> {
+    // A shallow copy shares the rows, geometries and compiled expressions
+    const source: InMemoryRoadDataSource = Object.assign(Object.create(InMemoryRoadDataSource.prototype), this);
+    source.definitionExpression = null;
+    return source;
+  }
+
+  private filterRows(where?: string): number[] {
+    // Mirror FeatureLayer behaviour: the definition expression always applies
+    const combined = this.definitionExpression
+      ? `(${this.definitionExpression}) AND (${where || '1=1'})`
+      : where;
+    const predicate = compileSqlPredicate(combined, this.resolveField);
+    // Rows without geometry (CSV extracts) never match a spatial filter
+    const rings = this.spatialFilter ? toWGS84Rings(this.spatialFilter) : null;
+    const indices: number[] = [];
+    this.rows.forEach((row, index) => {
+      if (!predicate(name => row[name])) return;
+      if (rings && !geometryIntersectsRings(this.geometries[index], rings)) return;
+      indices.push(index);
+    });
+    return indices;
+  }
+
+  private projectAttributes(row: Row, outFields?: string[]): Row {
+    if (!outFields || outFields.length === 0 || outFields.includes('*')) {
+      return { ...row };
+    }
+    const attributes: Row = {};
+    outFields.forEach(field => {
+      const resolved = this.resolveField(field);
+      attributes[field] = row[resolved] ?? null;
+    });
+    return attributes;
+  }
+
+  private sortFeatures(features: RoadFeature[], orderByFields?: string[]): RoadFeature[] {
+    if (!orderByFields || orderByFields.length === 0) return features;
+
+    const orderings = orderByFields.map(spec => {
+      const [field, direction] = spec.trim().split(/\s+/);
+      return { field, descending: direction?.toUpperCase() === 'DESC' };
+    });
+
+    const valueOf = (feature: RoadFeature, field: string) => {
+      if (field in feature.attributes) return feature.attributes[field];
+      return feature.attributes[this.resolveField(field)];
+    };
+
+    return [...features].sort((a, b) => {
+      for (const { field, descending } of orderings) {
+        const av = valueOf(a, field);
+        const bv = valueOf(b, field);
+        if (av === bv) continue;
+        if (av === null || av === undefined) return 1;
+        if (bv === null || bv === undefined) return -1;
+        const cmp = typeof av === 'number' && typeof bv === 'number'
+          ? av - bv
+          : String(av).localeCompare(String(bv), undefined, { numeric: true });
+        if (cmp !== 0) return descending ? -cmp : cmp;
+      }
+      return 0;
+    });
+  }
+
+  private aggregate(indices: number[], params: RoadQueryParams): RoadFeature[] {
+    const statistics = params.outStatistics || [];
+    const groupBy = params.groupByFieldsForStatistics || [];
+    const groupExpressions = groupBy.map(expr => this.compile(expr));
+    const statExpressions = statistics.map(stat => this.compile(stat.onStatisticField));
+
+    const groups = new Map<string, { key: SqlValue[]; indices: number[] }>();
+    indices.forEach(index => {
+      const row = this.rows[index];
+      const key = groupExpressions.map(expr => expr(name => row[name]));
+      const keyString = JSON.stringify(key);
+      let group = groups.get(keyString);
+      if (!group) {
+        group = { key, indices: [] };
+        groups.set(keyString, group);
+      }
+      group.indices.push(index);
+    });
+
+    // Ungrouped statistics always return exactly one row, even for empty input
+    if (groupBy.length === 0 && groups.size === 0) {
+      groups.set('[]', { key: [], indices: [] });
+    }
+
+    return Array.from(groups.values()).map(group => {
+      const attributes: Row = {};
+      groupBy.forEach((field, i) => {
+        attributes[field] = group.key[i];
+      });
+      statistics.forEach((stat, i) => {
+        const values = group.indices.map(index => {
+          const row = this.rows[index];
+          return statExpressions[i](name => row[name]);
+        });
+        attributes[stat.outStatisticFieldName] = computeStatistic(stat, values);
+      });
+      return { attributes };
+    });
+  }
+
+  async query(params: RoadQueryParams): Promise<RoadQueryResult> {
+    if (params.signal?.aborted) {
+      throw new DOMException('Query aborted', 'AbortError');
+    }
+
+    const indices = this.filterRows(params.where);
+
+    let features: RoadFeature[];
+
+    if (params.outStatistics && params.outStatistics.length > 0) {
+      features = this.aggregate(indices, params);
+    } else if (params.returnDistinctValues) {
+      const seen = new Set<string>();
+      features = [];
+      indices.forEach(index => {
+        const attributes = this.projectAttributes(this.rows[index], params.outFields);
+        const key = JSON.stringify(attributes);
+        if (!seen.has(key)) {
+          seen.add(key);
+          features.push({ attributes });
+        }
+      });
+    } else {
+      features = indices.map(index => ({
+        attributes: this.projectAttributes(this.rows[index], params.outFields),
+        geometry: params.returnGeometry ? this.geometries[index] ?? null : undefined
+      }));
+    }
+
+    features = this.sortFeatures(features, params.orderByFields);
+
+    const start = params.start ?? 0;
+    const end = params.num !== undefined ? start + params.num : undefined;
+    return { features: features.slice(start, end) };
+  }
+
+  async queryCount(where?: string, signal?: AbortSignal): Promise<number> {
+    if (signal?.aborted) {
+      throw new DOMException('Query aborted', 'AbortError');
+    }
+    return this.filterRows(where).length;
+  }
+
+  async queryUniqueValues(fieldName: string, where?: string): Promise<Array<string | number>> {
+    const result = await this.query({
+      where,
+      outFields: [fieldName],
+      returnDistinctValues: true,
+      orderByFields: [fieldName]
+    });
+    return result.features
+      .map(feature => feature.attributes[fieldName])
+      .filter(value => value !== null && value !== undefined && value !== '');
+  }
+
+  async queryExtent(where?: string): Promise<RoadExtentResult> {
+    const indices = this.filterRows(where);
+    const bounds = [Infinity, Infinity, -Infinity, -Infinity];
+
+    indices.forEach(index => {
+      const geometry = this.geometries[index];
+      if (geometry) expandBounds(geometry.coordinates, bounds);
+    });
+
+    if (!isFinite(bounds[0])) {
+      return { extent: null, count: indices.length };
+    }
+
+    // GeoJSON coordinates are WGS84 by specification
+    const extent: RoadDataExtent = {
+      type: 'extent',
+      xmin: bounds[0],
+      ymin: bounds[1],
+      xmax: bounds[2],
+      ymax: bounds[3],
+      spatialReference: { wkid: 4326 }
+    };
+    return { extent, count: indices.length };
+  }
+}
+
+export default InMemoryRoadDataSource;
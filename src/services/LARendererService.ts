@@ -10,9 +10,11 @@ import {
   LAMetricType,
   LA_FIELD_PATTERNS,
   LA_COLOR_GRADIENTS,
-  LA_PERCENTAGE_RANGES
+  LA_PERCENTAGE_RANGES,
+  ROAD_FIELDS
 } from '@/config/layerConfig';
-import { KPIKey, KPI_THRESHOLDS } from '@/config/kpiConfig';
+import { COMPOSITE_KPI, KPIKey, getClassBand, getKPIClassification } from '@/config/kpiConfig';
+import { where, renderWhere } from '@/utils/whereClause';
 
 /**
  * Service for creating ArcGIS renderers for LA polygon layers
@@ -82,7 +84,7 @@ export default class LARendererService {
       }
 
       const query = layer.createQuery();
-      query.where = `${fieldName} IS NOT NULL`;
+      query.where = renderWhere(where.isNotNull(fieldName));
       query.outStatistics = [{
         statisticType: 'max',
         onStatisticField: fieldName,
@@ -232,23 +234,24 @@ export default class LARendererService {
     layer: FeatureLayer
   ): Promise<SimpleRenderer> {
     const fieldName = LA_FIELD_PATTERNS.average(kpi, year);
-    const thresholds = KPI_THRESHOLDS[kpi];
+    const { bands, higherIsBetter } = getKPIClassification(kpi);
     const colors = LA_COLOR_GRADIENTS[kpi];
 
     // Determine min and max based on KPI directionality
-    const isLowerBetter = kpi === 'iri' || kpi === 'rut' || kpi === 'lpv3';
+    const isLowerBetter = !higherIsBetter;
 
     let minValue: number;
     let maxValue: number;
 
     if (isLowerBetter) {
       // For "lower is better" KPIs, min is best (very good threshold), max is worst (query actual max)
-      minValue = thresholds.veryGood || thresholds.good || 0;
+      minValue = bands[0].max ?? 0;
       // ENHANCED: Query max for ALL years, not just 2025
       maxValue = await this.queryMaxValue(layer, fieldName, kpi, year, 'average');
     } else {
       // For "higher is better" KPIs (csc, mpd, psci), min is worst, max is best (query actual max)
-      minValue = thresholds.poor || 0;
+      // Fair or better starts at the lower bound of the fair band
+      minValue = getClassBand(kpi, 'fair')?.min ?? 0;
       // ENHANCED: Query max for ALL years, not just 2025
       maxValue = await this.queryMaxValue(layer, fieldName, kpi, year, 'average');
     }
@@ -280,6 +283,96 @@ export default class LARendererService {
     });
   }
 
+  /**
+   * Renderer for projected LA values, which have no field on the LA layer
+   *
+   * @param values - Projected average or Fair-or-Better % keyed by LA name
+   */
+  static createProjectedLARenderer(
+    kpi: KPIKey,
+    year: number,
+    metricType: LAMetricType,
+    themeMode: 'light' | 'dark',
+    values: Record<string, number>
+  ): SimpleRenderer {
+    return this.createComputedValueRenderer(kpi, metricType, themeMode, values, `Projected ${year}`, ' (projected)');
+  }
+
+  /**
+   * Renderer for composite index LA values, computed from the road segments
+   *
+   * @param values - Average composite score or Fair-or-Better % keyed by LA name
+   */
+  static createCompositeLARenderer(
+    year: number,
+    metricType: LAMetricType,
+    themeMode: 'light' | 'dark',
+    values: Record<string, number>
+  ): SimpleRenderer {
+    return this.createComputedValueRenderer(COMPOSITE_KPI, metricType, themeMode, values, `Composite ${year}`);
+  }
+
+  /**
+   * Helper: Renderer for values computed outside the LA layer
+   * Values are looked up by county name in an Arcade expression, using the
+   * same gradient and lower bound as the measured renderers.
+   */
+  private static createComputedValueRenderer(
+    kpi: KPIKey,
+    metricType: LAMetricType,
+    themeMode: 'light' | 'dark',
+    values: Record<string, number>,
+    title: string,
+    labelSuffix: string = ''
+  ): SimpleRenderer {
+    const colors = LA_COLOR_GRADIENTS[kpi];
+    const { bands, higherIsBetter } = getKPIClassification(kpi);
+    const computed = Object.values(values);
+    const maxValue = computed.length > 0 ? Math.max(...computed) : this.getDefaultMaxForMetric(kpi, metricType);
+
+    let minValue: number;
+    let startColor: number[];
+    let endColor: number[];
+    if (metricType === 'fairOrBetter') {
+      minValue = LA_PERCENTAGE_RANGES[kpi].min;
+      startColor = colors.veryPoor;
+      endColor = colors.veryGood;
+    } else {
+      minValue = higherIsBetter ? getClassBand(kpi, 'fair')?.min ?? 0 : bands[0].max ?? 0;
+      startColor = higherIsBetter ? colors.veryPoor : colors.veryGood;
+      endColor = higherIsBetter ? colors.veryGood : colors.veryPoor;
+    }
+
+    console.log(`[LARenderer] ${title} ${metricType} gradient for ${kpi}: ${minValue} - ${maxValue}`);
+
+    const format = (value: number) => (metricType === 'fairOrBetter' ? `${value.toFixed(0)}%` : value.toFixed(2));
+
+    return new SimpleRenderer({
+      symbol: this.createFillSymbol([128, 128, 128], themeMode),
+      visualVariables: [{
+        type: 'color',
+        valueExpression: [
+          `var values = ${JSON.stringify(values)};`,
+          `var la = $feature.${ROAD_FIELDS.laCounty};`,
+          'return IIf(HasKey(values, la), values[la], null);'
+        ].join('\n'),
+        valueExpressionTitle: title,
+        stops: [
+          {
+            value: minValue,
+            color: [...startColor, 255] as any,
+            label: `${format(minValue)}${labelSuffix}`
+          },
+          {
+            value: maxValue,
+            color: [...endColor, 255] as any,
+            label: `${format(maxValue)}${labelSuffix}`
+          }
+        ]
+      }] as any
+    });
+  }
+
   /**
    * Helper: Create fill symbol with theme-aware outline
    * MODIFIED: Now uses full opacity (1.0) instead of 0.7
@@ -1,7 +1,9 @@
 // src/services/NetworkDataService.ts
-import FeatureLayer from '@arcgis/core/layers/FeatureLayer';
 import * as geometryEngine from '@arcgis/core/geometry/geometryEngine';
-import PaginationService from './PaginationService';
+import AggregationService, { type AggregationProgressHandler } from './AggregationService';
+import { toRoadDataSource, type RoadDataInput, type RoadDataSource } from './RoadDataSource';
+import type { AggregationResult } from '@/utils/segmentAggregation';
+import { where, renderWhere } from '@/utils/whereClause';
 
 // Constants - ALL segments are standardized to 100 meters
 const SEGMENT_LENGTH_M = 100;
@@ -32,17 +34,17 @@ export interface RoadWidthDistribution {
  * The Shape_Length field does NOT exist in the feature layer attributes.
  */
 export class NetworkDataService {
-  private roadLayer: FeatureLayer | null = null;
+  private roadLayer: RoadDataSource | null = null;
 
-  constructor(roadLayer?: FeatureLayer) {
-    this.roadLayer = roadLayer || null;
+  constructor(roadLayer?: RoadDataInput) {
+    this.roadLayer = toRoadDataSource(roadLayer);
   }
 
   /**
-   * Set the road layer to query
+   * Set the road data to query (FeatureLayer or any RoadDataSource)
    */
-  setRoadLayer(layer: FeatureLayer): void {
-    this.roadLayer = layer;
+  setRoadLayer(layer: RoadDataInput): void {
+    this.roadLayer = toRoadDataSource(layer);
   }
 
   /**
@@ -53,7 +55,23 @@ export class NetworkDataService {
     // Check if any of the primary KPI fields exist for this year
     // Using AIRI (IRI) as the primary indicator since it's always collected
     const primaryField = `AIRI_${year}`;
-    return `${primaryField} IS NOT NULL`;
+    return renderWhere(where.isNotNull(primaryField));
+  }
+
+  /**
+   * Count segments with data for the year, grouped by LA
+   * Aggregation runs in a web worker so the report UI stays responsive
+   */
+  private async countSegmentsByLA(
+    year: number,
+    onProgress?: AggregationProgressHandler
+  ): Promise<AggregationResult> {
+    return AggregationService.aggregateFromSource(
+      this.roadLayer!,
+      this.buildDataExistsWhereClause(year),
+      { groupByField: 'LA' },
+      onProgress
+    );
   }
 
   /**
@@ -62,7 +80,7 @@ export class NetworkDataService {
    * 
    * NOTE: Uses segment count × 100m to calculate length (no Shape_Length field)
    */
-  async getRoadLengthByLA(year: number = 2025): Promise<RoadLengthByLA[]> {
+  async getRoadLengthByLA(year: number = 2025, onProgress?: AggregationProgressHandler): Promise<RoadLengthByLA[]> {
     if (!this.roadLayer) {
       throw new Error('Road layer not initialized');
     }
@@ -70,26 +88,11 @@ export class NetworkDataService {
     try {
       console.log('[NetworkDataService] Querying road length by LA...');
 
-      // Query features with LA only - count segments per LA
-      const result = await PaginationService.queryAllFeatures(this.roadLayer, {
-        where: this.buildDataExistsWhereClause(year),
-        outFields: ['LA'],
-        returnGeometry: false
-      });
-
-      console.log(`[NetworkDataService] Retrieved ${result.totalCount} segments (${result.pagesQueried} pages)`);
-
-      // Group by LA and count segments
-      const laGroups = new Map<string, number>();
-
-      result.features.forEach(feature => {
-        const la = feature.attributes.LA as string;
-        laGroups.set(la, (laGroups.get(la) || 0) + 1);
-      });
+      const { groups: laGroups } = await this.countSegmentsByLA(year, onProgress);
 
       // Convert to array and calculate total length using 100m per segment
-      const results: RoadLengthByLA[] = Array.from(laGroups.entries())
-        .map(([la, count]) => ({
+      const results: RoadLengthByLA[] = laGroups
+        .map(({ group: la, count }) => ({
           localAuthority: la,
           totalLength: count * SEGMENT_LENGTH_KM, // Each segment = 0.1 km
           segmentCount: count
@@ -111,7 +114,7 @@ export class NetworkDataService {
    * Uses documented average of ~6.2m with realistic variation (5-7m range).
    * For production use, actual width measurements should be added to the data.
    */
-  async getRoadWidthByLA(year: number = 2025): Promise<RoadWidthByLA[]> {
+  async getRoadWidthByLA(year: number = 2025, onProgress?: AggregationProgressHandler): Promise<RoadWidthByLA[]> {
     if (!this.roadLayer) {
       throw new Error('Road layer not initialized');
     }
@@ -119,27 +122,12 @@ export class NetworkDataService {
     try {
       console.log('[NetworkDataService] Querying road width by LA...');
 
-      // Query features with LA only - count segments per LA
-      const result = await PaginationService.queryAllFeatures(this.roadLayer, {
-        where: this.buildDataExistsWhereClause(year),
-        outFields: ['LA'],
-        returnGeometry: false
-      });
-
-      console.log(`[NetworkDataService] Retrieved ${result.totalCount} segments (${result.pagesQueried} pages)`);
-
-      // Group by LA and count segments
-      const laGroups = new Map<string, number>();
-
-      result.features.forEach(feature => {
-        const la = feature.attributes.LA as string;
-        laGroups.set(la, (laGroups.get(la) || 0) + 1);
-      });
+      const { groups: laGroups } = await this.countSegmentsByLA(year, onProgress);
 
       // Generate estimated widths per LA
       // Based on 2018 Regional Report: typical width range 5-7m, average ~6.2m
-      const results: RoadWidthByLA[] = Array.from(laGroups.entries())
-        .map(([la, count]) => {
+      const results: RoadWidthByLA[] = laGroups
+        .map(({ group: la, count }) => {
           // Generate LA-specific average with slight variation
           // Use hash of LA name for consistent pseudo-random variation
           const hash = la.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
@@ -176,10 +164,7 @@ export class NetworkDataService {
 
     try {
       // Query total segment count
-      const query = this.roadLayer.createQuery();
-      query.where = this.buildDataExistsWhereClause(year);
-
-      const countResult = await this.roadLayer.queryFeatureCount(query);
+      const countResult = await this.roadLayer.queryCount(this.buildDataExistsWhereClause(year));
 
       if (countResult === 0) {
         console.warn('No segments found, returning empty distribution.');
@@ -236,7 +221,7 @@ export class NetworkDataService {
    * 
    * NOTE: Uses segment count × 100m for length calculation
    */
-  async getNetworkSummary(year: number = 2025): Promise<{
+  async getNetworkSummary(year: number = 2025, onProgress?: AggregationProgressHandler): Promise<{
     totalLength: number;
     totalSegments: number;
     averageWidth: number;
@@ -249,24 +234,17 @@ export class NetworkDataService {
     try {
       console.log('[NetworkDataService] Querying network summary...');
 
-      const result = await PaginationService.queryAllFeatures(this.roadLayer, {
-        where: this.buildDataExistsWhereClause(year),
-        outFields: ['LA'],
-        returnGeometry: false
-      });
-
-      console.log(`[NetworkDataService] Retrieved ${result.totalCount} segments (${result.pagesQueried} pages)`);
+      const result = await this.countSegmentsByLA(year, onProgress);
 
       // Calculate summary stats
-      const uniqueLAs = new Set(result.features.map(f => f.attributes.LA));
-      const totalSegments = result.features.length;
+      const totalSegments = result.totalRows;
       const totalLength = totalSegments * SEGMENT_LENGTH_KM; // Convert segments to km
 
       return {
         totalLength: Math.round(totalLength * 10) / 10,
         totalSegments: totalSegments,
         averageWidth: 6.2, // Documented average from 2018 Regional Report
-        localAuthorityCount: uniqueLAs.size
+        localAuthorityCount: result.groups.length
       };
     } catch (error) {
       console.error('Error calculating network summary:', error);
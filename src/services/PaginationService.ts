@@ -1,13 +1,58 @@
 /**
  * PaginationService.ts
  *
- * Utility service for paginated queries on ArcGIS FeatureLayer
- * Handles querying all features when dataset exceeds maxRecordCount
+ * Utility service for paginated queries on a road data source
+ * Handles querying all features when dataset exceeds maxRecordCount.
+ * Pages are fetched concurrently (by object-ID range where possible), retried
+ * with backoff, and can be cancelled with an AbortSignal or resumed from a
+ * checkpoint after a failure.
  */
 
-import type FeatureLayer from '@arcgis/core/layers/FeatureLayer';
-import type Query from '@arcgis/core/rest/support/Query';
-import type Graphic from '@arcgis/core/Graphic';
+import {
+  PAGINATION_CONCURRENCY,
+  PAGINATION_MAX_RETRIES,
+  PAGINATION_RETRY_DELAY
+} from '@/config/constants';
+import {
+  toRoadDataSource,
+  type RoadDataInput,
+  type RoadDataSource,
+  type RoadFeature
+} from './RoadDataSource';
+import { where, renderWhere } from '@/utils/whereClause';
+
+/**
+ * A single page of a paginated query
+ * - all: the whole result fits in one request
+ * - objectIdRange: inclusive object-ID window (fast, no server-side offset)
+ * - offset: start/num window (used when object IDs are sparse or a custom order is requested)
+ */
+export type PageRequest =
+  | { index: number; kind: 'all' }
+  | { index: number; kind: 'objectIdRange'; minObjectId: number; maxObjectId: number }
+  | { index: number; kind: 'offset'; start: number; num: number };
+
+/**
+ * State of an interrupted query. Pass it back as `resumeFrom` to fetch only
+ * the pages that have not completed yet.
+ */
+export interface PaginationCheckpoint {
+  where: string;
+  totalCount: number;
+  pages: PageRequest[];
+  /** Features for completed pages, keyed by page index */
+  completedPages: Record<number, RoadFeature[]>;
+}
+
+export interface PageProgress {
+  pageIndex: number;
+  pagesCompleted: number;
+  totalPages: number;
+  featuresLoaded: number;
+  totalCount: number;
+  /** 1 on first try, higher when the page needed retries */
+  attempts: number;
+}
 
 interface PaginatedQueryOptions {
   where: string;
@@ -15,25 +60,103 @@ interface PaginatedQueryOptions {
   returnGeometry?: boolean;
   orderByFields?: string[];
   onProgress?: (current: number, total?: number) => void;
+  /** Called after each page completes */
+  onPage?: (progress: PageProgress) => void;
+  /** Maximum pages in flight at once */
+  concurrency?: number;
+  /** Retries per page before the query fails */
+  maxRetries?: number;
+  /** Base backoff delay in ms (doubles per retry) */
+  retryDelay?: number;
+  signal?: AbortSignal;
+  resumeFrom?: PaginationCheckpoint;
+}
+
+interface PageQueryOptions {
+  where: string;
+  outFields: string[];
+  /** Should end with a unique field (e.g. the object ID) so pages never overlap */
+  orderByFields: string[];
+  /** Zero-based index of the first feature */
+  start: number;
+  /** Features per page; capped at the source's maxRecordCount */
+  num: number;
+  returnGeometry?: boolean;
+  maxRetries?: number;
+  retryDelay?: number;
+  signal?: AbortSignal;
+}
+
+interface PageQueryResult {
+  features: RoadFeature[];
+  /** Features matching the where clause across all pages */
+  totalCount: number;
 }
 
 interface PaginatedQueryResult {
-  features: Graphic[];
+  features: RoadFeature[];
   totalCount: number;
   pagesQueried: number;
 }
 
+/**
+ * Thrown when a paginated query is aborted or a page fails after all retries.
+ * Carries a checkpoint so the query can be resumed.
+ */
+export class PaginationError extends Error {
+  constructor(
+    message: string,
+    public readonly checkpoint: PaginationCheckpoint,
+    public readonly aborted: boolean,
+    public readonly originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'PaginationError';
+  }
+}
+
+// Fall back to offset pages when object-ID ranges would be mostly empty
+const MAX_OBJECT_ID_SPARSITY = 4;
+
+const createAbortError = (): Error => new DOMException('Paginated query aborted', 'AbortError');
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
 export class PaginationService {
+  /**
+   * Whether an error came from an aborted request (ours or the ArcGIS API's)
+   */
+  static isAbortError(error: unknown): boolean {
+    if (error instanceof PaginationError) return error.aborted;
+    return !!error && typeof error === 'object' && (error as { name?: string }).name === 'AbortError';
+  }
+
   /**
    * Query all features from a layer with pagination support
    * Automatically detects maxRecordCount and pages through results
    *
-   * @param layer - The FeatureLayer to query
+   * @param layer - The road data source (or FeatureLayer) to query
    * @param options - Query options
    * @returns Promise with all features and metadata
+   * @throws PaginationError when aborted or a page keeps failing
    */
   static async queryAllFeatures(
-    layer: FeatureLayer,
+    layer: RoadDataInput,
     options: PaginatedQueryOptions
   ): Promise<PaginatedQueryResult> {
     const {
@@ -41,95 +164,305 @@ export class PaginationService {
       outFields,
       returnGeometry = false,
       orderByFields = ['OBJECTID ASC'],
-      onProgress
+      onProgress,
+      onPage,
+      concurrency = PAGINATION_CONCURRENCY,
+      maxRetries = PAGINATION_MAX_RETRIES,
+      retryDelay = PAGINATION_RETRY_DELAY,
+      signal,
+      resumeFrom
     } = options;
 
-    // Get layer's maxRecordCount from capabilities
-    const maxRecords = layer.capabilities?.query?.maxRecordCount || 2000;
+    const source = toRoadDataSource(layer);
 
-    console.log(`[PaginationService] Starting paginated query with maxRecordCount: ${maxRecords}`);
-    console.log(`[PaginationService] WHERE clause: ${where}`);
+    // Get source's maxRecordCount (layer capabilities for FeatureLayers)
+    const maxRecords = source.maxRecordCount;
 
-    // First, get total count
-    const countQuery = layer.createQuery();
-    countQuery.where = where;
-    const totalCount = await layer.queryFeatureCount(countQuery);
+    let checkpoint: PaginationCheckpoint;
 
-    console.log(`[PaginationService] Total features to query: ${totalCount}`);
+    // A checkpoint without pages was taken before the query was planned
+    if (resumeFrom && resumeFrom.where === where && resumeFrom.pages.length > 0) {
+      checkpoint = resumeFrom;
+      console.log(
+        `[PaginationService] Resuming query: ${Object.keys(checkpoint.completedPages).length}/` +
+        `${checkpoint.pages.length} pages already loaded`
+      );
+    } else {
+      if (resumeFrom && resumeFrom.where !== where) {
+        console.warn('[PaginationService] Checkpoint is for a different WHERE clause, starting over');
+      }
 
-    // If total is less than maxRecords, do single query
-    if (totalCount <= maxRecords) {
-      const query = layer.createQuery();
-      query.where = where;
-      query.outFields = outFields;
-      query.returnGeometry = returnGeometry;
-      query.orderByFields = orderByFields;
-
-      const result = await layer.queryFeatures(query);
-
-      return {
-        features: result.features,
-        totalCount: result.features.length,
-        pagesQueried: 1
-      };
-    }
+      console.log(`[PaginationService] Starting paginated query with maxRecordCount: ${maxRecords}`);
+      console.log(`[PaginationService] WHERE clause: ${where}`);
 
-    // Paginated query for large datasets
-    let allFeatures: Graphic[] = [];
-    let start = 0;
-    let pagesQueried = 0;
-    const estimatedPages = Math.ceil(totalCount / maxRecords);
+      try {
+        // First, get total count
+        const totalCount = await source.queryCount(where, signal);
+        if (signal?.aborted) throw createAbortError();
 
-    while (true) {
-      const query = layer.createQuery();
-      query.where = where;
-      query.outFields = outFields;
-      query.returnGeometry = returnGeometry;
-      query.orderByFields = orderByFields;
-      query.start = start;
-      query.num = maxRecords;
+        console.log(`[PaginationService] Total features to query: ${totalCount}`);
 
-      try {
-        const result = await layer.queryFeatures(query);
-        allFeatures = allFeatures.concat(result.features);
-        pagesQueried++;
+        const pages = await this.planPages(source, where, totalCount, orderByFields, signal);
+        if (signal?.aborted) throw createAbortError();
 
-        console.log(
-          `[PaginationService] Page ${pagesQueried}/${estimatedPages}: ` +
-          `Retrieved ${result.features.length} features (Total: ${allFeatures.length}/${totalCount})`
+        checkpoint = { where, totalCount, pages, completedPages: {} };
+      } catch (error) {
+        // Nothing has been loaded yet, so a resumed query starts over
+        const aborted = this.isAbortError(error);
+        throw new PaginationError(
+          aborted ? 'Paginated query aborted' : `Paginated query failed: ${error instanceof Error ? error.message : String(error)}`,
+          { where, totalCount: 0, pages: [], completedPages: {} },
+          aborted,
+          error
         );
+      }
+    }
 
-        // Report progress if callback provided
-        if (onProgress) {
-          onProgress(allFeatures.length, totalCount);
-        }
+    const { totalCount, pages, completedPages } = checkpoint;
+    const remaining = pages.filter(page => !(page.index in completedPages));
 
-        // Check if we got fewer features than requested (last page)
-        if (result.features.length < maxRecords) {
-          console.log(`[PaginationService] Reached last page. Total features retrieved: ${allFeatures.length}`);
-          break;
-        }
+    const countLoaded = () =>
+      Object.values(completedPages).reduce((sum, features) => sum + features.length, 0);
 
-        // Move to next page
-        start += maxRecords;
+    if (pages.length > 1) {
+      console.log(`[PaginationService] Fetching ${remaining.length} pages with concurrency ${concurrency}`);
+    }
 
-        // Safety check: if we've retrieved more than total count, something went wrong
-        if (allFeatures.length >= totalCount) {
-          console.log(`[PaginationService] Retrieved all ${allFeatures.length} features`);
-          break;
+    let cursor = 0;
+    let failed = false;
+
+    const runPages = async () => {
+      while (!failed && cursor < remaining.length) {
+        if (signal?.aborted) throw createAbortError();
+
+        const page = remaining[cursor++];
+        const { features, attempts } = await this.fetchPageWithRetry(
+          source,
+          page,
+          { where, outFields, returnGeometry, orderByFields },
+          maxRetries,
+          retryDelay,
+          signal
+        );
+        completedPages[page.index] = features;
+
+        const featuresLoaded = countLoaded();
+        const pagesCompleted = Object.keys(completedPages).length;
+
+        if (pages.length > 1) {
+          console.log(
+            `[PaginationService] Page ${page.index + 1}/${pages.length}: ` +
+            `Retrieved ${features.length} features (Total: ${featuresLoaded}/${totalCount})`
+          );
         }
 
-      } catch (error) {
-        console.error(`[PaginationService] Error on page ${pagesQueried + 1}:`, error);
-        throw error;
+        onPage?.({
+          pageIndex: page.index,
+          pagesCompleted,
+          totalPages: pages.length,
+          featuresLoaded,
+          totalCount,
+          attempts
+        });
+        onProgress?.(featuresLoaded, totalCount);
       }
+    };
+
+    try {
+      await Promise.all(
+        Array.from({ length: Math.max(1, Math.min(concurrency, remaining.length)) }, () =>
+          runPages().catch(error => {
+            failed = true;
+            throw error;
+          })
+        )
+      );
+    } catch (error) {
+      const aborted = this.isAbortError(error);
+      if (aborted) {
+        console.log('[PaginationService] Query aborted');
+      } else {
+        console.error('[PaginationService] Paginated query failed:', error);
+      }
+      throw new PaginationError(
+        aborted ? 'Paginated query aborted' : `Paginated query failed: ${error instanceof Error ? error.message : String(error)}`,
+        checkpoint,
+        aborted,
+        error
+      );
+    }
+
+    // Reassemble in page order so results keep their ordering
+    const allFeatures: RoadFeature[] = [];
+    pages.forEach(page => {
+      const features = completedPages[page.index];
+      for (let i = 0; i < features.length; i++) allFeatures.push(features[i]);
+    });
+
+    if (pages.length > 1) {
+      console.log(`[PaginationService] Retrieved all ${allFeatures.length} features`);
     }
 
     return {
       features: allFeatures,
       totalCount: allFeatures.length,
-      pagesQueried
+      pagesQueried: pages.length
+    };
+  }
+
+  /**
+   * Split a query into pages
+   * Prefers object-ID ranges when results are ordered by object ID, since
+   * they avoid slow server-side offsets and can be fetched in any order.
+   */
+  private static async planPages(
+    source: RoadDataSource,
+    where: string,
+    totalCount: number,
+    orderByFields: string[],
+    signal?: AbortSignal
+  ): Promise<PageRequest[]> {
+    const maxRecords = source.maxRecordCount;
+
+    if (totalCount <= maxRecords) {
+      return [{ index: 0, kind: 'all' }];
+    }
+
+    const estimatedPages = Math.ceil(totalCount / maxRecords);
+    const offsetPages = (): PageRequest[] =>
+      Array.from({ length: estimatedPages }, (_, index) => ({
+        index,
+        kind: 'offset' as const,
+        start: index * maxRecords,
+        num: maxRecords
+      }));
+
+    const oidField = source.objectIdField;
+    const orderedByObjectId = orderByFields.length === 1 &&
+      new RegExp(`^${oidField}(\\s+ASC)?$`, 'i').test(orderByFields[0].trim());
+
+    if (!orderedByObjectId) {
+      return offsetPages();
+    }
+
+    try {
+      const result = await source.query({
+        where,
+        outStatistics: [
+          { statisticType: 'min', onStatisticField: oidField, outStatisticFieldName: 'min_oid' },
+          { statisticType: 'max', onStatisticField: oidField, outStatisticFieldName: 'max_oid' }
+        ],
+        signal
+      });
+
+      const attrs = result.features[0]?.attributes;
+      const minOid = Number(attrs?.min_oid);
+      const maxOid = Number(attrs?.max_oid);
+
+      if (!Number.isFinite(minOid) || !Number.isFinite(maxOid)) {
+        return offsetPages();
+      }
+
+      const rangeCount = Math.ceil((maxOid - minOid + 1) / maxRecords);
+      if (rangeCount > estimatedPages * MAX_OBJECT_ID_SPARSITY) {
+        console.log('[PaginationService] Object IDs are sparse, using offset pagination');
+        return offsetPages();
+      }
+
+      return Array.from({ length: rangeCount }, (_, index) => ({
+        index,
+        kind: 'objectIdRange' as const,
+        minObjectId: minOid + index * maxRecords,
+        maxObjectId: Math.min(maxOid, minOid + (index + 1) * maxRecords - 1)
+      }));
+    } catch (error) {
+      if (this.isAbortError(error)) throw error;
+      console.warn('[PaginationService] Could not query object ID range, using offset pagination:', error);
+      return offsetPages();
+    }
+  }
+
+  /**
+   * Fetch one page, retrying with exponential backoff
+   * Aborts are never retried.
+   */
+  private static async fetchPageWithRetry(
+    source: RoadDataSource,
+    page: PageRequest,
+    base: { where: string; outFields: string[]; returnGeometry: boolean; orderByFields: string[] },
+    maxRetries: number,
+    retryDelay: number,
+    signal?: AbortSignal
+  ): Promise<{ features: RoadFeature[]; attempts: number }> {
+    const params = {
+      outFields: base.outFields,
+      returnGeometry: base.returnGeometry,
+      orderByFields: base.orderByFields,
+      signal
     };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        let result;
+        switch (page.kind) {
+          case 'all':
+            result = await source.query({ ...params, where: base.where });
+            break;
+          case 'objectIdRange':
+            result = await source.query({
+              ...params,
+              where: renderWhere(where.and(
+                where.raw(base.where),
+                where.gte(source.objectIdField, page.minObjectId),
+                where.lte(source.objectIdField, page.maxObjectId)
+              ))
+            });
+            break;
+          case 'offset':
+            result = await source.query({ ...params, where: base.where, start: page.start, num: page.num });
+            break;
+        }
+        return { features: result.features, attempts: attempt + 1 };
+      } catch (error) {
+        if (this.isAbortError(error) || attempt >= maxRetries) {
+          throw error;
+        }
+        const wait = retryDelay * Math.pow(2, attempt);
+        console.warn(`[PaginationService] Page ${page.index + 1} failed (attempt ${attempt + 1}), retrying in ${wait}ms:`, error);
+        await delay(wait, signal);
+      }
+    }
+  }
+
+  /**
+   * Query a single page of features, e.g. for a table paged on the server
+   * Unlike queryAllFeatures, only the requested window is fetched.
+   *
+   * @throws The page error, or an AbortError when aborted
+   */
+  static async queryPage(layer: RoadDataInput, options: PageQueryOptions): Promise<PageQueryResult> {
+    const {
+      where,
+      outFields,
+      orderByFields,
+      start,
+      num,
+      returnGeometry = false,
+      maxRetries = PAGINATION_MAX_RETRIES,
+      retryDelay = PAGINATION_RETRY_DELAY,
+      signal
+    } = options;
+
+    const source = toRoadDataSource(layer);
+    const page: PageRequest = { index: 0, kind: 'offset', start, num: Math.min(num, source.maxRecordCount) };
+
+    const [totalCount, { features }] = await Promise.all([
+      source.queryCount(where, signal),
+      this.fetchPageWithRetry(source, page, { where, outFields, returnGeometry, orderByFields }, maxRetries, retryDelay, signal)
+    ]);
+    if (signal?.aborted) throw createAbortError();
+
+    return { features, totalCount };
   }
 
   /**
@@ -137,7 +470,7 @@ export class PaginationService {
    * Useful for showing loading progress to users
    */
   static async queryAllFeaturesWithProgress(
-    layer: FeatureLayer,
+    layer: RoadDataInput,
     options: PaginatedQueryOptions,
     progressCallback: (progress: number, message: string) => void
   ): Promise<PaginatedQueryResult> {
@@ -1,9 +1,10 @@
-import type FeatureLayer from '@arcgis/core/layers/FeatureLayer';
-import Query from '@arcgis/core/rest/support/Query';
 import type MapView from '@arcgis/core/views/MapView';
 import { CONFIG } from '@/config/appConfig';
-import { ROAD_FIELDS, SUBGROUP_CODE_TO_FIELD } from '@/config/layerConfig';
-import type { FilterState } from '@/types';
+import { ROAD_FIELDS, SUBGROUP_OPTIONS, getKPIFieldName } from '@/config/layerConfig';
+import type { ConditionClassFilter, FilterState, KPIRangeFilter, SegmentFilters } from '@/types';
+import { toRoadDataSource, type RoadDataInput, type RoadDataExtent } from './RoadDataSource';
+import { where, renderWhere, type WhereClause } from '@/utils/whereClause';
+import { conditionClassWhereClause } from '@/utils/conditionClassification';
 
 /**
  * An in-memory cache for storing unique field values to avoid redundant queries.
@@ -14,74 +15,88 @@ const CACHE_EXPIRY_MS = 5 * 60 * 1000; // 5 minutes
 
 export default class QueryService {
   /**
-   * Builds a definition expression (SQL WHERE clause) from active filters.
-   * NOTE: Year is NOT included - it determines which field to query (e.g., AIRI_2025).
+   * Builds a where-clause tree from active filters, for composing with other clauses.
+   * The spatial filter is not part of it: the road data source applies it as a
+   * query geometry (RoadDataSource.spatialFilter).
    * @param filters - Active filter state (without year).
-   * @returns SQL WHERE clause string
    */
-  static buildDefinitionExpression(filters: {
-    localAuthority: string[];
-    subgroup: number[];
-    route: string[];
-  }): string {
-    const whereClauses: string[] = [];
-
-    // Local Authority filter
-    if (filters.localAuthority && filters.localAuthority.length > 0) {
-      const laValues = filters.localAuthority.map(la => `'${la}'`).join(', ');
-      whereClauses.push(`${ROAD_FIELDS.la} IN (${laValues})`);
-    }
+  static buildFilterClause(filters: SegmentFilters): WhereClause {
+    return where.and(
+      // Local Authority filter
+      filters.localAuthority?.length > 0 && where.in(ROAD_FIELDS.la, filters.localAuthority),
+      // Route filter
+      filters.route?.length > 0 && where.in(ROAD_FIELDS.route, filters.route),
+      // Subgroup filter (any of the selected subgroups)
+      filters.subgroup?.length > 0 && where.or(...filters.subgroup.map(code => where.subgroup(code))),
+      // KPI value ranges (all must match)
+      ...(filters.kpiRanges ?? []).map(range => this.buildRangeClause(range)),
+      // Condition classes (all must match)
+      ...(filters.conditionClasses ?? []).map(filter => this.buildConditionClassClause(filter))
+    );
+  }
 
-    // Route filter
-    if (filters.route && filters.route.length > 0) {
-      const routeValues = filters.route.map(r => `'${r}'`).join(', ');
-      whereClauses.push(`${ROAD_FIELDS.route} IN (${routeValues})`);
-    }
+  /**
+   * Segments with a KPI value above the lower bound and up to the upper bound
+   * (IRI 2025 above 7 is `AIRI_2025 > 7`); segments without a value never match
+   */
+  static buildRangeClause(range: KPIRangeFilter): WhereClause {
+    const field = getKPIFieldName(range.kpi, range.year);
+    return where.and(
+      range.min !== null && where.gt(field, range.min),
+      range.max !== null && where.lte(field, range.max)
+    );
+  }
 
-    // Subgroup filter
-    if (filters.subgroup && filters.subgroup.length > 0) {
-      const subgroupClauses = filters.subgroup.map(code => {
-        const fieldName = SUBGROUP_CODE_TO_FIELD[code];
-        if (!fieldName) {
-          console.warn(`Unknown subgroup code: ${code}`);
-          return null;
-        }
-        
-        // Rural is the default (absence of other flags)
-        if (fieldName === 'Rural') {
-          return `(IsFormerNa = 0 AND IsDublin = 0 AND IsCityTown = 0 AND IsPeat = 0)`;
-        }
-        
-        // Other subgroups check for flag = 1
-        return `${fieldName} = 1`;
-      }).filter(clause => clause !== null);
+  /**
+   * Segments in any of the classes, classified with the active threshold profile.
+   * A filter with no classes selected is ignored.
+   */
+  static buildConditionClassClause(filter: ConditionClassFilter): WhereClause {
+    if (filter.classes.length === 0) return where.all();
+    const field = getKPIFieldName(filter.kpi, filter.year);
+    return where.or(...filter.classes.map(conditionClass => conditionClassWhereClause(filter.kpi, field, conditionClass)));
+  }
 
-      if (subgroupClauses.length > 0) {
-        whereClauses.push(`(${subgroupClauses.join(' OR ')})`);
-      }
-    }
+  /**
+   * Number of active filter groups, for badges and messages
+   */
+  static countActiveFilters(filters: SegmentFilters): number {
+    return (filters.localAuthority.length > 0 ? 1 : 0) +
+      (filters.subgroup.length > 0 ? 1 : 0) +
+      (filters.route.length > 0 ? 1 : 0) +
+      (filters.kpiRanges ?? []).filter(range => range.min !== null || range.max !== null).length +
+      (filters.conditionClasses ?? []).filter(filter => filter.classes.length > 0).length +
+      (filters.spatial ? 1 : 0);
+  }
 
-    // Combine all clauses
-    return whereClauses.length > 0 ? whereClauses.join(' AND ') : '1=1';
+  /**
+   * Builds a definition expression (SQL WHERE clause) from active filters.
+   * NOTE: Year is NOT included - it determines which field to query (e.g., AIRI_2025).
+   * @param filters - Active filter state (without year).
+   * @returns SQL WHERE clause string
+   */
+  static buildDefinitionExpression(filters: SegmentFilters): string {
+    return renderWhere(this.buildFilterClause(filters));
   }
 
   /**
    * Simple wrapper for getting unique values with caching
-   * @param layer - Feature layer to query
+   * @param layer - Road data source (or FeatureLayer) to query
    * @param fieldName - Field to get unique values from
    * @returns Promise with array of unique values
    */
   static async getUniqueValues(
-    layer: __esri.FeatureLayer | null,
+    layer: RoadDataInput | null,
     fieldName: string
   ): Promise<string[]> {
-    if (!layer) {
+    const source = toRoadDataSource(layer);
+    if (!source) {
       console.warn(`Cannot get unique values: layer is null`);
       return [];
     }
   
     // Check cache first
-    const cacheKey = `${layer.id}_${fieldName}`;
+    const cacheKey = `${source.id}_${fieldName}`;
     const cached = uniqueValuesCache.get(cacheKey);
     
     if (cached && (Date.now() - cached.timestamp) < CACHE_EXPIRY_MS) {
@@ -91,7 +106,7 @@ export default class QueryService {
   
     try {
       // Use queryUniqueValues with empty filters to get all values
-      const values = await this.queryUniqueValues(layer, fieldName, {
+      const values = await this.queryUniqueValues(source, fieldName, {
         localAuthority: [],
         subgroup: [],
         route: []
@@ -112,19 +127,15 @@ export default class QueryService {
 
   /**
    * Queries unique values for a specific field
-   * @param layer - Feature layer to query
+   * @param layer - Road data source (or FeatureLayer) to query
    * @param fieldName - Field to get unique values from
    * @param currentFilters - Current filter state (without year)
    * @returns Promise with array of unique values
    */
   static async queryUniqueValues(
-    layer: __esri.FeatureLayer,
+    layer: RoadDataInput,
     fieldName: string,
-    currentFilters: {
-      localAuthority: string[];
-      subgroup: number[];
-      route: string[];
-    }
+    currentFilters: SegmentFilters
   ): Promise<string[]> {
     try {
       // Build WHERE clause excluding the field being queried
@@ -137,20 +148,10 @@ export default class QueryService {
         tempFilters.route = [];
       }
 
-      const where = this.buildDefinitionExpression(tempFilters);
-
-      const query = layer.createQuery();
-      query.where = where;
-      query.outFields = [fieldName];
-      query.returnDistinctValues = true;
-      query.returnGeometry = false;
-      query.orderByFields = [fieldName];
+      const whereClause = this.buildDefinitionExpression(tempFilters);
 
-      const result = await layer.queryFeatures(query);
-      
-      const uniqueValues = result.features
-        .map(feature => feature.attributes[fieldName])
-        .filter(value => value != null && value !== '');
+      const uniqueValues = (await toRoadDataSource(layer).queryUniqueValues(fieldName, whereClause))
+        .map(value => String(value));
 
       console.log(`Found ${uniqueValues.length} unique values for ${fieldName}`);
       return uniqueValues;
@@ -165,41 +166,29 @@ export default class QueryService {
    * Queries routes filtered by selected Local Authorities.
    * If no LAs are selected, returns all routes.
    * If LAs are selected, returns only routes within those LAs.
-   * @param layer - Feature layer to query
+   * @param layer - Road data source (or FeatureLayer) to query
    * @param selectedLAs - Array of selected Local Authority names
    * @returns Promise with array of route names, sorted alphabetically
    */
   static async queryRoutesForLAs(
-    layer: __esri.FeatureLayer | null,
+    layer: RoadDataInput | null,
     selectedLAs: string[]
   ): Promise<string[]> {
-    if (!layer) {
+    const source = toRoadDataSource(layer);
+    if (!source) {
       console.warn('Cannot query routes: layer is null');
       return [];
     }
 
     try {
-      // Build WHERE clause
-      let whereClause = '1=1';
-      if (selectedLAs && selectedLAs.length > 0) {
-        const laValues = selectedLAs.map(la => `'${la.replace("'", "''")}'`).join(', ');
-        whereClause = `${ROAD_FIELDS.la} IN (${laValues})`;
-      }
+      const whereClause = renderWhere(
+        selectedLAs && selectedLAs.length > 0 ? where.in(ROAD_FIELDS.la, selectedLAs) : where.all()
+      );
 
       console.log(`[QueryService] Querying routes for LAs:`, selectedLAs.length > 0 ? selectedLAs : 'ALL');
 
-      const query = layer.createQuery();
-      query.where = whereClause;
-      query.outFields = [ROAD_FIELDS.route];
-      query.returnDistinctValues = true;
-      query.returnGeometry = false;
-      query.orderByFields = [ROAD_FIELDS.route];
-
-      const result = await layer.queryFeatures(query);
-
-      const routes = result.features
-        .map(feature => feature.attributes[ROAD_FIELDS.route])
-        .filter(value => value != null && value !== '');
+      const routes = (await source.queryUniqueValues(ROAD_FIELDS.route, whereClause))
+        .map(value => String(value));
 
       // Sort alphabetically (case-insensitive)
       routes.sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
@@ -215,19 +204,20 @@ export default class QueryService {
 
   /**
    * Computes grouped statistics (e.g., average KPI by Local Authority).
-   * @param layer - The FeatureLayer to query.
+   * @param layer - The road data source (or FeatureLayer) to query.
    * @param kpiField - The name of the KPI field to aggregate (e.g., 'roads_csv_iri_2025').
    * @param groupByField - The field to group by (e.g., 'Roads_Joined_LA').
    * @param whereClause - The WHERE clause to apply to the query.
    * @returns A promise that resolves to an array of objects with group, avgValue, and count.
    */
   static async computeGroupedStatistics(
-    layer: FeatureLayer | null,
+    layer: RoadDataInput | null,
     kpiField: string,
     groupByField: string,
     whereClause: string
   ): Promise<any[]> {
-    if (!layer) {
+    const source = toRoadDataSource(layer);
+    if (!source) {
       // Placeholder data for local runs without a connected layer
       console.warn('Road layer is not loaded, using placeholder grouped stats.');
       const groups = groupByField.includes('LA') ?
@@ -241,24 +231,22 @@ export default class QueryService {
     }
 
     try {
-      const query = layer.createQuery();
-      query.where = whereClause;
-      query.returnGeometry = false;
-      query.groupByFieldsForStatistics = [groupByField];
-      query.outStatistics = [
-        {
-          onStatisticField: kpiField,
-          outStatisticFieldName: 'avg_value',
-          statisticType: 'avg'
-        },
-        {
-          onStatisticField: kpiField,
-          outStatisticFieldName: 'count_segments',
-          statisticType: 'count'
-        }
-      ] as any;
-
-      const result = await layer.queryFeatures(query);
+      const result = await source.query({
+        where: whereClause,
+        groupByFieldsForStatistics: [groupByField],
+        outStatistics: [
+          {
+            onStatisticField: kpiField,
+            outStatisticFieldName: 'avg_value',
+            statisticType: 'avg'
+          },
+          {
+            onStatisticField: kpiField,
+            outStatisticFieldName: 'count_segments',
+            statisticType: 'count'
+          }
+        ]
+      });
 
       return result.features.map(f => ({
         group: f.attributes[groupByField],
@@ -274,17 +262,18 @@ export default class QueryService {
   /**
    * Computes statistics grouped by subgroup categories.
    * Handles the special boolean field logic for subgroups.
-   * @param layer - The FeatureLayer to query
+   * @param layer - The road data source (or FeatureLayer) to query
    * @param kpiField - The KPI field to aggregate
    * @param whereClause - The WHERE clause to apply
    * @returns Promise resolving to array of grouped statistics
    */
   static async computeSubgroupStatistics(
-    layer: FeatureLayer | null,
+    layer: RoadDataInput | null,
     kpiField: string,
     whereClause: string
   ): Promise<any[]> {
-    if (!layer) {
+    const source = toRoadDataSource(layer);
+    if (!source) {
       // Placeholder data for local runs
       console.warn('Road layer is not loaded, using placeholder subgroup stats.');
       const subgroups = ['Former National', 'Dublin', 'City/Town', 'Peat', 'Rural'];
@@ -310,38 +299,32 @@ export default class QueryService {
       `;
 
       // Build queries for each subgroup
-      const subgroupQueries = [
-        { name: 'Former National', where: `(${whereClause}) AND Roads_Joined_IsFormerNa = 1` },
-        { name: 'Dublin',         where: `(${whereClause}) AND Roads_Joined_IsDublin = 1` },
-        { name: 'City/Town',      where: `(${whereClause}) AND Roads_Joined_IsCityTown = 1` },
-        { name: 'Peat',           where: `(${whereClause}) AND Roads_Joined_IsPeat = 1` },
-        { 
-          name: 'Rural', 
-          where: `(${whereClause}) AND Roads_Joined_IsFormerNa = 0 AND Roads_Joined_IsDublin = 0 
-                  AND Roads_Joined_IsCityTown = 0 AND Roads_Joined_IsPeat = 0` 
-        }
-      ];
+      const subgroupQueries = SUBGROUP_OPTIONS.map(option => ({
+        name: option.label,
+        where: renderWhere(where.and(
+          where.raw(whereClause),
+          where.subgroup(option.code, 'Roads_Joined_')
+        ))
+      }));
 
       // Execute queries in parallel for each subgroup
       const promises = subgroupQueries.map(async (subgroup) => {
-        const query = layer.createQuery();
-        query.where = subgroup.where;
-        query.returnGeometry = false;
-        query.outStatistics = [
-          {
-            onStatisticField: kpiField,
-            outStatisticFieldName: 'avg_value',
-            statisticType: 'avg'
-          },
-          {
-            onStatisticField: kpiField,
-            outStatisticFieldName: 'count_segments',
-            statisticType: 'count'
-          }
-        ] as any;
-
         try {
-          const result = await layer.queryFeatures(query);
+          const result = await source.query({
+            where: subgroup.where,
+            outStatistics: [
+              {
+                onStatisticField: kpiField,
+                outStatisticFieldName: 'avg_value',
+                statisticType: 'avg'
+              },
+              {
+                onStatisticField: kpiField,
+                outStatisticFieldName: 'count_segments',
+                statisticType: 'count'
+              }
+            ]
+          });
           
           if (result.features.length > 0) {
             const stats = result.features[0].attributes;
@@ -368,7 +351,7 @@ export default class QueryService {
       
       // Fallback: Try alternative approach using a single grouped query if supported
       try {
-        return await this.computeSubgroupStatisticsFallback(layer as FeatureLayer, kpiField, whereClause);
+        return await this.computeSubgroupStatisticsFallback(source, kpiField, whereClause);
       } catch (fallbackError) {
         console.error('Fallback also failed:', fallbackError);
         return [];
@@ -381,14 +364,12 @@ export default class QueryService {
    * @private
    */
   private static async computeSubgroupStatisticsFallback(
-    layer: FeatureLayer,
+    layer: RoadDataInput,
     kpiField: string,
     whereClause: string
   ): Promise<any[]> {
     // This approach attempts to use SQL expressions if the service supports them
-    const query = layer.createQuery();
-    query.where = whereClause;
-    query.returnGeometry = false;
+    const source = toRoadDataSource(layer);
     
     // Try to use a calculated field for grouping
     const sqlExpression = {
@@ -406,10 +387,10 @@ export default class QueryService {
     
     // Note: This approach may not work with all ArcGIS Server versions
     // If it fails, the primary method with parallel queries will be used
-    query.outFields = ['*'];
-    query.sqlFormat = 'standard';
-    
-    const result = await layer.queryFeatures(query);
+    const result = await source.query({
+      where: whereClause,
+      outFields: ['*']
+    });
     
     // Manual aggregation if SQL expressions aren't supported
     const aggregated = new Map<string, { sum: number; count: number }>();
@@ -444,26 +425,18 @@ export default class QueryService {
   /**
    * Queries the extent (bounding box) for the current filter selection
    * Used for zooming to filtered features
-   * @param layer - Feature layer to query
+   * @param layer - Road data source (or FeatureLayer) to query
    * @param filters - Current filter state (without year)
    * @returns Promise with extent
    */
   static async queryExtentForFilters(
-    layer: __esri.FeatureLayer,
-    filters: {
-      localAuthority: string[];
-      subgroup: number[];
-      route: string[];
-    }
-  ): Promise<__esri.Extent | null> {
+    layer: RoadDataInput,
+    filters: SegmentFilters
+  ): Promise<__esri.Extent | RoadDataExtent | null> {
     try {
-      const where = this.buildDefinitionExpression(filters);
-      
-      const query = layer.createQuery();
-      query.where = where;
-      query.returnGeometry = true;
+      const whereClause = this.buildDefinitionExpression(filters);
 
-      const result = await layer.queryExtent(query);
+      const result = await toRoadDataSource(layer).queryExtent(whereClause);
       
       if (result.extent) {
         console.log('Queried extent for filters:', result.extent);
@@ -480,26 +453,22 @@ export default class QueryService {
   /**
    * Zooms the map view to the extent of features matching a given definition expression.
    * @param mapView - The MapView instance.
-   * @param layer - The FeatureLayer to query.
+   * @param layer - The road data source (or FeatureLayer) to query.
    * @param whereClause - The definition expression to filter features.
    */
   static async zoomToDefinition(
     mapView: __esri.MapView | null,
-    layer: __esri.FeatureLayer | null,
+    layer: RoadDataInput | null,
     whereClause: string
   ): Promise<void> {
-    if (!mapView || !layer) {
+    const source = toRoadDataSource(layer);
+    if (!mapView || !source) {
       console.warn('Cannot zoom to definition: MapView or layer is null.');
       return;
     }
 
     try {
-      const query = layer.createQuery();
-      query.where = whereClause;
-      query.returnGeometry = true;
-      query.outFields = []; // No need for fields, just geometry
-
-      const result = await layer.queryExtent(query);
+      const result = await source.queryExtent(whereClause);
 
       if (result.extent) {
         await mapView.goTo(result.extent, { duration: 1000, easing: 'ease-in-out' });
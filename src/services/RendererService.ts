@@ -4,11 +4,39 @@ import {
   RENDERER_CONFIG,
   CONFIG
 } from '@/config/appConfig';
+import { CHANGE_COLORS, TREATMENT_COLORS } from '@/config/rendererConfig';
+import {
+  TREATMENT_CATEGORIES,
+  TREATMENT_CODES,
+  TREATMENT_LABELS,
+  type TreatmentRuleSet
+} from '@/config/treatmentRules';
 import { getKPIFieldName } from '@/config/layerConfig';
 import {
-  KPIKey, KPI_THRESHOLDS
+  COMPOSITE_KPI,
+  KPI_LABELS,
+  canUseClassFields,
+  getKPIClassification,
+  isCompositeKPI,
+  type KPIKey
 } from '@/config/kpiConfig';
+import { getActiveCompositeWeights, type CompositeWeights } from '@/config/compositeIndex';
+import {
+  buildClassArcadeExpression,
+  buildValueClassArcadeExpression,
+  getClassBreakDefinitions
+} from '@/utils/conditionClassification';
+import { buildCompositeArcadeStatements, getCompositeFields } from '@/utils/compositeIndex';
+import {
+  CHANGE_CATEGORIES,
+  CHANGE_CATEGORY_CODES,
+  CHANGE_CATEGORY_LABELS,
+  buildChangeArcadeExpression,
+  getChangeRampScale,
+  type ChangeRendererMethod
+} from '@/utils/conditionChange';
 import { getCSSCustomProperty, hexToRgb } from '@/utils/themeHelpers';
+import { buildTreatmentArcadeExpression, getTreatmentFields } from '@/utils/treatmentRecommendation';
 
 /**
  * Service for creating ArcGIS renderers for pavement condition KPIs.
@@ -72,6 +100,11 @@ export default class RendererService {
     themeMode: 'light' | 'dark',
     useClassField: boolean = true
   ): ClassBreaksRenderer {
+    // Composite scores depend on the editable weights, so they are built each time
+    if (isCompositeKPI(kpi)) {
+      return this.createCompositeRenderer(year);
+    }
+
     const cached = this.getCachedRenderer(kpi, year, themeMode);
     if (cached) {
       console.log('Using cached renderer (clone returned)');
@@ -82,17 +115,18 @@ export default class RendererService {
     console.log(`Creating new renderer for ${kpi}/${year}/${themeMode}`);
     const startTime = performance.now();
     
-    const fieldName = getKPIFieldName(kpi, year, useClassField); // Use class field by default for performance
-    const use5Classes = RENDERER_CONFIG.use5ClassRenderers; // Determine 5-class usage
+    // Class fields are only valid while the active thresholds match the ones they were computed with
+    const classFieldUsable = useClassField && canUseClassFields();
+    const fieldName = getKPIFieldName(kpi, year, classFieldUsable); // Use class field by default for performance
 
     let renderer: ClassBreaksRenderer;
 
-    if (useClassField) {
+    if (classFieldUsable) {
       // NEW: Use pre-calculated class fields (1-5 integer values)
       renderer = this.createClassFieldRenderer(kpi, fieldName, themeMode);
     } else {
-      // FALLBACK: Use raw values with threshold calculations
-      renderer = this.createRawValueRenderer(kpi, fieldName, themeMode, use5Classes);
+      // FALLBACK: Classify raw values with an Arcade expression built from the class bands
+      renderer = this.createRawValueRenderer(kpi, fieldName, themeMode);
     }
 
     // Cache the renderer
@@ -118,7 +152,6 @@ export default class RendererService {
     classFieldName: string,
     themeMode: 'light' | 'dark'
   ): ClassBreaksRenderer {
-    const colors = RENDERER_CONFIG.getThemeAwareColors();
     const lineWidth = RENDERER_CONFIG.lineWidth;
 
     const renderer = new ClassBreaksRenderer({
@@ -130,30 +163,31 @@ export default class RendererService {
       defaultLabel: 'No Data'
     });
 
-    // Handle KPI-specific class counts
-    if (kpi === 'psci') {
-      // PSCI: 4 classes (1-4, no class 5)
-      this.addClassBreak(renderer, 1, 1, colors.veryGood as [number, number, number, number], lineWidth, 'Very Good (9-10)');
-      this.addClassBreak(renderer, 2, 2, colors.good as [number, number, number, number], lineWidth, 'Good (7-8)');
-      this.addClassBreak(renderer, 3, 3, colors.fair as [number, number, number, number], lineWidth, 'Fair (5-6)');
-      this.addClassBreak(renderer, 4, 4, colors.poor as [number, number, number, number], lineWidth, 'Poor (1-4)');
-    } else if (kpi === 'mpd') {
-      // MPD: 3 classes (1=Good, 2=Fair, 3=Poor)
-      this.addClassBreak(renderer, 1, 1, colors.veryGood as [number, number, number, number], lineWidth, 'Good (0.7)');
-      this.addClassBreak(renderer, 2, 2, colors.fair as [number, number, number, number], lineWidth, 'Fair (0.6-0.7)');
-      this.addClassBreak(renderer, 3, 3, colors.poor as [number, number, number, number], lineWidth, 'Poor (<0.6)');
-    } else {
-      // Standard 5 classes for IRI, Rut, CSC, LPV
-      this.addClassBreak(renderer, 1, 1, colors.veryGood as [number, number, number, number], lineWidth, 'Very Good');
-      this.addClassBreak(renderer, 2, 2, colors.good as [number, number, number, number], lineWidth, 'Good');
-      this.addClassBreak(renderer, 3, 3, colors.fair as [number, number, number, number], lineWidth, 'Fair');
-      this.addClassBreak(renderer, 4, 4, colors.poor as [number, number, number, number], lineWidth, 'Poor');
-      this.addClassBreak(renderer, 5, 5, colors.veryPoor as [number, number, number, number], lineWidth, 'Very Poor');
-    }
+    this.addClassBreaks(renderer, kpi);
 
     return renderer;
   }
 
+  /**
+   * Helper: Add the class breaks for a KPI, generated from its class bands
+   * Class counts are KPI-specific (PSCI has 4 classes, MPD 3)
+   */
+  private static addClassBreaks(renderer: ClassBreaksRenderer, kpi: KPIKey): void {
+    const colors = RENDERER_CONFIG.getThemeAwareColors();
+    const lineWidth = RENDERER_CONFIG.lineWidth;
+
+    getClassBreakDefinitions(kpi, RENDERER_CONFIG.use5ClassRenderers).forEach(classBreak => {
+      this.addClassBreak(
+        renderer,
+        classBreak.minValue,
+        classBreak.maxValue,
+        colors[classBreak.conditionClass] as [number, number, number, number],
+        lineWidth,
+        classBreak.label
+      );
+    });
+  }
+
   /**
    * Helper: Add a class break to renderer
    */
@@ -177,26 +211,24 @@ export default class RendererService {
   }
 
   /**
-   * FALLBACK: Creates renderer using raw KPI values with threshold calculations
-   * Used when class fields are not available
+   * FALLBACK: Creates renderer using raw KPI values
+   * Used when class fields are not available. An Arcade expression derives the
+   * class value from the raw field so breaks match the class-field renderer.
    * @param kpi - The KPI type
    * @param fieldName - The raw value field name
    * @param themeMode - Current theme mode
-   * @param use5Classes - Whether to use 5-class system
    * @returns ClassBreaksRenderer using raw value thresholds
    */
   private static createRawValueRenderer(
     kpi: KPIKey,
     fieldName: string,
-    themeMode: 'light' | 'dark',
-    use5Classes: boolean
+    themeMode: 'light' | 'dark'
   ): ClassBreaksRenderer {
-    const colors = RENDERER_CONFIG.getThemeAwareColors();
-    const thresholds = KPI_THRESHOLDS[kpi];
     const lineWidth = RENDERER_CONFIG.lineWidth;
 
     const renderer = new ClassBreaksRenderer({
-      field: fieldName,
+      valueExpression: buildClassArcadeExpression(kpi, fieldName),
+      valueExpressionTitle: `${fieldName} condition class`,
       defaultSymbol: new SimpleLineSymbol({
         color: hexToRgb(getCSSCustomProperty('--color-fg-muted'), 0.5),
         width: lineWidth
@@ -204,54 +236,142 @@ export default class RendererService {
       defaultLabel: 'No Data'
     });
 
-    // Apply threshold-based breaks (existing logic)
-    if (kpi === 'iri' || kpi === 'rut' || kpi === 'lpv3') {
-      // Lower is better
-      if (use5Classes && thresholds.veryGood !== undefined) {
-        this.addClassBreak(renderer, 0, thresholds.veryGood, colors.veryGood as [number, number, number, number], lineWidth, 'Very Good');
-      }
-      this.addClassBreak(renderer, thresholds.veryGood || 0, thresholds.good, colors.good as [number, number, number, number], lineWidth, 'Good');
-      this.addClassBreak(renderer, thresholds.good, thresholds.fair, colors.fair as [number, number, number, number], lineWidth, 'Fair');
-      
-      if (use5Classes && thresholds.poor !== undefined) {
-        this.addClassBreak(renderer, thresholds.fair, thresholds.poor, colors.poor as [number, number, number, number], lineWidth, 'Poor');
-        this.addClassBreak(renderer, thresholds.poor, 9999, colors.veryPoor as [number, number, number, number], lineWidth, 'Very Poor');
-      } else {
-        this.addClassBreak(renderer, thresholds.fair, 9999, colors.poor as [number, number, number, number], lineWidth, 'Poor');
-      }
-    } else if (kpi === 'csc') {
-      // Higher is better (inverted)
-      if (use5Classes && thresholds.good !== undefined) {
-        this.addClassBreak(renderer, thresholds.good, 999, colors.veryGood as [number, number, number, number], lineWidth, 'Very Good');
-      }
-      this.addClassBreak(renderer, thresholds.fair, thresholds.good, colors.good as [number, number, number, number], lineWidth, 'Good');
-      this.addClassBreak(renderer, thresholds.poor!, thresholds.fair, colors.fair as [number, number, number, number], lineWidth, 'Fair');
-      
-      if (use5Classes && thresholds.veryPoor !== undefined) {
-        this.addClassBreak(renderer, thresholds.veryPoor, thresholds.poor!, colors.poor as [number, number, number, number], lineWidth, 'Poor');
-        this.addClassBreak(renderer, 0, thresholds.veryPoor, colors.veryPoor as [number, number, number, number], lineWidth, 'Very Poor');
-      } else {
-        this.addClassBreak(renderer, 0, thresholds.poor!, colors.poor as [number, number, number, number], lineWidth, 'Poor');
-      }
-    } else if (kpi === 'psci') {
-      // PSCI: 4 classes when using raw values
-      if (use5Classes) {
-        this.addClassBreak(renderer, 9, 10, colors.veryGood as [number, number, number, number], lineWidth, 'Very Good (9-10)');
-        this.addClassBreak(renderer, 7, 9, colors.good as [number, number, number, number], lineWidth, 'Good (7-8)');
-        this.addClassBreak(renderer, 5, 7, colors.fair as [number, number, number, number], lineWidth, 'Fair (5-6)');
-        this.addClassBreak(renderer, 1, 5, colors.poor as [number, number, number, number], lineWidth, 'Poor (1-4)');
-      } else {
-        this.addClassBreak(renderer, thresholds.fair, 10, colors.good as [number, number, number, number], lineWidth, 'Good');
-        this.addClassBreak(renderer, thresholds.poor!, thresholds.fair, colors.fair as [number, number, number, number], lineWidth, 'Fair');
-        this.addClassBreak(renderer, 1, thresholds.poor!, colors.poor as [number, number, number, number], lineWidth, 'Poor');
-      }
-    } else if (kpi === 'mpd') {
-      // MPD: 3 classes only
-      this.addClassBreak(renderer, thresholds.good, 999, colors.veryGood as [number, number, number, number], lineWidth, 'Good');
-      this.addClassBreak(renderer, thresholds.poor!, thresholds.good, colors.fair as [number, number, number, number], lineWidth, 'Fair');
-      this.addClassBreak(renderer, 0, thresholds.poor!, colors.poor as [number, number, number, number], lineWidth, 'Poor');
+    this.addClassBreaks(renderer, kpi);
+
+    return renderer;
+  }
+
+  /**
+   * Creates a renderer colouring segments by composite index class
+   * The score is computed from the measured KPI fields in Arcade with the
+   * active class bands, then classified with the composite bands.
+   * @param year - Survey year whose KPI values are scored
+   * @param weights - KPI weights (defaults to the active weights)
+   * @returns ClassBreaksRenderer over composite class values
+   */
+  static createCompositeRenderer(
+    year: number,
+    weights: CompositeWeights = getActiveCompositeWeights()
+  ): ClassBreaksRenderer {
+    const lineWidth = RENDERER_CONFIG.lineWidth;
+    const fields = getCompositeFields(year);
+
+    const renderer = new ClassBreaksRenderer({
+      valueExpression: buildValueClassArcadeExpression(COMPOSITE_KPI, buildCompositeArcadeStatements(fields, weights)),
+      valueExpressionTitle: `Composite index class (${year})`,
+      defaultSymbol: new SimpleLineSymbol({
+        color: hexToRgb(getCSSCustomProperty('--color-fg-muted'), 0.5),
+        width: lineWidth
+      }),
+      defaultLabel: 'No Data'
+    });
+
+    this.addClassBreaks(renderer, COMPOSITE_KPI);
+
+    return renderer;
+  }
+
+  /**
+   * Creates a renderer colouring segments by recommended treatment
+   * Not cached: rule sets can be edited, and the Arcade expression is cheap to build.
+   * @param ruleSet - Treatment rule set to evaluate
+   * @param year - Survey year whose KPI values the rules are applied to
+   * @returns ClassBreaksRenderer over TREATMENT_CODES values
+   */
+  static createTreatmentRenderer(ruleSet: TreatmentRuleSet, year: number): ClassBreaksRenderer {
+    const lineWidth = RENDERER_CONFIG.lineWidth;
+
+    const renderer = new ClassBreaksRenderer({
+      valueExpression: buildTreatmentArcadeExpression(ruleSet, getTreatmentFields(ruleSet, year)),
+      valueExpressionTitle: `${ruleSet.name} treatment (${year})`,
+      defaultSymbol: new SimpleLineSymbol({
+        color: hexToRgb(getCSSCustomProperty('--color-fg-muted'), 0.5),
+        width: lineWidth
+      }),
+      defaultLabel: 'Not Assessed'
+    });
+
+    TREATMENT_CATEGORIES.forEach(treatment => {
+      this.addClassBreak(
+        renderer,
+        TREATMENT_CODES[treatment],
+        TREATMENT_CODES[treatment],
+        hexToRgb(TREATMENT_COLORS[treatment], 0.9) as [number, number, number, number],
+        lineWidth,
+        TREATMENT_LABELS[treatment]
+      );
+    });
+
+    return renderer;
+  }
+
+  /**
+   * Creates a renderer colouring segments by their change between two survey years
+   * Not cached: classes follow the editable threshold profile and composite weights.
+   * @param kpi - KPI to compare
+   * @param fromYear - Earlier survey year
+   * @param toYear - Later survey year
+   * @param method - 'classShift' for improved / stable / deteriorated classes,
+   *   'value' for a diverging ramp over the change in value
+   * @returns ClassBreaksRenderer over the change Arcade expression
+   */
+  static createChangeRenderer(
+    kpi: KPIKey,
+    fromYear: number,
+    toYear: number,
+    method: ChangeRendererMethod,
+    weights: CompositeWeights = getActiveCompositeWeights()
+  ): ClassBreaksRenderer {
+    const lineWidth = RENDERER_CONFIG.lineWidth;
+
+    const renderer = new ClassBreaksRenderer({
+      valueExpression: buildChangeArcadeExpression(kpi, fromYear, toYear, method, weights),
+      valueExpressionTitle: `${KPI_LABELS[kpi]} change ${fromYear} → ${toYear}`,
+      defaultSymbol: new SimpleLineSymbol({
+        color: hexToRgb(getCSSCustomProperty('--color-fg-muted'), 0.5),
+        width: lineWidth
+      }),
+      defaultLabel: 'Not surveyed in both years'
+    });
+
+    if (method === 'classShift') {
+      CHANGE_CATEGORIES.forEach(category => {
+        this.addClassBreak(
+          renderer,
+          CHANGE_CATEGORY_CODES[category],
+          CHANGE_CATEGORY_CODES[category],
+          hexToRgb(CHANGE_COLORS[category], 0.9) as [number, number, number, number],
+          lineWidth,
+          CHANGE_CATEGORY_LABELS[category]
+        );
+      });
+      return renderer;
     }
 
+    // One break for every value; colour comes from the diverging ramp
+    const scale = getChangeRampScale(kpi);
+    const { unit } = getKPIClassification(kpi);
+    const amount = `${scale}${unit ? ` ${unit}` : ''}`;
+
+    this.addClassBreak(
+      renderer,
+      -Number.MAX_VALUE,
+      Number.MAX_VALUE,
+      hexToRgb(CHANGE_COLORS.stable, 0.9) as [number, number, number, number],
+      lineWidth,
+      'Change in value'
+    );
+    renderer.visualVariables = [{
+      type: 'color',
+      valueExpression: renderer.valueExpression,
+      valueExpressionTitle: 'Change in value (positive = improved)',
+      stops: [
+        { value: -scale, color: hexToRgb(CHANGE_COLORS.deteriorated, 0.9), label: `Deteriorated by ${amount} or more` },
+        { value: 0, color: hexToRgb(CHANGE_COLORS.stable, 0.9), label: 'No change' },
+        { value: scale, color: hexToRgb(CHANGE_COLORS.improved, 0.9), label: `Improved by ${amount} or more` }
+      ]
+    } as __esri.ColorVariableProperties];
+
     return renderer;
   }
 
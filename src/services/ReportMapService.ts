@@ -1,10 +1,19 @@
 // src/services/ReportMapService.ts
 
 import WebMap from '@arcgis/core/WebMap';
+import Map from '@arcgis/core/Map';
+import Graphic from '@arcgis/core/Graphic';
+import type Basemap from '@arcgis/core/Basemap';
+import Extent from '@arcgis/core/geometry/Extent';
+import type Layer from '@arcgis/core/layers/Layer';
 import MapView from '@arcgis/core/views/MapView';
+import SimpleMarkerSymbol from '@arcgis/core/symbols/SimpleMarkerSymbol';
+import * as reactiveUtils from '@arcgis/core/core/reactiveUtils';
 import Legend from '@arcgis/core/widgets/Legend';
 import ScaleBar from '@arcgis/core/widgets/ScaleBar';
 import { CONFIG } from '@/config/appConfig';
+import { SYNC_POINTER_COLORS } from '@/config/rendererConfig';
+import type { RoadDataExtent } from './RoadDataSource';
 
 /**
  * Service for creating independent map instances for report pages
@@ -159,6 +168,170 @@ export class ReportMapService {
     return { view, webmap, cleanup };
   }
 
+  /**
+   * Create an independent map view from a basemap and layers (no WebMap item),
+   * e.g. for split-screen comparisons where each view shows its own clones
+   *
+   * @param container - DOM element for the map
+   * @param layers - Layers to add, bottom first
+   * @param options - Optional configuration
+   * @returns MapView and Map instances
+   */
+  static async createLayerMap(
+    container: HTMLDivElement,
+    layers: Layer[] = [],
+    options?: {
+      basemap?: Basemap | string;
+      extent?: Extent | null;
+      showLegend?: boolean;
+      showScaleBar?: boolean;
+    }
+  ): Promise<{ view: MapView; map: Map; cleanup: () => void }> {
+    const map = new Map({ basemap: options?.basemap ?? 'gray-vector', layers });
+
+    const view = new MapView({
+      map,
+      container,
+      ...(options?.extent
+        ? { extent: options.extent.clone() }
+        : { center: CONFIG.map.center, zoom: CONFIG.map.zoom }),
+      constraints: { minZoom: 6, maxZoom: 16, snapToZoom: false },
+      padding: { top: 0 }
+    });
+
+    const widgets: __esri.Widget[] = [];
+    if (options?.showLegend) {
+      widgets.push(new Legend({ view }));
+      view.ui.add(widgets[widgets.length - 1], 'bottom-right');
+    }
+    if (options?.showScaleBar) {
+      widgets.push(new ScaleBar({ view, unit: 'metric' }));
+      view.ui.add(widgets[widgets.length - 1], 'bottom-left');
+    }
+
+    const cleanup = () => {
+      widgets.forEach(widget => widget.destroy());
+      if (!view.destroyed) {
+        view.container = null;
+        view.destroy();
+      }
+      if (!map.destroyed) map.destroy();
+    };
+
+    try {
+      await view.when();
+    } catch (error) {
+      cleanup();
+      console.error('[ReportMapService] ❌ Failed to create layer map:', error);
+      throw new Error(`Failed to create MapView: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return { view, map, cleanup };
+  }
+
+  /**
+   * Draw layers once and return the map as an image, for report figures that
+   * are generated one after another rather than kept as live maps. The map,
+   * and the layers with it, are destroyed once the image is taken.
+   *
+   * @param container - DOM element to draw in; it must have a size but may be off screen
+   * @param layers - Layers to draw, bottom first
+   * @param options - Area to show and image size (defaults to the container size)
+   * @returns Data URL of the rendered map (JPEG)
+   */
+  static async captureLayerMap(
+    container: HTMLDivElement,
+    layers: Layer[],
+    options: {
+      extent: Extent | RoadDataExtent;
+      basemap?: Basemap | string;
+      width?: number;
+      height?: number;
+    }
+  ): Promise<string> {
+    const extent = options.extent instanceof Extent ? options.extent : Extent.fromJSON(options.extent);
+
+    const { view, cleanup } = await this.createLayerMap(container, layers, {
+      basemap: options.basemap,
+      // A margin so features on the edge of the area are not clipped
+      extent: extent.clone().expand(1.1)
+    });
+
+    try {
+      await Promise.all(layers.map(layer => view.whenLayerView(layer)));
+      await reactiveUtils.whenOnce(() => !view.updating);
+      const screenshot = await view.takeScreenshot({
+        format: 'jpg',
+        quality: 85,
+        width: options.width,
+        height: options.height
+      });
+      return screenshot.dataUrl;
+    } finally {
+      cleanup();
+    }
+  }
+
+  /**
+   * Keep map views in step: panning or zooming one moves the others to the
+   * same viewpoint, and a marker in the other views follows the pointer
+   *
+   * @param views - Views to link (two or more)
+   * @returns Function that unlinks the views and removes the markers
+   */
+  static synchronizeViews(views: MapView[]): () => void {
+    // Only the view the user is moving drives the others, so updates don't echo back
+    let activeView: MapView | null = null;
+
+    const pointerSymbol = new SimpleMarkerSymbol({
+      style: 'circle',
+      size: 14,
+      color: SYNC_POINTER_COLORS.fill,
+      outline: { color: SYNC_POINTER_COLORS.outline, width: 2 }
+    });
+    const markers = views.map(view => {
+      const marker = new Graphic({ symbol: pointerSymbol, visible: false });
+      view.graphics.add(marker);
+      return marker;
+    });
+    const clearMarkers = () => markers.forEach(marker => { marker.visible = false; });
+
+    const handles = views.flatMap((view, index) => [
+      reactiveUtils.watch(
+        () => view.interacting || view.animation !== null,
+        moving => {
+          if (moving) activeView = view;
+        }
+      ),
+      reactiveUtils.watch(
+        () => view.viewpoint,
+        viewpoint => {
+          if (activeView !== view || !viewpoint) return;
+          views.forEach(other => {
+            if (other !== view) other.viewpoint = viewpoint.clone();
+          });
+        }
+      ),
+      view.on('pointer-move', event => {
+        activeView = view;
+        const point = view.toMap({ x: event.x, y: event.y });
+        markers.forEach((marker, markerIndex) => {
+          marker.geometry = point;
+          // The pointer itself marks the spot in the view it is over
+          marker.visible = markerIndex !== index;
+        });
+      }),
+      view.on('pointer-leave', clearMarkers)
+    ]);
+
+    return () => {
+      handles.forEach(handle => handle.remove());
+      views.forEach((view, index) => {
+        if (!view.destroyed) view.graphics.remove(markers[index]);
+      });
+    };
+  }
+
   /**
    * Check if a container already has a map view attached
    */
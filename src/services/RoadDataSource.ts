@@ -0,0 +1,283 @@
+// src/services/RoadDataSource.ts
+import FeatureLayer from '@arcgis/core/layers/FeatureLayer';
+import Polygon from '@arcgis/core/geometry/Polygon';
+import type { SpatialFilterGeometry } from '@/types';
+
+/**
+ * ============================================================================
+ * ROAD DATA SOURCE ABSTRACTION
+ * ============================================================================
+ *
+ * The services no longer talk to an ArcGIS FeatureLayer directly. Instead they
+ * issue queries against a RoadDataSource, which can be backed by:
+ *  - a hosted FeatureLayer (FeatureLayerRoadDataSource, the production path)
+ *  - an in-memory survey extract loaded from GeoJSON or CSV (InMemoryRoadDataSource)
+ *
+ * Queries use the same shape as ArcGIS Query parameters (SQL where clauses,
+ * outStatistics, groupByFieldsForStatistics) so existing service logic is unchanged.
+ */
+
+export type RoadDataSourceKind = 'featureLayer' | 'memory';
+
+export type RoadStatisticType =
+  | 'count'
+  | 'sum'
+  | 'min'
+  | 'max'
+  | 'avg'
+  | 'stddev'
+  | 'var'
+  | 'percentile_cont'
+  | 'percentile_disc';
+
+/**
+ * Statistic definition (mirrors __esri.StatisticDefinitionProperties)
+ * onStatisticField may be a field name or a SQL expression such as
+ * `CASE WHEN IRI_Class_2025 = 1 THEN 1 ELSE 0 END`
+ */
+export interface RoadStatisticDefinition {
+  statisticType: RoadStatisticType;
+  onStatisticField: string;
+  outStatisticFieldName: string;
+  statisticParameters?: { value: number };
+}
+
+export interface RoadQueryParams {
+  where?: string;
+  outFields?: string[];
+  outStatistics?: RoadStatisticDefinition[];
+  groupByFieldsForStatistics?: string[];
+  returnDistinctValues?: boolean;
+  returnGeometry?: boolean;
+  orderByFields?: string[];
+  start?: number;
+  num?: number;
+  /** Cancels the request (FeatureLayer requests are aborted in flight) */
+  signal?: AbortSignal;
+}
+
+export interface RoadFeature {
+  attributes: Record<string, any>;
+  geometry?: unknown;
+}
+
+export interface RoadQueryResult {
+  features: RoadFeature[];
+}
+
+export interface RoadDataField {
+  name: string;
+  type: 'oid' | 'string' | 'double' | 'integer' | 'date' | 'unknown';
+}
+
+/**
+ * Plain extent object. Autocasts to __esri.Extent when passed to MapView.goTo()
+ */
+export interface RoadDataExtent {
+  type: 'extent';
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+  spatialReference: { wkid: number };
+}
+
+export interface RoadExtentResult {
+  extent: __esri.Extent | RoadDataExtent | null;
+  count: number;
+}
+
+export interface RoadDataSource {
+  /** Human-readable identifier (layer title or file name) */
+  readonly id: string;
+  readonly kind: RoadDataSourceKind;
+  /** Maximum features returned by a single query (used for pagination) */
+  readonly maxRecordCount: number;
+  /** Unique integer ID field, used for object-ID range pagination */
+  readonly objectIdField: string;
+  readonly fields: RoadDataField[];
+  /** Filter applied to every query, like FeatureLayer.definitionExpression */
+  definitionExpression: string | null;
+  /** Area applied to every query like definitionExpression; segments must intersect it */
+  spatialFilter: SpatialFilterGeometry | null;
+
+  hasField(fieldName: string): boolean;
+  query(params: RoadQueryParams): Promise<RoadQueryResult>;
+  queryCount(where?: string, signal?: AbortSignal): Promise<number>;
+  queryUniqueValues(fieldName: string, where?: string): Promise<Array<string | number>>;
+  queryExtent(where?: string): Promise<RoadExtentResult>;
+  /**
+   * A new source over the same segments without the definition expression,
+   * carrying the current area filter (clear it on the copy if not wanted).
+   * For reading whole routes in sequence whatever the other filters are.
+   */
+  withoutDefinitionExpression(): Promise<RoadDataSource>;
+}
+
+/**
+ * Anything the services accept as road data: a data source, or a raw FeatureLayer
+ * which is wrapped on demand.
+ */
+export type RoadDataInput = RoadDataSource | FeatureLayer;
+
+/**
+ * ============================================================================
+ * FEATURE LAYER IMPLEMENTATION
+ * ============================================================================
+ */
+
+function mapFieldType(type: string): RoadDataField['type'] {
+  switch (type) {
+    case 'oid':
+    case 'string':
+    case 'double':
+    case 'integer':
+    case 'date':
+      return type;
+    case 'small-integer':
+    case 'big-integer':
+    case 'long':
+      return 'integer';
+    case 'single':
+      return 'double';
+    default:
+      return 'unknown';
+  }
+}
+
+export class FeatureLayerRoadDataSource implements RoadDataSource {
+  readonly kind = 'featureLayer' as const;
+  spatialFilter: SpatialFilterGeometry | null = null;
+  // Copy of the layer without a definition expression, loaded on first use
+  private networkLayer: FeatureLayer | null = null;
+
+  constructor(public readonly layer: FeatureLayer) {}
+
+  get id(): string {
+    return this.layer.title || this.layer.id;
+  }
+
+  get maxRecordCount(): number {
+    return this.layer.capabilities?.query?.maxRecordCount || 2000;
+  }
+
+  get objectIdField(): string {
+    return this.layer.objectIdField || 'OBJECTID';
+  }
+
+  get definitionExpression(): string | null {
+    return this.layer.definitionExpression || null;
+  }
+
+  set definitionExpression(value: string | null) {
+    this.layer.definitionExpression = value as string;
+  }
+
+  get fields(): RoadDataField[] {
+    return (this.layer.fields || []).map(field => ({
+      name: field.name,
+      type: mapFieldType(field.type)
+    }));
+  }
+
+  hasField(fieldName: string): boolean {
+    return (this.layer.fields || []).some(field => field.name === fieldName);
+  }
+
+  private createQuery(where?: string): __esri.Query {
+    const query = this.layer.createQuery();
+    query.where = where || '1=1';
+    if (this.spatialFilter) {
+      query.geometry = Polygon.fromJSON(this.spatialFilter);
+      query.spatialRelationship = 'intersects';
+    }
+    return query;
+  }
+
+  async query(params: RoadQueryParams): Promise<RoadQueryResult> {
+    const query = this.createQuery(params.where);
+    query.returnGeometry = params.returnGeometry ?? false;
+
+    if (params.outFields) query.outFields = params.outFields;
+    if (params.outStatistics) query.outStatistics = params.outStatistics as any;
+    if (params.groupByFieldsForStatistics) query.groupByFieldsForStatistics = params.groupByFieldsForStatistics;
+    if (params.returnDistinctValues) query.returnDistinctValues = true;
+    if (params.orderByFields) query.orderByFields = params.orderByFields;
+    if (params.start !== undefined) query.start = params.start;
+    if (params.num !== undefined) query.num = params.num;
+
+    const result = await this.layer.queryFeatures(query, params.signal ? { signal: params.signal } : undefined);
+    return { features: result.features };
+  }
+
+  async queryCount(where?: string, signal?: AbortSignal): Promise<number> {
+    const query = this.createQuery(where);
+    return this.layer.queryFeatureCount(query, signal ? { signal } : undefined);
+  }
+
+  async queryUniqueValues(fieldName: string, where?: string): Promise<Array<string | number>> {
+    const result = await this.query({
+      where,
+      outFields: [fieldName],
+      returnDistinctValues: true,
+      orderByFields: [fieldName]
+    });
+    return result.features
+      .map(feature => feature.attributes[fieldName])
+      .filter(value => value !== null && value !== undefined && value !== '');
+  }
+
+  async queryExtent(where?: string): Promise<RoadExtentResult> {
+    const query = this.createQuery(where);
+    query.returnGeometry = true;
+    query.outFields = [];
+
+    const result = await this.layer.queryExtent(query);
+    return { extent: result.extent ?? null, count: result.count };
+  }
+
+  async withoutDefinitionExpression(): Promise<RoadDataSource> {
+    // The layer applies its definition expression to every query, so a second layer is needed
+    this.networkLayer ??= new FeatureLayer({ url: this.layer.url, outFields: ['*'] });
+    await this.networkLayer.load();
+
+    const source = new FeatureLayerRoadDataSource(this.networkLayer);
+    source.spatialFilter = this.spatialFilter;
+    return source;
+  }
+}
+
+/**
+ * ============================================================================
+ * RESOLUTION HELPERS
+ * ============================================================================
+ */
+
+/**
+ * Wrapped layers are cached so repeated service calls share one adapter
+ */
+const layerSourceCache = new WeakMap<FeatureLayer, FeatureLayerRoadDataSource>();
+
+export function isRoadDataSource(input: unknown): input is RoadDataSource {
+  return !!input &&
+    typeof (input as RoadDataSource).query === 'function' &&
+    typeof (input as RoadDataSource).queryCount === 'function' &&
+    typeof (input as RoadDataSource).kind === 'string';
+}
+
+/**
+ * Normalise a service input into a RoadDataSource
+ */
+export function toRoadDataSource(input: RoadDataInput): RoadDataSource;
+export function toRoadDataSource(input: RoadDataInput | null | undefined): RoadDataSource | null;
+export function toRoadDataSource(input: RoadDataInput | null | undefined): RoadDataSource | null {
+  if (!input) return null;
+  if (isRoadDataSource(input)) return input;
+
+  let source = layerSourceCache.get(input);
+  if (!source) {
+    source = new FeatureLayerRoadDataSource(input);
+    layerSourceCache.set(input, source);
+  }
+  return source;
+}
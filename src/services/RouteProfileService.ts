@@ -0,0 +1,90 @@
+/**
+ * RouteProfileService.ts
+ *
+ * Linear condition profile of a single route. Every segment of the route is
+ * read, whatever the dashboard filters, with its geometry and the KPI values
+ * of all survey years (including the composite index, scored with the active
+ * weights), then placed along the route by utils/routeProfile.ts.
+ */
+
+import PaginationService from './PaginationService';
+import CompositeIndexService from './CompositeIndexService';
+import HotspotService, { type HotspotGeometry } from './HotspotService';
+import { toRoadDataSource, type RoadDataInput } from './RoadDataSource';
+import { SEGMENT_LENGTH_KM, SURVEY_YEARS } from '@/config/constants';
+import { COMPOSITE_KPI, MEASURED_KPIS, type KPIKey } from '@/config/kpiConfig';
+import { ROAD_FIELDS, getKPIFieldName } from '@/config/layerConfig';
+import { applyComposites } from '@/utils/compositeIndex';
+import { buildRouteProfile, type ProfileSeries, type RouteProfilePoint } from '@/utils/routeProfile';
+import { where, renderWhere } from '@/utils/whereClause';
+
+export interface RouteProfileSegment extends RouteProfilePoint {
+  geometry: HotspotGeometry | null;
+}
+
+export interface RouteProfile {
+  route: string;
+  segments: RouteProfileSegment[];
+  lengthKm: number;
+}
+
+export class RouteProfileService {
+  /**
+   * Every KPI in every survey year
+   */
+  static getSeries(): ProfileSeries[] {
+    return ([...MEASURED_KPIS, COMPOSITE_KPI] as KPIKey[]).flatMap(kpi =>
+      SURVEY_YEARS.map(year => ({ kpi, year, field: getKPIFieldName(kpi, year) }))
+    );
+  }
+
+  /**
+   * Profile of one route, segments ordered along the route
+   *
+   * @param layer - Road data source (or FeatureLayer); its filters are ignored
+   * @param route - Route identifier, e.g. 'R123'
+   * @param signal - Aborting cancels outstanding page requests
+   */
+  static async getRouteProfile(
+    layer: RoadDataInput,
+    route: string,
+    signal?: AbortSignal
+  ): Promise<RouteProfile> {
+    // Filters would leave gaps in the profile, so read the route from an unfiltered copy
+    const source = await toRoadDataSource(layer).withoutDefinitionExpression();
+    source.spatialFilter = null;
+    const objectIdField = source.objectIdField;
+    const composites = SURVEY_YEARS.map(year => CompositeIndexService.buildSpec(year));
+
+    console.log(`[RouteProfileService] Loading profile for route ${route}`);
+
+    const { features } = await PaginationService.queryAllFeatures(source, {
+      where: renderWhere(where.eq(ROAD_FIELDS.route, route)),
+      outFields: [
+        objectIdField,
+        ROAD_FIELDS.la,
+        ...MEASURED_KPIS.flatMap(kpi => SURVEY_YEARS.map(year => getKPIFieldName(kpi, year)))
+      ],
+      returnGeometry: true,
+      signal
+    });
+
+    const geometries = new Map(features.map(feature => [feature.attributes[objectIdField], feature.geometry]));
+    const rows = applyComposites(features.map(feature => feature.attributes), composites);
+
+    const segments = buildRouteProfile(rows, objectIdField, ROAD_FIELDS.la, this.getSeries()).map(point => ({
+      ...point,
+      geometry: HotspotService.mergeGeometries([geometries.get(point.id)])
+    }));
+
+    console.log(`[RouteProfileService] Route ${route} has ${segments.length} segments`);
+
+    return {
+      route,
+      segments,
+      lengthKm: Math.round(segments.length * SEGMENT_LENGTH_KM * 10) / 10
+    };
+  }
+}
+
+export default RouteProfileService;
@@ -0,0 +1,224 @@
+/**
+ * SegmentPopupService.ts
+ *
+ * Popup for the road layer: route, LA and subgroup flags of the clicked
+ * segment, then every KPI in every survey year with its condition class,
+ * a small trend chart and the change since the previous survey.
+ *
+ * Content is rendered when the popup opens, so it always follows the active
+ * threshold profile and composite weights.
+ */
+
+import PopupTemplate from '@arcgis/core/PopupTemplate';
+import CompositeIndexService from './CompositeIndexService';
+import { SURVEY_YEARS } from '@/config/constants';
+import {
+  COMPOSITE_KPI,
+  KPI_LABELS,
+  MEASURED_KPIS,
+  getKPIClassification,
+  type KPIKey
+} from '@/config/kpiConfig';
+import { ROAD_FIELDS, SUBGROUP_OPTIONS, getKPIFieldName } from '@/config/layerConfig';
+import { CLASS_LABELS } from '@/config/rendererConfig';
+import { applyComposites } from '@/utils/compositeIndex';
+import { DEFAULT_SUBGROUP_KEY } from '@/utils/deteriorationModel';
+import {
+  getSegmentHistory,
+  getValueDecimals,
+  type ChangeDirection,
+  type KPIHistory
+} from '@/utils/segmentHistory';
+import { getConditionColors } from '@/utils/themeHelpers';
+
+const POPUP_KPIS: KPIKey[] = [...MEASURED_KPIS, COMPOSITE_KPI];
+
+const SPARKLINE_WIDTH = 64;
+const SPARKLINE_HEIGHT = 20;
+const SPARKLINE_PADDING = 3;
+
+const DIRECTION_SYMBOLS: Record<ChangeDirection, string> = {
+  better: '▲',
+  worse: '▼',
+  same: '■'
+};
+
+const DIRECTION_COLORS: Record<ChangeDirection, string> = {
+  better: 'var(--color-condition-very-good-map)',
+  worse: 'var(--color-condition-very-poor-map)',
+  same: 'inherit'
+};
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+type Row = Record<string, any>;
+
+const rgba = ([r, g, b]: number[], alpha: number) => `rgba(${r}, ${g}, ${b}, ${alpha})`;
+
+function element<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  style: Partial<CSSStyleDeclaration> = {},
+  text?: string
+): HTMLElementTagNameMap[K] {
+  const node = document.createElement(tag);
+  Object.assign(node.style, style);
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+export class SegmentPopupService {
+  /**
+   * Fields the popup reads: identification, subgroup flags and every KPI value
+   */
+  static getOutFields(): string[] {
+    const subgroupFields = SUBGROUP_OPTIONS
+      .map(option => option.value)
+      .filter(field => field !== DEFAULT_SUBGROUP_KEY);
+    const kpiFields = MEASURED_KPIS.flatMap(kpi => SURVEY_YEARS.map(year => getKPIFieldName(kpi, year)));
+    return [ROAD_FIELDS.route, ROAD_FIELDS.la, ...subgroupFields, ...kpiFields];
+  }
+
+  /**
+   * Popup template for the road layer (replaces any popup the WebMap defines)
+   */
+  static createPopupTemplate(): PopupTemplate {
+    return new PopupTemplate({
+      title: `{${ROAD_FIELDS.route}} – {${ROAD_FIELDS.la}}`,
+      outFields: this.getOutFields(),
+      content: (event: __esri.PopupTemplateCreatorEvent) => this.renderContent(event.graphic.attributes ?? {})
+    });
+  }
+
+  /**
+   * Subgroup labels of a segment; segments with no subgroup flag are Rural
+   */
+  static getSubgroupLabels(attributes: Row): string[] {
+    const labels = SUBGROUP_OPTIONS
+      .filter(option => option.value !== DEFAULT_SUBGROUP_KEY && Number(attributes[option.value]) === 1)
+      .map(option => option.label);
+    return labels.length > 0 ? labels : [DEFAULT_SUBGROUP_KEY];
+  }
+
+  static renderContent(attributes: Row): HTMLElement {
+    const [row] = applyComposites([attributes], SURVEY_YEARS.map(year => CompositeIndexService.buildSpec(year)));
+    const history = getSegmentHistory(row, POPUP_KPIS);
+    const colors = getConditionColors();
+
+    const container = element('div', { fontSize: '12px' });
+
+    const flags = element('div', { marginBottom: '8px', display: 'flex', flexWrap: 'wrap', gap: '4px' });
+    this.getSubgroupLabels(attributes).forEach(label => {
+      flags.appendChild(element('span', {
+        padding: '0 6px',
+        borderRadius: '4px',
+        border: '1px solid currentColor',
+        opacity: '0.8'
+      }, label));
+    });
+    container.appendChild(flags);
+
+    const table = element('table', { width: '100%', borderCollapse: 'collapse' });
+    const header = element('tr');
+    ['KPI', ...SURVEY_YEARS.map(String), 'Trend', 'Change'].forEach(text => {
+      header.appendChild(element('th', { textAlign: 'left', padding: '2px 4px', fontWeight: '600' }, text));
+    });
+    table.appendChild(header);
+
+    history.forEach(kpiHistory => table.appendChild(this.renderRow(kpiHistory, colors)));
+    container.appendChild(table);
+
+    container.appendChild(element('div', { marginTop: '6px', opacity: '0.7' },
+      'Classes follow the active threshold profile. Trend charts point up when condition improves.'));
+    return container;
+  }
+
+  private static renderRow(history: KPIHistory, colors: Record<string, number[]>): HTMLTableRowElement {
+    const { kpi, readings, change, direction } = history;
+    const decimals = getValueDecimals(kpi);
+    const { unit } = getKPIClassification(kpi);
+    const row = element('tr', { borderTop: '1px solid rgba(128, 128, 128, 0.25)' });
+
+    row.appendChild(element('td', { padding: '2px 4px', whiteSpace: 'nowrap' }, KPI_LABELS[kpi]));
+
+    readings.forEach(reading => {
+      const cell = element('td', { padding: '2px 4px', whiteSpace: 'nowrap' },
+        reading.value === null ? '–' : reading.value.toFixed(decimals));
+      if (reading.conditionClass) {
+        cell.style.background = rgba(colors[reading.conditionClass], 0.35);
+        cell.title = CLASS_LABELS[reading.conditionClass];
+      }
+      row.appendChild(cell);
+    });
+
+    const trendCell = element('td', { padding: '2px 4px' });
+    trendCell.appendChild(this.renderSparkline(history, colors));
+    row.appendChild(trendCell);
+
+    const changeText = change === null
+      ? '–'
+      : `${change > 0 ? '+' : ''}${change.toFixed(decimals)}${unit ? ` ${unit}` : ''}`;
+    const changeCell = element('td', { padding: '2px 4px', whiteSpace: 'nowrap' });
+    if (direction) {
+      changeCell.appendChild(element('span', { color: DIRECTION_COLORS[direction], marginRight: '4px' },
+        DIRECTION_SYMBOLS[direction]));
+    }
+    changeCell.appendChild(document.createTextNode(changeText));
+    row.appendChild(changeCell);
+
+    return row;
+  }
+
+  /**
+   * Values over the survey years, scaled to the segment's own range and
+   * flipped for lower-is-better KPIs so up always means better
+   */
+  private static renderSparkline(history: KPIHistory, colors: Record<string, number[]>): SVGSVGElement {
+    const svg = document.createElementNS(SVG_NS, 'svg');
+    svg.setAttribute('width', String(SPARKLINE_WIDTH));
+    svg.setAttribute('height', String(SPARKLINE_HEIGHT));
+
+    const points = history.readings.filter(reading => reading.value !== null);
+    if (points.length === 0) return svg;
+
+    const { higherIsBetter } = getKPIClassification(history.kpi);
+    const values = points.map(point => point.value as number);
+    const min = Math.min(...values);
+    const span = Math.max(...values) - min;
+    const firstYear = SURVEY_YEARS[0];
+    const yearSpan = SURVEY_YEARS[SURVEY_YEARS.length - 1] - firstYear;
+    const innerWidth = SPARKLINE_WIDTH - SPARKLINE_PADDING * 2;
+    const innerHeight = SPARKLINE_HEIGHT - SPARKLINE_PADDING * 2;
+
+    const coordinates = points.map(point => {
+      const share = span === 0 ? 0.5 : ((point.value as number) - min) / span;
+      const height = higherIsBetter ? share : 1 - share;
+      return {
+        x: SPARKLINE_PADDING + ((point.year - firstYear) / yearSpan) * innerWidth,
+        y: SPARKLINE_PADDING + (1 - height) * innerHeight,
+        conditionClass: point.conditionClass
+      };
+    });
+
+    if (coordinates.length > 1) {
+      const line = document.createElementNS(SVG_NS, 'polyline');
+      line.setAttribute('points', coordinates.map(({ x, y }) => `${x},${y}`).join(' '));
+      line.setAttribute('fill', 'none');
+      line.setAttribute('stroke', 'currentColor');
+      line.setAttribute('stroke-opacity', '0.5');
+      svg.appendChild(line);
+    }
+
+    coordinates.forEach(({ x, y, conditionClass }) => {
+      const dot = document.createElementNS(SVG_NS, 'circle');
+      dot.setAttribute('cx', String(x));
+      dot.setAttribute('cy', String(y));
+      dot.setAttribute('r', '2.5');
+      dot.setAttribute('fill', conditionClass ? rgba(colors[conditionClass], 1) : 'currentColor');
+      svg.appendChild(dot);
+    });
+
+    return svg;
+  }
+}
+
+export default SegmentPopupService;
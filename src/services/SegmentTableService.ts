@@ -0,0 +1,211 @@
+/**
+ * SegmentTableService.ts
+ *
+ * Segment attribute table: the individual 100 m segments behind the
+ * statistics, matching the filters and chart selections. Rows are fetched a
+ * page at a time in a server-side sort order (object ID breaks ties so pages
+ * are stable), and the whole view can be exported as CSV.
+ */
+
+import PaginationService from './PaginationService';
+import QueryService from './QueryService';
+import StatisticsService from './StatisticsService';
+import HotspotService, { type HotspotGeometry } from './HotspotService';
+import { toRoadDataSource, type RoadDataInput } from './RoadDataSource';
+import { SURVEY_YEARS, type SurveyYear } from '@/config/constants';
+import { KPI_LABELS, MEASURED_KPIS, type MeasuredKPIKey } from '@/config/kpiConfig';
+import { ROAD_FIELDS, getKPIFieldName } from '@/config/layerConfig';
+import type { ChartSelection, SegmentFilters } from '@/types';
+import { where, renderWhere, type WhereClause } from '@/utils/whereClause';
+
+export interface SegmentTableColumn {
+  kpi: MeasuredKPIKey;
+  year: SurveyYear;
+  field: string;
+}
+
+export interface SegmentTableSort {
+  field: string;
+  descending: boolean;
+}
+
+export interface SegmentTablePage {
+  rows: Array<Record<string, any>>;
+  totalCount: number;
+}
+
+export class SegmentTableService {
+  /**
+   * KPI value columns: every measured KPI in every survey year
+   */
+  static getKPIColumns(): SegmentTableColumn[] {
+    return MEASURED_KPIS.flatMap(kpi =>
+      SURVEY_YEARS.map(year => ({ kpi, year, field: getKPIFieldName(kpi, year) }))
+    );
+  }
+
+  static getOutFields(layer: RoadDataInput): string[] {
+    return [
+      toRoadDataSource(layer).objectIdField,
+      ROAD_FIELDS.route,
+      ROAD_FIELDS.la,
+      ...this.getKPIColumns().map(column => column.field)
+    ];
+  }
+
+  /**
+   * Segments matching the filters and, when there are any, the chart selections
+   */
+  static buildWhere(
+    filters: SegmentFilters,
+    chartSelections: ChartSelection[]
+  ): string {
+    return renderWhere(where.and(
+      QueryService.buildFilterClause(filters),
+      StatisticsService.buildChartSelectionClause(chartSelections)
+    ));
+  }
+
+  static getOrderBy(layer: RoadDataInput, sort: SegmentTableSort | null): string[] {
+    const objectIdField = toRoadDataSource(layer).objectIdField;
+    if (!sort || sort.field === objectIdField) {
+      return [`${objectIdField} ${sort?.descending ? 'DESC' : 'ASC'}`];
+    }
+    return [`${sort.field} ${sort.descending ? 'DESC' : 'ASC'}`, `${objectIdField} ASC`];
+  }
+
+  /**
+   * One page of the table
+   *
+   * @param start - Zero-based index of the first row
+   */
+  static async queryPage(
+    layer: RoadDataInput,
+    whereClause: string,
+    sort: SegmentTableSort | null,
+    start: number,
+    num: number,
+    signal?: AbortSignal
+  ): Promise<SegmentTablePage> {
+    const { features, totalCount } = await PaginationService.queryPage(layer, {
+      where: whereClause,
+      outFields: this.getOutFields(layer),
+      orderByFields: this.getOrderBy(layer, sort),
+      start,
+      num,
+      signal
+    });
+
+    return { rows: features.map(feature => feature.attributes), totalCount };
+  }
+
+  /**
+   * Position of a segment in the sorted table, or null if it is not in the view
+   *
+   * Sources differ in where they sort nulls, so each possible position is
+   * checked by fetching the row there.
+   */
+  static async findRowIndex(
+    layer: RoadDataInput,
+    whereClause: string,
+    sort: SegmentTableSort | null,
+    objectId: number,
+    signal?: AbortSignal
+  ): Promise<number | null> {
+    const source = toRoadDataSource(layer);
+    const objectIdField = source.objectIdField;
+    const view = where.raw(whereClause);
+    const countWhere = (clause: WhereClause) => source.queryCount(renderWhere(where.and(view, clause)));
+
+    const { features } = await source.query({
+      where: renderWhere(where.and(view, where.eq(objectIdField, objectId))),
+      outFields: [objectIdField, ...(sort ? [sort.field] : [])],
+      signal
+    });
+    if (features.length === 0) return null;
+
+    const sortField = sort && sort.field !== objectIdField ? sort.field : null;
+    const idBefore = sort?.descending && !sortField ? where.gt(objectIdField, objectId) : where.lt(objectIdField, objectId);
+
+    let candidates: number[];
+    if (!sortField) {
+      candidates = [await countWhere(idBefore)];
+    } else {
+      const value = features[0].attributes[sortField];
+      if (value === null || value === undefined) {
+        const [nullsBefore, nonNull] = await Promise.all([
+          countWhere(where.and(where.isNull(sortField), idBefore)),
+          countWhere(where.isNotNull(sortField))
+        ]);
+        candidates = [nonNull + nullsBefore, nullsBefore];
+      } else {
+        const better: WhereClause = { type: 'compare', field: sortField, operator: sort!.descending ? '>' : '<', value };
+        const [before, nulls] = await Promise.all([
+          countWhere(where.or(better, where.and(where.eq(sortField, value), idBefore))),
+          countWhere(where.isNull(sortField))
+        ]);
+        candidates = [before, before + nulls];
+      }
+    }
+
+    for (const index of candidates) {
+      const { rows } = await this.queryPage(layer, whereClause, sort, index, 1, signal);
+      if (rows[0]?.[objectIdField] === objectId) return index;
+    }
+    return null;
+  }
+
+  /**
+   * Geometry of one segment, for highlighting it on the map
+   */
+  static async getSegmentGeometry(layer: RoadDataInput, objectId: number): Promise<HotspotGeometry | null> {
+    const source = toRoadDataSource(layer);
+    const { features } = await source.query({
+      where: renderWhere(where.eq(source.objectIdField, objectId)),
+      outFields: [source.objectIdField],
+      returnGeometry: true
+    });
+    return HotspotService.mergeGeometries(features.map(feature => feature.geometry));
+  }
+
+  /**
+   * CSV of every row in the view, in table order
+   */
+  static async exportCSV(
+    layer: RoadDataInput,
+    whereClause: string,
+    sort: SegmentTableSort | null,
+    onProgress?: (current: number, total?: number) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const { features } = await PaginationService.queryAllFeatures(layer, {
+      where: whereClause,
+      outFields: this.getOutFields(layer),
+      orderByFields: this.getOrderBy(layer, sort),
+      onProgress,
+      signal
+    });
+
+    const objectIdField = toRoadDataSource(layer).objectIdField;
+    const columns = this.getKPIColumns();
+    const quote = (value: unknown) =>
+      value === null || value === undefined ? '' : `"${String(value).replace(/"/g, '""')}"`;
+
+    const header = [
+      'Segment ID',
+      'Route',
+      'Local Authority',
+      ...columns.map(column => `${KPI_LABELS[column.kpi]} ${column.year}`)
+    ];
+    const lines = features.map(({ attributes }) => [
+      attributes[objectIdField],
+      quote(attributes[ROAD_FIELDS.route]),
+      quote(attributes[ROAD_FIELDS.la]),
+      ...columns.map(column => attributes[column.field] ?? '')
+    ].join(','));
+
+    return [header.join(','), ...lines].join('\n');
+  }
+}
+
+export default SegmentTableService;
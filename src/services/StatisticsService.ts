@@ -1,17 +1,28 @@
-import type FeatureLayer from '@arcgis/core/layers/FeatureLayer';
-import Query from '@arcgis/core/rest/support/Query';
 import {
   CONFIG,
   SEGMENT_LENGTH_KM
 } from '@/config/appConfig';
-import { KPIKey, KPI_THRESHOLDS } from '@/config/kpiConfig';
+import { canUseClassFields, isCompositeKPI, type KPIKey, type ConditionClass } from '@/config/kpiConfig';
 import {
   getKPIFieldName,
-  SUBGROUP_CODE_TO_FIELD,
   SUBGROUP_OPTIONS,
   ROAD_FIELDS
 } from '@/config/layerConfig';
 import QueryService from './QueryService';
+import CompositeIndexService from './CompositeIndexService';
+import { where, renderWhere, type WhereClause } from '@/utils/whereClause';
+import {
+  CONDITION_CLASSES,
+  conditionClassWhereClause,
+  getClassificationExpressions,
+  getConditionClassForClassValue
+} from '@/utils/conditionClassification';
+import {
+  toRoadDataSource,
+  type RoadDataInput,
+  type RoadDataSource,
+  type RoadStatisticDefinition
+} from './RoadDataSource';
 import type { FilterState, SummaryStatistics, GroupedConditionStats } from '@/types';
 
 interface ChartSelection {
@@ -29,76 +40,13 @@ export default class StatisticsService {
 
   /**
    * Helper: Get CASE expressions for classifying KPI values
-   * Updated with correct PSCI classification (4 classes)
+   * Generated from the shared class bands in kpiConfig
    */
   private static getClassificationExpressions(
     kpi: KPIKey,
     kpiField: string
-  ): { veryGood: string; good: string; fair: string; poor: string; veryPoor: string } {
-    const thresholds = KPI_THRESHOLDS[kpi];
-
-    // Lower-is-better KPIs
-    if (kpi === 'iri' || kpi === 'rut' || kpi === 'lpv3') {
-      const vg = thresholds.veryGood || thresholds.good;
-      const g = thresholds.good;
-      const f = thresholds.fair;
-      const p = thresholds.poor || f;
-      return {
-        veryGood: `CASE WHEN ${kpiField} < ${vg} THEN 1 ELSE 0 END`,
-        good:     `CASE WHEN ${kpiField} >= ${vg} AND ${kpiField} < ${g} THEN 1 ELSE 0 END`,
-        fair:     `CASE WHEN ${kpiField} >= ${g} AND ${kpiField} < ${f} THEN 1 ELSE 0 END`,
-        poor:     `CASE WHEN ${kpiField} >= ${f} AND ${kpiField} < ${p} THEN 1 ELSE 0 END`,
-        veryPoor: `CASE WHEN ${kpiField} >= ${p} THEN 1 ELSE 0 END`,
-      };
-    }
-
-    // CSC (higher is better, inverted)
-    if (kpi === 'csc') {
-      const vg = thresholds.good;      // >= 0.50
-      const g = thresholds.fair;       // >= 0.45
-      const f = thresholds.poor!;      // >= 0.40
-      const vp = thresholds.veryPoor!; // <= 0.35
-      return {
-        veryGood: `CASE WHEN ${kpiField} > ${vg} THEN 1 ELSE 0 END`,
-        good:     `CASE WHEN ${kpiField} > ${g}  AND ${kpiField} <= ${vg} THEN 1 ELSE 0 END`,
-        fair:     `CASE WHEN ${kpiField} > ${f}  AND ${kpiField} <= ${g}  THEN 1 ELSE 0 END`,
-        poor:     `CASE WHEN ${kpiField} > ${vp} AND ${kpiField} <= ${f}  THEN 1 ELSE 0 END`,
-        veryPoor: `CASE WHEN ${kpiField} <= ${vp} THEN 1 ELSE 0 END`,
-      };
-    }
-
-    // PSCI (4 classes: 9-10, 7-8, 5-6, 1-4)
-    if (kpi === 'psci') {
-      return {
-        veryGood: `CASE WHEN ${kpiField} >= 9 THEN 1 ELSE 0 END`,
-        good:     `CASE WHEN ${kpiField} >= 7 AND ${kpiField} < 9 THEN 1 ELSE 0 END`,
-        fair:     `CASE WHEN ${kpiField} >= 5 AND ${kpiField} < 7 THEN 1 ELSE 0 END`,
-        poor:     `CASE WHEN ${kpiField} >= 1 AND ${kpiField} < 5 THEN 1 ELSE 0 END`,
-        veryPoor: `CASE WHEN 1=0 THEN 1 ELSE 0 END`  // No class 5 for PSCI
-      };
-    }
-
-    // MPD (3 classes: Good, Fair, Poor)
-    if (kpi === 'mpd') {
-      const good = thresholds.good; // >= 0.7
-      const poor = thresholds.poor!; // < 0.6
-      return {
-        veryGood: `CASE WHEN ${kpiField} >= ${good} THEN 1 ELSE 0 END`,
-        good:     `CASE WHEN 1=0 THEN 1 ELSE 0 END`,  // No separate good class
-        fair:     `CASE WHEN ${kpiField} >= ${poor} AND ${kpiField} < ${good} THEN 1 ELSE 0 END`,
-        poor:     `CASE WHEN 1=0 THEN 1 ELSE 0 END`,  // No separate poor class
-        veryPoor: `CASE WHEN ${kpiField} < ${poor} THEN 1 ELSE 0 END`
-      };
-    }
-
-    // Default fallback
-    return {
-      veryGood: 'CASE WHEN 1=0 THEN 1 ELSE 0 END',
-      good:     'CASE WHEN 1=0 THEN 1 ELSE 0 END',
-      fair:     'CASE WHEN 1=0 THEN 1 ELSE 0 END',
-      poor:     'CASE WHEN 1=0 THEN 1 ELSE 0 END',
-      veryPoor: 'CASE WHEN 1=0 THEN 1 ELSE 0 END'
-    };
+  ): Record<ConditionClass, string> {
+    return getClassificationExpressions(kpi, kpiField);
   }
 
   /**
@@ -107,37 +55,35 @@ export default class StatisticsService {
    * UPDATED: Now performs a single query for counts AND avg/min/max
    */
   private static async calculateStatsWithClassFields(
-    layer: __esri.FeatureLayer,
+    source: RoadDataSource,
     kpi: KPIKey,
     year: number,
     filters: FilterState
   ): Promise<SummaryStatistics> {
     const classFieldName = getKPIFieldName(kpi, year, true);  // Get class field name
     const rawKpiField = getKPIFieldName(kpi, year, false); // Get raw field name
-    const where = QueryService.buildDefinitionExpression(filters);
+    const filterClause = QueryService.buildFilterClause(filters);
 
     // Build statistics definition for class field counts
-    const statDefinitions = [
+    const statDefinitions: RoadStatisticDefinition[] = [
       // Overall stats
-      { onStatisticField: '1', outStatisticFieldName: 'total_segment_count', statisticType: 'count' as const },
-      { onStatisticField: rawKpiField, outStatisticFieldName: 'avg_val', statisticType: 'avg' as const },
-      { onStatisticField: rawKpiField, outStatisticFieldName: 'min_val', statisticType: 'min' as const },
-      { onStatisticField: rawKpiField, outStatisticFieldName: 'max_val', statisticType: 'max' as const },
+      { onStatisticField: '1', outStatisticFieldName: 'total_segment_count', statisticType: 'count' },
+      { onStatisticField: rawKpiField, outStatisticFieldName: 'avg_val', statisticType: 'avg' },
+      { onStatisticField: rawKpiField, outStatisticFieldName: 'min_val', statisticType: 'min' },
+      { onStatisticField: rawKpiField, outStatisticFieldName: 'max_val', statisticType: 'max' },
       // Class counts
-      { onStatisticField: `CASE WHEN ${classFieldName} = 1 THEN 1 ELSE 0 END`, outStatisticFieldName: 'class1_sum', statisticType: 'sum' as const },
-      { onStatisticField: `CASE WHEN ${classFieldName} = 2 THEN 1 ELSE 0 END`, outStatisticFieldName: 'class2_sum', statisticType: 'sum' as const },
-      { onStatisticField: `CASE WHEN ${classFieldName} = 3 THEN 1 ELSE 0 END`, outStatisticFieldName: 'class3_sum', statisticType: 'sum' as const },
-      { onStatisticField: `CASE WHEN ${classFieldName} = 4 THEN 1 ELSE 0 END`, outStatisticFieldName: 'class4_sum', statisticType: 'sum' as const },
-      { onStatisticField: `CASE WHEN ${classFieldName} = 5 THEN 1 ELSE 0 END`, outStatisticFieldName: 'class5_sum', statisticType: 'sum' as const }
+      ...[1, 2, 3, 4, 5].map(classValue => ({
+        onStatisticField: `CASE WHEN ${classFieldName} = ${classValue} THEN 1 ELSE 0 END`,
+        outStatisticFieldName: `class${classValue}_sum`,
+        statisticType: 'sum' as const
+      }))
     ];
 
-    // Create query with grouping by class value
-    const query = layer.createQuery();
-    query.where = `${where} AND ${classFieldName} IS NOT NULL`;
-    query.outStatistics = statDefinitions;
     // NO grouping - we get all stats in one go
-
-    const result = await layer.queryFeatures(query);
+    const result = await source.query({
+      where: renderWhere(where.and(filterClause, where.isNotNull(classFieldName))),
+      outStatistics: statDefinitions
+    });
     
     if (result.features.length === 0 || !result.features[0].attributes) {
       return this.getEmptyStats(kpi);
@@ -145,32 +91,13 @@ export default class StatisticsService {
 
     const attrs = result.features[0].attributes;
 
-    // Parse results into counts by class
-    let veryGoodCount = 0;
-    let goodCount = 0;
-    let fairCount = 0;
-    let poorCount = 0;
-    let veryPoorCount = 0;
-
-    if (kpi === 'psci') {
-      // PSCI: 4 classes
-      veryGoodCount = attrs.class1_sum || 0;
-      goodCount = attrs.class2_sum || 0;
-      fairCount = attrs.class3_sum || 0;
-      poorCount = attrs.class4_sum || 0;
-    } else if (kpi === 'mpd') {
-      // MPD: 3 classes (map to 5-class structure)
-      veryGoodCount = attrs.class1_sum || 0; // Good → Very Good
-      fairCount = attrs.class2_sum || 0;     // Fair → Fair
-      veryPoorCount = attrs.class3_sum || 0; // Poor → Very Poor
-    } else {
-      // Standard 5 classes
-      veryGoodCount = attrs.class1_sum || 0;
-      goodCount = attrs.class2_sum || 0;
-      fairCount = attrs.class3_sum || 0;
-      poorCount = attrs.class4_sum || 0;
-      veryPoorCount = attrs.class5_sum || 0;
-    }
+    // Parse results into counts by class (class values differ per KPI, e.g. MPD 1-3)
+    const counts: Record<ConditionClass, number> = { veryGood: 0, good: 0, fair: 0, poor: 0, veryPoor: 0 };
+    [1, 2, 3, 4, 5].forEach(classValue => {
+      const conditionClass = getConditionClassForClassValue(kpi, classValue);
+      if (conditionClass) counts[conditionClass] += attrs[`class${classValue}_sum`] || 0;
+    });
+    const { veryGood: veryGoodCount, good: goodCount, fair: fairCount, poor: poorCount, veryPoor: veryPoorCount } = counts;
 
     // Calculate totals and percentages
     const totalSegments = veryGoodCount + goodCount + fairCount + poorCount + veryPoorCount;
@@ -213,13 +140,13 @@ export default class StatisticsService {
    * UPDATED: Now includes avg/min/max
    */
   private static async calculateStatsWithRawValues(
-    layer: __esri.FeatureLayer,
+    source: RoadDataSource,
     kpi: KPIKey,
     year: number,
     filters: FilterState
   ): Promise<SummaryStatistics> {
     const kpiField = getKPIFieldName(kpi, year, false);  // Get raw field name
-    const where = QueryService.buildDefinitionExpression(filters);
+    const filterClause = QueryService.buildFilterClause(filters);
 
     // Get classification expressions
     const classExpressions = this.getClassificationExpressions(kpi, kpiField);
@@ -273,11 +200,10 @@ export default class StatisticsService {
       }
     ];
 
-    const query = layer.createQuery();
-    query.where = `${where} AND ${kpiField} IS NOT NULL`;
-    query.outStatistics = statDefinitions;
-    
-    const result = await layer.queryFeatures(query);
+    const result = await source.query({
+      where: renderWhere(where.and(filterClause, where.isNotNull(kpiField))),
+      outStatistics: statDefinitions
+    });
 
     if (result.features.length === 0 || !result.features[0].attributes) {
       return this.getEmptyStats(kpi);
@@ -324,81 +250,47 @@ export default class StatisticsService {
     };
   }
 
-  private static buildConditionWhere(
-    baseWhere: string,
-    kpiField: string,
-    kpi: KPIKey,
-    conditionClass: 'good' | 'fair' | 'poor',
-    thresholds: typeof KPI_THRESHOLDS[KPIKey]
-  ): string {
-    let conditionClause = '';
-
-    if (kpi === 'iri' || kpi === 'rut' || kpi === 'lpv3') {
-      if (conditionClass === 'good') {
-        conditionClause = `${kpiField} < ${thresholds.good}`;
-      } else if (conditionClass === 'fair') {
-        conditionClause = `${kpiField} >= ${thresholds.good} AND ${kpiField} < ${thresholds.fair}`;
-      } else {
-        conditionClause = `${kpiField} >= ${thresholds.fair}`;
-      }
-    } else if (kpi === 'csc') {
-      const poorThreshold = thresholds.veryPoor || thresholds.poor!;
-      if (conditionClass === 'good') {
-        conditionClause = `${kpiField} >= ${thresholds.fair}`;
-      } else if (conditionClass === 'fair') {
-        conditionClause = `${kpiField} >= ${poorThreshold} AND ${kpiField} < ${thresholds.fair}`;
-      } else {
-        conditionClause = `${kpiField} < ${poorThreshold}`;
-      }
-    } else if (kpi === 'psci') {
-      if (conditionClass === 'good') {
-        conditionClause = `${kpiField} > 6`;
-      } else if (conditionClass === 'fair') {
-        conditionClause = `${kpiField} > 4 AND ${kpiField} <= 6`;
-      } else {
-        conditionClause = `${kpiField} <= 4`;
-      }
-    } else if (kpi === 'mpd') {
-      if (conditionClass === 'good') {
-        conditionClause = `${kpiField} >= ${thresholds.good}`;
-      } else if (conditionClass === 'fair') {
-        conditionClause = `${kpiField} >= ${thresholds.poor} AND ${kpiField} < ${thresholds.good}`;
-      } else {
-        conditionClause = `${kpiField} < ${thresholds.poor}`;
-      }
-    }
-
-    return `(${baseWhere}) AND ${conditionClause}`;
-    }
-
   /**
    * Computes overall summary statistics for a given KPI and filters.
    * This method orchestrates the use of pre-calculated class fields or raw value calculations.
-   * @param layer - The FeatureLayer to query.
+   * @param layer - The road data source (or FeatureLayer) to query.
    * @param filters - The current filter state.
    * @param kpi - The active KPI.
    * @returns A promise that resolves to SummaryStatistics.
    */
   static async computeSummary(
-    layer: __esri.FeatureLayer | null,
+    layer: RoadDataInput | null,
     filters: FilterState,
     kpi: KPIKey
   ): Promise<SummaryStatistics> {
-    if (!layer) {
+    const source = toRoadDataSource(layer);
+    if (!source) {
       console.error('[Statistics] Road layer not loaded - cannot calculate statistics');
       return this.getEmptyStats(kpi, filters.year);
     }
 
     const year = filters.year || CONFIG.defaultYear;
+
+    // The composite index has no layer field; it is scored per segment
+    if (isCompositeKPI(kpi)) {
+      console.log(`[StatisticsService] Scoring composite index for ${year}`);
+      return CompositeIndexService.computeSummary(source, year, filters);
+    }
+
     const classFieldName = getKPIFieldName(kpi, year, true);
-    const hasClassField = layer.fields.some(field => field.name === classFieldName);
+    const hasClassField = source.hasField(classFieldName);
+
+    if (hasClassField && !canUseClassFields()) {
+      console.log(`[StatisticsService] Custom thresholds active, classifying raw values for ${kpi} ${year}`);
+      return this.calculateStatsWithRawValues(source, kpi, year, filters);
+    }
 
     if (hasClassField) {
       console.log(`[StatisticsService] Using class fields for ${kpi} ${year}`);
-      return this.calculateStatsWithClassFields(layer, kpi, year, filters);
+      return this.calculateStatsWithClassFields(source, kpi, year, filters);
     } else {
       console.warn(`[StatisticsService] Class field '${classFieldName}' not found. Falling back to raw value calculation for ${kpi} ${year}.`);
-      return this.calculateStatsWithRawValues(layer, kpi, year, filters);
+      return this.calculateStatsWithRawValues(source, kpi, year, filters);
     }
   }
 
@@ -406,12 +298,13 @@ export default class StatisticsService {
    * Compute grouped statistics for charts (e.g., by Local Authority, Route, etc.)
    */
   static async computeGroupedStatistics( // This method is no longer used by EnhancedChartPanel but is kept for completeness
-    layer: __esri.FeatureLayer | null,
+    layer: RoadDataInput | null,
     filters: FilterState,
     activeKpi: KPIKey,
     groupByField: string
   ): Promise<any[]> {
-    if (!layer) {
+    const source = toRoadDataSource(layer);
+    if (!source) {
       console.error('[Statistics] Road layer not loaded - cannot calculate grouped statistics');
       return [];
     }
@@ -420,19 +313,19 @@ export default class StatisticsService {
       const year = filters.year || CONFIG.defaultYear;
       const kpiField = getKPIFieldName(activeKpi, year);
 
-      const baseWhere = (layer as any).definitionExpression || '1=1';
-      const whereClause = `(${baseWhere}) AND ${kpiField} IS NOT NULL`;
+      const whereClause = renderWhere(where.and(
+        where.raw(source.definitionExpression),
+        where.isNotNull(kpiField)
+      ));
 
-      const query = layer.createQuery();
-      query.where = whereClause;
-      query.returnGeometry = false;
-      query.groupByFieldsForStatistics = [groupByField];
-      query.outStatistics = [
-        { onStatisticField: kpiField, outStatisticFieldName: 'avg_value', statisticType: 'avg' },
-        { onStatisticField: kpiField, outStatisticFieldName: 'count_segments', statisticType: 'count' }
-      ] as any;
-
-      const result = await layer.queryFeatures(query);
+      const result = await source.query({
+        where: whereClause,
+        groupByFieldsForStatistics: [groupByField],
+        outStatistics: [
+          { onStatisticField: kpiField, outStatisticFieldName: 'avg_value', statisticType: 'avg' },
+          { onStatisticField: kpiField, outStatisticFieldName: 'count_segments', statisticType: 'count' }
+        ]
+      });
 
       return result.features.map(f => ({
         group: f.attributes[groupByField],
@@ -453,21 +346,30 @@ export default class StatisticsService {
    * UPDATED: Now includes avg/min/max in summary
    */
   static async computeGroupedStatisticsWithConditions(
-    layer: __esri.FeatureLayer | null,
+    layer: RoadDataInput | null,
     filters: FilterState,
     activeKpi: KPIKey,
     groupByField: string
   ): Promise<GroupedConditionStats[]> {
-    if (!layer) {
+    const source = toRoadDataSource(layer);
+    if (!source) {
       console.error('[Statistics] Road layer not loaded - cannot calculate grouped condition statistics');
       return [];
     }
 
     try {
       const year = filters.year || CONFIG.defaultYear;
+
+      if (isCompositeKPI(activeKpi)) {
+        return await CompositeIndexService.computeGroupedStatistics(source, year, groupByField, filters);
+      }
+
       const kpiField = getKPIFieldName(activeKpi, year);
-      const baseWhere = (layer as any).definitionExpression || '1=1';
-      const whereClause = `(${baseWhere}) AND ${kpiField} IS NOT NULL`;
+      const baseClause = where.and(
+        where.raw(source.definitionExpression),
+        where.isNotNull(kpiField)
+      );
+      const whereClause = renderWhere(baseClause);
       
       let groups: string[];
       
@@ -477,66 +379,46 @@ export default class StatisticsService {
         groups = SUBGROUP_OPTIONS.map(opt => opt.label);
       } else {
         // For regular fields, query unique values
-        const groupQuery = layer.createQuery();
-        groupQuery.where = whereClause;
-        groupQuery.returnDistinctValues = true;
-        groupQuery.outFields = [groupByField];
-        groupQuery.returnGeometry = false;
-        
-        const groupResult = await layer.queryFeatures(groupQuery);
+        const groupResult = await source.query({
+          where: whereClause,
+          returnDistinctValues: true,
+          outFields: [groupByField]
+        });
         groups = groupResult.features.map(f => f.attributes[groupByField]).filter(g => g != null);
       }
 
       // For each group, calculate condition breakdowns
       const groupedStats = await Promise.all(groups.map(async (groupValue) => {
-        let groupWhere: string;
-        
         // CRITICAL FIX: Build WHERE clause based on group type
-        if (groupByField === 'subgroup') {
-          // For subgroups, use the special WHERE clause builder
-          const subgroupOption = SUBGROUP_OPTIONS.find(opt => opt.label === groupValue);
-          if (!subgroupOption) {
-            console.warn(`No subgroup option found for: ${groupValue}`);
-            return null;
-          }
-          
-          if (subgroupOption.value === 'Rural') {
-            const otherSubgroups = [10, 20, 30, 40]
-              .map(code => `${SUBGROUP_CODE_TO_FIELD[code]} = 0`);
-            groupWhere = `${whereClause} AND (${otherSubgroups.join(' AND ')})`;
-          } else {
-            const fieldName = SUBGROUP_CODE_TO_FIELD[subgroupOption.code];
-            if (!fieldName) {
-              console.warn(`No field mapping found for subgroup code: ${subgroupOption.code}`);
-              return null;
-            }
-            groupWhere = `${whereClause} AND ${fieldName} = 1`;
-          }
-        } else {
-          // For regular fields, use simple equality
-          groupWhere = `${whereClause} AND ${groupByField} = '${groupValue.toString().replace(/'/g, "''")}'`;
+        const groupClause = groupByField === 'subgroup'
+          ? where.subgroupByLabel(groupValue)
+          : where.eq(groupByField, groupValue);
+
+        if (!groupClause) {
+          console.warn(`No subgroup option found for: ${groupValue}`);
+          return null;
         }
-        
+
+        const groupWhere = renderWhere(where.and(baseClause, groupClause));
+
         // Build condition expressions for this KPI
         const conditionExpressions = this.getClassificationExpressions(activeKpi, kpiField);
         
         // Query for condition counts
-        const statsQuery = layer.createQuery();
-        statsQuery.where = groupWhere;
-        statsQuery.returnGeometry = false;
-        statsQuery.outStatistics = [
-          { onStatisticField: kpiField, outStatisticFieldName: 'avg_value', statisticType: 'avg' },
-          { onStatisticField: kpiField, outStatisticFieldName: 'min_value', statisticType: 'min' },
-          { onStatisticField: kpiField, outStatisticFieldName: 'max_value', statisticType: 'max' },
-          { onStatisticField: kpiField, outStatisticFieldName: 'total_count', statisticType: 'count' },
-          { onStatisticField: conditionExpressions.veryGood, outStatisticFieldName: 'veryGood_sum', statisticType: 'sum' },
-          { onStatisticField: conditionExpressions.good, outStatisticFieldName: 'good_sum', statisticType: 'sum' },
-          { onStatisticField: conditionExpressions.fair, outStatisticFieldName: 'fair_sum', statisticType: 'sum' },
-          { onStatisticField: conditionExpressions.poor, outStatisticFieldName: 'poor_sum', statisticType: 'sum' },
-          { onStatisticField: conditionExpressions.veryPoor, outStatisticFieldName: 'veryPoor_sum', statisticType: 'sum' }
-        ] as any;
-
-        const result = await layer.queryFeatures(statsQuery);
+        const result = await source.query({
+          where: groupWhere,
+          outStatistics: [
+            { onStatisticField: kpiField, outStatisticFieldName: 'avg_value', statisticType: 'avg' },
+            { onStatisticField: kpiField, outStatisticFieldName: 'min_value', statisticType: 'min' },
+            { onStatisticField: kpiField, outStatisticFieldName: 'max_value', statisticType: 'max' },
+            { onStatisticField: kpiField, outStatisticFieldName: 'total_count', statisticType: 'count' },
+            { onStatisticField: conditionExpressions.veryGood, outStatisticFieldName: 'veryGood_sum', statisticType: 'sum' },
+            { onStatisticField: conditionExpressions.good, outStatisticFieldName: 'good_sum', statisticType: 'sum' },
+            { onStatisticField: conditionExpressions.fair, outStatisticFieldName: 'fair_sum', statisticType: 'sum' },
+            { onStatisticField: conditionExpressions.poor, outStatisticFieldName: 'poor_sum', statisticType: 'sum' },
+            { onStatisticField: conditionExpressions.veryPoor, outStatisticFieldName: 'veryPoor_sum', statisticType: 'sum' }
+          ]
+        });
         const stats = result.features[0]?.attributes || {};
         
         const total = stats.total_count || 0;
@@ -636,11 +518,12 @@ export default class StatisticsService {
    * Combines multiple chart selections into a single statistics result
    */
   static async computeChartFilteredStatistics(
-    layer: FeatureLayer | null,
+    layer: RoadDataInput | null,
     chartSelections: ChartSelection[],
     baseFilters: FilterState
   ): Promise<SummaryStatistics> {
-    if (!layer || chartSelections.length === 0) {
+    const source = toRoadDataSource(layer);
+    if (!source || chartSelections.length === 0) {
       return this.getEmptyStats('iri', baseFilters.year); // Default empty stats
     }
 
@@ -671,7 +554,7 @@ export default class StatisticsService {
         const year = parseInt(yearStr, 10);
         
         const result = await this.processChartSelectionGroup(
-          layer, 
+          source, 
           selections, 
           kpi as KPIKey, 
           year, 
@@ -696,42 +579,36 @@ export default class StatisticsService {
    * Process a group of chart selections for the same KPI/year
    */
   private static async processChartSelectionGroup(
-    layer: FeatureLayer,
+    source: RoadDataSource,
     selections: ChartSelection[],
     kpi: KPIKey,
     year: number,
     baseFilters: FilterState
   ): Promise<any> {
     const kpiField = getKPIFieldName(kpi, year);
-    
-    // Build WHERE clauses for each selection
-    const selectionClauses = selections.map(selection => {
-      const groupClause = this.buildGroupWhereClause(selection.group);
-      const conditionClause = StatisticsService.buildConditionWhereClause(kpiField, kpi, selection.condition);
-      return `(${groupClause} AND ${conditionClause})`;
-    });
 
-    // Combine with OR (any of the selections)
-    const combinedWhere = `(${selectionClauses.join(' OR ')}) AND ${kpiField} IS NOT NULL`;
+    const combinedWhere = renderWhere(where.and(
+      this.buildChartSelectionClause(selections),
+      where.isNotNull(kpiField)
+    ));
     
     console.log('[Chart Stats] Query WHERE:', combinedWhere);
     
     // Execute the aggregated query
-    const query = layer.createQuery();
-    query.where = combinedWhere;
-    query.outStatistics = [
-      { onStatisticField: kpiField, outStatisticFieldName: 'avg_value', statisticType: 'avg' },
-      { onStatisticField: kpiField, outStatisticFieldName: 'min_value', statisticType: 'min' },
-      { onStatisticField: kpiField, outStatisticFieldName: 'max_value', statisticType: 'max' },
-      { onStatisticField: kpiField, outStatisticFieldName: 'count_segments', statisticType: 'count' },
-      { onStatisticField: this.getClassificationExpressions(kpi, kpiField).veryGood, outStatisticFieldName: 'very_good_count', statisticType: 'sum' },
-      { onStatisticField: this.getClassificationExpressions(kpi, kpiField).good, outStatisticFieldName: 'good_count', statisticType: 'sum' },
-      { onStatisticField: this.getClassificationExpressions(kpi, kpiField).fair, outStatisticFieldName: 'fair_count', statisticType: 'sum' },
-      { onStatisticField: this.getClassificationExpressions(kpi, kpiField).poor, outStatisticFieldName: 'poor_count', statisticType: 'sum' },
-      { onStatisticField: this.getClassificationExpressions(kpi, kpiField).veryPoor, outStatisticFieldName: 'very_poor_count', statisticType: 'sum' }
-    ] as any;
-
-    const queryResult = await layer.queryFeatures(query);
+    const queryResult = await source.query({
+      where: combinedWhere,
+      outStatistics: [
+        { onStatisticField: kpiField, outStatisticFieldName: 'avg_value', statisticType: 'avg' },
+        { onStatisticField: kpiField, outStatisticFieldName: 'min_value', statisticType: 'min' },
+        { onStatisticField: kpiField, outStatisticFieldName: 'max_value', statisticType: 'max' },
+        { onStatisticField: kpiField, outStatisticFieldName: 'count_segments', statisticType: 'count' },
+        { onStatisticField: this.getClassificationExpressions(kpi, kpiField).veryGood, outStatisticFieldName: 'very_good_count', statisticType: 'sum' },
+        { onStatisticField: this.getClassificationExpressions(kpi, kpiField).good, outStatisticFieldName: 'good_count', statisticType: 'sum' },
+        { onStatisticField: this.getClassificationExpressions(kpi, kpiField).fair, outStatisticFieldName: 'fair_count', statisticType: 'sum' },
+        { onStatisticField: this.getClassificationExpressions(kpi, kpiField).poor, outStatisticFieldName: 'poor_count', statisticType: 'sum' },
+        { onStatisticField: this.getClassificationExpressions(kpi, kpiField).veryPoor, outStatisticFieldName: 'very_poor_count', statisticType: 'sum' }
+      ]
+    });
     const stats = queryResult.features[0]?.attributes;
 
     const results = stats ? {
@@ -747,35 +624,37 @@ export default class StatisticsService {
     };
   }
 
+  /**
+   * WHERE clause matching any of the chart selections (group and condition class)
+   * The composite index has no layer field, so composite selections match on group only.
+   */
+  static buildChartSelectionClause(chartSelections: ChartSelection[]): WhereClause {
+    if (chartSelections.length === 0) return where.all();
+
+    return where.or(...chartSelections.map(selection => where.and(
+      this.buildGroupWhereClause(selection.group),
+      !isCompositeKPI(selection.kpi) &&
+        this.buildConditionWhereClause(getKPIFieldName(selection.kpi, selection.year), selection.kpi, selection.condition)
+    )));
+  }
+
   /**
    * Build WHERE clause for group filtering (handles subgroups)
    */
-  private static buildGroupWhereClause(group: string): string {
+  private static buildGroupWhereClause(group: string): WhereClause {
     // Handle subgroup categories
-    const subgroupOption = SUBGROUP_OPTIONS.find(opt => 
-      opt.label === group
-    );
- 
-    if (subgroupOption) {
-      if (subgroupOption.value === 'Rural') {
-        const otherSubgroups = [10, 20, 30, 40]
-          .map(code => `${SUBGROUP_CODE_TO_FIELD[code]} = 0`);
-        return `(${otherSubgroups.join(' AND ')})`;
-      } else {
-        const fieldName = SUBGROUP_CODE_TO_FIELD[subgroupOption.code];
-        if (fieldName) {
-          return `${fieldName} = 1`;
-        }
-      }
+    const subgroupClause = where.subgroupByLabel(group);
+    if (subgroupClause) {
+      return subgroupClause;
     }
-    
+
     // Handle Local Authority or Route
     if (group.includes('R') && group.length <= 5) {
       // Likely a route
-      return `${ROAD_FIELDS.route} = '${group.replace("'", "''")}'`;
+      return where.eq(ROAD_FIELDS.route, group);
     } else {
       // Likely a Local Authority
-      return `${ROAD_FIELDS.la} = '${group.replace("'", "''")}'`;
+      return where.eq(ROAD_FIELDS.la, group);
     }
   }
 
@@ -786,69 +665,11 @@ export default class StatisticsService {
     kpiField: string,
     kpi: KPIKey,
     conditionClass: string
-  ): string {
-    const thresholds = KPI_THRESHOLDS[kpi];
-    
-    if (kpi === 'iri' || kpi === 'rut' || kpi === 'lpv3') {
-      switch(conditionClass) {
-        case 'veryGood': 
-          return thresholds.veryGood ? `${kpiField} < ${thresholds.veryGood}` : `${kpiField} < ${thresholds.good}`;
-        case 'good': 
-          return thresholds.veryGood 
-            ? `${kpiField} >= ${thresholds.veryGood} AND ${kpiField} < ${thresholds.good}`
-            : `${kpiField} >= ${thresholds.good} AND ${kpiField} < ${thresholds.fair}`;
-        case 'fair': 
-          return `${kpiField} >= ${thresholds.good} AND ${kpiField} < ${thresholds.fair}`;
-        case 'poor': 
-          return thresholds.poor 
-            ? `${kpiField} >= ${thresholds.fair} AND ${kpiField} < ${thresholds.poor}`
-            : `${kpiField} >= ${thresholds.fair}`;
-        case 'veryPoor': 
-          return thresholds.poor ? `${kpiField} >= ${thresholds.poor}` : `${kpiField} >= ${thresholds.fair}`;
-        default: 
-          return '1=1';
-      }
-    } else if (kpi === 'csc') {
-      // CSC is inverted (higher is better)
-      switch(conditionClass) {
-        case 'veryGood': 
-          return `${kpiField} > ${thresholds.good}`;
-        case 'good': 
-          return `${kpiField} > ${thresholds.fair} AND ${kpiField} <= ${thresholds.good}`;
-        case 'fair': 
-          return `${kpiField} > ${thresholds.poor!} AND ${kpiField} <= ${thresholds.fair}`;
-        case 'poor': 
-          return `${kpiField} > ${thresholds.veryPoor!} AND ${kpiField} <= ${thresholds.poor!}`;
-        case 'veryPoor': 
-          return `${kpiField} <= ${thresholds.veryPoor!}`;
-        default: 
-          return '1=1';
-      }
-    } else if (kpi === 'psci') {
-      switch(conditionClass) {
-        case 'veryGood': return `${kpiField} > 8`;
-        case 'good': return `${kpiField} > 6 AND ${kpiField} <= 8`;
-        case 'fair': return `${kpiField} > 4 AND ${kpiField} <= 6`;
-        case 'poor': return `${kpiField} > 2 AND ${kpiField} <= 4`;
-        case 'veryPoor': return `${kpiField} <= 2`;
-        default: return '1=1';
-      }
-    } else if (kpi === 'mpd') {
-      switch(conditionClass) {
-        case 'veryGood': 
-        case 'good': 
-          return `${kpiField} >= ${thresholds.good}`;
-        case 'fair': 
-          return `${kpiField} >= ${thresholds.poor!} AND ${kpiField} < ${thresholds.good}`;
-        case 'poor': 
-        case 'veryPoor': 
-          return `${kpiField} < ${thresholds.poor!}`;
-        default: 
-          return '1=1';
-      }
+  ): WhereClause {
+    if (!CONDITION_CLASSES.includes(conditionClass as ConditionClass)) {
+      return where.all();
     }
-    
-    return '1=1';
+    return conditionClassWhereClause(kpi, kpiField, conditionClass as ConditionClass);
   }
 
   /**
@@ -0,0 +1,173 @@
+/**
+ * TransitionService.ts
+ *
+ * Segment-level condition class transitions between two survey years.
+ * Each segment is classified in both years with the active threshold profile,
+ * and the length moving from each class to each other class is summed into a
+ * matrix (e.g. 12.3 km Good in 2018 → Poor in 2025).
+ */
+
+import AggregationService, { type AggregationProgressHandler } from './AggregationService';
+import QueryService from './QueryService';
+import CompositeIndexService from './CompositeIndexService';
+import type { RoadDataInput } from './RoadDataSource';
+import { SEGMENT_LENGTH_KM, type SurveyYear } from '@/config/constants';
+import { getKPIClassification, isCompositeKPI, type ConditionClass, type KPIKey } from '@/config/kpiConfig';
+import { getKPIFieldName } from '@/config/layerConfig';
+import type { SegmentFilters } from '@/types';
+import { getComponentKPIs, type CompositeSpec } from '@/utils/compositeIndex';
+import type { TransitionAggregate } from '@/utils/segmentAggregation';
+import { where, renderWhere, type WhereClause } from '@/utils/whereClause';
+
+export interface ConditionTransitionMatrix {
+  kpi: KPIKey;
+  fromYear: SurveyYear;
+  toYear: SurveyYear;
+  /** Classes the KPI has, best to worst (rows and columns of the matrix) */
+  classes: ConditionClass[];
+  /** Length in km keyed by the class in fromYear, then the class in toYear */
+  lengthKm: Record<ConditionClass, Record<ConditionClass, number>>;
+  /** Length with a class in both years */
+  totalKm: number;
+  improvedKm: number;
+  unchangedKm: number;
+  deterioratedKm: number;
+  /** Segments matching the filters but missing a value in either year */
+  unclassifiedSegments: number;
+  /** Mean value in toYear minus mean value in fromYear (in KPI units), or null without values */
+  averageChange: number | null;
+}
+
+export interface ConditionTransitionLink {
+  from: ConditionClass;
+  to: ConditionClass;
+  lengthKm: number;
+}
+
+const TRANSITION_KEY = 'transition';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export class TransitionService {
+  /**
+   * Compute the class transition matrix for a KPI between two survey years
+   *
+   * @param layer - Road data source (or FeatureLayer) to query
+   * @param filters - LA, route and subgroup filters (year is ignored)
+   * @param onProgress - Progress across the segment fetch and aggregation
+   * @param signal - Aborting cancels outstanding page requests
+   */
+  static async computeTransitions(
+    layer: RoadDataInput,
+    kpi: KPIKey,
+    fromYear: SurveyYear,
+    toYear: SurveyYear,
+    filters: SegmentFilters,
+    onProgress?: AggregationProgressHandler,
+    signal?: AbortSignal
+  ): Promise<ConditionTransitionMatrix> {
+    const fromField = getKPIFieldName(kpi, fromYear);
+    const toField = getKPIFieldName(kpi, toYear);
+
+    // The composite index is scored per segment in each year before classifying
+    const composites: CompositeSpec[] = isCompositeKPI(kpi)
+      ? [CompositeIndexService.buildSpec(fromYear), CompositeIndexService.buildSpec(toYear)]
+      : [];
+    const hasValue = (spec: CompositeSpec): WhereClause =>
+      where.or(...getComponentKPIs(spec.fields, spec.weights).map(component => where.isNotNull(spec.fields[component]!)));
+
+    console.log(`[TransitionService] Computing ${kpi} transitions ${fromYear} → ${toYear}`);
+
+    const result = await AggregationService.aggregateFromSource(
+      layer,
+      renderWhere(where.and(
+        QueryService.buildFilterClause(filters),
+        ...(composites.length > 0
+          ? composites.map(hasValue)
+          : [where.isNotNull(fromField), where.isNotNull(toField)])
+      )),
+      {
+        averageFields: [fromField, toField],
+        transitions: [{ key: TRANSITION_KEY, kpi, fromField, toField }],
+        composites
+      },
+      onProgress,
+      signal
+    );
+
+    const averages = result.groups[0]?.averages;
+    const fromAverage = averages?.[fromField]?.avg ?? null;
+    const toAverage = averages?.[toField]?.avg ?? null;
+    const averageChange = fromAverage !== null && toAverage !== null ? toAverage - fromAverage : null;
+
+    return this.buildMatrix(kpi, fromYear, toYear, result.transitions[TRANSITION_KEY], averageChange);
+  }
+
+  /**
+   * Convert aggregated segment counts into a length matrix with summary totals
+   * A move to a better class (earlier in the band order) counts as improved.
+   */
+  static buildMatrix(
+    kpi: KPIKey,
+    fromYear: SurveyYear,
+    toYear: SurveyYear,
+    aggregate: TransitionAggregate,
+    averageChange: number | null = null
+  ): ConditionTransitionMatrix {
+    const classes = getKPIClassification(kpi).bands.map(band => band.conditionClass);
+
+    const lengthKm = {} as ConditionTransitionMatrix['lengthKm'];
+    let improved = 0;
+    let unchanged = 0;
+    let deteriorated = 0;
+
+    (Object.keys(aggregate.counts) as ConditionClass[]).forEach(from => {
+      lengthKm[from] = {} as Record<ConditionClass, number>;
+      (Object.keys(aggregate.counts[from]) as ConditionClass[]).forEach(to => {
+        const count = aggregate.counts[from][to];
+        lengthKm[from][to] = round1(count * SEGMENT_LENGTH_KM);
+
+        const change = classes.indexOf(to) - classes.indexOf(from);
+        if (change < 0) improved += count;
+        else if (change > 0) deteriorated += count;
+        else unchanged += count;
+      });
+    });
+
+    return {
+      kpi,
+      fromYear,
+      toYear,
+      classes,
+      lengthKm,
+      totalKm: round1(aggregate.classified * SEGMENT_LENGTH_KM),
+      improvedKm: round1(improved * SEGMENT_LENGTH_KM),
+      unchangedKm: round1(unchanged * SEGMENT_LENGTH_KM),
+      deterioratedKm: round1(deteriorated * SEGMENT_LENGTH_KM),
+      unclassifiedSegments: aggregate.unclassified,
+      averageChange
+    };
+  }
+
+  /**
+   * Non-empty flows for Sankey diagrams, best source class first
+   */
+  static getLinks(matrix: ConditionTransitionMatrix): ConditionTransitionLink[] {
+    return matrix.classes.flatMap(from =>
+      matrix.classes
+        .map(to => ({ from, to, lengthKm: matrix.lengthKm[from][to] }))
+        .filter(link => link.lengthKm > 0)
+    );
+  }
+
+  /**
+   * Total length in a class in the first (side = 'from') or second year
+   */
+  static getClassTotal(matrix: ConditionTransitionMatrix, conditionClass: ConditionClass, side: 'from' | 'to'): number {
+    const total = matrix.classes.reduce((sum, other) =>
+      sum + (side === 'from' ? matrix.lengthKm[conditionClass][other] : matrix.lengthKm[other][conditionClass]), 0);
+    return round1(total);
+  }
+}
+
+export default TransitionService;
@@ -0,0 +1,146 @@
+/**
+ * TreatmentService.ts
+ *
+ * Recommended maintenance treatments for the road network. Each segment is
+ * assigned a treatment by the selected rule set (config/treatmentRules.ts)
+ * from its survey-year KPI values, and the length per treatment is summed by
+ * Local Authority.
+ */
+
+import AggregationService, { type AggregationProgressHandler } from './AggregationService';
+import QueryService from './QueryService';
+import type { RoadDataInput } from './RoadDataSource';
+import { SEGMENT_LENGTH_KM } from '@/config/constants';
+import { ROAD_FIELDS } from '@/config/layerConfig';
+import {
+  TREATMENT_CATEGORIES,
+  TREATMENT_LABELS,
+  type TreatmentCategory,
+  type TreatmentRuleSet
+} from '@/config/treatmentRules';
+import type { SegmentFilters } from '@/types';
+import type { TreatmentAggregate } from '@/utils/segmentAggregation';
+import { getTreatmentFields } from '@/utils/treatmentRecommendation';
+import { renderWhere } from '@/utils/whereClause';
+
+export interface TreatmentLengthRow {
+  /** Local Authority, or TREATMENT_TOTAL_ROW for the network total */
+  la: string;
+  lengthKm: Record<TreatmentCategory, number>;
+  /** Length with at least one tested KPI value */
+  assessedKm: number;
+  /** Length with none of the tested KPI values */
+  unassessedKm: number;
+}
+
+export interface TreatmentSummary {
+  ruleSetId: string;
+  ruleSetName: string;
+  year: number;
+  rows: TreatmentLengthRow[];
+  total: TreatmentLengthRow;
+}
+
+export const TREATMENT_TOTAL_ROW = 'All Local Authorities';
+
+const TREATMENT_KEY = 'treatment';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export class TreatmentService {
+  /**
+   * Length of network per recommended treatment, by Local Authority
+   *
+   * @param layer - Road data source (or FeatureLayer) to query
+   * @param year - Survey year whose KPI values the rules are applied to
+   * @param filters - LA, route and subgroup filters (year is ignored)
+   * @param onProgress - Progress across the segment fetch and aggregation
+   * @param signal - Aborting cancels outstanding page requests
+   */
+  static async computeTreatmentsByLA(
+    layer: RoadDataInput,
+    ruleSet: TreatmentRuleSet,
+    year: number,
+    filters: SegmentFilters,
+    onProgress?: AggregationProgressHandler,
+    signal?: AbortSignal
+  ): Promise<TreatmentSummary> {
+    console.log(`[TreatmentService] Applying '${ruleSet.name}' to ${year} survey`);
+
+    const result = await AggregationService.aggregateFromSource(
+      layer,
+      renderWhere(QueryService.buildFilterClause(filters)),
+      {
+        groupByField: ROAD_FIELDS.la,
+        treatments: [{ key: TREATMENT_KEY, ruleSet, fields: getTreatmentFields(ruleSet, year) }]
+      },
+      onProgress,
+      signal
+    );
+
+    const aggregates = result.groups.map(group => ({ la: group.group, aggregate: group.treatments[TREATMENT_KEY] }));
+
+    return {
+      ruleSetId: ruleSet.id,
+      ruleSetName: ruleSet.name,
+      year,
+      rows: aggregates.map(({ la, aggregate }) => this.toLengthRow(la, aggregate)),
+      total: this.toLengthRow(TREATMENT_TOTAL_ROW, this.sumAggregates(aggregates.map(({ aggregate }) => aggregate)))
+    };
+  }
+
+  /**
+   * CSV of the km-by-treatment table, one line per LA followed by the total
+   */
+  static toCSV(summary: TreatmentSummary): string {
+    const header = [
+      'Local Authority',
+      ...TREATMENT_CATEGORIES.map(treatment => `${TREATMENT_LABELS[treatment]} (km)`),
+      'Assessed (km)',
+      'Not Assessed (km)'
+    ];
+
+    const line = (row: TreatmentLengthRow) => [
+      `"${row.la.replace(/"/g, '""')}"`,
+      ...TREATMENT_CATEGORIES.map(treatment => row.lengthKm[treatment].toFixed(1)),
+      row.assessedKm.toFixed(1),
+      row.unassessedKm.toFixed(1)
+    ].join(',');
+
+    return [header.join(','), ...summary.rows.map(line), line(summary.total)].join('\n');
+  }
+
+  static getCSVFilename(summary: TreatmentSummary): string {
+    const slug = summary.ruleSetName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+    return `treatments_${slug}_${summary.year}.csv`;
+  }
+
+  private static sumAggregates(aggregates: TreatmentAggregate[]): TreatmentAggregate {
+    const counts = {} as Record<TreatmentCategory, number>;
+    TREATMENT_CATEGORIES.forEach(treatment => {
+      counts[treatment] = aggregates.reduce((sum, aggregate) => sum + aggregate.counts[treatment], 0);
+    });
+    return {
+      counts,
+      unassessed: aggregates.reduce((sum, aggregate) => sum + aggregate.unassessed, 0)
+    };
+  }
+
+  private static toLengthRow(la: string, aggregate: TreatmentAggregate): TreatmentLengthRow {
+    const lengthKm = {} as Record<TreatmentCategory, number>;
+    let assessed = 0;
+    TREATMENT_CATEGORIES.forEach(treatment => {
+      lengthKm[treatment] = round1(aggregate.counts[treatment] * SEGMENT_LENGTH_KM);
+      assessed += aggregate.counts[treatment];
+    });
+
+    return {
+      la,
+      lengthKm,
+      assessedKm: round1(assessed * SEGMENT_LENGTH_KM),
+      unassessedKm: round1(aggregate.unassessed * SEGMENT_LENGTH_KM)
+    };
+  }
+}
+
+export default TreatmentService;
@@ -0,0 +1,93 @@
+// src/services/__tests__/AggregationService.test.ts
+// Unit tests for segment aggregation (main-thread fallback, no Worker in Node)
+
+import { describe, it, expect, vi } from 'vitest';
+import AggregationService from '../AggregationService';
+import InMemoryRoadDataSource from '../InMemoryRoadDataSource';
+import { buildCumulativeDistribution } from '@/utils/segmentAggregation';
+
+vi.mock('@arcgis/core/layers/FeatureLayer', () => ({
+  default: vi.fn()
+}));
+
+const CSV = [
+  'LA,AIRI_2025,CSC_2025',
+  'Cork,2.5,0.55',
+  'Cork,3.5,0.42',
+  'Cork,,0.30',
+  'Galway,6.0,',
+  'Galway,8.0,0.47'
+].join('\n');
+
+const ROWS = [
+  { LA: 'Cork', AIRI_2025: 2.5, CSC_2025: 0.55 },
+  { LA: 'Cork', AIRI_2025: 3.5, CSC_2025: 0.42 },
+  { LA: 'Cork', AIRI_2025: null, CSC_2025: 0.30 },
+  { LA: 'Galway', AIRI_2025: 6.0, CSC_2025: null },
+  { LA: 'Galway', AIRI_2025: 8.0, CSC_2025: 0.47 }
+];
+
+describe('AggregationService', () => {
+  it('should group averages and class counts by LA', async () => {
+    const result = await AggregationService.aggregate(
+      ROWS,
+      {
+        groupByField: 'LA',
+        averageFields: ['AIRI_2025'],
+        classCounts: [
+          { kpi: 'iri', field: 'AIRI_2025' },
+          { kpi: 'csc', field: 'CSC_2025' }
+        ]
+      }
+    );
+
+    expect(result.totalRows).toBe(5);
+    expect(result.groups.map(g => g.group)).toEqual(['Cork', 'Galway']);
+
+    const [cork, galway] = result.groups;
+    expect(cork.count).toBe(3);
+    expect(cork.averages.AIRI_2025).toEqual({ avg: 3, count: 2, sum: 6 });
+    expect(cork.classCounts.iri).toEqual({ veryGood: 1, good: 1, fair: 0, poor: 0, veryPoor: 0 });
+    expect(cork.classCounts.csc).toEqual({ veryGood: 1, good: 0, fair: 1, poor: 0, veryPoor: 1 });
+    expect(galway.classCounts.iri).toEqual({ veryGood: 0, good: 0, fair: 0, poor: 1, veryPoor: 1 });
+  });
+
+  it('should fetch and aggregate from a data source with progress', async () => {
+    const source = InMemoryRoadDataSource.fromCSV(CSV, { maxRecordCount: 2 });
+    const onProgress = vi.fn();
+
+    const result = await AggregationService.aggregateFromSource(
+      source,
+      'AIRI_2025 IS NOT NULL',
+      { groupByField: 'LA' },
+      onProgress
+    );
+
+    expect(result.groups.map(g => [g.group, g.count])).toEqual([['Cork', 2], ['Galway', 2]]);
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ phase: 'aggregating', percent: 100 }));
+  });
+
+  it('should reject when aborted after the segments are fetched', async () => {
+    const source = InMemoryRoadDataSource.fromCSV(CSV, { maxRecordCount: 2 });
+    const controller = new AbortController();
+
+    const result = AggregationService.aggregateFromSource(
+      source,
+      'AIRI_2025 IS NOT NULL',
+      { groupByField: 'LA' },
+      progress => {
+        if (progress.phase === 'aggregating') controller.abort();
+      },
+      controller.signal
+    );
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('should build cumulative distributions', () => {
+    const distribution = buildCumulativeDistribution([4, 1, 3, 2], { min: 0, max: 4, step: 1 });
+
+    expect(distribution.dataPoints.map(p => p.cumulativePercent)).toEqual([0, 25, 50, 75, 100]);
+    expect(distribution.stats).toMatchObject({ count: 4, min: 1, max: 4, average: 2.5, median: 3 });
+  });
+});
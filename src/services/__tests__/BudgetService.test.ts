@@ -0,0 +1,88 @@
+// src/services/__tests__/BudgetService.test.ts
+// Unit tests for budget allocation by prioritisation method
+
+import { describe, it, expect, vi } from 'vitest';
+import BudgetService from '../BudgetService';
+import InMemoryRoadDataSource from '../InMemoryRoadDataSource';
+import { createBudgetScenario, type BudgetScenario } from '@/config/budgetScenarios';
+import { RMO_TREATMENT_RULE_SET } from '@/config/treatmentRules';
+import { getSegmentCost } from '@/utils/budgetPlanner';
+
+vi.mock('@arcgis/core/layers/FeatureLayer', () => ({
+  default: vi.fn()
+}));
+
+// PSCI 2/4/6/8/10 map to reconstruction/overlay/surface restoration/skid resistance/routine
+const CSV = [
+  'LA,Route,ModeRating_2025',
+  'Cork,R600,2',
+  'Cork,R600,4',
+  'Cork,R601,6',
+  'Cork,R601,8',
+  'Cork,R601,10',
+  'Galway,R336,3',
+  'Galway,R336,'
+].join('\n');
+
+const source = () => InMemoryRoadDataSource.fromCSV(CSV, { maxRecordCount: 3 });
+
+// 1 m wide carriageway so a 100 m segment costs 100 × the unit cost
+const scenario = (changes: Partial<BudgetScenario> = {}): BudgetScenario => ({
+  ...createBudgetScenario('Test'),
+  unitCosts: { routine: 0, skidResistance: 1, surfaceRestoration: 2, overlay: 5, reconstruction: 10 },
+  carriagewayWidthM: 1,
+  defaultBudget: 0,
+  laBudgets: { Cork: 700 },
+  ...changes
+});
+
+describe('BudgetService', () => {
+  it('should cost a segment by length and carriageway width', () => {
+    expect(getSegmentCost(35, 6.2)).toBeCloseTo(21700);
+  });
+
+  it('should fund the most intensive treatments first, skipping those over budget', async () => {
+    const plan = await BudgetService.runScenario(source(), scenario(), RMO_TREATMENT_RULE_SET);
+
+    expect(plan.las.map(la => la.la)).toEqual(['Cork', 'Galway']);
+    const [cork, galway] = plan.las;
+    expect(cork).toMatchObject({
+      budget: 700,
+      spend: 700,
+      candidateSegments: 4,
+      candidateCost: 1800,
+      treatedSegments: 2,
+      treatedKm: 0.2,
+      fairOrBetterBeforePct: 60,
+      fairOrBetterAfterPct: 80
+    });
+    expect(cork.treatedKmByTreatment).toMatchObject({ overlay: 0.1, surfaceRestoration: 0.1, reconstruction: 0 });
+    expect(plan.treated.map(segment => [segment.treatment, segment.rank])).toEqual([
+      ['overlay', 2],
+      ['surfaceRestoration', 3]
+    ]);
+
+    expect(galway).toMatchObject({ budget: 0, spend: 0, candidateSegments: 1, classifiedSegments: 1 });
+    expect(plan.total).toMatchObject({ budget: 700, spend: 700, treatedSegments: 2, fairOrBetterBefore: 3 });
+    expect(plan.total.fairOrBetterAfterPct).toBeCloseTo((4 / 6) * 100);
+  });
+
+  it('should fund the most classes regained per euro first', async () => {
+    const plan = await BudgetService.runScenario(source(), scenario({ method: 'benefitCost' }), RMO_TREATMENT_RULE_SET);
+
+    expect(plan.treated.map(segment => segment.treatment)).toEqual(['surfaceRestoration', 'skidResistance']);
+    expect(plan.total.spend).toBe(300);
+    // Neither segment was poor, so fair-or-better is unchanged
+    expect(plan.las[0].fairOrBetterAfterPct).toBe(60);
+  });
+
+  it('should export the funded segments as CSV', async () => {
+    const plan = await BudgetService.runScenario(source(), scenario(), RMO_TREATMENT_RULE_SET);
+    const lines = BudgetService.toCSV(plan).split('\n');
+
+    expect(lines[0]).toBe('Local Authority,Priority,Segment ID,Route,Treatment,Cost (EUR),Outcome Value');
+    expect(lines[1]).toBe('"Cork",2,2,"R600","Structural Overlay",500,4');
+    expect(lines).toHaveLength(3);
+    expect(BudgetService.getCSVFilename(scenario({ name: 'Worst first' }))).toBe('budget_worst_first_2025.csv');
+  });
+});
@@ -0,0 +1,67 @@
+// src/services/__tests__/HotspotService.test.ts
+// Unit tests for hotspot detection over a data source (main thread, no geometry)
+
+import { describe, it, expect, vi } from 'vitest';
+import HotspotService from '../HotspotService';
+import InMemoryRoadDataSource from '../InMemoryRoadDataSource';
+
+vi.mock('@arcgis/core/layers/FeatureLayer', () => ({
+  default: vi.fn()
+}));
+
+// One route in segment order: two poor pairs three segments apart, both on peat,
+// the first starting with a Very Poor segment
+const CSV = [
+  'Route,LA,AIRI_2025,IsPeat',
+  'R1,Cork,8,1',
+  'R1,Cork,6,1',
+  'R1,Cork,2,0',
+  'R1,Cork,2,0',
+  'R1,Cork,2,0',
+  'R1,Cork,6,1',
+  'R1,Cork,6,1',
+  'R1,Cork,2,0'
+].join('\n');
+
+const NO_FILTERS = { localAuthority: [], subgroup: [], route: [], kpiRanges: [], conditionClasses: [], spatial: null };
+
+describe('HotspotService', () => {
+  it('should find runs along the whole route whatever the applied filters', async () => {
+    const source = InMemoryRoadDataSource.fromCSV(CSV);
+    // The dashboard's subgroup filter would leave the four poor segments side by side
+    source.definitionExpression = 'IsPeat = 1';
+
+    const result = await HotspotService.findHotspots(source, 'iri', 2025, NO_FILTERS, { minSegments: 3, maxGap: 1 });
+
+    expect(result.hotspots).toEqual([]);
+  });
+
+  it('should keep the runs with a poor segment in the subgroup', async () => {
+    const source = InMemoryRoadDataSource.fromCSV(CSV);
+
+    const peat = await HotspotService.findHotspots(
+      source, 'iri', 2025, { ...NO_FILTERS, subgroup: [40] }, { minSegments: 2, maxGap: 1 }
+    );
+    const cityTown = await HotspotService.findHotspots(
+      source, 'iri', 2025, { ...NO_FILTERS, subgroup: [30] }, { minSegments: 2, maxGap: 1 }
+    );
+
+    expect(peat.hotspots.map(hotspot => hotspot.segmentIds)).toEqual([[1, 2], [6, 7]]);
+    expect(peat.totalLengthKm).toBe(0.4);
+    expect(cityTown.hotspots).toEqual([]);
+  });
+
+  it('should keep the runs with a poor segment in the filtered classes without joining the rest', async () => {
+    const source = InMemoryRoadDataSource.fromCSV(CSV);
+
+    const result = await HotspotService.findHotspots(
+      source,
+      'iri',
+      2025,
+      { ...NO_FILTERS, conditionClasses: [{ kpi: 'iri', year: 2025, classes: ['veryPoor'] }] },
+      { minSegments: 2, maxGap: 1 }
+    );
+
+    expect(result.hotspots.map(hotspot => hotspot.segmentIds)).toEqual([[1, 2]]);
+  });
+});
@@ -0,0 +1,161 @@
+// src/services/__tests__/InMemoryRoadDataSource.test.ts
+// Unit tests for the in-memory road data source and its use by the services
+
+import { describe, it, expect, vi } from 'vitest';
+import InMemoryRoadDataSource from '../InMemoryRoadDataSource';
+import StatisticsService from '../StatisticsService';
+import QueryService from '../QueryService';
+import PaginationService from '../PaginationService';
+
+vi.mock('@arcgis/core/layers/FeatureLayer', () => ({
+  default: vi.fn()
+}));
+
+const CSV = [
+  'LA,Route,IsFormerNa,IsDublin,IsCityTown,IsPeat,AIRI_2025,IRI_Class_2025',
+  'Cork,R100,1,0,0,0,2.5,1',
+  'Cork,R100,0,0,0,0,3.5,2',
+  'Cork,R101,0,0,0,1,4.5,3',
+  "Dun Laoghaire-Rathdown,R200,0,1,0,0,6.0,4",
+  "Dun Laoghaire-Rathdown,R200,0,1,0,0,8.0,5",
+  'Galway,R300,0,0,0,0,,'
+].join('\n');
+
+const createSource = () => InMemoryRoadDataSource.fromCSV(CSV, { id: 'test.csv', maxRecordCount: 2 });
+
+describe('InMemoryRoadDataSource', () => {
+  describe('loading', () => {
+    it('should parse CSV with typed values and an OBJECTID', async () => {
+      const source = createSource();
+      expect(source.size).toBe(6);
+      expect(source.hasField('airi_2025')).toBe(true);
+
+      const result = await source.query({ where: 'OBJECTID = 1', outFields: ['*'] });
+      expect(result.features[0].attributes.AIRI_2025).toBe(2.5);
+      expect(result.features[0].attributes.LA).toBe('Cork');
+    });
+
+    it('should load GeoJSON and compute extents', async () => {
+      const source = InMemoryRoadDataSource.fromGeoJSON({
+        type: 'FeatureCollection',
+        features: [
+          { type: 'Feature', properties: { LA: 'Cork' }, geometry: { type: 'LineString', coordinates: [[-8.5, 51.9], [-8.4, 52.0]] } },
+          { type: 'Feature', properties: { LA: 'Galway' }, geometry: { type: 'LineString', coordinates: [[-9.1, 53.2], [-9.0, 53.3]] } }
+        ]
+      });
+
+      const { extent, count } = await source.queryExtent("LA = 'Cork'");
+      expect(count).toBe(1);
+      expect(extent).toMatchObject({ xmin: -8.5, ymin: 51.9, xmax: -8.4, ymax: 52.0 });
+    });
+  });
+
+  describe('query', () => {
+    it('should evaluate where clauses with IN, IS NULL and escaped quotes', async () => {
+      const source = createSource();
+      expect(await source.queryCount("LA IN ('Cork', 'Galway')")).toBe(4);
+      expect(await source.queryCount('AIRI_2025 IS NULL')).toBe(1);
+      expect(await source.queryCount("LA = 'Dun Laoghaire-Rathdown' AND AIRI_2025 >= 6")).toBe(2);
+      expect(await source.queryCount("LA = 'O''Brien'")).toBe(0);
+    });
+
+    it('should compute grouped statistics with CASE expressions', async () => {
+      const source = createSource();
+      const result = await source.query({
+        where: 'AIRI_2025 IS NOT NULL',
+        groupByFieldsForStatistics: ['LA'],
+        outStatistics: [
+          { statisticType: 'avg', onStatisticField: 'AIRI_2025', outStatisticFieldName: 'avg_value' },
+          { statisticType: 'sum', onStatisticField: 'CASE WHEN AIRI_2025 < 4 THEN 1 ELSE 0 END', outStatisticFieldName: 'good' }
+        ],
+        orderByFields: ['LA ASC']
+      });
+
+      expect(result.features.map(f => f.attributes)).toEqual([
+        { LA: 'Cork', avg_value: 3.5, good: 2 },
+        { LA: 'Dun Laoghaire-Rathdown', avg_value: 7, good: 0 }
+      ]);
+    });
+
+    it('should apply the definition expression to every query', async () => {
+      const source = createSource();
+      source.definitionExpression = "LA = 'Cork'";
+      expect(await source.queryCount()).toBe(3);
+      expect(await source.queryUniqueValues('Route')).toEqual(['R100', 'R101']);
+    });
+
+    it('should apply the spatial filter to every query', async () => {
+      const source = InMemoryRoadDataSource.fromGeoJSON({
+        type: 'FeatureCollection',
+        features: [
+          { type: 'Feature', properties: { LA: 'Cork' }, geometry: { type: 'LineString', coordinates: [[-8.5, 51.9], [-8.4, 52.0]] } },
+          { type: 'Feature', properties: { LA: 'Cork' }, geometry: { type: 'LineString', coordinates: [[-8.7, 51.8], [-8.3, 51.8]] } },
+          { type: 'Feature', properties: { LA: 'Galway' }, geometry: { type: 'LineString', coordinates: [[-9.1, 53.2], [-9.0, 53.3]] } },
+          { type: 'Feature', properties: { LA: 'Galway' }, geometry: null }
+        ]
+      });
+      source.spatialFilter = {
+        type: 'polygon',
+        rings: [[[-8.6, 51.85], [-8.6, 52.1], [-8.2, 52.1], [-8.2, 51.85], [-8.6, 51.85]]],
+        spatialReference: { wkid: 4326 }
+      };
+
+      expect(await source.queryCount()).toBe(1);
+      expect(await source.queryUniqueValues('LA')).toEqual(['Cork']);
+
+      // CSV extracts have no geometry, so nothing intersects the area
+      const csv = createSource();
+      csv.spatialFilter = source.spatialFilter;
+      expect(await csv.queryCount()).toBe(0);
+    });
+  });
+
+  describe('services', () => {
+    it('should compute summary statistics through StatisticsService', async () => {
+      const stats = await StatisticsService.computeSummary(
+        createSource(),
+        { localAuthority: [], subgroup: [], route: [], year: 2025 },
+        'iri'
+      );
+
+      expect(stats.totalSegments).toBe(5);
+      expect(stats.veryGoodCount).toBe(1);
+      expect(stats.veryPoorCount).toBe(1);
+      expect(stats.avgValue).toBeCloseTo(4.9);
+    });
+
+    it('should filter by subgroup through QueryService expressions', async () => {
+      const source = createSource();
+      const where = QueryService.buildDefinitionExpression({ localAuthority: [], subgroup: [50], route: [] });
+      expect(await source.queryCount(where)).toBe(2);
+    });
+
+    it('should narrow statistics by KPI range and condition class', async () => {
+      const filters = {
+        localAuthority: [],
+        subgroup: [],
+        route: [],
+        kpiRanges: [{ kpi: 'iri' as const, year: 2025, min: 4, max: null }],
+        conditionClasses: [{ kpi: 'iri' as const, year: 2025, classes: ['poor' as const, 'veryPoor' as const] }],
+        year: 2025
+      };
+
+      const source = createSource();
+      expect(await source.queryCount(QueryService.buildDefinitionExpression({ ...filters, conditionClasses: [] }))).toBe(3);
+
+      const stats = await StatisticsService.computeSummary(source, filters, 'iri');
+      expect(stats.totalSegments).toBe(2);
+      expect(stats.avgValue).toBeCloseTo(7);
+    });
+
+    it('should page through all features with PaginationService', async () => {
+      const result = await PaginationService.queryAllFeatures(createSource(), {
+        where: '1=1',
+        outFields: ['LA']
+      });
+
+      expect(result.totalCount).toBe(6);
+      expect(result.pagesQueried).toBe(3);
+    });
+  });
+});
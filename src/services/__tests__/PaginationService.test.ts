@@ -0,0 +1,122 @@
+// src/services/__tests__/PaginationService.test.ts
+// Unit tests for concurrent, retrying, cancellable pagination
+
+import { describe, it, expect, vi } from 'vitest';
+import PaginationService, { PaginationError } from '../PaginationService';
+import InMemoryRoadDataSource from '../InMemoryRoadDataSource';
+import type { RoadQueryParams } from '../RoadDataSource';
+
+vi.mock('@arcgis/core/layers/FeatureLayer', () => ({
+  default: vi.fn()
+}));
+
+const createSource = (count = 10) =>
+  new InMemoryRoadDataSource(
+    Array.from({ length: count }, (_, i) => ({ LA: i % 2 ? 'Cork' : 'Galway', AIRI_2025: i })),
+    [],
+    { maxRecordCount: 3 }
+  );
+
+describe('PaginationService', () => {
+  it('should fetch object-ID ranges concurrently and keep results ordered', async () => {
+    const source = createSource();
+    const onPage = vi.fn();
+
+    const result = await PaginationService.queryAllFeatures(source, {
+      where: '1=1',
+      outFields: ['OBJECTID'],
+      concurrency: 2,
+      onPage
+    });
+
+    expect(result.pagesQueried).toBe(4);
+    expect(result.features.map(f => f.attributes.OBJECTID)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(onPage).toHaveBeenCalledTimes(4);
+    expect(onPage).toHaveBeenLastCalledWith(expect.objectContaining({ pagesCompleted: 4, featuresLoaded: 10 }));
+  });
+
+  it('should retry failed pages with backoff', async () => {
+    const source = createSource();
+    const query = source.query.bind(source);
+    let failures = 0;
+    vi.spyOn(source, 'query').mockImplementation((params: RoadQueryParams) => {
+      if (params.where?.includes('OBJECTID >= 4') && failures < 2) {
+        failures++;
+        return Promise.reject(new Error('Network error'));
+      }
+      return query(params);
+    });
+
+    const result = await PaginationService.queryAllFeatures(source, {
+      where: '1=1',
+      outFields: ['OBJECTID'],
+      retryDelay: 1
+    });
+
+    expect(failures).toBe(2);
+    expect(result.totalCount).toBe(10);
+  });
+
+  it('should abort and resume from the checkpoint', async () => {
+    const source = createSource();
+    const controller = new AbortController();
+
+    let error: unknown;
+    try {
+      await PaginationService.queryAllFeatures(source, {
+        where: '1=1',
+        outFields: ['OBJECTID'],
+        concurrency: 1,
+        signal: controller.signal,
+        onPage: progress => {
+          if (progress.pagesCompleted === 2) controller.abort();
+        }
+      });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(PaginationError);
+    expect(PaginationService.isAbortError(error)).toBe(true);
+
+    const checkpoint = (error as PaginationError).checkpoint;
+    expect(Object.keys(checkpoint.completedPages)).toHaveLength(2);
+
+    const querySpy = vi.spyOn(source, 'query');
+    const result = await PaginationService.queryAllFeatures(source, {
+      where: '1=1',
+      outFields: ['OBJECTID'],
+      resumeFrom: checkpoint
+    });
+
+    expect(querySpy).toHaveBeenCalledTimes(2);
+    expect(result.features.map(f => f.attributes.OBJECTID)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it('should abort while counting with a PaginationError', async () => {
+    const source = createSource();
+    const controller = new AbortController();
+    controller.abort();
+    const querySpy = vi.spyOn(source, 'query');
+
+    const result = PaginationService.queryAllFeatures(source, {
+      where: '1=1',
+      outFields: ['OBJECTID'],
+      signal: controller.signal
+    });
+
+    await expect(result).rejects.toBeInstanceOf(PaginationError);
+    await expect(result).rejects.toMatchObject({ aborted: true });
+    expect(querySpy).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to offset pages for custom ordering', async () => {
+    const result = await PaginationService.queryAllFeatures(createSource(), {
+      where: "LA = 'Cork'",
+      outFields: ['AIRI_2025'],
+      orderByFields: ['AIRI_2025 DESC']
+    });
+
+    expect(result.features.map(f => f.attributes.AIRI_2025)).toEqual([9, 7, 5, 3, 1]);
+  });
+});
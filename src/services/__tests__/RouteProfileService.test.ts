@@ -0,0 +1,32 @@
+// src/services/__tests__/RouteProfileService.test.ts
+// Unit tests for reading a route profile from a data source
+
+import { describe, it, expect, vi } from 'vitest';
+import RouteProfileService from '../RouteProfileService';
+import InMemoryRoadDataSource from '../InMemoryRoadDataSource';
+
+vi.mock('@arcgis/core/layers/FeatureLayer', () => ({
+  default: vi.fn()
+}));
+
+const CSV = [
+  'Route,LA,AIRI_2025',
+  'R1,Cork,2',
+  'R1,Cork,8',
+  'R1,Cork,3',
+  'R2,Cork,9'
+].join('\n');
+
+describe('RouteProfileService', () => {
+  it('should read every segment of the route whatever the applied filters', async () => {
+    const source = InMemoryRoadDataSource.fromCSV(CSV);
+    source.definitionExpression = 'AIRI_2025 > 7';
+
+    const profile = await RouteProfileService.getRouteProfile(source, 'R1');
+
+    expect(profile.segments.map(segment => segment.id)).toEqual([1, 2, 3]);
+    expect(profile.lengthKm).toBe(0.3);
+    // The dashboard source keeps its filter
+    expect(await source.queryCount()).toBe(2);
+  });
+});
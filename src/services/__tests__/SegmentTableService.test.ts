@@ -0,0 +1,85 @@
+// src/services/__tests__/SegmentTableService.test.ts
+// Unit tests for the paged, sorted segment attribute table
+
+import { describe, it, expect, vi } from 'vitest';
+import SegmentTableService from '../SegmentTableService';
+import InMemoryRoadDataSource from '../InMemoryRoadDataSource';
+
+vi.mock('@arcgis/core/layers/FeatureLayer', () => ({
+  default: vi.fn()
+}));
+
+const CSV = [
+  'LA,Route,IsFormerNa,IsDublin,IsCityTown,IsPeat,AIRI_2025',
+  'Cork,R600,0,0,0,0,2.5',
+  'Cork,R600,0,0,0,0,6.5',
+  'Cork,R601,0,0,0,0,',
+  'Galway,R336,0,0,0,0,4.5',
+  'Galway,R336,0,0,0,0,6.5',
+  'Galway,R337,0,0,0,0,1.0'
+].join('\n');
+
+const source = () => InMemoryRoadDataSource.fromCSV(CSV, { maxRecordCount: 2 });
+const noFilters = { localAuthority: [], subgroup: [], route: [] };
+const byIRI = { field: 'AIRI_2025', descending: true };
+
+describe('SegmentTableService', () => {
+  it('should fetch one sorted page with the total count', async () => {
+    const data = source();
+    const oid = data.objectIdField;
+    const whereClause = SegmentTableService.buildWhere(noFilters, []);
+
+    const first = await SegmentTableService.queryPage(data, whereClause, byIRI, 0, 2);
+    const second = await SegmentTableService.queryPage(data, whereClause, byIRI, 2, 2);
+
+    expect(first.totalCount).toBe(6);
+    // Ties on the sort field are broken by object ID
+    expect(first.rows.map(row => row.AIRI_2025)).toEqual([6.5, 6.5]);
+    expect(first.rows[0][oid]).toBeLessThan(first.rows[1][oid]);
+    expect(second.rows.map(row => row.AIRI_2025)).toEqual([4.5, 2.5]);
+  });
+
+  it('should limit rows to the filters and chart selections', async () => {
+    const whereClause = SegmentTableService.buildWhere(
+      { ...noFilters, localAuthority: ['Galway'] },
+      [{ group: 'Galway', condition: 'poor', kpi: 'iri', year: 2025 }]
+    );
+
+    const page = await SegmentTableService.queryPage(source(), whereClause, null, 0, 10);
+
+    expect(page.totalCount).toBe(1);
+    expect(page.rows[0]).toMatchObject({ Route: 'R336', AIRI_2025: 6.5 });
+  });
+
+  it('should find the position of a segment in the sorted view', async () => {
+    const data = source();
+    const oid = data.objectIdField;
+    const whereClause = SegmentTableService.buildWhere(noFilters, []);
+    const rows: Array<Record<string, any>> = [];
+    for (let start = 0; start < 6; start += 2) {
+      rows.push(...(await SegmentTableService.queryPage(data, whereClause, byIRI, start, 2)).rows);
+    }
+
+    // Includes the unsurveyed segment, wherever the source sorts nulls
+    for (const [index, row] of rows.entries()) {
+      expect(await SegmentTableService.findRowIndex(data, whereClause, byIRI, row[oid])).toBe(index);
+    }
+    const ids = rows.map(row => row[oid]).sort((a, b) => a - b);
+    expect(await SegmentTableService.findRowIndex(data, whereClause, null, ids[3])).toBe(3);
+
+    const galway = SegmentTableService.buildWhere({ ...noFilters, localAuthority: ['Galway'] }, []);
+    const cork = rows.find(row => row.LA === 'Cork')!;
+    expect(await SegmentTableService.findRowIndex(data, galway, byIRI, cork[oid])).toBeNull();
+  });
+
+  it('should export the whole view as CSV', async () => {
+    const whereClause = SegmentTableService.buildWhere({ ...noFilters, route: ['R600'] }, []);
+
+    const csv = await SegmentTableService.exportCSV(source(), whereClause, byIRI);
+    const [header, ...lines] = csv.split('\n');
+
+    expect(header.startsWith('Segment ID,Route,Local Authority,IRI 2011,IRI 2018,IRI 2025')).toBe(true);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/^\d+,"R600","Cork",,,6\.5,/);
+  });
+});
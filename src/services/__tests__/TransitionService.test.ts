@@ -0,0 +1,70 @@
+// src/services/__tests__/TransitionService.test.ts
+// Unit tests for condition class transitions between survey years
+
+import { describe, it, expect, vi } from 'vitest';
+import TransitionService from '../TransitionService';
+import InMemoryRoadDataSource from '../InMemoryRoadDataSource';
+import { aggregateSegments } from '@/utils/segmentAggregation';
+
+vi.mock('@arcgis/core/layers/FeatureLayer', () => ({
+  default: vi.fn()
+}));
+
+const CSV = [
+  'LA,Route,IsFormerNa,IsDublin,IsCityTown,IsPeat,AIRI_2018,AIRI_2025',
+  'Cork,R600,0,0,0,0,2.5,2.8',
+  'Cork,R600,0,0,0,0,2.5,4.5',
+  'Cork,R601,1,0,0,0,6.0,3.5',
+  'Cork,R601,1,0,0,0,8.0,8.5',
+  'Galway,R336,0,0,0,0,3.5,7.5',
+  'Galway,R336,0,0,0,0,,3.0'
+].join('\n');
+
+const source = () => InMemoryRoadDataSource.fromCSV(CSV, { maxRecordCount: 2 });
+const noFilters = { localAuthority: [], subgroup: [], route: [] };
+
+describe('TransitionService', () => {
+  it('should count class transitions between two fields', () => {
+    const result = aggregateSegments(
+      [
+        { A: 2.5, B: 4.5 },
+        { A: 2.5, B: 2.0 },
+        { A: null, B: 2.0 }
+      ],
+      { transitions: [{ key: 't', kpi: 'iri', fromField: 'A', toField: 'B' }] }
+    );
+
+    const transition = result.transitions.t;
+    expect(transition.counts.veryGood).toEqual({ veryGood: 1, good: 0, fair: 1, poor: 0, veryPoor: 0 });
+    expect(transition).toMatchObject({ classified: 2, unclassified: 1 });
+  });
+
+  it('should build a km matrix for segments surveyed in both years', async () => {
+    const matrix = await TransitionService.computeTransitions(source(), 'iri', 2018, 2025, noFilters);
+
+    expect(matrix.classes).toEqual(['veryGood', 'good', 'fair', 'poor', 'veryPoor']);
+    expect(matrix.totalKm).toBe(0.5);
+    expect(matrix.lengthKm.veryGood).toMatchObject({ veryGood: 0.1, fair: 0.1 });
+    expect(matrix.lengthKm.poor.good).toBe(0.1);
+    expect(matrix.lengthKm.good.veryPoor).toBe(0.1);
+    expect(matrix.lengthKm.veryPoor.veryPoor).toBe(0.1);
+    expect(matrix).toMatchObject({ improvedKm: 0.1, unchangedKm: 0.2, deterioratedKm: 0.2 });
+    expect(matrix.averageChange).toBeCloseTo(0.86);
+
+    expect(TransitionService.getClassTotal(matrix, 'veryGood', 'from')).toBe(0.2);
+    expect(TransitionService.getClassTotal(matrix, 'veryPoor', 'to')).toBe(0.2);
+    expect(TransitionService.getLinks(matrix)).toHaveLength(5);
+  });
+
+  it('should apply LA, route and subgroup filters', async () => {
+    const byLA = await TransitionService.computeTransitions(source(), 'iri', 2018, 2025, { ...noFilters, localAuthority: ['Galway'] });
+    expect(byLA.totalKm).toBe(0.1);
+    expect(byLA.lengthKm.good.veryPoor).toBe(0.1);
+
+    const byRoute = await TransitionService.computeTransitions(source(), 'iri', 2018, 2025, { ...noFilters, route: ['R600'] });
+    expect(byRoute.totalKm).toBe(0.2);
+
+    const formerNational = await TransitionService.computeTransitions(source(), 'iri', 2018, 2025, { ...noFilters, subgroup: [10] });
+    expect(formerNational).toMatchObject({ totalKm: 0.2, improvedKm: 0.1, unchangedKm: 0.1 });
+  });
+});
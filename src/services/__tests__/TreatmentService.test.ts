@@ -0,0 +1,102 @@
+// src/services/__tests__/TreatmentService.test.ts
+// Unit tests for treatment rule evaluation and km-by-treatment tables
+
+import { describe, it, expect, vi } from 'vitest';
+import TreatmentService, { TREATMENT_TOTAL_ROW } from '../TreatmentService';
+import InMemoryRoadDataSource from '../InMemoryRoadDataSource';
+import { RMO_TREATMENT_RULE_SET, type TreatmentRuleSet } from '@/config/treatmentRules';
+import {
+  buildTreatmentArcadeExpression,
+  evaluateTreatment,
+  getTreatmentFields
+} from '@/utils/treatmentRecommendation';
+
+vi.mock('@arcgis/core/layers/FeatureLayer', () => ({
+  default: vi.fn()
+}));
+
+const CSV = [
+  'LA,Route,IsFormerNa,IsDublin,IsCityTown,IsPeat,ModeRating_2025,AIRI_2025,LRUT_2025,MPD_2025,CSC_2025',
+  'Cork,R600,0,0,0,0,2,,,,',
+  'Cork,R600,0,0,0,0,4,9.5,,,',
+  'Cork,R601,1,0,0,0,4,3,,,',
+  'Galway,R336,0,0,0,0,9,,,0.5,',
+  'Galway,R336,0,0,0,0,10,2,3,1,0.5',
+  'Galway,R336,0,0,0,0,,,,,',
+  'Galway,R338,0,0,0,0,,,16,,'
+].join('\n');
+
+const source = () => InMemoryRoadDataSource.fromCSV(CSV, { maxRecordCount: 3 });
+const noFilters = { localAuthority: [], subgroup: [], route: [] };
+
+describe('TreatmentService', () => {
+  it('should apply the first matching rule', () => {
+    const ruleSet = RMO_TREATMENT_RULE_SET;
+
+    expect(evaluateTreatment(ruleSet, { psci: 4, iri: 9.5 })).toBe('reconstruction');
+    expect(evaluateTreatment(ruleSet, { psci: 4, iri: 3 })).toBe('overlay');
+    expect(evaluateTreatment(ruleSet, { psci: 9, csc: 0.3 })).toBe('skidResistance');
+    expect(evaluateTreatment(ruleSet, { psci: 10 })).toBe('routine');
+    expect(evaluateTreatment(ruleSet, { psci: null, iri: null })).toBeNull();
+  });
+
+  it('should use the default treatment when no rule matches', () => {
+    const ruleSet: TreatmentRuleSet = {
+      ...RMO_TREATMENT_RULE_SET,
+      rules: [{ id: 'r', treatment: 'overlay', conditions: [{ kpi: 'iri', operator: '>', value: 8 }] }],
+      defaultTreatment: 'skidResistance'
+    };
+
+    expect(evaluateTreatment(ruleSet, { iri: 8 })).toBe('skidResistance');
+    expect(evaluateTreatment(ruleSet, { iri: 8.1 })).toBe('overlay');
+  });
+
+  it('should build an Arcade expression over the survey-year fields', () => {
+    const fields = getTreatmentFields(RMO_TREATMENT_RULE_SET, 2018);
+    expect(fields).toEqual({
+      psci: 'ModeRating_2018',
+      iri: 'AIRI_2018',
+      rut: 'LRUT_2018',
+      mpd: 'MPD_2018',
+      csc: 'CSC_2018'
+    });
+
+    const expression = buildTreatmentArcadeExpression(RMO_TREATMENT_RULE_SET, fields);
+    expect(expression).toContain('var v_psci = $feature.ModeRating_2018;');
+    expect(expression).toContain('if ((!IsEmpty(v_psci) && v_psci <= 2)) { return 5; }');
+    expect(expression.trim().endsWith('return 1;')).toBe(true);
+  });
+
+  it('should sum km by treatment for each Local Authority', async () => {
+    const summary = await TreatmentService.computeTreatmentsByLA(source(), RMO_TREATMENT_RULE_SET, 2025, noFilters);
+
+    expect(summary.rows.map(row => row.la)).toEqual(['Cork', 'Galway']);
+    const [cork, galway] = summary.rows;
+    expect(cork.lengthKm).toMatchObject({ reconstruction: 0.2, overlay: 0.1, routine: 0 });
+    expect(galway.lengthKm).toMatchObject({ skidResistance: 0.1, routine: 0.1, surfaceRestoration: 0.1 });
+    expect(galway).toMatchObject({ assessedKm: 0.3, unassessedKm: 0.1 });
+    expect(summary.total).toMatchObject({ la: TREATMENT_TOTAL_ROW, assessedKm: 0.6, unassessedKm: 0.1 });
+
+    const byRoute = await TreatmentService.computeTreatmentsByLA(
+      source(),
+      RMO_TREATMENT_RULE_SET,
+      2025,
+      { ...noFilters, route: ['R601'] }
+    );
+    expect(byRoute.total.lengthKm.overlay).toBe(0.1);
+    expect(byRoute.total.assessedKm).toBe(0.1);
+  });
+
+  it('should export the table as CSV', async () => {
+    const summary = await TreatmentService.computeTreatmentsByLA(source(), RMO_TREATMENT_RULE_SET, 2025, noFilters);
+    const lines = TreatmentService.toCSV(summary).split('\n');
+
+    expect(lines[0]).toBe(
+      'Local Authority,Routine Maintenance (km),Restoration of Skid Resistance (km),Surface Restoration (km),' +
+      'Structural Overlay (km),Reconstruction (km),Assessed (km),Not Assessed (km)'
+    );
+    expect(lines[1]).toBe('"Cork",0.0,0.0,0.0,0.1,0.2,0.3,0.0');
+    expect(lines[3]).toBe(`"${TREATMENT_TOTAL_ROW}",0.1,0.1,0.1,0.1,0.2,0.6,0.1`);
+    expect(TreatmentService.getCSVFilename(summary)).toBe('treatments_rmo_psci_guidance_2025.csv');
+  });
+});
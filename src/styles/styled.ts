@@ -25,6 +25,13 @@ export const usePanelStyles = createStyles(({ token }) => ({
     overflowY: 'auto',   // scrollable if content too tall
     zIndex: 99,
   },
+  tablePanel: {
+    position: 'absolute' as const,
+    bottom: 20,
+    right: 16,
+    width: 'min(1100px, calc(100% - 32px))',
+    zIndex: 9
+  },
   swipePanel: {
     position: 'absolute' as const,
     bottom: 20,
@@ -32,6 +39,14 @@ export const usePanelStyles = createStyles(({ token }) => ({
     width: 380,
     zIndex: 9
   },
+  timeSliderPanel: {
+    position: 'absolute' as const,
+    top: 16,
+    left: '50%',
+    transform: 'translateX(-50%)',
+    width: 420,
+    zIndex: 9
+  },
   panelContainer: {  // ADD THIS NEW STYLE
     position: 'absolute' as const,
     top: 18,
@@ -1,12 +1,55 @@
-import type { KPIKey } from "@/config/kpiConfig";
+import type { ConditionClass, KPIKey, MeasuredKPIKey } from "@/config/kpiConfig";
+import type { LAMetricType } from "@/config/layerConfig";
+import type { ForecastMethod } from "@/utils/deteriorationModel";
+
+/** Segments whose KPI value in a survey year is above min and at most max (null = open) */
+export interface KPIRangeFilter {
+  kpi: MeasuredKPIKey;
+  year: number;
+  min: number | null;
+  max: number | null;
+}
+
+/** Segments in any of the given condition classes for a KPI and survey year */
+export interface ConditionClassFilter {
+  kpi: MeasuredKPIKey;
+  year: number;
+  classes: ConditionClass[];
+}
+
+/** Polygon as plain JSON in the map's spatial reference, so it persists and autocasts */
+export interface SpatialFilterGeometry {
+  type: 'polygon';
+  rings: number[][][];
+  spatialReference: { wkid: number };
+}
+
+export type SpatialFilterMode = 'polygon' | 'rectangle' | 'buffer' | 'extent';
+
+/** Segments intersecting an area drawn on the map, a buffered point or the current map extent */
+export interface SpatialFilter {
+  mode: SpatialFilterMode;
+  geometry: SpatialFilterGeometry;
+  /** Buffer radius around the clicked point (buffer mode only) */
+  radiusKm?: number;
+}
 
 export interface FilterState {
   localAuthority: string[];
   subgroup: number[];
   route: string[];
+  /** All ranges must match (e.g. IRI 2025 above 7 and rut 2025 above 15) */
+  kpiRanges?: KPIRangeFilter[];
+  /** All class filters must match */
+  conditionClasses?: ConditionClassFilter[];
+  /** Applied by the road data source as a query geometry, not in the where clause */
+  spatial?: SpatialFilter | null;
   year: number;
 }
 
+/** Filters that select segments; the year only decides which survey fields are read */
+export type SegmentFilters = Omit<FilterState, 'year'>;
+
 export interface SummaryStatistics {
   kpi: string;
   year: number;
@@ -28,6 +71,14 @@ export interface SummaryStatistics {
   minValue: number;
   maxValue: number;
   lastUpdated: string;
+  /** Set for forecasts; measured statistics leave it undefined */
+  projection?: ProjectionInfo;
+}
+
+export interface ProjectionInfo {
+  method: ForecastMethod;
+  /** Survey years the projection was fitted to */
+  baseYears: number[];
 }
 
 export interface GroupedConditionStats {
@@ -42,6 +93,16 @@ export interface ChartSelection {
   condition: string;
 }
 
+/** Road segments by condition class, or an LA polygon metric */
+export type SplitMapMetric = 'segments' | LAMetricType;
+
+/** What one view of the split-screen comparison shows */
+export interface SplitMapPaneConfig {
+  kpi: KPIKey;
+  year: number;
+  metric: SplitMapMetric;
+}
+
 // NOTE: The following types are no longer used after refactoring
 // but are kept here for reference or potential future use.
 //
@@ -0,0 +1,99 @@
+// src/utils/__tests__/compositeIndex.test.ts
+// Unit tests for composite condition index scoring and its Arcade parity
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_COMPOSITE_WEIGHTS,
+  validateCompositeWeights,
+  type CompositeWeights
+} from '@/config/compositeIndex';
+import { KPI_CLASSIFICATIONS, getConditionClass } from '@/config/kpiConfig';
+import {
+  applyComposites,
+  buildCompositeArcadeStatements,
+  computeCompositeScore,
+  getComponentScore,
+  type CompositeFields
+} from '../compositeIndex';
+import { buildValueClassArcadeExpression, getClassFieldValue } from '../conditionClassification';
+import { aggregateSegments } from '../segmentAggregation';
+
+const fields: CompositeFields = { iri: 'IRI', psci: 'PSCI', csc: 'CSC' };
+
+// Only IRI and PSCI count: 3 parts IRI to 1 part PSCI
+const weights: CompositeWeights = { ...DEFAULT_COMPOSITE_WEIGHTS, iri: 3, psci: 1, rut: 0, csc: 0, mpd: 0, lpv3: 0 };
+
+const rows = [
+  { IRI: 2, PSCI: 10, CSC: 0.2, IsDublin: 0 }, // very good / very good
+  { IRI: 2, PSCI: 2, CSC: 0.6, IsDublin: 1 },  // very good / poor (worst PSCI class)
+  { IRI: 9, PSCI: null, CSC: 0.6, IsDublin: 0 }, // very poor, no PSCI
+  { IRI: null, PSCI: null, CSC: 0.6, IsDublin: 0 } // nothing weighted
+];
+
+describe('compositeIndex', () => {
+  it('should score each KPI by the position of its class band', () => {
+    expect(getComponentScore('iri', 2)).toBe(100);
+    expect(getComponentScore('iri', 3.5)).toBe(75);
+    expect(getComponentScore('iri', 9)).toBe(0);
+    expect(getComponentScore('iri', null)).toBeNull();
+    // PSCI has four classes and MPD three; both span 0-100
+    expect(getComponentScore('psci', 2)).toBe(0);
+    expect(getComponentScore('psci', 8)).toBeCloseTo(200 / 3);
+    expect(getComponentScore('mpd', 0.8)).toBe(100);
+    expect(getComponentScore('mpd', 0.65)).toBe(50);
+  });
+
+  it('should average the surveyed components with their weights', () => {
+    expect(computeCompositeScore(rows[0], fields, weights)).toBe(100);
+    expect(computeCompositeScore(rows[1], fields, weights)).toBeCloseTo((3 * 100 + 0) / 4);
+    // Missing KPIs are left out rather than scored as zero
+    expect(computeCompositeScore(rows[2], fields, weights)).toBe(0);
+    expect(computeCompositeScore(rows[3], fields, weights)).toBeNull();
+  });
+
+  it('should aggregate composite classes and subgroups like any other field', () => {
+    const result = aggregateSegments(rows, {
+      groupByField: '__subgroup',
+      averageFields: ['C'],
+      classCounts: [{ kpi: 'composite', field: 'C' }],
+      composites: [{ fields, weights, outputField: 'C', subgroupFields: ['IsDublin'], subgroupKeyField: '__subgroup' }]
+    });
+
+    const [dublin, rural] = result.groups;
+    expect(dublin.group).toBe('IsDublin');
+    // 75: very good IRI, worst PSCI class
+    expect(dublin.classCounts.composite).toMatchObject({ good: 1 });
+    expect(rural.group).toBe('Rural');
+    expect(rural.averages.C).toMatchObject({ count: 2, avg: 50 });
+    expect(rural.classCounts.composite).toMatchObject({ veryGood: 1, veryPoor: 1 });
+    // Inputs are not modified
+    expect(rows[0]).not.toHaveProperty('C');
+    expect(applyComposites(rows, [])[0]).toEqual(rows[0]);
+  });
+
+  it('should give the same class in Arcade as in JS', () => {
+    const expression = buildValueClassArcadeExpression('composite', buildCompositeArcadeStatements(fields, weights));
+    // The generated Arcade only uses syntax shared with JavaScript
+    const evaluate = new Function('$feature', 'IsEmpty', expression) as
+      (feature: Record<string, number | null>, isEmpty: (value: unknown) => boolean) => number | null;
+    const isEmpty = (value: unknown) => value === null || value === undefined;
+
+    const samples = [1, 3, 4, 5, 6, 7, 12].flatMap(iri =>
+      [null, 1, 3, 5, 7, 9].map(psci => ({ IRI: iri, PSCI: psci, CSC: null }))
+    );
+    samples.forEach(sample => {
+      const score = computeCompositeScore(sample, fields, weights);
+      const conditionClass = score === null ? null : getConditionClass('composite', score, true);
+      const expected = conditionClass ? getClassFieldValue('composite', conditionClass) : null;
+      expect({ sample, classValue: evaluate(sample, isEmpty) }).toEqual({ sample, classValue: expected });
+    });
+    expect(evaluate({ IRI: null, PSCI: null, CSC: null }, isEmpty)).toBeNull();
+  });
+
+  it('should reject weights that cannot score anything', () => {
+    expect(validateCompositeWeights(DEFAULT_COMPOSITE_WEIGHTS)).toBeNull();
+    expect(validateCompositeWeights({ ...weights, iri: -1 })).toMatch(/IRI/);
+    expect(validateCompositeWeights({ ...weights, iri: 0, psci: 0 })).toMatch(/At least one/);
+    expect(KPI_CLASSIFICATIONS.composite.higherIsBetter).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+// src/utils/__tests__/conditionChange.test.ts
+// Unit tests for the year-to-year change renderer expressions
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_COMPOSITE_WEIGHTS } from '@/config/compositeIndex';
+import { KPI_CLASSIFICATIONS, type KPIKey } from '@/config/kpiConfig';
+import { withBandBoundaries } from '../conditionClassification';
+import {
+  CHANGE_CATEGORY_CODES,
+  buildChangeArcadeExpression,
+  getChangeRampScale,
+  type ChangeRendererMethod
+} from '../conditionChange';
+
+type Feature = Record<string, number | null>;
+
+// The generated Arcade only uses syntax shared with JavaScript
+const compile = (kpi: KPIKey, method: ChangeRendererMethod, classification = KPI_CLASSIFICATIONS[kpi]) => {
+  const expression = buildChangeArcadeExpression(kpi, 2018, 2025, method, DEFAULT_COMPOSITE_WEIGHTS, classification);
+  const evaluate = new Function('$feature', 'IsEmpty', expression) as
+    (feature: Feature, isEmpty: (value: unknown) => boolean) => number | null;
+  return (feature: Feature) => evaluate(feature, value => value === null || value === undefined);
+};
+
+describe('conditionChange', () => {
+  it('should scale the value ramp to half the span of the class boundaries', () => {
+    expect(getChangeRampScale('iri')).toBe(2);
+    expect(getChangeRampScale('iri', withBandBoundaries(KPI_CLASSIFICATIONS.iri, [2, 4, 6, 10]))).toBe(4);
+  });
+
+  it('should code class shifts as improved, stable or deteriorated', () => {
+    const classShift = compile('iri', 'classShift');
+
+    expect(classShift({ AIRI_2018: 6, AIRI_2025: 3.5 })).toBe(CHANGE_CATEGORY_CODES.improved);
+    expect(classShift({ AIRI_2018: 8, AIRI_2025: 8.5 })).toBe(CHANGE_CATEGORY_CODES.stable);
+    expect(classShift({ AIRI_2018: 2.5, AIRI_2025: 4.5 })).toBe(CHANGE_CATEGORY_CODES.deteriorated);
+    expect(classShift({ AIRI_2018: null, AIRI_2025: 4.5 })).toBeNull();
+  });
+
+  it('should classify with the given threshold profile', () => {
+    const strict = compile('iri', 'classShift', withBandBoundaries(KPI_CLASSIFICATIONS.iri, [3, 4, 6, 8]));
+
+    expect(strict({ AIRI_2018: 4.5, AIRI_2025: 5.5 })).toBe(CHANGE_CATEGORY_CODES.stable);
+  });
+
+  it('should sign value changes so that improvement is positive', () => {
+    expect(compile('iri', 'value')({ AIRI_2018: 6, AIRI_2025: 3.5 })).toBe(2.5);
+    expect(compile('psci', 'value')({ ModeRating_2018: 6, ModeRating_2025: 8 })).toBe(2);
+    expect(compile('psci', 'value')({ ModeRating_2018: 6, ModeRating_2025: null })).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+// src/utils/__tests__/conditionClassification.test.ts
+// Parity tests: the JS classifier, SQL expressions, renderer breaks and
+// methodology table must all agree with the class bands in kpiConfig
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  KPI_CLASSIFICATIONS,
+  MEASURED_KPIS,
+  canUseClassFields,
+  getConditionClass,
+  setActiveClassifications,
+  toSimplifiedClass,
+  type ConditionClass,
+  type KPIKey
+} from '@/config/kpiConfig';
+import {
+  CONDITION_CLASSES,
+  buildClassArcadeExpression,
+  classFieldWhereClause,
+  conditionClassCaseExpression,
+  conditionClassWhereClause,
+  formatBandRange,
+  getClassBreakDefinitions,
+  getClassFieldValue,
+  getBandBoundaries,
+  getConditionClassDefinitionRows,
+  getConditionClassForClassValue,
+  validateClassification,
+  withBandBoundaries
+} from '../conditionClassification';
+import { RMO_2018_PROFILE, duplicateThresholdProfile } from '@/config/thresholdProfiles';
+import { renderWhere } from '../whereClause';
+import { compileSqlExpression, compileSqlPredicate } from '../sqlExpression';
+
+const KPIS = Object.keys(KPI_CLASSIFICATIONS) as KPIKey[];
+const FIELD = 'VALUE_2025';
+const SIMPLIFIED_CLASSES: ConditionClass[] = ['good', 'fair', 'poor'];
+
+/**
+ * Every band bound, values just either side of it, and a grid across the range
+ */
+const sampleValues = (kpi: KPIKey): number[] => {
+  const bounds = KPI_CLASSIFICATIONS[kpi].bands.flatMap(band => [band.min, band.max])
+    .filter((value): value is number => value !== undefined);
+  const low = Math.min(...bounds);
+  const high = Math.max(...bounds);
+  const step = (high - low) / 50;
+
+  const values = bounds.flatMap(bound => [bound - 0.001, bound, bound + 0.001]);
+  for (let value = low - step * 5; value <= high + step * 5; value += step) {
+    values.push(Math.round(value * 1000) / 1000);
+  }
+  return values;
+};
+
+const row = (value: number) => (field: string) => (field === FIELD ? value : null);
+
+describe('conditionClassification', () => {
+  describe('SQL parity', () => {
+    it.each(KPIS)('CASE expressions agree with the JS classifier for %s', kpi => {
+      const expressions = CONDITION_CLASSES.map(conditionClass => ({
+        conditionClass,
+        evaluate: compileSqlExpression(conditionClassCaseExpression(kpi, FIELD, conditionClass))
+      }));
+
+      sampleValues(kpi).forEach(value => {
+        const matches = expressions
+          .filter(expression => expression.evaluate(row(value)) === 1)
+          .map(expression => expression.conditionClass);
+        expect({ value, matches }).toEqual({ value, matches: [getConditionClass(kpi, value, true)] });
+      });
+    });
+
+    it.each(KPIS)('3-class WHERE clauses agree with the JS classifier for %s', kpi => {
+      const predicates = SIMPLIFIED_CLASSES.map(conditionClass => ({
+        conditionClass,
+        matches: compileSqlPredicate(renderWhere(conditionClassWhereClause(kpi, FIELD, conditionClass, false)))
+      }));
+
+      sampleValues(kpi).forEach(value => {
+        const matches = predicates
+          .filter(predicate => predicate.matches(row(value)))
+          .map(predicate => predicate.conditionClass);
+        expect({ value, matches }).toEqual({ value, matches: [getConditionClass(kpi, value, false)] });
+      });
+    });
+
+    it('should match nothing for classes a KPI does not have', () => {
+      expect(renderWhere(conditionClassWhereClause('psci', FIELD, 'veryPoor'))).toBe('1=0');
+      expect(conditionClassCaseExpression('mpd', FIELD, 'veryGood')).toBe('CASE WHEN 1=0 THEN 1 ELSE 0 END');
+      expect(renderWhere(conditionClassWhereClause('csc', FIELD, 'good')))
+        .toBe(`${FIELD} > 0.45 AND ${FIELD} <= 0.5`);
+    });
+  });
+
+  describe('class fields and renderers', () => {
+    it.each(KPIS)('class values round-trip and renderer breaks follow the bands for %s', kpi => {
+      const { bands } = KPI_CLASSIFICATIONS[kpi];
+
+      bands.forEach(band => {
+        expect(getClassFieldValue(kpi, band.conditionClass)).toBe(band.classValue);
+        expect(getConditionClassForClassValue(kpi, band.classValue)).toBe(band.conditionClass);
+      });
+
+      const breaks = getClassBreakDefinitions(kpi);
+      expect(breaks.map(b => [b.minValue, b.conditionClass])).toEqual(bands.map(b => [b.classValue, b.conditionClass]));
+
+      getClassBreakDefinitions(kpi, false).forEach(classBreak => {
+        for (let classValue = classBreak.minValue; classValue <= classBreak.maxValue; classValue++) {
+          const conditionClass = getConditionClassForClassValue(kpi, classValue)!;
+          expect(toSimplifiedClass(conditionClass)).toBe(classBreak.conditionClass);
+        }
+      });
+    });
+
+    it('class-field WHERE clauses select the band class values', () => {
+      expect(renderWhere(classFieldWhereClause('mpd', 'MPD_Class_2025', 'poor'))).toBe('MPD_Class_2025 = 3');
+      expect(renderWhere(classFieldWhereClause('iri', 'IRI_Class_2025', 'good', false))).toBe('IRI_Class_2025 IN (1, 2)');
+      expect(renderWhere(classFieldWhereClause('psci', 'PSCI_Class_2025', 'veryPoor'))).toBe('1=0');
+    });
+
+    it.each(KPIS)('the raw-value Arcade expression agrees with the JS classifier for %s', kpi => {
+      // The generated Arcade only uses syntax shared with JavaScript
+      const evaluate = new Function('$feature', 'IsEmpty', `${buildClassArcadeExpression(kpi, FIELD)}`) as
+        (feature: Record<string, number | null>, isEmpty: (value: unknown) => boolean) => number | null;
+      const isEmpty = (value: unknown) => value === null || value === undefined;
+
+      expect(evaluate({ [FIELD]: null }, isEmpty)).toBeNull();
+      sampleValues(kpi).forEach(value => {
+        const conditionClass = getConditionClass(kpi, value, true);
+        const expected = conditionClass ? getClassFieldValue(kpi, conditionClass) : null;
+        expect({ value, classValue: evaluate({ [FIELD]: value }, isEmpty) }).toEqual({ value, classValue: expected });
+      });
+    });
+  });
+
+  describe('methodology table', () => {
+    it('should generate one row per measured KPI from the bands', () => {
+      const rows = getConditionClassDefinitionRows();
+      expect(rows.map(r => r.key)).toEqual(MEASURED_KPIS);
+
+      rows.forEach(r => {
+        CONDITION_CLASSES.forEach(conditionClass => {
+          const band = KPI_CLASSIFICATIONS[r.key].bands.find(b => b.conditionClass === conditionClass);
+          expect(r[conditionClass]).toBe(band ? formatBandRange(r.key, band) : '—');
+        });
+      });
+    });
+
+    it('should format bounds with the KPI precision', () => {
+      const [iri, , psci, csc, mpd] = getConditionClassDefinitionRows();
+      expect(iri).toMatchObject({ parameter: 'IRI (mm/m)', veryGood: '< 3.0', good: '3.0 - 4.0', veryPoor: '≥ 7.0' });
+      expect(psci).toMatchObject({ veryGood: '9 - 10', poor: '1 - 4', veryPoor: '—' });
+      expect(csc).toMatchObject({ veryGood: '> 0.50', veryPoor: '≤ 0.35' });
+      expect(mpd).toMatchObject({ veryGood: '—', good: '≥ 0.7', fair: '0.6 - 0.7', poor: '< 0.6' });
+    });
+  });
+
+  describe('threshold profiles', () => {
+    afterEach(() => setActiveClassifications(KPI_CLASSIFICATIONS, true));
+
+    it('should classify and query with the active profile', () => {
+      expect(getConditionClass('iri', 2.5, true)).toBe('veryGood');
+
+      const profile = duplicateThresholdProfile(RMO_2018_PROFILE, 'Stricter');
+      profile.classifications.iri = withBandBoundaries(KPI_CLASSIFICATIONS.iri, [2, 3.5, 5.5, 8]);
+      profile.classifications.rut = withBandBoundaries(KPI_CLASSIFICATIONS.rut, [5, 10, 20, 30]);
+
+      setActiveClassifications(profile.classifications, false);
+      expect(canUseClassFields()).toBe(false);
+      expect(getConditionClass('iri', 2.5, true)).toBe('good');
+      expect(renderWhere(conditionClassWhereClause('iri', FIELD, 'veryPoor'))).toBe(`${FIELD} >= 8`);
+      expect(getConditionClassDefinitionRows(['rut'])[0].veryPoor).toBe('≥ 30');
+    });
+
+    it('should edit boundaries while keeping band structure', () => {
+      const csc = KPI_CLASSIFICATIONS.csc;
+      expect(getBandBoundaries(csc)).toEqual([0.5, 0.45, 0.4, 0.35]);
+
+      const edited = withBandBoundaries(csc, [0.55, 0.45, 0.4, 0.3]);
+      expect(edited.bands[0]).toMatchObject({ min: 0.55, minInclusive: false });
+      expect(edited.bands[1]).toMatchObject({ min: 0.45, max: 0.55, maxInclusive: true });
+      expect(edited.bands[4]).toMatchObject({ max: 0.3 });
+      expect(validateClassification(edited)).toBeNull();
+
+      const psci = withBandBoundaries(KPI_CLASSIFICATIONS.psci, [8, 7, 5]);
+      expect(psci.bands[0].rangeLabel).toBeUndefined();
+      expect(psci.bands[2].rangeLabel).toBe('5 - 6');
+
+      expect(validateClassification(withBandBoundaries(KPI_CLASSIFICATIONS.iri, [3, 5, 4, 7]))).toMatch(/increase/);
+      expect(validateClassification(withBandBoundaries(csc, [0.5, NaN, 0.4, 0.35]))).toMatch(/value/);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+// src/utils/__tests__/countyComparison.test.ts
+// Unit tests for the summary numbers under the Appendix B county maps
+
+import { describe, it, expect } from 'vitest';
+import type { SummaryStatistics } from '@/types';
+import { compareCountySummaries } from '../countyComparison';
+
+const summary = (stats: Partial<SummaryStatistics>): SummaryStatistics => ({
+  kpi: 'iri',
+  year: 2025,
+  totalSegments: 0,
+  totalLengthKm: 0,
+  veryGoodCount: 0,
+  goodCount: 0,
+  fairCount: 0,
+  poorCount: 0,
+  veryPoorCount: 0,
+  veryGoodPct: 0,
+  goodPct: 0,
+  fairPct: 0,
+  poorPct: 0,
+  veryPoorPct: 0,
+  fairOrBetterPct: 0,
+  avgValue: 0,
+  minValue: 0,
+  maxValue: 0,
+  lastUpdated: '',
+  ...stats
+});
+
+describe('countyComparison', () => {
+  it('should compare a county between two survey years', () => {
+    const rows = compareCountySummaries(
+      'iri',
+      summary({ totalSegments: 4000, totalLengthKm: 400, avgValue: 4.8, fairOrBetterPct: 70, poorPct: 20, veryPoorPct: 10 }),
+      summary({ totalSegments: 4200, totalLengthKm: 420, avgValue: 4.3, fairOrBetterPct: 78, poorPct: 15, veryPoorPct: 7 })
+    );
+
+    expect(rows.map(row => row.metric)).toEqual(['average', 'fairOrBetterPct', 'poorOrWorsePct', 'lengthKm']);
+    expect(rows[0].change).toBeCloseTo(-0.5);
+    expect(rows[0].direction).toBe('better');
+    expect(rows[1]).toMatchObject({ change: 8, direction: 'better' });
+    expect(rows[2]).toMatchObject({ from: 30, to: 22, change: -8, direction: 'better' });
+    expect(rows[3]).toMatchObject({ change: 20, direction: null });
+  });
+
+  it('should treat percentage changes below display precision as unchanged', () => {
+    const [, fairOrBetter, poorOrWorse] = compareCountySummaries(
+      'psci',
+      summary({ totalSegments: 10, fairOrBetterPct: 60, poorPct: 30 }),
+      summary({ totalSegments: 10, fairOrBetterPct: 60.02, poorPct: 35 })
+    );
+
+    expect(fairOrBetter.direction).toBe('same');
+    expect(poorOrWorse.direction).toBe('worse');
+  });
+
+  it('should have no values for a year without surveyed segments', () => {
+    const [average, , , length] = compareCountySummaries(
+      'rut',
+      summary({}),
+      summary({ totalSegments: 50, totalLengthKm: 5, avgValue: 8 })
+    );
+
+    expect(average).toMatchObject({ from: null, to: 8, change: null, direction: null });
+    expect(length).toMatchObject({ from: null, to: 5, change: null });
+  });
+});
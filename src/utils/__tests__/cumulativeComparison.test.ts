@@ -0,0 +1,61 @@
+// src/utils/__tests__/cumulativeComparison.test.ts
+// Unit tests for the Appendix A cumulative frequency comparison
+
+import { describe, it, expect } from 'vitest';
+import type { CumulativeDistribution } from '../segmentAggregation';
+import { compareCumulativeDistributions, findNearestPointIndex } from '../cumulativeComparison';
+
+const distribution = (
+  stats: Partial<CumulativeDistribution['stats']>,
+  values: number[] = []
+): CumulativeDistribution => ({
+  dataPoints: values.map((value, index) => ({ value, cumulativePercent: ((index + 1) / values.length) * 100 })),
+  stats: { average: 0, median: 0, percentile90: 0, count: 0, min: 0, max: 0, ...stats }
+});
+
+describe('cumulativeComparison', () => {
+  it('should compare the headline statistics of two years', () => {
+    const rows = compareCumulativeDistributions(
+      'iri',
+      distribution({ average: 4.2, median: 3.9, percentile90: 7.1, count: 800 }),
+      distribution({ average: 4.6, median: 3.8, percentile90: 7.1, count: 950 })
+    );
+
+    expect(rows.map(row => row.statistic)).toEqual(['average', 'median', 'percentile90', 'count']);
+    expect(rows[0].change).toBeCloseTo(0.4);
+    expect(rows[0].direction).toBe('worse');
+    expect(rows[1].direction).toBe('better');
+    expect(rows[2].direction).toBe('same');
+    expect(rows[3]).toMatchObject({ from: 800, to: 950, change: 150, direction: null });
+  });
+
+  it('should follow the KPI direction of improvement', () => {
+    const [average] = compareCumulativeDistributions(
+      'psci',
+      distribution({ average: 6, count: 10 }),
+      distribution({ average: 7, count: 10 })
+    );
+
+    expect(average.direction).toBe('better');
+  });
+
+  it('should have no statistics for a year without segments', () => {
+    const [average, , , count] = compareCumulativeDistributions(
+      'rut',
+      distribution({}),
+      distribution({ average: 9, count: 40 })
+    );
+
+    expect(average).toMatchObject({ from: null, to: 9, change: null, direction: null });
+    expect(count).toMatchObject({ from: null, to: 40, change: null });
+  });
+
+  it('should find the curve point nearest a value', () => {
+    const { dataPoints } = distribution({}, [1, 2, 3, 4]);
+
+    expect(findNearestPointIndex(dataPoints, 2.4)).toBe(1);
+    expect(findNearestPointIndex(dataPoints, 2.5)).toBe(1);
+    expect(findNearestPointIndex(dataPoints, 9)).toBe(3);
+    expect(findNearestPointIndex([], 2)).toBe(-1);
+  });
+});
@@ -0,0 +1,97 @@
+// src/utils/__tests__/deteriorationModel.test.ts
+// Unit tests for the deterioration model used by condition forecasting
+
+import { describe, it, expect } from 'vitest';
+import {
+  appearsTreated,
+  applyProjections,
+  fitAnnualRate,
+  getSubgroupKey,
+  type ForecastMethod,
+  type ProjectionSpec
+} from '../deteriorationModel';
+import { aggregateSegments } from '../segmentAggregation';
+
+const yearFields = [
+  { year: 2011, field: 'A11' },
+  { year: 2018, field: 'A18' },
+  { year: 2025, field: 'A25' }
+];
+
+const iriSpec = (method: ForecastMethod): ProjectionSpec => ({
+  kpi: 'iri',
+  yearFields,
+  targetYear: 2030,
+  outputField: 'P',
+  method,
+  subgroupFields: ['IsDublin']
+});
+
+const rows = [
+  { A11: 2, A18: 2.7, A25: 3.4, IsDublin: 0 }, // 0.1 per year
+  { A11: 2, A18: 3.4, A25: 4.8, IsDublin: 0 }, // 0.2 per year
+  { A11: 2, A18: 4.1, A25: 6.2, IsDublin: 0 }, // 0.3 per year
+  { A11: 3, A18: 6, A25: 2.5, IsDublin: 0 },   // treated before 2025
+  { A11: null, A18: null, A25: 5, IsDublin: 1 },
+  { A11: null, A18: null, A25: null, IsDublin: 0 }
+];
+
+describe('deteriorationModel', () => {
+  it('should fit a least-squares annual rate', () => {
+    expect(fitAnnualRate([{ year: 2011, value: 2 }, { year: 2018, value: 2.7 }, { year: 2025, value: 3.4 }]))
+      .toBeCloseTo(0.1);
+    expect(fitAnnualRate([{ year: 2025, value: 3 }])).toBeNull();
+  });
+
+  it('should detect treatment from the last two surveys', () => {
+    expect(appearsTreated([{ year: 2018, value: 6 }, { year: 2025, value: 2.5 }], false)).toBe(true);
+    expect(appearsTreated([{ year: 2018, value: 6 }, { year: 2025, value: 8 }], true)).toBe(true);
+    expect(appearsTreated([{ year: 2018, value: 2.7 }, { year: 2025, value: 3.4 }], false)).toBe(false);
+  });
+
+  it('should key segments by their first subgroup flag', () => {
+    expect(getSubgroupKey({ IsDublin: 1 }, ['IsFormerNa', 'IsDublin'])).toBe('IsDublin');
+    expect(getSubgroupKey({ IsDublin: 0 }, ['IsFormerNa', 'IsDublin'])).toBe('Rural');
+  });
+
+  it('should project each segment at its own rate', () => {
+    const projected = applyProjections(rows, [iriSpec('segment')]);
+
+    expect(projected[0].P).toBeCloseTo(3.9);
+    expect(projected[1].P).toBeCloseTo(5.8);
+    // Treated and single-survey segments use the subgroup or network median rate
+    expect(projected[3].P).toBeCloseTo(3.5);
+    expect(projected[4].P).toBeCloseTo(6.0);
+    expect(projected[5].P).toBeNull();
+    // Inputs are left untouched
+    expect(rows[0]).not.toHaveProperty('P');
+  });
+
+  it('should project every segment at the subgroup rate', () => {
+    const projected = applyProjections(rows, [iriSpec('subgroup')]);
+
+    expect(projected[0].P).toBeCloseTo(4.4);
+    expect(projected[2].P).toBeCloseTo(7.2);
+  });
+
+  it('should clamp projections to the KPI limits', () => {
+    const [row] = applyProjections(
+      [{ A11: 6, A18: 4, A25: 2 }],
+      [{ ...iriSpec('segment'), kpi: 'psci', targetYear: 2035 }]
+    );
+    expect(row.P).toBe(1);
+  });
+
+  it('should aggregate projected values with class counts', () => {
+    const result = aggregateSegments(rows, {
+      averageFields: ['P'],
+      classCounts: [{ kpi: 'iri', field: 'P' }],
+      projections: [iriSpec('segment')]
+    });
+
+    const [network] = result.groups;
+    expect(network.averages.P.count).toBe(5);
+    expect(network.ranges.P.min).toBeCloseTo(3.5);
+    expect(network.ranges.P.max).toBeCloseTo(7.7);
+  });
+});
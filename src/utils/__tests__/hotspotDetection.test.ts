@@ -0,0 +1,65 @@
+// src/utils/__tests__/hotspotDetection.test.ts
+// Unit tests for poor-condition run detection along routes
+
+import { describe, it, expect } from 'vitest';
+import { detectHotspotRuns, isPoorValue, type HotspotSegment } from '../hotspotDetection';
+
+// P = poor, g = good, . = unsurveyed
+const route = (name: string, pattern: string, firstId: number, la = 'Cork'): HotspotSegment[] =>
+  pattern.split('').map((code, index) => ({
+    id: firstId + index,
+    route: name,
+    order: firstId + index,
+    la,
+    value: code === 'P' ? 10 : code === 'g' ? 2 : null
+  }));
+
+const isPoor = (segment: HotspotSegment) => segment.value !== null && segment.value >= 10;
+
+describe('hotspotDetection', () => {
+  it('should find runs of at least the minimum length', () => {
+    const runs = detectHotspotRuns(route('R1', 'gPPPggPPPPPg', 1), isPoor, { minSegments: 3, maxGap: 0 });
+
+    expect(runs.map(run => run.segmentIds)).toEqual([[2, 3, 4], [7, 8, 9, 10, 11]]);
+    expect(runs[1]).toMatchObject({ route: 'R1', la: 'Cork', poorSegments: 5, meanValue: 10 });
+  });
+
+  it('should bridge gaps up to the tolerance, including unsurveyed segments', () => {
+    const segments = route('R1', 'PPgPP..PPgggP', 1);
+
+    const strict = detectHotspotRuns(segments, isPoor, { minSegments: 4, maxGap: 0 });
+    expect(strict).toHaveLength(0);
+
+    const tolerant = detectHotspotRuns(segments, isPoor, { minSegments: 4, maxGap: 2 });
+    expect(tolerant).toHaveLength(1);
+    expect(tolerant[0].segmentIds).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(tolerant[0].poorSegments).toBe(6);
+    // Mean of the surveyed segments only: six at 10 and one at 2
+    expect(tolerant[0].meanValue).toBeCloseTo(62 / 7);
+  });
+
+  it('should order segments within each route and never join routes', () => {
+    const segments = [
+      ...route('R2', 'PPP', 10, 'Kerry'),
+      ...route('R1', 'PgP', 1).reverse()
+    ];
+
+    const runs = detectHotspotRuns(segments, isPoor, { minSegments: 2, maxGap: 1 });
+
+    expect(runs.map(run => [run.route, run.segmentIds])).toEqual([
+      ['R2', [10, 11, 12]],
+      ['R1', [1, 2, 3]]
+    ]);
+    expect(runs[0].la).toBe('Kerry');
+  });
+
+  it('should treat Poor and Very Poor classes as poor', () => {
+    expect(isPoorValue('iri', 2)).toBe(false);
+    expect(isPoorValue('iri', 7)).toBe(true);
+    expect(isPoorValue('iri', 12)).toBe(true);
+    // Higher PSCI is better
+    expect(isPoorValue('psci', 2)).toBe(true);
+    expect(isPoorValue('psci', 9)).toBe(false);
+    expect(isPoorValue('iri', null)).toBe(false);
+  });
+});
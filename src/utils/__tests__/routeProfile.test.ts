@@ -0,0 +1,50 @@
+// src/utils/__tests__/routeProfile.test.ts
+// Unit tests for route chainage profiles and their class band shading
+
+import { describe, it, expect } from 'vitest';
+import { KPI_CLASSIFICATIONS } from '@/config/kpiConfig';
+import {
+  buildRouteProfile,
+  getClassBandRanges,
+  getProfileAxisRange,
+  getSeriesKey
+} from '../routeProfile';
+
+const series = [
+  { kpi: 'iri' as const, year: 2018, field: 'AIRI_2018' },
+  { kpi: 'iri' as const, year: 2025, field: 'AIRI_2025' }
+];
+
+describe('routeProfile', () => {
+  it('should place segments along the route in object ID order', () => {
+    const rows = [
+      { OBJECTID: 12, LA: 'Cork', AIRI_2018: 3, AIRI_2025: '4.5' },
+      { OBJECTID: 10, LA: 'Cork', AIRI_2018: 2, AIRI_2025: null },
+      { OBJECTID: 11, LA: null, AIRI_2018: '', AIRI_2025: 6 }
+    ];
+
+    const points = buildRouteProfile(rows, 'OBJECTID', 'LA', series);
+
+    expect(points.map(point => [point.id, point.chainageKm])).toEqual([[10, 0], [11, 0.1], [12, 0.2]]);
+    expect(points[0].values).toEqual({ [getSeriesKey('iri', 2018)]: 2, [getSeriesKey('iri', 2025)]: null });
+    expect(points[1]).toMatchObject({ la: null, values: { iri_2018: null, iri_2025: 6 } });
+    expect(points[2].values.iri_2025).toBe(4.5);
+  });
+
+  it('should fit the axis to the values and the class boundaries', () => {
+    // Highest IRI boundary is 7, so the axis always reaches past it
+    expect(getProfileAxisRange(KPI_CLASSIFICATIONS.iri, [2, null, 3])).toEqual({ min: 0, max: 7 * 1.15 });
+    expect(getProfileAxisRange(KPI_CLASSIFICATIONS.iri, [2, 14])).toEqual({ min: 0, max: 14 });
+  });
+
+  it('should clip open-ended bands to the axis', () => {
+    const ranges = getClassBandRanges(KPI_CLASSIFICATIONS.iri, { min: 0, max: 6 });
+
+    expect(ranges).toEqual([
+      { conditionClass: 'veryGood', from: 0, to: 3 },
+      { conditionClass: 'good', from: 3, to: 4 },
+      { conditionClass: 'fair', from: 4, to: 5 },
+      { conditionClass: 'poor', from: 5, to: 6 }
+    ]);
+  });
+});
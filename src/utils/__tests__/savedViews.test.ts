@@ -0,0 +1,100 @@
+// src/utils/__tests__/savedViews.test.ts
+// Unit tests for saved view import and export files
+
+import { describe, it, expect, vi } from 'vitest';
+import { SAVED_VIEWS_FILE_FORMAT, SAVED_VIEWS_FILE_VERSION, createSavedView, type SavedView } from '@/config/savedViews';
+import type { SpatialFilterGeometry } from '@/types';
+import { mergeSavedViews, parseSavedViews, serializeSavedViews } from '../savedViews';
+
+const area: SpatialFilterGeometry = {
+  type: 'polygon',
+  rings: [[[-695000, 7010000], [-690000, 7015000], [-685000, 7010000], [-695000, 7010000]]],
+  spatialReference: { wkid: 3857 }
+};
+
+const dublin: SavedView = {
+  id: 'view-dublin',
+  name: 'Dublin region LAs',
+  kpi: 'psci',
+  filters: {
+    localAuthority: ['Dublin City', 'Fingal', 'South Dublin'],
+    subgroup: [],
+    route: [],
+    kpiRanges: [{ kpi: 'iri', year: 2025, min: 7, max: null }],
+    conditionClasses: [],
+    spatial: { mode: 'buffer', geometry: area, radiusKm: 5 },
+    year: 2025
+  },
+  extent: { xmin: -700000, ymin: 7000000, xmax: -650000, ymax: 7050000, spatialReference: { wkid: 3857 } },
+  savedAt: '2025-06-01T09:00:00.000Z'
+};
+
+const west: SavedView = {
+  id: 'view-west',
+  name: 'Former National in the West',
+  kpi: 'iri',
+  filters: {
+    localAuthority: ['Galway', 'Mayo'],
+    subgroup: [10],
+    route: [],
+    kpiRanges: [],
+    conditionClasses: [{ kpi: 'psci', year: 2018, classes: ['poor'] }],
+    spatial: null,
+    year: 2018
+  },
+  extent: null,
+  savedAt: '2025-06-02T09:00:00.000Z'
+};
+
+const exportFile = (views: unknown[], version = SAVED_VIEWS_FILE_VERSION) =>
+  JSON.stringify({ format: SAVED_VIEWS_FILE_FORMAT, version, views });
+
+describe('savedViews', () => {
+  it('should round-trip views through an export file', () => {
+    expect(parseSavedViews(serializeSavedViews([dublin, west]))).toEqual({ views: [dublin, west], skipped: 0 });
+  });
+
+  it('should reject files it cannot read', () => {
+    expect(() => parseSavedViews('not json')).toThrow('not valid JSON');
+    expect(() => parseSavedViews(JSON.stringify({ views: [] }))).toThrow('not a saved views export');
+    expect(() => parseSavedViews(exportFile([], SAVED_VIEWS_FILE_VERSION + 1))).toThrow('newer version');
+  });
+
+  it('should skip unreadable views and drop a malformed extent', () => {
+    const { views, skipped } = parseSavedViews(exportFile([
+      { ...dublin, kpi: 'speed' },
+      { ...west, filters: { ...west.filters, subgroup: [99] } },
+      { ...west, filters: { ...west.filters, year: 2019 } },
+      { ...west, filters: { ...west.filters, kpiRanges: [{ kpi: 'iri', year: 2025, min: '7', max: null }] } },
+      { ...west, filters: { ...west.filters, spatial: { mode: 'lasso', geometry: area } } },
+      { ...dublin, name: '  Dublin  ', extent: { xmin: 'a' } }
+    ]));
+
+    expect(skipped).toBe(5);
+    expect(views).toEqual([{ ...dublin, name: 'Dublin', extent: null }]);
+  });
+
+  it('should read views saved before range, class and spatial filters existed', () => {
+    const { kpiRanges, conditionClasses, spatial, ...filters } = west.filters;
+
+    const { views } = parseSavedViews(exportFile([{ ...west, filters }]));
+
+    expect(views[0].filters).toEqual({ ...filters, kpiRanges: [], conditionClasses: [], spatial: null });
+  });
+
+  it('should replace views with the same ID when merging', () => {
+    const renamed = { ...dublin, name: 'Greater Dublin' };
+
+    expect(mergeSavedViews([dublin, west], [renamed])).toEqual([west, renamed]);
+  });
+
+  it('should give views saved in the same millisecond different IDs', () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_750_000_000_000);
+    const first = createSavedView('First', 'iri', dublin.filters, null);
+    const second = createSavedView('Second', 'iri', dublin.filters, null);
+    now.mockRestore();
+
+    expect(first.id).not.toBe(second.id);
+    expect(mergeSavedViews([first], [second])).toHaveLength(2);
+  });
+});
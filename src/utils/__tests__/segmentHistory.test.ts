@@ -0,0 +1,66 @@
+// src/utils/__tests__/segmentHistory.test.ts
+// Unit tests for the per-segment condition history shown in the segment popup
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { KPI_CLASSIFICATIONS, setActiveClassifications } from '@/config/kpiConfig';
+import { withBandBoundaries } from '../conditionClassification';
+import { getChangeDirection, getSegmentHistory } from '../segmentHistory';
+
+const segment = {
+  Route: 'R123',
+  LA: 'Cork',
+  AIRI_2011: 3.2,
+  AIRI_2018: 4.6,
+  AIRI_2025: 5.4,
+  ModeRating_2011: null,
+  ModeRating_2018: 6,
+  ModeRating_2025: 8,
+  LRUT_2011: null,
+  LRUT_2018: null,
+  LRUT_2025: 12
+};
+
+describe('segmentHistory', () => {
+  afterEach(() => setActiveClassifications(KPI_CLASSIFICATIONS, true));
+
+  it('should classify every survey year and compare the last two surveys', () => {
+    const [iri, psci] = getSegmentHistory(segment, ['iri', 'psci']);
+
+    expect(iri.readings).toEqual([
+      { year: 2011, value: 3.2, conditionClass: 'good' },
+      { year: 2018, value: 4.6, conditionClass: 'fair' },
+      { year: 2025, value: 5.4, conditionClass: 'poor' }
+    ]);
+    expect(iri.change).toBeCloseTo(0.8);
+    expect(iri.direction).toBe('worse');
+
+    expect(psci.readings[0]).toEqual({ year: 2011, value: null, conditionClass: null });
+    expect(psci.change).toBe(2);
+    expect(psci.direction).toBe('better');
+  });
+
+  it('should have no change for a KPI surveyed once', () => {
+    const [rut] = getSegmentHistory(segment, ['rut']);
+
+    expect(rut.readings.map(reading => reading.conditionClass)).toEqual([null, null, 'fair']);
+    expect(rut.change).toBeNull();
+    expect(rut.direction).toBeNull();
+  });
+
+  it('should follow the active threshold profile', () => {
+    setActiveClassifications({
+      ...KPI_CLASSIFICATIONS,
+      iri: withBandBoundaries(KPI_CLASSIFICATIONS.iri, [3, 4, 6, 8])
+    }, false);
+
+    const [iri] = getSegmentHistory(segment, ['iri']);
+
+    expect(iri.readings[2].conditionClass).toBe('fair');
+  });
+
+  it('should treat changes that round to zero as unchanged', () => {
+    expect(getChangeDirection('iri', 0.04)).toBe('same');
+    expect(getChangeDirection('iri', -0.2)).toBe('better');
+    expect(getChangeDirection('csc', -0.2)).toBe('worse');
+  });
+});
@@ -0,0 +1,56 @@
+// src/utils/__tests__/spatialFilter.test.ts
+// Unit tests for spatial filter intersection tests on local survey extracts
+
+import { describe, it, expect } from 'vitest';
+import {
+  extentToSpatialGeometry,
+  geometryIntersectsRings,
+  pointInRings,
+  toWGS84Rings
+} from '../spatialFilter';
+
+const square = [[[0, 0], [0, 10], [10, 10], [10, 0], [0, 0]]];
+const withHole = [...square, [[4, 4], [6, 4], [6, 6], [4, 6], [4, 4]]];
+
+const line = (...coordinates: number[][]) => ({ type: 'LineString', coordinates });
+
+describe('spatialFilter', () => {
+  it('should treat polygon holes as outside', () => {
+    expect(pointInRings([2, 2], withHole)).toBe(true);
+    expect(pointInRings([5, 5], withHole)).toBe(false);
+    expect(pointInRings([12, 5], withHole)).toBe(false);
+  });
+
+  it('should match lines inside, crossing or touching the area', () => {
+    expect(geometryIntersectsRings(line([2, 2], [3, 3]), square)).toBe(true);
+    expect(geometryIntersectsRings(line([-5, 5], [15, 5]), square)).toBe(true);
+    expect(geometryIntersectsRings(line([10, 12], [10, 10]), square)).toBe(true);
+    expect(geometryIntersectsRings(line([11, 0], [11, 10]), square)).toBe(false);
+    expect(geometryIntersectsRings(line([4.5, 5], [5.5, 5]), withHole)).toBe(false);
+  });
+
+  it('should match multi-part geometries by any part and never match missing geometry', () => {
+    const multi = { type: 'MultiLineString', coordinates: [[[20, 20], [21, 21]], [[5, 5], [6, 6]]] };
+
+    expect(geometryIntersectsRings(multi, square)).toBe(true);
+    expect(geometryIntersectsRings({ type: 'Point', coordinates: [1, 1] }, square)).toBe(true);
+    expect(geometryIntersectsRings(null, square)).toBe(false);
+  });
+
+  it('should convert Web Mercator areas to WGS84', () => {
+    const geometry = extentToSpatialGeometry({
+      xmin: -946000,
+      ymin: 6790000,
+      xmax: -935000,
+      ymax: 6800000,
+      spatialReference: { wkid: 102100 }
+    });
+
+    const [ring] = toWGS84Rings(geometry);
+    expect(ring).toHaveLength(5);
+    expect(ring[0][0]).toBeCloseTo(-8.498, 3);
+    expect(ring[0][1]).toBeCloseTo(51.944, 3);
+
+    expect(() => toWGS84Rings({ ...geometry, spatialReference: { wkid: 2157 } })).toThrow('2157');
+  });
+});
@@ -0,0 +1,68 @@
+// src/utils/__tests__/urlState.test.ts
+// Unit tests for serialising the dashboard state to and from the query string
+
+import { describe, it, expect } from 'vitest';
+import {
+  URL_STATE_VERSION,
+  parseDashboardState,
+  serializeDashboardState,
+  withDashboardState,
+  type DashboardUrlState
+} from '../urlState';
+
+const state: DashboardUrlState = {
+  kpi: 'rut',
+  filters: {
+    localAuthority: ['Donegal', 'Mayo'],
+    subgroup: [40],
+    route: [],
+    kpiRanges: [{ kpi: 'rut', year: 2025, min: 15, max: null }, { kpi: 'iri', year: 2018, min: -1.5, max: 7 }],
+    conditionClasses: [{ kpi: 'psci', year: 2025, classes: ['poor', 'veryPoor'] }],
+    year: 2025
+  },
+  laMetricType: 'fairOrBetter',
+  swipeYears: [2011, 2025],
+  chartSelections: [{ kpi: 'rut', year: 2025, condition: 'poor', group: 'Dún Laoghaire: Rathdown, Co' }]
+};
+
+describe('urlState', () => {
+  it('should round-trip the dashboard state', () => {
+    const params = serializeDashboardState(state);
+
+    expect(params.get('v')).toBe(String(URL_STATE_VERSION));
+    expect(params.getAll('la')).toEqual(['Donegal', 'Mayo']);
+    expect(parseDashboardState(new URLSearchParams(params.toString()))).toEqual(state);
+  });
+
+  it('should ignore links without state or from a newer version', () => {
+    expect(parseDashboardState(new URLSearchParams('layerStrategy=direct'))).toBeNull();
+    expect(parseDashboardState(new URLSearchParams(`v=${URL_STATE_VERSION + 1}&kpi=rut`))).toBeNull();
+  });
+
+  it('should drop invalid values and keep the rest', () => {
+    const parsed = parseDashboardState(new URLSearchParams(
+      'v=1&kpi=speed&year=2019&la=Cork&la=Cork&la=&sg=40&sg=99&metric=max&swipe=2018,2018' +
+      '&sel=iri:2025:awful:Cork&sel=iri:2025:good:Cork' +
+      '&range=iri:2025::&range=composite:2025:1:&range=rut:2025:x:&range=rut:2025::20&cls=iri:2025:awful&cls=iri:2025:poor,poor'
+    ));
+
+    expect(parsed).toEqual({
+      filters: {
+        localAuthority: ['Cork'],
+        subgroup: [40],
+        route: [],
+        kpiRanges: [{ kpi: 'rut', year: 2025, min: null, max: 20 }],
+        conditionClasses: [{ kpi: 'iri', year: 2025, classes: ['poor'] }]
+      },
+      chartSelections: [{ kpi: 'iri', year: 2025, condition: 'good', group: 'Cork' }]
+    });
+  });
+
+  it('should keep unrelated parameters when replacing the state', () => {
+    const params = withDashboardState(new URLSearchParams('layerStrategy=webmap&kpi=iri&la=Cork'), state);
+
+    expect(params.get('layerStrategy')).toBe('webmap');
+    expect(params.get('kpi')).toBe('rut');
+    expect(params.getAll('la')).toEqual(['Donegal', 'Mayo']);
+  });
+});
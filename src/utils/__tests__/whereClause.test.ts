@@ -0,0 +1,162 @@
+// src/utils/__tests__/whereClause.test.ts
+// Unit tests for the where-clause builder
+
+import { describe, it, expect } from 'vitest';
+import {
+  where,
+  renderWhere,
+  escapeSqlString,
+  formatSqlLiteral,
+  WhereClauseError
+} from '../whereClause';
+import QueryService from '@/services/QueryService';
+import { compileSqlPredicate } from '../sqlExpression';
+
+describe('whereClause', () => {
+  describe('literals', () => {
+    it('should escape every apostrophe', () => {
+      expect(escapeSqlString("O'Brien's")).toBe("O''Brien''s");
+      expect(formatSqlLiteral("Dun Laoghaire-Rathdown")).toBe("'Dun Laoghaire-Rathdown'");
+      expect(formatSqlLiteral("''")).toBe("''''''");
+    });
+
+    it('should format numbers, booleans and null', () => {
+      expect(formatSqlLiteral(0.45)).toBe('0.45');
+      expect(formatSqlLiteral(true)).toBe('1');
+      expect(formatSqlLiteral(null)).toBe('NULL');
+      expect(() => formatSqlLiteral(NaN)).toThrow(WhereClauseError);
+    });
+
+    it('should reject field names that could inject SQL', () => {
+      expect(() => where.eq('LA = 1 OR 1', 'x')).toThrow(WhereClauseError);
+      expect(() => where.in("LA'", [])).toThrow(WhereClauseError);
+      expect(where.eq('Roads_Joined.LA', 'Cork')).toBeTruthy();
+    });
+  });
+
+  describe('rendering', () => {
+    it('should render comparisons and IN lists', () => {
+      expect(renderWhere(where.eq('LA', "O'Brien"))).toBe("LA = 'O''Brien'");
+      expect(renderWhere(where.in('Route', ['R100', "R1'01"]))).toBe("Route IN ('R100', 'R1''01')");
+      expect(renderWhere(where.eq('LA', null))).toBe('LA IS NULL');
+      expect(renderWhere(where.ne('LA', null))).toBe('LA IS NOT NULL');
+    });
+
+    it('should render empty IN lists and junctions as constants', () => {
+      expect(renderWhere(where.in('LA', []))).toBe('1=0');
+      expect(renderWhere(where.and())).toBe('1=1');
+      expect(renderWhere(where.or())).toBe('1=0');
+      expect(renderWhere(where.and(where.all(), where.eq('A', 1)))).toBe('A = 1');
+      expect(renderWhere(where.and(where.none(), where.eq('A', 1)))).toBe('1=0');
+      expect(renderWhere(where.or(where.all(), where.eq('A', 1)))).toBe('1=1');
+    });
+
+    it('should render ranges with inclusive and exclusive bounds', () => {
+      expect(renderWhere(where.range('AIRI_2025', { min: 3, max: 4 }))).toBe('AIRI_2025 >= 3 AND AIRI_2025 < 4');
+      expect(renderWhere(where.range('CSC_2025', { max: 0.35, maxInclusive: true }))).toBe('CSC_2025 <= 0.35');
+      expect(renderWhere(where.range('X', {}))).toBe('1=1');
+    });
+
+    it('should parenthesise nested junctions and raw SQL', () => {
+      const clause = where.and(
+        where.raw("LA = 'Cork' OR LA = 'Kerry'"),
+        where.or(where.eq('IsPeat', 1), where.range('AIRI_2025', { min: 1, max: 2 })),
+        where.not(where.eq('IsDublin', 1))
+      );
+      expect(renderWhere(clause)).toBe(
+        "(LA = 'Cork' OR LA = 'Kerry') AND (IsPeat = 1 OR (AIRI_2025 >= 1 AND AIRI_2025 < 2)) AND NOT (IsDublin = 1)"
+      );
+    });
+
+    it('should parenthesise a junction of one clause when the clause needs it', () => {
+      const clause = where.and(where.eq('IsPeat', 1), where.or(where.raw('A = 1 OR B = 2')));
+      expect(renderWhere(clause)).toBe('IsPeat = 1 AND (A = 1 OR B = 2)');
+      expect(renderWhere(where.and(where.eq('IsPeat', 1), where.or(where.eq('A', 1))))).toBe('IsPeat = 1 AND A = 1');
+    });
+
+    it('should flatten nested ANDs and treat 1=1 raw SQL as empty', () => {
+      const clause = where.and(where.and(where.eq('A', 1), where.eq('B', 2)), where.raw('1=1'), false, null);
+      expect(renderWhere(clause)).toBe('A = 1 AND B = 2');
+    });
+  });
+
+  describe('subgroups', () => {
+    it('should render flag and Rural subgroups', () => {
+      expect(renderWhere(where.subgroup(20))).toBe('IsDublin = 1');
+      expect(renderWhere(where.subgroup(50))).toBe('IsFormerNa = 0 AND IsDublin = 0 AND IsCityTown = 0 AND IsPeat = 0');
+      expect(renderWhere(where.subgroup(30, 'Roads_Joined_'))).toBe('Roads_Joined_IsCityTown = 1');
+      expect(renderWhere(where.subgroup(99))).toBe('1=1');
+    });
+
+    it('should resolve subgroups by label', () => {
+      expect(renderWhere(where.subgroupByLabel('City/Town')!)).toBe('IsCityTown = 1');
+      expect(where.subgroupByLabel('Cork')).toBeNull();
+    });
+  });
+
+  describe('QueryService.buildDefinitionExpression', () => {
+    it('should escape LA and route names and group subgroups', () => {
+      const sql = QueryService.buildDefinitionExpression({
+        localAuthority: ["O'Brien County", 'Cork'],
+        subgroup: [10, 50],
+        route: []
+      });
+
+      expect(sql).toBe(
+        "LA IN ('O''Brien County', 'Cork') AND " +
+        '(IsFormerNa = 1 OR (IsFormerNa = 0 AND IsDublin = 0 AND IsCityTown = 0 AND IsPeat = 0))'
+      );
+
+      const matches = compileSqlPredicate(sql);
+      const row = { LA: "O'Brien County", IsFormerNa: 0, IsDublin: 0, IsCityTown: 0, IsPeat: 0 };
+      expect(matches(name => row[name as keyof typeof row])).toBe(true);
+    });
+
+    it('should return 1=1 without filters', () => {
+      expect(QueryService.buildDefinitionExpression({ localAuthority: [], subgroup: [], route: [] })).toBe('1=1');
+    });
+
+    it('should combine KPI ranges and condition classes across KPIs', () => {
+      const sql = QueryService.buildDefinitionExpression({
+        localAuthority: [],
+        subgroup: [],
+        route: [],
+        kpiRanges: [
+          { kpi: 'iri', year: 2025, min: 7, max: null },
+          { kpi: 'rut', year: 2025, min: 15, max: 30 },
+          { kpi: 'psci', year: 2025, min: null, max: null }
+        ],
+        conditionClasses: [
+          { kpi: 'psci', year: 2018, classes: ['poor', 'veryPoor'] },
+          { kpi: 'mpd', year: 2018, classes: [] }
+        ]
+      });
+
+      // PSCI has no very poor class, and empty ranges and class lists are ignored
+      expect(sql).toBe('AIRI_2025 > 7 AND LRUT_2025 > 15 AND LRUT_2025 <= 30 AND ModeRating_2018 < 5');
+
+      const matches = compileSqlPredicate(sql);
+      const test = (row: Record<string, number | null>) => matches(name => row[name] ?? null);
+      expect(test({ AIRI_2025: 7.1, LRUT_2025: 20, ModeRating_2018: 2 })).toBe(true);
+      expect(test({ AIRI_2025: 6.9, LRUT_2025: 20, ModeRating_2018: 2 })).toBe(false);
+      expect(test({ AIRI_2025: 8, LRUT_2025: 20, ModeRating_2018: 9 })).toBe(false);
+      expect(test({ AIRI_2025: null, LRUT_2025: 20, ModeRating_2018: 2 })).toBe(false);
+    });
+
+    it('should exclude values on the lower bound and include values on the upper bound', () => {
+      const sql = QueryService.buildDefinitionExpression({
+        localAuthority: [],
+        subgroup: [],
+        route: [],
+        kpiRanges: [{ kpi: 'rut', year: 2025, min: 15, max: 30 }]
+      });
+
+      const matches = compileSqlPredicate(sql);
+      const test = (value: number) => matches(name => (name === 'LRUT_2025' ? value : null));
+      expect(test(15)).toBe(false);
+      expect(test(15.1)).toBe(true);
+      expect(test(30)).toBe(true);
+      expect(test(30.1)).toBe(false);
+    });
+  });
+});
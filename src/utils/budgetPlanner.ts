@@ -0,0 +1,271 @@
+// src/utils/budgetPlanner.ts
+
+import { SEGMENT_LENGTH_KM, SEGMENT_LENGTH_METERS } from '@/config/constants';
+import {
+  getConditionClass,
+  getKPIClassification,
+  toSimplifiedClass,
+  type ConditionClass,
+  type KPIClassification,
+  type KPIKey
+} from '@/config/kpiConfig';
+import {
+  TREATMENT_CATEGORIES,
+  type TreatmentCategory,
+  type TreatmentRuleSet
+} from '@/config/treatmentRules';
+import { getSegmentTreatment, type TreatmentFields } from './treatmentRecommendation';
+
+/**
+ * ============================================================================
+ * BUDGET PLANNER
+ * ============================================================================
+ *
+ * Allocates an annual budget per Local Authority to the segments the treatment
+ * rule set recommends work on (anything beyond routine maintenance):
+ *
+ * - 'worstFirst': most intensive treatment first, then worst outcome class
+ * - 'benefitCost': most condition classes regained per euro first
+ *
+ * Segments are funded greedily in priority order; a segment that no longer
+ * fits the remaining budget is skipped and cheaper ones further down the list
+ * can still be funded. Treated segments are assumed to return to the best
+ * condition class of the outcome KPI.
+ *
+ * Keep this module free of DOM and ArcGIS imports so it can run in the
+ * aggregation worker.
+ */
+
+export type PrioritisationMethod = 'worstFirst' | 'benefitCost';
+
+export interface BudgetPlanSpec {
+  ruleSet: TreatmentRuleSet;
+  treatmentFields: TreatmentFields;
+  /** KPI whose fair-or-better percentage measures the outcome */
+  outcomeKpi: KPIKey;
+  outcomeField: string;
+  method: PrioritisationMethod;
+  /** Cost per square metre of carriageway (€/m²) */
+  unitCosts: Record<TreatmentCategory, number>;
+  carriagewayWidthM: number;
+  /** Annual budget (€) keyed by Local Authority */
+  budgets: Record<string, number>;
+  /** Budget for Local Authorities without an entry */
+  defaultBudget: number;
+  laField: string;
+  routeField: string;
+  idField: string;
+}
+
+export interface PlannedSegment {
+  id: string | number;
+  la: string;
+  route: string;
+  treatment: TreatmentCategory;
+  cost: number;
+  /** Outcome KPI value and class before treatment (null when not surveyed) */
+  outcomeValue: number | null;
+  outcomeClass: ConditionClass | null;
+  /** Position in the LA's priority order, starting at 1 */
+  rank: number;
+}
+
+export interface BudgetOutcome {
+  budget: number;
+  spend: number;
+  /** Segments recommended for treatment beyond routine maintenance */
+  candidateSegments: number;
+  candidateCost: number;
+  treatedSegments: number;
+  treatedKm: number;
+  treatedKmByTreatment: Record<TreatmentCategory, number>;
+  /** Segments with an outcome class */
+  classifiedSegments: number;
+  fairOrBetterBefore: number;
+  fairOrBetterAfter: number;
+  fairOrBetterBeforePct: number;
+  fairOrBetterAfterPct: number;
+}
+
+export interface BudgetPlanLA extends BudgetOutcome {
+  la: string;
+}
+
+export interface BudgetPlan {
+  las: BudgetPlanLA[];
+  total: BudgetOutcome;
+  /** Funded segments, by LA then priority */
+  treated: PlannedSegment[];
+}
+
+type Row = Record<string, any>;
+
+interface Candidate extends Omit<PlannedSegment, 'rank'> {
+  /** Condition classes regained when restored to the best class */
+  benefit: number;
+  intensity: number;
+}
+
+interface LAState {
+  candidates: Candidate[];
+  classified: number;
+  fairOrBetter: number;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const isFairOrBetter = (conditionClass: ConditionClass) => toSimplifiedClass(conditionClass) !== 'poor';
+
+const createTreatmentLengths = (): Record<TreatmentCategory, number> =>
+  TREATMENT_CATEGORIES.reduce((lengths, treatment) => {
+    lengths[treatment] = 0;
+    return lengths;
+  }, {} as Record<TreatmentCategory, number>);
+
+/**
+ * Cost of treating one segment
+ */
+export function getSegmentCost(unitCost: number, carriagewayWidthM: number): number {
+  return unitCost * SEGMENT_LENGTH_METERS * carriagewayWidthM;
+}
+
+const comparators: Record<PrioritisationMethod, (a: Candidate, b: Candidate) => number> = {
+  worstFirst: (a, b) =>
+    b.intensity - a.intensity || b.benefit - a.benefit || a.cost - b.cost,
+  benefitCost: (a, b) => {
+    const ratio = (c: Candidate) => (c.cost > 0 ? c.benefit / c.cost : c.benefit > 0 ? Infinity : 0);
+    return ratio(b) - ratio(a) || b.intensity - a.intensity || a.cost - b.cost;
+  }
+};
+
+const sumOutcomes = (outcomes: BudgetOutcome[]): BudgetOutcome => {
+  const sum = (pick: (outcome: BudgetOutcome) => number) => outcomes.reduce((total, o) => total + pick(o), 0);
+  const treatedKmByTreatment = createTreatmentLengths();
+  TREATMENT_CATEGORIES.forEach(treatment => {
+    treatedKmByTreatment[treatment] = round1(sum(o => o.treatedKmByTreatment[treatment]));
+  });
+
+  const classified = sum(o => o.classifiedSegments);
+  const before = sum(o => o.fairOrBetterBefore);
+  const after = sum(o => o.fairOrBetterAfter);
+
+  return {
+    budget: sum(o => o.budget),
+    spend: sum(o => o.spend),
+    candidateSegments: sum(o => o.candidateSegments),
+    candidateCost: sum(o => o.candidateCost),
+    treatedSegments: sum(o => o.treatedSegments),
+    treatedKm: round1(sum(o => o.treatedSegments) * SEGMENT_LENGTH_KM),
+    treatedKmByTreatment,
+    classifiedSegments: classified,
+    fairOrBetterBefore: before,
+    fairOrBetterAfter: after,
+    fairOrBetterBeforePct: classified > 0 ? (before / classified) * 100 : 0,
+    fairOrBetterAfterPct: classified > 0 ? (after / classified) * 100 : 0
+  };
+};
+
+/**
+ * Fund the recommended treatments within each Local Authority's budget
+ */
+export function planBudget(
+  rows: Row[],
+  spec: BudgetPlanSpec,
+  classification: KPIClassification = getKPIClassification(spec.outcomeKpi)
+): BudgetPlan {
+  const classes = classification.bands.map(band => band.conditionClass);
+  const byLA = new Map<string, LAState>();
+
+  rows.forEach(row => {
+    const la = row[spec.laField] === null || row[spec.laField] === undefined ? '' : String(row[spec.laField]);
+    if (!la) return;
+
+    let state = byLA.get(la);
+    if (!state) {
+      state = { candidates: [], classified: 0, fairOrBetter: 0 };
+      byLA.set(la, state);
+    }
+
+    const outcomeValue = toNumber(row[spec.outcomeField]);
+    const outcomeClass = outcomeValue === null
+      ? null
+      : getConditionClass(spec.outcomeKpi, outcomeValue, true, classification);
+    if (outcomeClass) {
+      state.classified++;
+      if (isFairOrBetter(outcomeClass)) state.fairOrBetter++;
+    }
+
+    const treatment = getSegmentTreatment(row, spec.ruleSet, spec.treatmentFields);
+    if (!treatment || treatment === 'routine') return;
+
+    state.candidates.push({
+      id: row[spec.idField],
+      la,
+      route: row[spec.routeField] === null || row[spec.routeField] === undefined ? '' : String(row[spec.routeField]),
+      treatment,
+      cost: getSegmentCost(spec.unitCosts[treatment] ?? 0, spec.carriagewayWidthM),
+      outcomeValue,
+      outcomeClass,
+      benefit: outcomeClass ? classes.indexOf(outcomeClass) : 0,
+      intensity: TREATMENT_CATEGORIES.indexOf(treatment)
+    });
+  });
+
+  const treated: PlannedSegment[] = [];
+  const las: BudgetPlanLA[] = Array.from(byLA.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([la, state]) => {
+      const budget = spec.budgets[la] ?? spec.defaultBudget;
+      const treatedKmByTreatment = createTreatmentLengths();
+      let remaining = budget;
+      let treatedSegments = 0;
+      let fairOrBetterAfter = state.fairOrBetter;
+
+      state.candidates.sort(comparators[spec.method]).forEach((candidate, index) => {
+        if (candidate.cost > remaining) return;
+        remaining -= candidate.cost;
+        treatedSegments++;
+        treatedKmByTreatment[candidate.treatment] += SEGMENT_LENGTH_KM;
+        if (candidate.outcomeClass && !isFairOrBetter(candidate.outcomeClass)) fairOrBetterAfter++;
+
+        treated.push({
+          id: candidate.id,
+          la,
+          route: candidate.route,
+          treatment: candidate.treatment,
+          cost: candidate.cost,
+          outcomeValue: candidate.outcomeValue,
+          outcomeClass: candidate.outcomeClass,
+          rank: index + 1
+        });
+      });
+
+      TREATMENT_CATEGORIES.forEach(treatment => {
+        treatedKmByTreatment[treatment] = round1(treatedKmByTreatment[treatment]);
+      });
+
+      return {
+        la,
+        budget,
+        spend: budget - remaining,
+        candidateSegments: state.candidates.length,
+        candidateCost: state.candidates.reduce((sum, candidate) => sum + candidate.cost, 0),
+        treatedSegments,
+        treatedKm: round1(treatedSegments * SEGMENT_LENGTH_KM),
+        treatedKmByTreatment,
+        classifiedSegments: state.classified,
+        fairOrBetterBefore: state.fairOrBetter,
+        fairOrBetterAfter,
+        fairOrBetterBeforePct: state.classified > 0 ? (state.fairOrBetter / state.classified) * 100 : 0,
+        fairOrBetterAfterPct: state.classified > 0 ? (fairOrBetterAfter / state.classified) * 100 : 0
+      };
+    });
+
+  return { las, total: sumOutcomes(las), treated };
+}
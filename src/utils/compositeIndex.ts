@@ -0,0 +1,145 @@
+// src/utils/compositeIndex.ts
+
+import { getBandScore, type CompositeWeights } from '@/config/compositeIndex';
+import {
+  MEASURED_KPIS,
+  getKPIClassification,
+  isValueInBand,
+  type KPIClassification,
+  type KPIKey,
+  type MeasuredKPIKey
+} from '@/config/kpiConfig';
+import { getKPIFieldName } from '@/config/layerConfig';
+import { bandArcadeCondition } from './conditionClassification';
+import { getSubgroupKey } from './deteriorationModel';
+
+/**
+ * ============================================================================
+ * COMPOSITE INDEX
+ * ============================================================================
+ *
+ * Scores segments with the composite condition index (config/compositeIndex.ts),
+ * in JS for statistics and as an Arcade expression for the map renderer, so
+ * both always give the same score.
+ *
+ * Keep this module free of DOM and ArcGIS imports so it can run in the
+ * aggregation worker.
+ */
+
+/** Raw KPI field to read for each component KPI */
+export type CompositeFields = Partial<Record<MeasuredKPIKey, string>>;
+
+/**
+ * Composite score for one survey year, written to outputField on each row
+ */
+export interface CompositeSpec {
+  fields: CompositeFields;
+  weights: CompositeWeights;
+  outputField: string;
+  /** Subgroup flag fields (1 = member); segments with none are Rural */
+  subgroupFields?: string[];
+  /** Also write each segment's subgroup key here, e.g. for grouping */
+  subgroupKeyField?: string;
+}
+
+type Row = Record<string, any>;
+
+type Classifications = Partial<Record<KPIKey, KPIClassification>>;
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Survey-year fields for every measured KPI
+ */
+export function getCompositeFields(year: number): CompositeFields {
+  const fields: CompositeFields = {};
+  MEASURED_KPIS.forEach(kpi => {
+    fields[kpi] = getKPIFieldName(kpi, year);
+  });
+  return fields;
+}
+
+/**
+ * KPIs that count towards the score: a field to read and a positive weight
+ */
+export function getComponentKPIs(fields: CompositeFields, weights: CompositeWeights): MeasuredKPIKey[] {
+  return MEASURED_KPIS.filter(kpi => fields[kpi] && (weights[kpi] ?? 0) > 0);
+}
+
+/**
+ * Normalised 0-100 score for one KPI value from the position of its band,
+ * or null when it has no class
+ */
+export function getComponentScore(
+  kpi: MeasuredKPIKey,
+  value: number | null,
+  classification: KPIClassification = getKPIClassification(kpi)
+): number | null {
+  if (value === null) return null;
+  const bandIndex = classification.bands.findIndex(band => isValueInBand(band, value));
+  return bandIndex < 0 ? null : getBandScore(bandIndex, classification.bands.length);
+}
+
+/**
+ * Weighted mean of the component scores a segment has
+ * @returns null when none of the component KPIs were surveyed
+ */
+export function computeCompositeScore(
+  row: Row,
+  fields: CompositeFields,
+  weights: CompositeWeights,
+  classifications: Classifications = {}
+): number | null {
+  let total = 0;
+  let weightSum = 0;
+
+  getComponentKPIs(fields, weights).forEach(kpi => {
+    const score = getComponentScore(kpi, toNumber(row[fields[kpi]!]), classifications[kpi]);
+    if (score === null) return;
+    total += score * weights[kpi];
+    weightSum += weights[kpi];
+  });
+
+  return weightSum > 0 ? total / weightSum : null;
+}
+
+/**
+ * Copy rows with the composite score added for each spec
+ */
+export function applyComposites(rows: Row[], specs: CompositeSpec[], classifications: Classifications = {}): Row[] {
+  return rows.map(row => {
+    const output = { ...row };
+    specs.forEach(spec => {
+      output[spec.outputField] = computeCompositeScore(row, spec.fields, spec.weights, classifications);
+      if (spec.subgroupKeyField) output[spec.subgroupKeyField] = getSubgroupKey(row, spec.subgroupFields ?? []);
+    });
+    return output;
+  });
+}
+
+/**
+ * Arcade statements declaring `value` as the composite score (null when no
+ * component was surveyed), using the active class bands
+ */
+export function buildCompositeArcadeStatements(fields: CompositeFields, weights: CompositeWeights): string[] {
+  const lines = ['var total = 0;', 'var weightSum = 0;'];
+
+  getComponentKPIs(fields, weights).forEach(kpi => {
+    const variable = `v_${kpi}`;
+    const weight = weights[kpi];
+    lines.push(`var ${variable} = $feature.${fields[kpi]};`);
+
+    const { bands } = getKPIClassification(kpi);
+    const tests = bands.map((band, index) =>
+      `if (${bandArcadeCondition(band, variable)}) { total += ${getBandScore(index, bands.length) * weight}; weightSum += ${weight}; }`
+    );
+    lines.push(`if (!IsEmpty(${variable})) {`, ...tests.map((test, i) => (i === 0 ? `  ${test}` : `  else ${test}`)), '}');
+  });
+
+  lines.push('var value = null;', 'if (weightSum > 0) { value = total / weightSum; }');
+  return lines;
+}
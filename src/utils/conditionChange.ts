@@ -0,0 +1,122 @@
+// src/utils/conditionChange.ts
+
+import type { CompositeWeights } from '@/config/compositeIndex';
+import {
+  getKPIClassification,
+  isCompositeKPI,
+  type KPIClassification,
+  type KPIKey
+} from '@/config/kpiConfig';
+import { getKPIFieldName } from '@/config/layerConfig';
+import { bandArcadeCondition, getBandBoundaries } from './conditionClassification';
+import { buildCompositeArcadeStatements, getCompositeFields } from './compositeIndex';
+
+/**
+ * ============================================================================
+ * CONDITION CHANGE
+ * ============================================================================
+ *
+ * Change of each segment between two survey years, for the change renderer:
+ * either the shift in condition class (improved / stable / deteriorated,
+ * classified with the active threshold profile) or the change in value,
+ * signed so that a positive change is always an improvement.
+ */
+
+/** How the change renderer symbolises segments */
+export type ChangeRendererMethod = 'classShift' | 'value';
+
+export type ChangeCategory = 'improved' | 'stable' | 'deteriorated';
+
+export const CHANGE_CATEGORIES: ChangeCategory[] = ['improved', 'stable', 'deteriorated'];
+
+/** Values returned by the class shift Arcade expression */
+export const CHANGE_CATEGORY_CODES: Record<ChangeCategory, number> = {
+  improved: 1,
+  stable: 2,
+  deteriorated: 3
+};
+
+export const CHANGE_CATEGORY_LABELS: Record<ChangeCategory, string> = {
+  improved: 'Improved',
+  stable: 'Unchanged',
+  deteriorated: 'Deteriorated'
+};
+
+/**
+ * Change that saturates the diverging value ramp: half the span between the
+ * best and worst class boundaries (e.g. 2 mm/m for IRI with bounds 3 to 7)
+ */
+export function getChangeRampScale(
+  kpi: KPIKey,
+  classification: KPIClassification = getKPIClassification(kpi)
+): number {
+  const boundaries = getBandBoundaries(classification).filter(Number.isFinite);
+  if (boundaries.length < 2) return 1;
+  const span = Math.abs(boundaries[boundaries.length - 1] - boundaries[0]);
+  return span > 0 ? span / 2 : 1;
+}
+
+/**
+ * Arcade statements declaring `value` as the KPI value in a survey year
+ */
+function getYearValueStatements(kpi: KPIKey, year: number, weights: CompositeWeights): string[] {
+  return isCompositeKPI(kpi)
+    ? buildCompositeArcadeStatements(getCompositeFields(year), weights)
+    : [`var value = $feature.${getKPIFieldName(kpi, year)};`];
+}
+
+/** Arcade function returning the KPI value in a survey year */
+function buildYearValueFunction(name: string, kpi: KPIKey, year: number, weights: CompositeWeights): string[] {
+  return [
+    `function ${name}() {`,
+    ...getYearValueStatements(kpi, year, weights).map(line => `  ${line}`),
+    '  return value;',
+    '}'
+  ];
+}
+
+/**
+ * Arcade expression for the change renderer. Segments without a value in
+ * either year return null (drawn with the default symbol).
+ *
+ * - classShift: a CHANGE_CATEGORY_CODES value from the class order, best first
+ * - value: the change in value, positive when condition improved
+ *
+ * @param weights - Composite weights, used only for the composite KPI
+ */
+export function buildChangeArcadeExpression(
+  kpi: KPIKey,
+  fromYear: number,
+  toYear: number,
+  method: ChangeRendererMethod,
+  weights: CompositeWeights,
+  classification: KPIClassification = getKPIClassification(kpi)
+): string {
+  const lines = [
+    ...buildYearValueFunction('fromYearValue', kpi, fromYear, weights),
+    ...buildYearValueFunction('toYearValue', kpi, toYear, weights),
+    'var fromValue = fromYearValue();',
+    'var toValue = toYearValue();',
+    'if (IsEmpty(fromValue) || IsEmpty(toValue)) { return null; }'
+  ];
+
+  if (method === 'value') {
+    const sign = classification.higherIsBetter ? '' : '-';
+    lines.push(`return ${sign}(toValue - fromValue);`);
+    return lines.join('\n');
+  }
+
+  lines.push(
+    'function classIndex(v) {',
+    ...classification.bands.map((band, index) => `  if (${bandArcadeCondition(band, 'v')}) { return ${index}; }`),
+    '  return null;',
+    '}',
+    'var fromClass = classIndex(fromValue);',
+    'var toClass = classIndex(toValue);',
+    'if (IsEmpty(fromClass) || IsEmpty(toClass)) { return null; }',
+    `if (toClass < fromClass) { return ${CHANGE_CATEGORY_CODES.improved}; }`,
+    `if (toClass > fromClass) { return ${CHANGE_CATEGORY_CODES.deteriorated}; }`,
+    `return ${CHANGE_CATEGORY_CODES.stable};`
+  );
+  return lines.join('\n');
+}
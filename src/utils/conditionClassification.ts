@@ -0,0 +1,319 @@
+// src/utils/conditionClassification.ts
+
+import {
+  KPI_LABELS,
+  MEASURED_KPIS,
+  getKPIClassification,
+  toSimplifiedClass,
+  type ConditionClass,
+  type ConditionClassBand,
+  type KPIClassification,
+  type KPIKey
+} from '@/config/kpiConfig';
+import { CLASS_LABELS } from '@/config/rendererConfig';
+import { where, renderWhere, type WhereClause } from './whereClause';
+
+/**
+ * ============================================================================
+ * CONDITION CLASSIFICATION
+ * ============================================================================
+ *
+ * Generates every representation of the condition classes from the active
+ * band definition (getKPIClassification in config/kpiConfig.ts):
+ *
+ * - SQL WHERE clauses and CASE expressions for server-side statistics
+ * - class-field values used by the pre-calculated *_Class_<year> fields
+ * - map renderer class breaks and the Arcade expression for raw values
+ * - the condition class definition rows shown in the methodology section
+ *
+ * The JS classifier (getConditionClass) lives next to the bands in kpiConfig
+ * so it stays available to the aggregation worker.
+ */
+
+export const CONDITION_CLASSES: ConditionClass[] = ['veryGood', 'good', 'fair', 'poor', 'veryPoor'];
+
+export interface ClassBreakDefinition {
+  /** Class-field values covered by this break (inclusive) */
+  minValue: number;
+  maxValue: number;
+  conditionClass: ConditionClass;
+  label: string;
+}
+
+export interface ConditionClassDefinitionRow extends Record<ConditionClass, string> {
+  key: KPIKey;
+  parameter: string;
+}
+
+/** Shown for classes a KPI does not have (e.g. Very Poor PSCI) */
+const NO_CLASS = '—';
+
+const getBands = (kpi: KPIKey, conditionClass: ConditionClass, use5Classes: boolean): ConditionClassBand[] =>
+  getKPIClassification(kpi).bands.filter(band =>
+    use5Classes ? band.conditionClass === conditionClass : toSimplifiedClass(band.conditionClass) === conditionClass
+  );
+
+/**
+ * Merge adjacent bands into one covering band (used for the 3-class system)
+ */
+const mergeBands = (bands: ConditionClassBand[]): ConditionClassBand => {
+  const lowest = bands.reduce((a, b) => (a.min === undefined || (b.min !== undefined && b.min >= a.min) ? a : b));
+  const highest = bands.reduce((a, b) => (a.max === undefined || (b.max !== undefined && b.max <= a.max) ? a : b));
+  return {
+    conditionClass: bands[0].conditionClass,
+    classValue: bands[0].classValue,
+    min: lowest.min,
+    minInclusive: lowest.minInclusive,
+    max: highest.max,
+    maxInclusive: highest.maxInclusive
+  };
+};
+
+/** === SQL === */
+
+/**
+ * Where clause matching a single band of raw KPI values
+ */
+export function bandWhereClause(field: string, band: ConditionClassBand): WhereClause {
+  return where.range(field, {
+    min: band.min,
+    max: band.max,
+    minInclusive: band.minInclusive ?? true,
+    maxInclusive: band.maxInclusive ?? false
+  });
+}
+
+/**
+ * Where clause matching raw KPI values in a condition class
+ * Classes the KPI does not have match nothing.
+ * @param use5Classes - When false, conditionClass is a 3-class key (good/fair/poor)
+ */
+export function conditionClassWhereClause(
+  kpi: KPIKey,
+  field: string,
+  conditionClass: ConditionClass,
+  use5Classes: boolean = true
+): WhereClause {
+  const bands = getBands(kpi, conditionClass, use5Classes);
+  if (bands.length === 0) return where.none();
+  return where.or(...bands.map(band => bandWhereClause(field, band)));
+}
+
+/**
+ * SUM-able CASE expression: 1 when the raw value is in the class, else 0
+ */
+export function conditionClassCaseExpression(
+  kpi: KPIKey,
+  field: string,
+  conditionClass: ConditionClass,
+  use5Classes: boolean = true
+): string {
+  return `CASE WHEN ${renderWhere(conditionClassWhereClause(kpi, field, conditionClass, use5Classes))} THEN 1 ELSE 0 END`;
+}
+
+/**
+ * CASE expressions for every 5-class condition, keyed by class
+ */
+export function getClassificationExpressions(kpi: KPIKey, field: string): Record<ConditionClass, string> {
+  return CONDITION_CLASSES.reduce((expressions, conditionClass) => {
+    expressions[conditionClass] = conditionClassCaseExpression(kpi, field, conditionClass);
+    return expressions;
+  }, {} as Record<ConditionClass, string>);
+}
+
+/** === CLASS FIELDS === */
+
+/**
+ * Value stored in the pre-calculated class field for a condition, if the KPI has it
+ */
+export function getClassFieldValue(kpi: KPIKey, conditionClass: ConditionClass): number | undefined {
+  return getKPIClassification(kpi).bands.find(band => band.conditionClass === conditionClass)?.classValue;
+}
+
+/**
+ * Condition class for a pre-calculated class field value
+ */
+export function getConditionClassForClassValue(kpi: KPIKey, classValue: number): ConditionClass | null {
+  return getKPIClassification(kpi).bands.find(band => band.classValue === classValue)?.conditionClass ?? null;
+}
+
+/**
+ * Where clause matching a condition class on the pre-calculated class field
+ */
+export function classFieldWhereClause(
+  kpi: KPIKey,
+  classField: string,
+  conditionClass: ConditionClass,
+  use5Classes: boolean = true
+): WhereClause {
+  const values = getBands(kpi, conditionClass, use5Classes).map(band => band.classValue);
+  if (values.length === 0) return where.none();
+  return values.length === 1 ? where.eq(classField, values[0]) : where.in(classField, values);
+}
+
+/** === RENDERERS === */
+
+/**
+ * Format a band's bounds for legends and tables, e.g. '< 3.0', '0.45 - 0.50', '> 0.50'
+ */
+export function formatBandRange(kpi: KPIKey, band: ConditionClassBand): string {
+  if (band.rangeLabel) return band.rangeLabel;
+
+  const { decimals } = getKPIClassification(kpi);
+  const format = (value: number) => value.toFixed(decimals);
+
+  if (band.min !== undefined && band.max !== undefined) {
+    return `${format(band.min)} - ${format(band.max)}`;
+  }
+  if (band.max !== undefined) {
+    return `${band.maxInclusive ? '≤' : '<'} ${format(band.max)}`;
+  }
+  if (band.min !== undefined) {
+    return `${(band.minInclusive ?? true) ? '≥' : '>'} ${format(band.min)}`;
+  }
+  return 'All';
+}
+
+/**
+ * Class breaks over class-field values, best to worst
+ * In the 3-class system adjacent bands share a break (e.g. classes 1-2 are Good).
+ */
+export function getClassBreakDefinitions(kpi: KPIKey, use5Classes: boolean = true): ClassBreakDefinition[] {
+  const { bands } = getKPIClassification(kpi);
+
+  if (use5Classes) {
+    return bands.map(band => ({
+      minValue: band.classValue,
+      maxValue: band.classValue,
+      conditionClass: band.conditionClass,
+      label: `${CLASS_LABELS[band.conditionClass]} (${formatBandRange(kpi, band)})`
+    }));
+  }
+
+  const breaks: ClassBreakDefinition[] = [];
+  (['good', 'fair', 'poor'] as const).forEach(conditionClass => {
+    const group = getBands(kpi, conditionClass, false);
+    if (group.length === 0) return;
+    breaks.push({
+      minValue: Math.min(...group.map(band => band.classValue)),
+      maxValue: Math.max(...group.map(band => band.classValue)),
+      conditionClass,
+      label: `${CLASS_LABELS[conditionClass]} (${formatBandRange(kpi, group.length > 1 ? mergeBands(group) : group[0])})`
+    });
+  });
+  return breaks;
+}
+
+/**
+ * Arcade expression returning the class-field value for a raw KPI field,
+ * so raw-value renderers can reuse the class-field breaks
+ */
+export function buildClassArcadeExpression(kpi: KPIKey, field: string): string {
+  return buildValueClassArcadeExpression(kpi, [`var value = $feature.${field};`]);
+}
+
+/**
+ * Arcade expression returning the class-field value for a computed value
+ * @param valueStatements - Arcade statements that declare `value`
+ */
+export function buildValueClassArcadeExpression(
+  kpi: KPIKey,
+  valueStatements: string[],
+  classification: KPIClassification = getKPIClassification(kpi)
+): string {
+  const lines = [...valueStatements, 'if (IsEmpty(value)) { return null; }'];
+
+  classification.bands.forEach(band => {
+    lines.push(`if (${bandArcadeCondition(band, 'value')}) { return ${band.classValue}; }`);
+  });
+
+  lines.push('return null;');
+  return lines.join('\n');
+}
+
+/**
+ * Arcade test for a variable falling in a band
+ */
+export function bandArcadeCondition(band: ConditionClassBand, variable: string): string {
+  const conditions: string[] = [];
+  if (band.min !== undefined) conditions.push(`${variable} ${(band.minInclusive ?? true) ? '>=' : '>'} ${band.min}`);
+  if (band.max !== undefined) conditions.push(`${variable} ${band.maxInclusive ? '<=' : '<'} ${band.max}`);
+  return conditions.join(' && ') || 'true';
+}
+
+/** === METHODOLOGY === */
+
+/**
+ * Rows for the condition class definition table, one per KPI
+ */
+export function getConditionClassDefinitionRows(
+  kpis: KPIKey[] = MEASURED_KPIS
+): ConditionClassDefinitionRow[] {
+  return kpis.map(kpi => {
+    const { unit } = getKPIClassification(kpi);
+    const row: ConditionClassDefinitionRow = {
+      key: kpi,
+      parameter: unit ? `${KPI_LABELS[kpi]} (${unit})` : KPI_LABELS[kpi],
+      veryGood: NO_CLASS,
+      good: NO_CLASS,
+      fair: NO_CLASS,
+      poor: NO_CLASS,
+      veryPoor: NO_CLASS
+    };
+    getKPIClassification(kpi).bands.forEach(band => {
+      row[band.conditionClass] = formatBandRange(kpi, band);
+    });
+    return row;
+  });
+}
+
+/** === EDITING === */
+
+/**
+ * Boundaries between adjacent bands, best to worst
+ * (each is the max of the better band for lower-is-better KPIs, the min otherwise)
+ */
+export function getBandBoundaries(classification: KPIClassification): number[] {
+  return classification.bands.slice(0, -1).map(band =>
+    (classification.higherIsBetter ? band.min : band.max) ?? NaN
+  );
+}
+
+/**
+ * Copy of a classification with new band boundaries; band structure and
+ * bound inclusivity are kept. Range label overrides are dropped for bands whose
+ * bounds change.
+ */
+export function withBandBoundaries(classification: KPIClassification, boundaries: number[]): KPIClassification {
+  const bands = classification.bands.map((band, index) => {
+    const next: ConditionClassBand = { ...band };
+    // Bound shared with the better band before, and with the worse band after
+    const previousBound = classification.higherIsBetter ? 'max' : 'min';
+    const nextBound = classification.higherIsBetter ? 'min' : 'max';
+    if (index > 0) next[previousBound] = boundaries[index - 1];
+    if (index < classification.bands.length - 1) next[nextBound] = boundaries[index];
+    if (next.min !== band.min || next.max !== band.max) delete next.rangeLabel;
+    return next;
+  });
+  return { ...classification, bands };
+}
+
+/**
+ * Check that boundaries are numbers ordered from best to worst
+ * @returns An error message, or null when the classification is valid
+ */
+export function validateClassification(classification: KPIClassification): string | null {
+  const boundaries = getBandBoundaries(classification);
+  if (boundaries.some(value => !Number.isFinite(value))) {
+    return 'Every boundary needs a value';
+  }
+  for (let i = 1; i < boundaries.length; i++) {
+    const ordered = classification.higherIsBetter ? boundaries[i] < boundaries[i - 1] : boundaries[i] > boundaries[i - 1];
+    if (!ordered) {
+      return classification.higherIsBetter
+        ? 'Boundaries must decrease from Very Good to Very Poor'
+        : 'Boundaries must increase from Very Good to Very Poor';
+    }
+  }
+  return null;
+}
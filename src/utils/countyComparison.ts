@@ -0,0 +1,95 @@
+// src/utils/countyComparison.ts
+
+import type { KPIKey } from '@/config/kpiConfig';
+import type { SummaryStatistics } from '@/types';
+import { getChangeDirection, type ChangeDirection } from './segmentHistory';
+
+/**
+ * ============================================================================
+ * COUNTY COMPARISON
+ * ============================================================================
+ *
+ * Summary numbers under the Appendix B county maps: the condition of one
+ * Local Authority in two survey years and the change between them.
+ */
+
+export type CountySummaryMetric = 'average' | 'fairOrBetterPct' | 'poorOrWorsePct' | 'lengthKm';
+
+export const COUNTY_SUMMARY_LABELS: Record<CountySummaryMetric, string> = {
+  average: 'Average',
+  fairOrBetterPct: 'Fair or better (%)',
+  poorOrWorsePct: 'Poor or worse (%)',
+  lengthKm: 'Length surveyed (km)'
+};
+
+export interface CountySummaryRow {
+  metric: CountySummaryMetric;
+  label: string;
+  from: number | null;
+  to: number | null;
+  /** to minus from, or null when either year has no segments */
+  change: number | null;
+  /** Null for the surveyed length, which is neither better nor worse */
+  direction: ChangeDirection | null;
+}
+
+const METRICS: CountySummaryMetric[] = ['average', 'fairOrBetterPct', 'poorOrWorsePct', 'lengthKm'];
+
+const metricValue = (stats: SummaryStatistics, metric: CountySummaryMetric): number => {
+  switch (metric) {
+    case 'average':
+      return stats.avgValue;
+    case 'fairOrBetterPct':
+      return stats.fairOrBetterPct;
+    case 'poorOrWorsePct':
+      return stats.poorPct + stats.veryPoorPct;
+    case 'lengthKm':
+      return stats.totalLengthKm;
+  }
+};
+
+/** Percentage changes below display precision (0.1 points) count as 'same' */
+const percentDirection = (change: number, higherIsBetter: boolean): ChangeDirection => {
+  if (Number(change.toFixed(1)) === 0) return 'same';
+  return (change > 0) === higherIsBetter ? 'better' : 'worse';
+};
+
+const metricDirection = (kpi: KPIKey, metric: CountySummaryMetric, change: number): ChangeDirection | null => {
+  switch (metric) {
+    case 'average':
+      return getChangeDirection(kpi, change);
+    case 'fairOrBetterPct':
+      return percentDirection(change, true);
+    case 'poorOrWorsePct':
+      return percentDirection(change, false);
+    case 'lengthKm':
+      return null;
+  }
+};
+
+/**
+ * Summary rows for one KPI of a Local Authority in two survey years.
+ * A year without surveyed segments has no values.
+ */
+export function compareCountySummaries(
+  kpi: KPIKey,
+  from: SummaryStatistics,
+  to: SummaryStatistics
+): CountySummaryRow[] {
+  const valueOf = (stats: SummaryStatistics, metric: CountySummaryMetric): number | null =>
+    stats.totalSegments > 0 ? metricValue(stats, metric) : null;
+
+  return METRICS.map(metric => {
+    const fromValue = valueOf(from, metric);
+    const toValue = valueOf(to, metric);
+    const change = fromValue !== null && toValue !== null ? toValue - fromValue : null;
+    return {
+      metric,
+      label: COUNTY_SUMMARY_LABELS[metric],
+      from: fromValue,
+      to: toValue,
+      change,
+      direction: change === null ? null : metricDirection(kpi, metric, change)
+    };
+  });
+}
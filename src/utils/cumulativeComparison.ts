@@ -0,0 +1,81 @@
+// src/utils/cumulativeComparison.ts
+
+import type { KPIKey } from '@/config/kpiConfig';
+import type { CumulativeDistribution, CumulativeDistributionPoint } from './segmentAggregation';
+import { getChangeDirection, type ChangeDirection } from './segmentHistory';
+
+/**
+ * ============================================================================
+ * CUMULATIVE FREQUENCY COMPARISON
+ * ============================================================================
+ *
+ * Compares the cumulative frequency distributions of one KPI in two survey
+ * years (Appendix A): the headline statistics side by side, and the curve
+ * points nearest a value for the median and P90 markers.
+ */
+
+export type CumulativeStatistic = 'average' | 'median' | 'percentile90' | 'count';
+
+export const CUMULATIVE_STATISTIC_LABELS: Record<CumulativeStatistic, string> = {
+  average: 'Average',
+  median: 'Median',
+  percentile90: '90th percentile',
+  count: 'Segments'
+};
+
+export interface CumulativeStatisticDelta {
+  statistic: CumulativeStatistic;
+  label: string;
+  from: number | null;
+  to: number | null;
+  /** to minus from, or null when either year has no data */
+  change: number | null;
+  /** Null for the segment count, which is neither better nor worse */
+  direction: ChangeDirection | null;
+}
+
+const STATISTICS: CumulativeStatistic[] = ['average', 'median', 'percentile90', 'count'];
+
+/**
+ * Headline statistics of two distributions with the change between them.
+ * A distribution without segments has no statistics.
+ */
+export function compareCumulativeDistributions(
+  kpi: KPIKey,
+  from: CumulativeDistribution,
+  to: CumulativeDistribution
+): CumulativeStatisticDelta[] {
+  const valueOf = (data: CumulativeDistribution, statistic: CumulativeStatistic): number | null =>
+    data.stats.count > 0 ? data.stats[statistic] : null;
+
+  return STATISTICS.map(statistic => {
+    const fromValue = valueOf(from, statistic);
+    const toValue = valueOf(to, statistic);
+    const change = fromValue !== null && toValue !== null ? toValue - fromValue : null;
+    return {
+      statistic,
+      label: CUMULATIVE_STATISTIC_LABELS[statistic],
+      from: fromValue,
+      to: toValue,
+      change,
+      direction: change === null || statistic === 'count' ? null : getChangeDirection(kpi, change)
+    };
+  });
+}
+
+/**
+ * Index of the curve point whose value is closest to the given one, or -1
+ * for an empty curve. Ties go to the lower value.
+ */
+export function findNearestPointIndex(points: CumulativeDistributionPoint[], value: number): number {
+  let nearest = -1;
+  let nearestDistance = Infinity;
+  points.forEach((point, index) => {
+    const distance = Math.abs(point.value - value);
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
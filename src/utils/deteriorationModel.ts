@@ -0,0 +1,207 @@
+// src/utils/deteriorationModel.ts
+
+import { getKPIClassification, type KPIClassification, type KPIKey } from '@/config/kpiConfig';
+
+/**
+ * ============================================================================
+ * DETERIORATION MODEL
+ * ============================================================================
+ *
+ * Projects segment condition to a future year from the survey epochs
+ * (2011, 2018, 2025). Deterioration is modelled as a linear annual rate:
+ *
+ * - 'segment': each segment's own least-squares rate across its surveyed
+ *   years, falling back to its subgroup rate when the segment has fewer than
+ *   two surveys, appears treated, or its trend shows improvement
+ * - 'subgroup': the median segment rate of the segment's subgroup
+ *
+ * Treatment (resurfacing, overlay) resets condition, so a segment whose latest
+ * survey is better than the one before is projected from its latest value at
+ * the subgroup rate. Roads are never projected to improve.
+ *
+ * Keep this module free of DOM and ArcGIS imports so it can run in the
+ * aggregation worker.
+ */
+
+export type ForecastMethod = 'segment' | 'subgroup';
+
+/** KPIs with enough deterioration signal across the epochs to forecast */
+export const FORECAST_KPIS: KPIKey[] = ['iri', 'rut', 'lpv3', 'psci'];
+
+/** Physically possible values; projections are clamped to these */
+const VALUE_LIMITS: Partial<Record<KPIKey, { min: number; max: number }>> = {
+  iri: { min: 0, max: 20 },
+  rut: { min: 0, max: 50 },
+  lpv3: { min: 0, max: 50 },
+  psci: { min: 1, max: 10 }
+};
+
+/** Subgroup key for segments with none of the subgroup flags set */
+export const DEFAULT_SUBGROUP_KEY = 'Rural';
+
+export interface YearField {
+  year: number;
+  field: string;
+}
+
+/**
+ * Projection of one KPI to a target year, written to outputField on each row
+ */
+export interface ProjectionSpec {
+  kpi: KPIKey;
+  /** Raw KPI fields for each surveyed year */
+  yearFields: YearField[];
+  targetYear: number;
+  outputField: string;
+  method: ForecastMethod;
+  /** Subgroup flag fields (1 = member); segments with none are Rural */
+  subgroupFields: string[];
+  /** Also write each segment's subgroup key here, e.g. for grouping */
+  subgroupKeyField?: string;
+  /** Bands that decide direction; defaults to the active classification */
+  classification?: KPIClassification;
+}
+
+export interface SurveyPoint {
+  year: number;
+  value: number;
+}
+
+type Row = Record<string, any>;
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Least-squares slope (units per year) through the survey points
+ * @returns null with fewer than two points
+ */
+export function fitAnnualRate(points: SurveyPoint[]): number | null {
+  if (points.length < 2) return null;
+
+  const meanYear = points.reduce((sum, p) => sum + p.year, 0) / points.length;
+  const meanValue = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+
+  let covariance = 0;
+  let variance = 0;
+  points.forEach(p => {
+    covariance += (p.year - meanYear) * (p.value - meanValue);
+    variance += (p.year - meanYear) ** 2;
+  });
+
+  return variance > 0 ? covariance / variance : null;
+}
+
+/**
+ * Convert a value rate into a deterioration rate (positive = getting worse)
+ */
+const toDeterioration = (rate: number, higherIsBetter: boolean) => (higherIsBetter ? -rate : rate);
+
+/**
+ * Whether the most recent survey is better than the one before (treated)
+ */
+export function appearsTreated(points: SurveyPoint[], higherIsBetter: boolean): boolean {
+  if (points.length < 2) return false;
+  const [previous, latest] = points.slice(-2);
+  return toDeterioration(latest.value - previous.value, higherIsBetter) < 0;
+}
+
+/**
+ * Project a value forward at a deterioration rate, clamped to KPI limits
+ */
+export function projectValue(
+  kpi: KPIKey,
+  latest: SurveyPoint,
+  deteriorationRate: number,
+  targetYear: number,
+  higherIsBetter: boolean
+): number {
+  const years = Math.max(0, targetYear - latest.year);
+  const change = Math.max(0, deteriorationRate) * years;
+  const value = higherIsBetter ? latest.value - change : latest.value + change;
+
+  const limits = VALUE_LIMITS[kpi];
+  if (!limits) return value;
+  return Math.min(limits.max, Math.max(limits.min, value));
+}
+
+/**
+ * Subgroup key for a row: the first set subgroup flag, else Rural
+ */
+export function getSubgroupKey(row: Row, subgroupFields: string[]): string {
+  return subgroupFields.find(field => toNumber(row[field]) === 1) ?? DEFAULT_SUBGROUP_KEY;
+}
+
+const getSurveyPoints = (row: Row, yearFields: YearField[]): SurveyPoint[] =>
+  yearFields
+    .map(({ year, field }) => ({ year, value: toNumber(row[field]) }))
+    .filter((point): point is SurveyPoint => point.value !== null)
+    .sort((a, b) => a.year - b.year);
+
+/**
+ * Copy rows with projected values added for each spec
+ * Rows without any survey for a KPI get null. Two passes per spec: the first
+ * collects untreated segment rates by subgroup, the second projects.
+ */
+export function applyProjections(rows: Row[], specs: ProjectionSpec[]): Row[] {
+  const output = rows.map(row => ({ ...row }));
+
+  specs.forEach(spec => {
+    const { higherIsBetter } = spec.classification ?? getKPIClassification(spec.kpi);
+    const points = output.map(row => getSurveyPoints(row, spec.yearFields));
+    const subgroups = output.map(row => getSubgroupKey(row, spec.subgroupFields));
+    const segmentRates: Array<number | null> = points.map(segmentPoints => {
+      if (appearsTreated(segmentPoints, higherIsBetter)) return null;
+      const rate = fitAnnualRate(segmentPoints);
+      return rate === null ? null : toDeterioration(rate, higherIsBetter);
+    });
+
+    // Median untreated rate per subgroup, with the network median as fallback
+    const ratesBySubgroup = new Map<string, number[]>();
+    const allRates: number[] = [];
+    segmentRates.forEach((rate, i) => {
+      if (rate === null) return;
+      allRates.push(rate);
+      const list = ratesBySubgroup.get(subgroups[i]) ?? [];
+      list.push(rate);
+      ratesBySubgroup.set(subgroups[i], list);
+    });
+    const networkRate = Math.max(0, median(allRates) ?? 0);
+    const subgroupRates = new Map<string, number>();
+    ratesBySubgroup.forEach((rates, key) => subgroupRates.set(key, Math.max(0, median(rates) ?? networkRate)));
+
+    output.forEach((row, i) => {
+      if (spec.subgroupKeyField) row[spec.subgroupKeyField] = subgroups[i];
+
+      const segmentPoints = points[i];
+      if (segmentPoints.length === 0) {
+        row[spec.outputField] = null;
+        return;
+      }
+
+      const groupRate = subgroupRates.get(subgroups[i]) ?? networkRate;
+      const ownRate = segmentRates[i];
+      const rate = spec.method === 'segment' && ownRate !== null && ownRate >= 0 ? ownRate : groupRate;
+
+      row[spec.outputField] = projectValue(
+        spec.kpi,
+        segmentPoints[segmentPoints.length - 1],
+        rate,
+        spec.targetYear,
+        higherIsBetter
+      );
+    });
+  });
+
+  return output;
+}
@@ -0,0 +1,147 @@
+// src/utils/hotspotDetection.ts
+
+import {
+  getConditionClass,
+  getKPIClassification,
+  type KPIClassification,
+  type KPIKey
+} from '@/config/kpiConfig';
+
+/**
+ * ============================================================================
+ * HOTSPOT DETECTION
+ * ============================================================================
+ *
+ * Finds poor-condition hotspots: runs of consecutive Poor / Very Poor segments
+ * along a route. A run may bridge short gaps of better (or unsurveyed)
+ * segments, so a single Fair segment does not split an otherwise continuous
+ * stretch of poor road.
+ *
+ * Segments are ordered along each route by their `order` key (the object ID
+ * on the road layer, which follows digitising order).
+ *
+ * Keep this module free of DOM and ArcGIS imports so it can run in the
+ * aggregation worker.
+ */
+
+export interface HotspotSegment {
+  id: number;
+  route: string;
+  /** Position along the route */
+  order: number;
+  la?: string | null;
+  value: number | null;
+}
+
+export interface HotspotOptions {
+  /** Fewest Poor / Very Poor segments a run needs to count as a hotspot */
+  minSegments: number;
+  /** Most consecutive non-poor segments a run may bridge */
+  maxGap: number;
+}
+
+export interface HotspotRun {
+  route: string;
+  /** Local Authority of most of the run's segments */
+  la: string | null;
+  /** Every segment in the run, in route order, including bridged gaps */
+  segmentIds: number[];
+  poorSegments: number;
+  /** Mean KPI value of the surveyed segments in the run */
+  meanValue: number | null;
+}
+
+/**
+ * Whether a value is in the Poor or Very Poor class
+ */
+export function isPoorValue(
+  kpi: KPIKey,
+  value: number | null,
+  classification: KPIClassification = getKPIClassification(kpi)
+): boolean {
+  if (value === null) return false;
+  const conditionClass = getConditionClass(kpi, value, true, classification);
+  return conditionClass === 'poor' || conditionClass === 'veryPoor';
+}
+
+const mostCommon = (values: Array<string | null | undefined>): string | null => {
+  const counts = new Map<string, number>();
+  values.forEach(value => {
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+  let best: string | null = null;
+  counts.forEach((count, value) => {
+    if (best === null || count > counts.get(best)!) best = value;
+  });
+  return best;
+};
+
+const toRun = (segments: HotspotSegment[], poorSegments: number): HotspotRun => {
+  const values = segments.map(segment => segment.value).filter((value): value is number => value !== null);
+  return {
+    route: segments[0].route,
+    la: mostCommon(segments.map(segment => segment.la)),
+    segmentIds: segments.map(segment => segment.id),
+    poorSegments,
+    meanValue: values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+  };
+};
+
+/**
+ * Runs of poor segments on one route, in route order
+ */
+function detectRouteRuns(
+  segments: HotspotSegment[],
+  isPoor: (segment: HotspotSegment) => boolean,
+  { minSegments, maxGap }: HotspotOptions
+): HotspotRun[] {
+  const runs: HotspotRun[] = [];
+  let start = -1;
+  let lastPoor = -1;
+  let poorCount = 0;
+
+  const close = () => {
+    if (start >= 0 && poorCount >= minSegments) {
+      runs.push(toRun(segments.slice(start, lastPoor + 1), poorCount));
+    }
+    start = -1;
+    poorCount = 0;
+  };
+
+  segments.forEach((segment, index) => {
+    if (!isPoor(segment)) return;
+    if (start >= 0 && index - lastPoor - 1 > maxGap) close();
+    if (start < 0) start = index;
+    lastPoor = index;
+    poorCount++;
+  });
+  close();
+
+  return runs;
+}
+
+/**
+ * Poor-condition hotspots on every route
+ *
+ * @param segments - Segments in any order; they are grouped by route and sorted by `order`
+ * @param isPoor - Whether a segment counts as poor
+ */
+export function detectHotspotRuns(
+  segments: HotspotSegment[],
+  isPoor: (segment: HotspotSegment) => boolean,
+  options: HotspotOptions
+): HotspotRun[] {
+  const byRoute = new Map<string, HotspotSegment[]>();
+  segments.forEach(segment => {
+    const routeSegments = byRoute.get(segment.route);
+    if (routeSegments) routeSegments.push(segment);
+    else byRoute.set(segment.route, [segment]);
+  });
+
+  const runs: HotspotRun[] = [];
+  byRoute.forEach(routeSegments => {
+    routeSegments.sort((a, b) => a.order - b.order);
+    runs.push(...detectRouteRuns(routeSegments, isPoor, options));
+  });
+  return runs;
+}
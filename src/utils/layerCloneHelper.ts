@@ -2,9 +2,17 @@
 // MODIFIED VERSION - Updated to work with async renderer creation
 
 import FeatureLayer from '@arcgis/core/layers/FeatureLayer';
-import type { KPIKey } from '@/config/kpiConfig';
+import Polygon from '@arcgis/core/geometry/Polygon';
+import FeatureFilter from '@arcgis/core/layers/support/FeatureFilter';
+import * as reactiveUtils from '@arcgis/core/core/reactiveUtils';
+import type MapView from '@arcgis/core/views/MapView';
+import { isCompositeKPI, type KPIKey } from '@/config/kpiConfig';
 import type { LAMetricType } from '@/config/layerConfig';
+import CompositeIndexService from '@/services/CompositeIndexService';
 import LARendererService from '@/services/LARendererService';
+import RendererService from '@/services/RendererService';
+import type { RoadDataInput } from '@/services/RoadDataSource';
+import type { SpatialFilter } from '@/types';
 
 /**
  * Clone an LA layer with a specific renderer for swipe comparison
@@ -16,6 +24,7 @@ import LARendererService from '@/services/LARendererService';
  * @param metricType - Visualization mode ('average' or 'fairOrBetter')
  * @param themeMode - Current theme for styling
  * @param title - Optional custom title for the cloned layer
+ * @param roadData - Road segments to score the composite index from (composite only)
  * @returns Promise resolving to the cloned FeatureLayer with continuous gradient renderer
  */
 export async function cloneLALayer(
@@ -24,17 +33,26 @@ export async function cloneLALayer(
   year: number,
   metricType: LAMetricType,
   themeMode: 'light' | 'dark',
-  title?: string
+  title?: string,
+  roadData?: RoadDataInput | null
 ): Promise<FeatureLayer> {
-  // Create renderer with continuous gradient
-  // Now passes the layer to enable max value queries
-  const renderer = await LARendererService.createLARenderer(
-    kpi,
-    year,
-    metricType,
-    themeMode,
-    sourceLayer  // Pass the source layer for querying max values
-  );
+  let renderer;
+  if (isCompositeKPI(kpi)) {
+    // The composite index has no LA layer field; score it from the road segments
+    if (!roadData) throw new Error('Road data is required to compare the composite index');
+    const values = await CompositeIndexService.computeLAValues(roadData, year, metricType);
+    renderer = LARendererService.createCompositeLARenderer(year, metricType, themeMode, values);
+  } else {
+    // Create renderer with continuous gradient
+    // Now passes the layer to enable max value queries
+    renderer = await LARendererService.createLARenderer(
+      kpi,
+      year,
+      metricType,
+      themeMode,
+      sourceLayer  // Pass the source layer for querying max values
+    );
+  }
 
   const clonedLayer = new FeatureLayer({
     url: sourceLayer.url,
@@ -50,6 +68,85 @@ export async function cloneLALayer(
   return clonedLayer;
 }
 
+/**
+ * Clone the road network layer with the condition renderer for a KPI and year,
+ * keeping the filters applied to it (definition expression)
+ *
+ * @param sourceLayer - The road network FeatureLayer to clone
+ * @param kpi - The KPI to visualize
+ * @param year - The survey year
+ * @param themeMode - Current theme for styling
+ * @param title - Optional custom title for the cloned layer
+ * @returns The cloned FeatureLayer with segment-level symbology
+ */
+export function cloneRoadLayer(
+  sourceLayer: FeatureLayer,
+  kpi: KPIKey,
+  year: number,
+  themeMode: 'light' | 'dark',
+  title?: string
+): FeatureLayer {
+  const clonedLayer = new FeatureLayer({
+    url: sourceLayer.url,
+    title: title || `${sourceLayer.title} - ${kpi.toUpperCase()} ${year}`,
+    definitionExpression: sourceLayer.definitionExpression,
+    renderer: RendererService.createRenderer(kpi, year, themeMode, true),
+    opacity: sourceLayer.opacity,
+    visible: true,
+    popupEnabled: sourceLayer.popupEnabled,
+    popupTemplate: sourceLayer.popupTemplate
+  });
+
+  console.log(`[Clone] Created road layer: ${clonedLayer.title}`);
+  return clonedLayer;
+}
+
+/**
+ * A copy of the road layer without its definition expression, for report
+ * figures that cover the whole network whatever the dashboard is filtered to.
+ * Load it before querying; destroy it when done.
+ */
+export function createNetworkLayer(sourceLayer: FeatureLayer): FeatureLayer {
+  return new FeatureLayer({
+    url: sourceLayer.url,
+    title: sourceLayer.title,
+    outFields: ['*'],
+    popupEnabled: false
+  });
+}
+
+/**
+ * Draw only the segments inside the area filter on a cloned road layer, or all
+ * of them when there is none. An extent filter is drawn as it stands; the store
+ * replaces it each time the map stops moving, so callers re-apply on change.
+ */
+export async function applySpatialFilterToClone(
+  view: MapView,
+  layer: FeatureLayer,
+  spatial: SpatialFilter | null | undefined
+): Promise<void> {
+  const layerView = await view.whenLayerView(layer);
+  layerView.filter = spatial
+    ? new FeatureFilter({ geometry: Polygon.fromJSON(spatial.geometry), spatialRelationship: 'intersects' })
+    : null;
+}
+
+/**
+ * Copy the road layer's definition expression to cloned road layers whenever
+ * it changes, so filters applied while the clones are shown reach them too.
+ * Remove the returned handle with the clones.
+ */
+export function followDefinitionExpression(sourceLayer: FeatureLayer, clones: FeatureLayer[]): IHandle {
+  return reactiveUtils.watch(
+    () => sourceLayer.definitionExpression,
+    expression => {
+      clones.forEach(clone => {
+        clone.definitionExpression = expression;
+      });
+    }
+  );
+}
+
 export function removeClonedLayer(map: __esri.WebMap, layer: FeatureLayer): void {
   if (!map || !layer) return;
 
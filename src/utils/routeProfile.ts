@@ -0,0 +1,115 @@
+// src/utils/routeProfile.ts
+
+import type { ConditionClass, KPIClassification, KPIKey } from '@/config/kpiConfig';
+import { SEGMENT_LENGTH_KM } from '@/config/constants';
+
+/**
+ * ============================================================================
+ * ROUTE PROFILE
+ * ============================================================================
+ *
+ * Linear profile of a route: KPI values of each segment plotted against an
+ * approximate distance along the route. The road layer has no chainage or
+ * measure field, so segments are ordered by object ID, which follows
+ * digitising order (as for hotspot detection), and each 100 m segment starts
+ * where the previous one ended. Routes that cross several LAs or were
+ * digitised out of order get distances that do not match the road, so the
+ * UI labels them as approximate.
+ *
+ * Keep this module free of DOM and ArcGIS imports so it can run in the
+ * aggregation worker.
+ */
+
+/** A KPI in one survey year, read from a row field */
+export interface ProfileSeries {
+  kpi: KPIKey;
+  year: number;
+  field: string;
+}
+
+export interface RouteProfilePoint {
+  id: number;
+  /** Approximate distance to the start of the segment: position in segment order × 100 m */
+  chainageKm: number;
+  la: string | null;
+  /** Values keyed by getSeriesKey(kpi, year) */
+  values: Record<string, number | null>;
+}
+
+/** Vertical extent of a condition class on a profile chart */
+export interface ClassBandRange {
+  conditionClass: ConditionClass;
+  from: number;
+  to: number;
+}
+
+type Row = Record<string, any>;
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+export function getSeriesKey(kpi: KPIKey, year: number): string {
+  return `${kpi}_${year}`;
+}
+
+/**
+ * Profile points for one route's rows, in route order
+ */
+export function buildRouteProfile(
+  rows: Row[],
+  idField: string,
+  laField: string,
+  series: ProfileSeries[]
+): RouteProfilePoint[] {
+  return [...rows]
+    .sort((a, b) => a[idField] - b[idField])
+    .map((row, index) => {
+      const values: Record<string, number | null> = {};
+      series.forEach(({ kpi, year, field }) => {
+        values[getSeriesKey(kpi, year)] = toNumber(row[field]);
+      });
+      return {
+        id: row[idField],
+        // Rounded so 0.1 steps do not drift (0.30000000000000004)
+        chainageKm: Math.round(index * SEGMENT_LENGTH_KM * 1000) / 1000,
+        la: row[laField] ?? null,
+        values
+      };
+    });
+}
+
+/**
+ * Value axis for a KPI: zero up to the largest value, with room above the
+ * highest class boundary so every band shows
+ */
+export function getProfileAxisRange(
+  classification: KPIClassification,
+  values: Array<number | null>
+): { min: number; max: number } {
+  const bounds = classification.bands.flatMap(band => [band.min, band.max])
+    .filter((bound): bound is number => bound !== undefined);
+  const present = values.filter((value): value is number => value !== null);
+
+  const min = Math.min(0, ...present);
+  const max = Math.max(...present, Math.max(...bounds) * 1.15);
+  return { min, max: max > min ? max : min + 1 };
+}
+
+/**
+ * Class bands clipped to the value axis, for shading behind the profile
+ */
+export function getClassBandRanges(
+  classification: KPIClassification,
+  axis: { min: number; max: number }
+): ClassBandRange[] {
+  return classification.bands
+    .map(band => ({
+      conditionClass: band.conditionClass,
+      from: Math.max(band.min ?? axis.min, axis.min),
+      to: Math.min(band.max ?? axis.max, axis.max)
+    }))
+    .filter(range => range.to > range.from);
+}
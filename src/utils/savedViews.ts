@@ -0,0 +1,195 @@
+// src/utils/savedViews.ts
+// Import and export of saved dashboard views as JSON files.
+//
+// Export files carry a format tag and version so other JSON is rejected with
+// a clear message. Imported views are checked field by field: a view with an
+// unusable KPI or filters is skipped rather than failing the whole file.
+
+import { SURVEY_YEARS } from '@/config/constants';
+import { KPI_LABELS, MEASURED_KPIS, type KPIKey } from '@/config/kpiConfig';
+import { SUBGROUP_OPTIONS } from '@/config/layerConfig';
+import {
+  SAVED_VIEWS_FILE_FORMAT,
+  SAVED_VIEWS_FILE_VERSION,
+  type SavedView,
+  type SavedViewExtent
+} from '@/config/savedViews';
+import type {
+  ConditionClassFilter,
+  FilterState,
+  KPIRangeFilter,
+  SpatialFilter,
+  SpatialFilterMode
+} from '@/types';
+import { CONDITION_CLASSES } from './conditionClassification';
+
+export interface SavedViewsFile {
+  format: typeof SAVED_VIEWS_FILE_FORMAT;
+  version: number;
+  views: SavedView[];
+}
+
+export interface SavedViewsImport {
+  views: SavedView[];
+  /** Entries in the file that could not be read */
+  skipped: number;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isSurveyYear = (value: unknown): value is number =>
+  (SURVEY_YEARS as readonly unknown[]).includes(value);
+
+const isMeasuredKPI = (value: unknown): boolean =>
+  (MEASURED_KPIS as unknown[]).includes(value);
+
+const isBound = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isFinite(value));
+
+function readKPIRange(value: unknown): KPIRangeFilter | null {
+  if (!isRecord(value) || !isMeasuredKPI(value.kpi) || !isSurveyYear(value.year)) return null;
+  if (!isBound(value.min) || !isBound(value.max)) return null;
+  return { kpi: value.kpi as KPIRangeFilter['kpi'], year: value.year, min: value.min, max: value.max };
+}
+
+function readConditionClassFilter(value: unknown): ConditionClassFilter | null {
+  if (!isRecord(value) || !isMeasuredKPI(value.kpi) || !isSurveyYear(value.year)) return null;
+  if (!Array.isArray(value.classes) || !value.classes.every(c => (CONDITION_CLASSES as unknown[]).includes(c))) return null;
+  return { kpi: value.kpi as ConditionClassFilter['kpi'], year: value.year, classes: value.classes };
+}
+
+const SPATIAL_FILTER_MODES: SpatialFilterMode[] = ['polygon', 'rectangle', 'buffer', 'extent'];
+
+const isPosition = (value: unknown): boolean =>
+  Array.isArray(value) && value.length >= 2 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+/** Reads an optional spatial filter; undefined if it is present but unreadable */
+function readSpatialFilter(value: unknown): SpatialFilter | null | undefined {
+  if (value === undefined || value === null) return null;
+  if (!isRecord(value) || !SPATIAL_FILTER_MODES.includes(value.mode as SpatialFilterMode)) return undefined;
+
+  const { geometry, radiusKm } = value;
+  if (!isRecord(geometry) || !isRecord(geometry.spatialReference)) return undefined;
+  const { rings, spatialReference } = geometry;
+  if (typeof spatialReference.wkid !== 'number') return undefined;
+  if (!Array.isArray(rings) || rings.length === 0) return undefined;
+  if (!rings.every(ring => Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition))) return undefined;
+
+  return {
+    mode: value.mode as SpatialFilterMode,
+    geometry: { type: 'polygon', rings: rings as number[][][], spatialReference: { wkid: spatialReference.wkid } },
+    ...(typeof radiusKm === 'number' && radiusKm > 0 ? { radiusKm } : {})
+  };
+}
+
+/** Reads an optional list; null if any entry is unreadable */
+function readList<T>(value: unknown, readItem: (item: unknown) => T | null): T[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  const items = value.map(readItem);
+  return items.every((item): item is T => item !== null) ? items : null;
+}
+
+function readFilters(value: unknown): FilterState | null {
+  if (!isRecord(value)) return null;
+  const { localAuthority, subgroup, route, year } = value;
+  const subgroupCodes = SUBGROUP_OPTIONS.map(option => option.code);
+
+  if (!isStringArray(localAuthority) || !isStringArray(route) || !Array.isArray(subgroup)) return null;
+  if (!subgroup.every(code => subgroupCodes.includes(code as number))) return null;
+  if (!isSurveyYear(year)) return null;
+
+  // Views saved before KPI range, class and spatial filters existed have none
+  const kpiRanges = readList(value.kpiRanges, readKPIRange);
+  const conditionClasses = readList(value.conditionClasses, readConditionClassFilter);
+  const spatial = readSpatialFilter(value.spatial);
+  if (!kpiRanges || !conditionClasses || spatial === undefined) return null;
+
+  return { localAuthority, subgroup: subgroup as number[], route, kpiRanges, conditionClasses, spatial, year };
+}
+
+function readExtent(value: unknown): SavedViewExtent | null {
+  if (!isRecord(value) || !isRecord(value.spatialReference)) return null;
+  const { xmin, ymin, xmax, ymax } = value;
+  const { wkid } = value.spatialReference;
+  const numbers = [xmin, ymin, xmax, ymax, wkid];
+  if (!numbers.every(n => typeof n === 'number' && Number.isFinite(n))) return null;
+
+  return {
+    xmin: xmin as number,
+    ymin: ymin as number,
+    xmax: xmax as number,
+    ymax: ymax as number,
+    spatialReference: { wkid: wkid as number }
+  };
+}
+
+function readView(value: unknown): SavedView | null {
+  if (!isRecord(value)) return null;
+  const { id, name, kpi, savedAt } = value;
+  if (typeof id !== 'string' || !id || typeof name !== 'string' || !name.trim()) return null;
+  if (typeof kpi !== 'string' || !Object.prototype.hasOwnProperty.call(KPI_LABELS, kpi)) return null;
+
+  const filters = readFilters(value.filters);
+  if (!filters) return null;
+
+  return {
+    id,
+    name: name.trim(),
+    kpi: kpi as KPIKey,
+    filters,
+    extent: readExtent(value.extent),
+    savedAt: typeof savedAt === 'string' ? savedAt : new Date().toISOString()
+  };
+}
+
+/**
+ * JSON export file for a list of views
+ */
+export function serializeSavedViews(views: SavedView[]): string {
+  const file: SavedViewsFile = {
+    format: SAVED_VIEWS_FILE_FORMAT,
+    version: SAVED_VIEWS_FILE_VERSION,
+    views
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Views from an export file
+ *
+ * @throws Error if the text is not a saved views file this version can read
+ */
+export function parseSavedViews(text: string): SavedViewsImport {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!isRecord(file) || file.format !== SAVED_VIEWS_FILE_FORMAT || !Array.isArray(file.views)) {
+    throw new Error('The file is not a saved views export');
+  }
+  if (typeof file.version !== 'number' || file.version > SAVED_VIEWS_FILE_VERSION) {
+    throw new Error('The file was exported by a newer version of the dashboard');
+  }
+
+  const views = file.views.map(readView).filter((view): view is SavedView => view !== null);
+  return { views, skipped: file.views.length - views.length };
+}
+
+/**
+ * Add imported views to a list. A view with the same ID is replaced, so
+ * re-importing an updated team file does not create duplicates.
+ */
+export function mergeSavedViews(existing: SavedView[], imported: SavedView[]): SavedView[] {
+  const importedIds = new Set(imported.map(view => view.id));
+  return [...existing.filter(view => !importedIds.has(view.id)), ...imported];
+}
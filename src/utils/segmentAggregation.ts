@@ -0,0 +1,395 @@
+// src/utils/segmentAggregation.ts
+
+import {
+  getConditionClass,
+  type ConditionClass,
+  type KPIClassification,
+  type KPIKey
+} from '@/config/kpiConfig';
+import { TREATMENT_CATEGORIES, type TreatmentCategory, type TreatmentRuleSet } from '@/config/treatmentRules';
+import { planBudget, type BudgetPlan, type BudgetPlanSpec } from './budgetPlanner';
+import { applyComposites, type CompositeSpec } from './compositeIndex';
+import { applyProjections, type ProjectionSpec } from './deteriorationModel';
+import { getSegmentTreatment, type TreatmentFields } from './treatmentRecommendation';
+
+/**
+ * ============================================================================
+ * SEGMENT AGGREGATION
+ * ============================================================================
+ *
+ * Pure aggregation routines over raw segment attributes. These run inside the
+ * aggregation web worker (src/workers/aggregation.worker.ts) and, when workers
+ * are unavailable, on the main thread via AggregationService.
+ *
+ * Keep this module free of DOM and ArcGIS imports so it can be bundled into
+ * the worker.
+ */
+
+export type SegmentRow = Record<string, any>;
+
+export type ConditionClassKey = ConditionClass;
+
+/**
+ * Condition class counting for a single KPI field
+ */
+export interface ClassCountSpec {
+  kpi: KPIKey;
+  field: string;
+  /** Use 5-class thresholds (default true, as used in the report tables) */
+  use5Classes?: boolean;
+}
+
+/**
+ * Cumulative distribution over a numeric field, sampled at min..max by step
+ */
+export interface DistributionSpec {
+  key: string;
+  field: string;
+  ranges: { min: number; max: number; step: number };
+}
+
+/**
+ * Condition class transitions for a single KPI between two survey years
+ */
+export interface TransitionSpec {
+  key: string;
+  kpi: KPIKey;
+  fromField: string;
+  toField: string;
+  /** Use 5-class thresholds (default true) */
+  use5Classes?: boolean;
+}
+
+/**
+ * Recommended treatment counts for a rule set, evaluated per segment
+ */
+export interface TreatmentSpec {
+  key: string;
+  ruleSet: TreatmentRuleSet;
+  /** Raw KPI field for each KPI the rule set tests */
+  fields: TreatmentFields;
+}
+
+export interface AggregationRequest {
+  /** Attribute to group by. Omit to aggregate everything into a single group */
+  groupByField?: string;
+  /** Numeric fields to average (nulls are ignored) */
+  averageFields?: string[];
+  classCounts?: ClassCountSpec[];
+  /** Distributions are computed across all rows, not per group */
+  distributions?: DistributionSpec[];
+  /** Transitions are counted across all rows, not per group */
+  transitions?: TransitionSpec[];
+  /** Treatments are counted per group */
+  treatments?: TreatmentSpec[];
+  /** Budget allocation across all rows (grouped by its own LA field) */
+  budget?: BudgetPlanSpec;
+  /**
+   * Projected values to add to each row before aggregating; their output
+   * fields can be used in averageFields, classCounts and distributions
+   */
+  projections?: ProjectionSpec[];
+  /**
+   * Composite index scores to add to each row (after projections); their
+   * output fields can be used like projected fields
+   */
+  composites?: CompositeSpec[];
+  /**
+   * Bands to classify with. The worker cannot see the main thread's active
+   * threshold profile, so AggregationService fills this in.
+   */
+  classifications?: Partial<Record<KPIKey, KPIClassification>>;
+}
+
+export interface FieldAverage {
+  avg: number | null;
+  count: number;
+  sum: number;
+}
+
+export interface GroupAggregate {
+  group: string;
+  /** Number of segments in the group */
+  count: number;
+  averages: Record<string, FieldAverage>;
+  /** Smallest and largest value of each average field (null when no values) */
+  ranges: Record<string, { min: number | null; max: number | null }>;
+  /** Keyed by KPI: segment counts per condition class */
+  classCounts: Partial<Record<KPIKey, Record<ConditionClassKey, number>>>;
+  /** Keyed by treatment spec key */
+  treatments: Record<string, TreatmentAggregate>;
+}
+
+export interface CumulativeDistributionPoint {
+  value: number;
+  cumulativePercent: number;
+}
+
+export interface CumulativeDistribution {
+  dataPoints: CumulativeDistributionPoint[];
+  stats: {
+    average: number;
+    median: number;
+    percentile90: number;
+    count: number;
+    min: number;
+    max: number;
+  };
+}
+
+/**
+ * Segment counts keyed by the class in the first year, then the class in the second
+ */
+export type TransitionCounts = Record<ConditionClassKey, Record<ConditionClassKey, number>>;
+
+export interface TransitionAggregate {
+  counts: TransitionCounts;
+  /** Segments with a class in both years */
+  classified: number;
+  /** Segments missing a value (or class) in either year */
+  unclassified: number;
+}
+
+export interface TreatmentAggregate {
+  counts: Record<TreatmentCategory, number>;
+  /** Segments with none of the tested KPI values */
+  unassessed: number;
+}
+
+export interface AggregationResult {
+  groups: GroupAggregate[];
+  distributions: Record<string, CumulativeDistribution>;
+  transitions: Record<string, TransitionAggregate>;
+  /** Present when the request included a budget */
+  budgetPlan?: BudgetPlan;
+  totalRows: number;
+}
+
+export type AggregationProgressCallback = (processed: number, total: number) => void;
+
+/** Group key used when no groupByField is given */
+export const ALL_SEGMENTS_GROUP = '__all__';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const createClassCounts = (): Record<ConditionClassKey, number> => ({
+  veryGood: 0,
+  good: 0,
+  fair: 0,
+  poor: 0,
+  veryPoor: 0
+});
+
+const createTransitionCounts = (): TransitionCounts => ({
+  veryGood: createClassCounts(),
+  good: createClassCounts(),
+  fair: createClassCounts(),
+  poor: createClassCounts(),
+  veryPoor: createClassCounts()
+});
+
+const createTreatmentAggregate = (): TreatmentAggregate => ({
+  counts: TREATMENT_CATEGORIES.reduce((counts, treatment) => {
+    counts[treatment] = 0;
+    return counts;
+  }, {} as Record<TreatmentCategory, number>),
+  unassessed: 0
+});
+
+/**
+ * Build a cumulative distribution from raw values
+ * Values must already be numeric; the array is sorted in place.
+ */
+export function buildCumulativeDistribution(
+  values: number[],
+  ranges: DistributionSpec['ranges']
+): CumulativeDistribution {
+  if (values.length === 0) {
+    return {
+      dataPoints: [],
+      stats: { average: 0, median: 0, percentile90: 0, count: 0, min: 0, max: 0 }
+    };
+  }
+
+  values.sort((a, b) => a - b);
+  const total = values.length;
+
+  // Walk the sorted values once while stepping through the sample points
+  const dataPoints: CumulativeDistributionPoint[] = [];
+  let index = 0;
+  for (let value = ranges.min; value <= ranges.max; value += ranges.step) {
+    while (index < total && values[index] <= value) index++;
+    dataPoints.push({
+      value: round2(value),
+      cumulativePercent: round2((index / total) * 100)
+    });
+  }
+
+  let sum = 0;
+  for (let i = 0; i < total; i++) sum += values[i];
+
+  return {
+    dataPoints,
+    stats: {
+      average: round2(sum / total),
+      median: round2(values[Math.floor(total * 0.5)]),
+      percentile90: round2(values[Math.floor(total * 0.9)]),
+      count: total,
+      min: values[0],
+      max: values[total - 1]
+    }
+  };
+}
+
+/**
+ * Aggregate raw segment rows into grouped averages, class counts, treatment
+ * counts, cumulative distributions and class transitions in a single pass
+ */
+export function aggregateSegments(
+  inputRows: SegmentRow[],
+  request: AggregationRequest,
+  onProgress?: AggregationProgressCallback,
+  progressInterval: number = 10000
+): AggregationResult {
+  const projected = request.projections?.length ? applyProjections(inputRows, request.projections) : inputRows;
+  const rows = request.composites?.length
+    ? applyComposites(projected, request.composites, request.classifications)
+    : projected;
+  const averageFields = request.averageFields ?? [];
+  const classSpecs = request.classCounts ?? [];
+  const distributionSpecs = request.distributions ?? [];
+  const transitionSpecs = request.transitions ?? [];
+  const treatmentSpecs = request.treatments ?? [];
+
+  const groups = new Map<string, GroupAggregate>();
+  const distributionValues: number[][] = distributionSpecs.map(() => []);
+  const transitions: TransitionAggregate[] = transitionSpecs.map(() => ({
+    counts: createTransitionCounts(),
+    classified: 0,
+    unclassified: 0
+  }));
+  const total = rows.length;
+
+  for (let i = 0; i < total; i++) {
+    const row = rows[i];
+
+    let groupKey = ALL_SEGMENTS_GROUP;
+    if (request.groupByField) {
+      const raw = row[request.groupByField];
+      if (raw === null || raw === undefined || raw === '') {
+        groupKey = '';
+      } else {
+        groupKey = String(raw);
+      }
+    }
+
+    if (groupKey) {
+      let group = groups.get(groupKey);
+      if (!group) {
+        group = { group: groupKey, count: 0, averages: {}, ranges: {}, classCounts: {}, treatments: {} };
+        for (const field of averageFields) {
+          group.averages[field] = { avg: null, count: 0, sum: 0 };
+          group.ranges[field] = { min: null, max: null };
+        }
+        for (const spec of classSpecs) {
+          group.classCounts[spec.kpi] = createClassCounts();
+        }
+        for (const spec of treatmentSpecs) {
+          group.treatments[spec.key] = createTreatmentAggregate();
+        }
+        groups.set(groupKey, group);
+      }
+
+      group.count++;
+
+      for (const field of averageFields) {
+        const value = toNumber(row[field]);
+        if (value === null) continue;
+        const entry = group.averages[field];
+        entry.sum += value;
+        entry.count++;
+        const range = group.ranges[field];
+        if (range.min === null || value < range.min) range.min = value;
+        if (range.max === null || value > range.max) range.max = value;
+      }
+
+      for (const spec of classSpecs) {
+        const value = toNumber(row[spec.field]);
+        if (value === null) continue;
+        const classKey = getConditionClass(spec.kpi, value, spec.use5Classes ?? true, request.classifications?.[spec.kpi]);
+        if (classKey) group.classCounts[spec.kpi]![classKey]++;
+      }
+
+      for (const spec of treatmentSpecs) {
+        const treatment = getSegmentTreatment(row, spec.ruleSet, spec.fields);
+        const entry = group.treatments[spec.key];
+        if (treatment) {
+          entry.counts[treatment]++;
+        } else {
+          entry.unassessed++;
+        }
+      }
+    }
+
+    for (let d = 0; d < distributionSpecs.length; d++) {
+      const value = toNumber(row[distributionSpecs[d].field]);
+      if (value !== null) distributionValues[d].push(value);
+    }
+
+    for (let t = 0; t < transitionSpecs.length; t++) {
+      const spec = transitionSpecs[t];
+      const use5Classes = spec.use5Classes ?? true;
+      const classification = request.classifications?.[spec.kpi];
+      const fromValue = toNumber(row[spec.fromField]);
+      const toValue = toNumber(row[spec.toField]);
+      const fromClass = fromValue === null ? null : getConditionClass(spec.kpi, fromValue, use5Classes, classification);
+      const toClass = toValue === null ? null : getConditionClass(spec.kpi, toValue, use5Classes, classification);
+      if (fromClass && toClass) {
+        transitions[t].counts[fromClass][toClass]++;
+        transitions[t].classified++;
+      } else {
+        transitions[t].unclassified++;
+      }
+    }
+
+    if (onProgress && (i + 1) % progressInterval === 0) {
+      onProgress(i + 1, total);
+    }
+  }
+
+  groups.forEach(group => {
+    Object.values(group.averages).forEach(entry => {
+      entry.avg = entry.count > 0 ? entry.sum / entry.count : null;
+    });
+  });
+
+  const distributions: Record<string, CumulativeDistribution> = {};
+  distributionSpecs.forEach((spec, d) => {
+    distributions[spec.key] = buildCumulativeDistribution(distributionValues[d], spec.ranges);
+  });
+
+  const transitionResults: Record<string, TransitionAggregate> = {};
+  transitionSpecs.forEach((spec, t) => {
+    transitionResults[spec.key] = transitions[t];
+  });
+
+  const budgetPlan = request.budget
+    ? planBudget(rows, request.budget, request.classifications?.[request.budget.outcomeKpi])
+    : undefined;
+
+  onProgress?.(total, total);
+
+  return {
+    groups: Array.from(groups.values()).sort((a, b) => a.group.localeCompare(b.group)),
+    distributions,
+    transitions: transitionResults,
+    budgetPlan,
+    totalRows: total
+  };
+}
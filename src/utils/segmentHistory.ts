@@ -0,0 +1,104 @@
+// src/utils/segmentHistory.ts
+
+import { SURVEY_YEARS } from '@/config/constants';
+import {
+  getConditionClass,
+  getKPIClassification,
+  type ConditionClass,
+  type KPIKey
+} from '@/config/kpiConfig';
+import { getKPIFieldName } from '@/config/layerConfig';
+
+/**
+ * ============================================================================
+ * SEGMENT HISTORY
+ * ============================================================================
+ *
+ * Condition of a single segment across the survey years, as shown in the
+ * segment popup: each KPI's value and condition class per year (classified
+ * with the active threshold profile) and the change since the previous survey.
+ */
+
+export type ChangeDirection = 'better' | 'worse' | 'same';
+
+export interface SurveyReading {
+  year: number;
+  value: number | null;
+  conditionClass: ConditionClass | null;
+}
+
+export interface KPIHistory {
+  kpi: KPIKey;
+  /** One reading per survey year, oldest first */
+  readings: SurveyReading[];
+  /** Latest surveyed value minus the one from the survey before it, or null with fewer than two */
+  change: number | null;
+  direction: ChangeDirection | null;
+}
+
+type Row = Record<string, any>;
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Decimal places for KPI values and changes: as for the band bounds, but at
+ * least one so small changes are not rounded away
+ */
+export function getValueDecimals(kpi: KPIKey): number {
+  return Math.max(getKPIClassification(kpi).decimals, 1);
+}
+
+/**
+ * Whether a change in value is an improvement for the KPI.
+ * Changes that round to zero at display precision count as 'same'.
+ */
+export function getChangeDirection(kpi: KPIKey, change: number): ChangeDirection {
+  const { higherIsBetter } = getKPIClassification(kpi);
+  if (Number(change.toFixed(getValueDecimals(kpi))) === 0) return 'same';
+  return (change > 0) === higherIsBetter ? 'better' : 'worse';
+}
+
+/**
+ * History of each KPI for one segment
+ *
+ * @param row - Segment attributes; composite scores must already be applied
+ *   (see applyComposites) for the composite KPI to have values
+ * @param kpis - KPIs in display order
+ * @param years - Survey years to read
+ */
+export function getSegmentHistory(
+  row: Row,
+  kpis: KPIKey[],
+  years: readonly number[] = SURVEY_YEARS
+): KPIHistory[] {
+  const sortedYears = [...years].sort((a, b) => a - b);
+
+  return kpis.map(kpi => {
+    const readings = sortedYears.map(year => {
+      const value = toNumber(row[getKPIFieldName(kpi, year)]);
+      return {
+        year,
+        value,
+        conditionClass: value === null ? null : getConditionClass(kpi, value, true)
+      };
+    });
+
+    const surveyed = readings
+      .map(reading => reading.value)
+      .filter((value): value is number => value !== null);
+    const change = surveyed.length >= 2
+      ? surveyed[surveyed.length - 1] - surveyed[surveyed.length - 2]
+      : null;
+
+    return {
+      kpi,
+      readings,
+      change,
+      direction: change === null ? null : getChangeDirection(kpi, change)
+    };
+  });
+}
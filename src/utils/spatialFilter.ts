@@ -0,0 +1,132 @@
+// src/utils/spatialFilter.ts
+
+import type { SpatialFilterGeometry } from '@/types';
+
+/**
+ * ============================================================================
+ * SPATIAL FILTER GEOMETRY
+ * ============================================================================
+ *
+ * Intersection tests for spatial selection filters on data sources that
+ * cannot ask a server (the in-memory survey extract). Filter polygons are
+ * drawn in the map's spatial reference (Web Mercator); extract geometries are
+ * GeoJSON, which is WGS84 by specification.
+ */
+
+type Position = number[];
+
+const EARTH_RADIUS_M = 6378137;
+const WEB_MERCATOR_WKIDS = [3857, 102100, 102113, 900913];
+
+/**
+ * Filter polygon rings as WGS84 longitude/latitude
+ *
+ * @throws Error for spatial references other than WGS84 and Web Mercator
+ */
+export function toWGS84Rings(geometry: SpatialFilterGeometry): Position[][] {
+  const { wkid } = geometry.spatialReference;
+  if (wkid === 4326) return geometry.rings;
+  if (!WEB_MERCATOR_WKIDS.includes(wkid)) {
+    throw new Error(`Spatial filters in wkid ${wkid} are not supported`);
+  }
+
+  return geometry.rings.map(ring => ring.map(([x, y]) => [
+    (x / EARTH_RADIUS_M) * (180 / Math.PI),
+    (2 * Math.atan(Math.exp(y / EARTH_RADIUS_M)) - Math.PI / 2) * (180 / Math.PI)
+  ]));
+}
+
+/**
+ * Filter polygon covering a map extent
+ */
+export function extentToSpatialGeometry(extent: {
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+  spatialReference: { wkid: number };
+}): SpatialFilterGeometry {
+  const { xmin, ymin, xmax, ymax } = extent;
+  return {
+    type: 'polygon',
+    rings: [[[xmin, ymin], [xmin, ymax], [xmax, ymax], [xmax, ymin], [xmin, ymin]]],
+    spatialReference: { wkid: extent.spatialReference.wkid }
+  };
+}
+
+/**
+ * Even-odd point in polygon test, so holes are outside
+ */
+export function pointInRings(point: Position, rings: Position[][]): boolean {
+  const [x, y] = point;
+  let inside = false;
+
+  rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  });
+  return inside;
+}
+
+function orientation(a: Position, b: Position, c: Position): number {
+  return Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+}
+
+function onSegment(a: Position, b: Position, p: Position): boolean {
+  return Math.min(a[0], b[0]) <= p[0] && p[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= p[1] && p[1] <= Math.max(a[1], b[1]);
+}
+
+function segmentsIntersect(a: Position, b: Position, c: Position, d: Position): boolean {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+
+  if (o1 !== o2 && o3 !== o4) return true;
+  // Collinear touching counts as intersecting, as on the server
+  return (o1 === 0 && onSegment(a, b, c)) ||
+    (o2 === 0 && onSegment(a, b, d)) ||
+    (o3 === 0 && onSegment(c, d, a)) ||
+    (o4 === 0 && onSegment(c, d, b));
+}
+
+/** Vertex paths of any GeoJSON geometry (points become one-vertex paths) */
+function collectPaths(coords: unknown, paths: Position[][]): void {
+  if (!Array.isArray(coords) || coords.length === 0) return;
+  if (typeof coords[0] === 'number') {
+    paths.push([coords as Position]);
+  } else if (Array.isArray(coords[0]) && typeof coords[0][0] === 'number') {
+    paths.push(coords as Position[]);
+  } else {
+    coords.forEach(c => collectPaths(c, paths));
+  }
+}
+
+/**
+ * Whether a GeoJSON geometry intersects a polygon: a vertex lies inside it or
+ * an edge crosses its boundary. Features without geometry never match.
+ *
+ * @param rings - Polygon rings in the geometry's coordinates (see toWGS84Rings)
+ */
+export function geometryIntersectsRings(
+  geometry: { coordinates: unknown } | null | undefined,
+  rings: Position[][]
+): boolean {
+  if (!geometry) return false;
+
+  const paths: Position[][] = [];
+  collectPaths(geometry.coordinates, paths);
+
+  return paths.some(path =>
+    path.some(vertex => pointInRings(vertex, rings)) ||
+    path.some((vertex, i) => i > 0 && rings.some(ring =>
+      ring.some((corner, j) => j > 0 && segmentsIntersect(path[i - 1], vertex, ring[j - 1], corner))
+    ))
+  );
+}
@@ -0,0 +1,516 @@
+// src/utils/sqlExpression.ts
+
+/**
+ * Minimal SQL-92 expression evaluator used by the in-memory road data source.
+ *
+ * Supports the subset of the ArcGIS "standardized SQL" dialect that the services
+ * actually generate: comparisons, AND/OR/NOT, IS [NOT] NULL, [NOT] IN, [NOT] BETWEEN,
+ * [NOT] LIKE, CASE WHEN ... END, arithmetic, and a handful of scalar functions.
+ * NULL handling follows SQL three-valued logic (unknown is represented as null).
+ */
+
+export type SqlValue = string | number | boolean | null;
+
+/**
+ * Reads an attribute value for the current row
+ */
+export type SqlFieldGetter = (fieldName: string) => unknown;
+
+/**
+ * A compiled expression, evaluated once per row
+ */
+export type CompiledSqlExpression = (getField: SqlFieldGetter) => SqlValue;
+
+/**
+ * Thrown when an expression cannot be tokenised or parsed
+ */
+export class SqlExpressionError extends Error {
+  constructor(message: string, public readonly expression: string) {
+    super(`${message} in expression: ${expression}`);
+    this.name = 'SqlExpressionError';
+  }
+}
+
+/** === TOKENISER === */
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+}
+
+const KEYWORDS = new Set([
+  'AND', 'OR', 'NOT', 'IS', 'NULL', 'IN', 'BETWEEN', 'LIKE',
+  'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'TRUE', 'FALSE'
+]);
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // String literal with '' escaping
+    if (ch === "'") {
+      let value = '';
+      i++;
+      while (true) {
+        if (i >= sql.length) {
+          throw new SqlExpressionError('Unterminated string literal', sql);
+        }
+        if (sql[i] === "'") {
+          if (sql[i + 1] === "'") {
+            value += "'";
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += sql[i++];
+      }
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+
+    // Numeric literal
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(sql[i + 1] ?? ''))) {
+      const match = /^[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?|^[0-9]+\.?/.exec(sql.slice(i));
+      const value = match ? match[0] : ch;
+      tokens.push({ type: 'number', value });
+      i += value.length;
+      continue;
+    }
+
+    // Identifier or keyword (optionally "quoted")
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(sql.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+    if (ch === '"') {
+      const end = sql.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new SqlExpressionError('Unterminated quoted identifier', sql);
+      }
+      tokens.push({ type: 'identifier', value: sql.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    // Multi-character operators first
+    const two = sql.slice(i, i + 2);
+    if (two === '<>' || two === '!=' || two === '<=' || two === '>=') {
+      tokens.push({ type: 'operator', value: two === '!=' ? '<>' : two });
+      i += 2;
+      continue;
+    }
+    if ('=<>+-*/'.includes(ch)) {
+      tokens.push({ type: 'operator', value: ch });
+      i++;
+      continue;
+    }
+    if ('(),'.includes(ch)) {
+      tokens.push({ type: 'punctuation', value: ch });
+      i++;
+      continue;
+    }
+
+    throw new SqlExpressionError(`Unexpected character '${ch}'`, sql);
+  }
+
+  tokens.push({ type: 'eof', value: '' });
+  return tokens;
+}
+
+/** === HELPERS === */
+
+function toNumber(value: SqlValue): number | null {
+  if (value === null) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const parsed = Number(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function normalise(value: unknown): SqlValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  return String(value);
+}
+
+function compare(left: SqlValue, right: SqlValue): number | null {
+  if (left === null || right === null) return null;
+  if (typeof left === 'number' || typeof right === 'number') {
+    const l = toNumber(left);
+    const r = toNumber(right);
+    if (l === null || r === null) return null;
+    return l === r ? 0 : l < r ? -1 : 1;
+  }
+  const l = String(left);
+  const r = String(right);
+  return l === r ? 0 : l < r ? -1 : 1;
+}
+
+function isTrue(value: SqlValue): boolean {
+  return value === true || (typeof value === 'number' && value !== 0);
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/%/g, '.*').replace(/_/g, '.')}$`, 'i');
+}
+
+const SCALAR_FUNCTIONS: Record<string, (args: SqlValue[]) => SqlValue> = {
+  UPPER: ([v]) => (v === null ? null : String(v).toUpperCase()),
+  LOWER: ([v]) => (v === null ? null : String(v).toLowerCase()),
+  TRIM: ([v]) => (v === null ? null : String(v).trim()),
+  ABS: ([v]) => {
+    const n = toNumber(v);
+    return n === null ? null : Math.abs(n);
+  },
+  ROUND: ([v, digits]) => {
+    const n = toNumber(v);
+    if (n === null) return null;
+    const factor = Math.pow(10, toNumber(digits) ?? 0);
+    return Math.round(n * factor) / factor;
+  },
+  COALESCE: (args) => args.find(a => a !== null) ?? null
+};
+
+/** === PARSER === */
+
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly source: string,
+    private readonly resolveField: (name: string) => string
+  ) {}
+
+  parse(): CompiledSqlExpression {
+    const expr = this.parseOr();
+    if (this.peek().type !== 'eof') {
+      throw new SqlExpressionError(`Unexpected token '${this.peek().value}'`, this.source);
+    }
+    return expr;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'identifier' && token.value.toUpperCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.isKeyword(keyword)) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw new SqlExpressionError(`Expected ${keyword} but found '${this.peek().value}'`, this.source);
+    }
+  }
+
+  private expectPunctuation(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punctuation' || token.value !== value) {
+      throw new SqlExpressionError(`Expected '${value}' but found '${token.value}'`, this.source);
+    }
+  }
+
+  private parseOr(): CompiledSqlExpression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('OR')) {
+      const l = left;
+      const r = this.parseAnd();
+      left = (get) => {
+        const a = l(get);
+        if (isTrue(a)) return true;
+        const b = r(get);
+        if (isTrue(b)) return true;
+        return a === null || b === null ? null : false;
+      };
+    }
+    return left;
+  }
+
+  private parseAnd(): CompiledSqlExpression {
+    let left = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      const l = left;
+      const r = this.parseNot();
+      left = (get) => {
+        const a = l(get);
+        if (a === false || a === 0) return false;
+        const b = r(get);
+        if (b === false || b === 0) return false;
+        return a === null || b === null ? null : true;
+      };
+    }
+    return left;
+  }
+
+  private parseNot(): CompiledSqlExpression {
+    if (this.acceptKeyword('NOT')) {
+      const inner = this.parseNot();
+      return (get) => {
+        const v = inner(get);
+        return v === null ? null : !isTrue(v);
+      };
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): CompiledSqlExpression {
+    const left = this.parseAdditive();
+
+    // IS [NOT] NULL
+    if (this.acceptKeyword('IS')) {
+      const negate = this.acceptKeyword('NOT');
+      this.expectKeyword('NULL');
+      return (get) => (left(get) === null) !== negate;
+    }
+
+    const negate = this.isKeyword('NOT') &&
+      (this.isKeyword('IN', 1) || this.isKeyword('BETWEEN', 1) || this.isKeyword('LIKE', 1));
+    if (negate) this.pos++;
+
+    if (this.acceptKeyword('IN')) {
+      this.expectPunctuation('(');
+      const items: CompiledSqlExpression[] = [this.parseAdditive()];
+      while (this.peek().value === ',' && this.peek().type === 'punctuation') {
+        this.pos++;
+        items.push(this.parseAdditive());
+      }
+      this.expectPunctuation(')');
+      return (get) => {
+        const v = left(get);
+        if (v === null) return null;
+        const found = items.some(item => compare(v, item(get)) === 0);
+        return found !== negate;
+      };
+    }
+
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.parseAdditive();
+      this.expectKeyword('AND');
+      const high = this.parseAdditive();
+      return (get) => {
+        const v = left(get);
+        const lo = compare(v, low(get));
+        const hi = compare(v, high(get));
+        if (lo === null || hi === null) return null;
+        return (lo >= 0 && hi <= 0) !== negate;
+      };
+    }
+
+    if (this.acceptKeyword('LIKE')) {
+      const pattern = this.parseAdditive();
+      return (get) => {
+        const v = left(get);
+        const p = pattern(get);
+        if (v === null || p === null) return null;
+        return likeToRegExp(String(p)).test(String(v)) !== negate;
+      };
+    }
+
+    const token = this.peek();
+    if (token.type === 'operator' && ['=', '<>', '<', '>', '<=', '>='].includes(token.value)) {
+      this.pos++;
+      const right = this.parseAdditive();
+      const op = token.value;
+      return (get) => {
+        const c = compare(left(get), right(get));
+        if (c === null) return null;
+        switch (op) {
+          case '=': return c === 0;
+          case '<>': return c !== 0;
+          case '<': return c < 0;
+          case '>': return c > 0;
+          case '<=': return c <= 0;
+          default: return c >= 0;
+        }
+      };
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): CompiledSqlExpression {
+    let left = this.parseMultiplicative();
+    while (this.peek().type === 'operator' && (this.peek().value === '+' || this.peek().value === '-')) {
+      const op = this.next().value;
+      const l = left;
+      const r = this.parseMultiplicative();
+      left = (get) => {
+        const a = toNumber(l(get));
+        const b = toNumber(r(get));
+        if (a === null || b === null) return null;
+        return op === '+' ? a + b : a - b;
+      };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): CompiledSqlExpression {
+    let left = this.parseUnary();
+    while (this.peek().type === 'operator' && (this.peek().value === '*' || this.peek().value === '/')) {
+      const op = this.next().value;
+      const l = left;
+      const r = this.parseUnary();
+      left = (get) => {
+        const a = toNumber(l(get));
+        const b = toNumber(r(get));
+        if (a === null || b === null) return null;
+        if (op === '/') return b === 0 ? null : a / b;
+        return a * b;
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): CompiledSqlExpression {
+    if (this.peek().type === 'operator' && this.peek().value === '-') {
+      this.pos++;
+      const inner = this.parseUnary();
+      return (get) => {
+        const v = toNumber(inner(get));
+        return v === null ? null : -v;
+      };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): CompiledSqlExpression {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      const value = Number(token.value);
+      return () => value;
+    }
+
+    if (token.type === 'string') {
+      const value = token.value;
+      return () => value;
+    }
+
+    if (token.type === 'punctuation' && token.value === '(') {
+      const inner = this.parseOr();
+      this.expectPunctuation(')');
+      return inner;
+    }
+
+    if (token.type === 'identifier') {
+      const upper = token.value.toUpperCase();
+
+      if (upper === 'NULL') return () => null;
+      if (upper === 'TRUE') return () => true;
+      if (upper === 'FALSE') return () => false;
+      if (upper === 'CASE') return this.parseCase();
+
+      // Function call
+      if (this.peek().type === 'punctuation' && this.peek().value === '(') {
+        const fn = SCALAR_FUNCTIONS[upper];
+        if (!fn) {
+          throw new SqlExpressionError(`Unsupported function ${token.value}`, this.source);
+        }
+        this.pos++;
+        const args: CompiledSqlExpression[] = [];
+        if (!(this.peek().type === 'punctuation' && this.peek().value === ')')) {
+          args.push(this.parseOr());
+          while (this.peek().type === 'punctuation' && this.peek().value === ',') {
+            this.pos++;
+            args.push(this.parseOr());
+          }
+        }
+        this.expectPunctuation(')');
+        return (get) => fn(args.map(arg => arg(get)));
+      }
+
+      if (KEYWORDS.has(upper)) {
+        throw new SqlExpressionError(`Unexpected keyword ${token.value}`, this.source);
+      }
+
+      const fieldName = this.resolveField(token.value);
+      return (get) => normalise(get(fieldName));
+    }
+
+    throw new SqlExpressionError(`Unexpected token '${token.value}'`, this.source);
+  }
+
+  private parseCase(): CompiledSqlExpression {
+    const branches: Array<{ when: CompiledSqlExpression; then: CompiledSqlExpression }> = [];
+    let otherwise: CompiledSqlExpression = () => null;
+
+    while (this.acceptKeyword('WHEN')) {
+      const when = this.parseOr();
+      this.expectKeyword('THEN');
+      const then = this.parseOr();
+      branches.push({ when, then });
+    }
+    if (branches.length === 0) {
+      throw new SqlExpressionError('CASE requires at least one WHEN branch', this.source);
+    }
+    if (this.acceptKeyword('ELSE')) {
+      otherwise = this.parseOr();
+    }
+    this.expectKeyword('END');
+
+    return (get) => {
+      for (const branch of branches) {
+        if (isTrue(branch.when(get))) return branch.then(get);
+      }
+      return otherwise(get);
+    };
+  }
+}
+
+/** === PUBLIC API === */
+
+/**
+ * Compile a SQL expression into a row evaluator.
+ * @param sql - Expression or WHERE clause (empty string evaluates to TRUE)
+ * @param resolveField - Maps identifiers to canonical field names (e.g. case-insensitive lookup)
+ */
+export function compileSqlExpression(
+  sql: string,
+  resolveField: (name: string) => string = name => name
+): CompiledSqlExpression {
+  if (!sql || !sql.trim()) {
+    return () => true;
+  }
+  return new Parser(tokenize(sql), sql, resolveField).parse();
+}
+
+/**
+ * Compile a WHERE clause into a row predicate
+ */
+export function compileSqlPredicate(
+  where: string | null | undefined,
+  resolveField?: (name: string) => string
+): (getField: SqlFieldGetter) => boolean {
+  const expr = compileSqlExpression(where ?? '', resolveField);
+  return (getField) => isTrue(expr(getField));
+}
@@ -0,0 +1,181 @@
+// src/utils/treatmentRecommendation.ts
+
+import { KPI_LABELS, type KPIKey } from '@/config/kpiConfig';
+import { getKPIFieldName } from '@/config/layerConfig';
+import {
+  TREATMENT_CODES,
+  TREATMENT_KPIS,
+  type TreatmentCategory,
+  type TreatmentCondition,
+  type TreatmentRule,
+  type TreatmentRuleSet
+} from '@/config/treatmentRules';
+
+/**
+ * ============================================================================
+ * TREATMENT RECOMMENDATION
+ * ============================================================================
+ *
+ * Evaluates a treatment rule set (config/treatmentRules.ts) against segment
+ * KPI values, in JS for statistics and as an Arcade expression for the map
+ * renderer, so both always recommend the same treatment.
+ *
+ * Keep this module free of DOM and ArcGIS imports so it can run in the
+ * aggregation worker.
+ */
+
+/** Raw KPI field to read for each KPI a rule set tests */
+export type TreatmentFields = Partial<Record<KPIKey, string>>;
+
+type Row = Record<string, any>;
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * KPIs tested by any rule in the set
+ */
+export function getRuleSetKPIs(ruleSet: TreatmentRuleSet): KPIKey[] {
+  const used = new Set(ruleSet.rules.flatMap(rule => rule.conditions.map(condition => condition.kpi)));
+  return TREATMENT_KPIS.filter(kpi => used.has(kpi));
+}
+
+/**
+ * Survey-year fields for the KPIs a rule set tests
+ */
+export function getTreatmentFields(ruleSet: TreatmentRuleSet, year: number): TreatmentFields {
+  const fields: TreatmentFields = {};
+  getRuleSetKPIs(ruleSet).forEach(kpi => {
+    fields[kpi] = getKPIFieldName(kpi, year);
+  });
+  return fields;
+}
+
+/** === EVALUATION === */
+
+export function matchesCondition(condition: TreatmentCondition, value: number | null | undefined): boolean {
+  if (value === null || value === undefined) return false;
+  switch (condition.operator) {
+    case '<': return value < condition.value;
+    case '<=': return value <= condition.value;
+    case '>': return value > condition.value;
+    case '>=': return value >= condition.value;
+  }
+}
+
+/**
+ * Recommended treatment for a set of KPI values
+ * @returns The first matching rule's treatment, the default treatment when no
+ *   rule matches, or null when none of the tested KPIs has a value
+ */
+export function evaluateTreatment(
+  ruleSet: TreatmentRuleSet,
+  values: Partial<Record<KPIKey, number | null>>
+): TreatmentCategory | null {
+  const assessed = getRuleSetKPIs(ruleSet).some(kpi => values[kpi] !== null && values[kpi] !== undefined);
+  if (!assessed) return null;
+
+  const rule = ruleSet.rules.find(candidate =>
+    candidate.conditions.length > 0 &&
+    candidate.conditions.every(condition => matchesCondition(condition, values[condition.kpi]))
+  );
+  return rule?.treatment ?? ruleSet.defaultTreatment;
+}
+
+/**
+ * Recommended treatment for a raw segment row
+ */
+export function getSegmentTreatment(
+  row: Row,
+  ruleSet: TreatmentRuleSet,
+  fields: TreatmentFields
+): TreatmentCategory | null {
+  const values: Partial<Record<KPIKey, number | null>> = {};
+  (Object.keys(fields) as KPIKey[]).forEach(kpi => {
+    values[kpi] = toNumber(row[fields[kpi]!]);
+  });
+  return evaluateTreatment(ruleSet, values);
+}
+
+/** === RENDERER === */
+
+/**
+ * Arcade expression returning the TREATMENT_CODES value for a segment,
+ * or null when it has none of the tested KPIs
+ */
+export function buildTreatmentArcadeExpression(ruleSet: TreatmentRuleSet, fields: TreatmentFields): string {
+  const kpis = (Object.keys(fields) as KPIKey[]).filter(kpi => fields[kpi]);
+  const variable = (kpi: KPIKey) => `v_${kpi}`;
+
+  const lines = kpis.map(kpi => `var ${variable(kpi)} = $feature.${fields[kpi]};`);
+  lines.push(
+    kpis.length > 0
+      ? `if (${kpis.map(kpi => `IsEmpty(${variable(kpi)})`).join(' && ')}) { return null; }`
+      : 'return null;'
+  );
+
+  ruleSet.rules.forEach(rule => {
+    if (rule.conditions.length === 0) return;
+    const tests = rule.conditions.map(condition => {
+      const name = variable(condition.kpi);
+      return `(!IsEmpty(${name}) && ${name} ${condition.operator} ${condition.value})`;
+    });
+    lines.push(`if (${tests.join(' && ')}) { return ${TREATMENT_CODES[rule.treatment]}; }`);
+  });
+
+  lines.push(`return ${TREATMENT_CODES[ruleSet.defaultTreatment]};`);
+  return lines.join('\n');
+}
+
+/** === EDITING === */
+
+const OPERATOR_SYMBOLS: Record<TreatmentCondition['operator'], string> = {
+  '<': '<',
+  '<=': '≤',
+  '>': '>',
+  '>=': '≥'
+};
+
+export function describeCondition(condition: TreatmentCondition): string {
+  return `${KPI_LABELS[condition.kpi]} ${OPERATOR_SYMBOLS[condition.operator]} ${condition.value}`;
+}
+
+/**
+ * Human-readable rule, e.g. "PSCI ≤ 4 and IRI ≥ 9"
+ */
+export function describeRule(rule: TreatmentRule): string {
+  return rule.conditions.map(describeCondition).join(' and ');
+}
+
+/**
+ * New rule with a single condition, for the rule editor
+ */
+export function createTreatmentRule(treatment: TreatmentCategory, kpi: KPIKey = 'psci'): TreatmentRule {
+  return {
+    id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    treatment,
+    conditions: [{ kpi, operator: '<=', value: 0 }]
+  };
+}
+
+/**
+ * Check every rule has at least one condition with a numeric value
+ * @returns An error message, or null when the rule set is valid
+ */
+export function validateTreatmentRuleSet(ruleSet: TreatmentRuleSet): string | null {
+  if (!ruleSet.name.trim()) return 'The rule set needs a name';
+
+  for (let i = 0; i < ruleSet.rules.length; i++) {
+    const rule = ruleSet.rules[i];
+    if (rule.conditions.length === 0) {
+      return `Rule ${i + 1} needs at least one condition`;
+    }
+    if (rule.conditions.some(condition => !Number.isFinite(condition.value))) {
+      return `Rule ${i + 1} has a condition without a value`;
+    }
+  }
+  return null;
+}
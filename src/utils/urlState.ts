@@ -0,0 +1,180 @@
+// src/utils/urlState.ts
+// Shareable dashboard links: the overview dashboard state as a query string.
+//
+// Parameters (lists are repeated parameters, so names may contain commas):
+//   v      - format version, always written; links without it carry no state
+//   kpi    - active KPI key
+//   year   - survey year
+//   la     - local authority filter (repeated)
+//   sg     - subgroup filter code (repeated)
+//   route  - route filter (repeated)
+//   range  - KPI value range as "kpi:year:min:max", either bound may be empty (repeated)
+//   cls    - condition class filter as "kpi:year:class,class" (repeated)
+//   metric - LA layer metric type
+//   swipe  - compare years as "left,right"
+//   sel    - chart selection as "kpi:year:condition:group" (repeated)
+//
+// Parsing never throws: unknown or invalid values are dropped so an old or
+// hand-edited link still restores whatever it can.
+//
+// Spatial filters are left out: a drawn area would make the link too long to
+// share. Saved views keep them.
+
+import { SURVEY_YEARS } from '@/config/constants';
+import { KPI_LABELS, MEASURED_KPIS, type ConditionClass, type KPIKey, type MeasuredKPIKey } from '@/config/kpiConfig';
+import { SUBGROUP_OPTIONS, type LAMetricType } from '@/config/layerConfig';
+import type { ChartSelection, ConditionClassFilter, FilterState, KPIRangeFilter } from '@/types';
+import { CONDITION_CLASSES } from './conditionClassification';
+
+/** Bump when a parameter changes meaning; older links are still parsed */
+export const URL_STATE_VERSION = 1;
+
+export interface DashboardUrlState {
+  kpi: KPIKey;
+  filters: FilterState;
+  laMetricType: LAMetricType;
+  swipeYears: [number, number];
+  chartSelections: ChartSelection[];
+}
+
+/** Whatever a link carried; a link without a filter list clears that filter */
+export type ParsedDashboardState = Partial<Omit<DashboardUrlState, 'filters' | 'chartSelections'>> & {
+  filters: Omit<FilterState, 'year'> & { year?: number };
+  chartSelections: ChartSelection[];
+};
+
+const LA_METRIC_TYPES: LAMetricType[] = ['average', 'fairOrBetter'];
+
+const isKPIKey = (value: string | null): value is KPIKey =>
+  value !== null && Object.prototype.hasOwnProperty.call(KPI_LABELS, value);
+
+const parseSurveyYear = (value: string | null | undefined): number | null => {
+  const year = Number(value);
+  return (SURVEY_YEARS as readonly number[]).includes(year) ? year : null;
+};
+
+const isMeasuredKPI = (value: string): value is MeasuredKPIKey =>
+  (MEASURED_KPIS as string[]).includes(value);
+
+const isConditionClass = (value: string): value is ConditionClass =>
+  (CONDITION_CLASSES as string[]).includes(value);
+
+const unique = <T,>(values: T[]): T[] => Array.from(new Set(values));
+
+const serializeChartSelection = (selection: ChartSelection): string =>
+  `${selection.kpi}:${selection.year}:${selection.condition}:${selection.group}`;
+
+const parseChartSelection = (value: string): ChartSelection | null => {
+  // The group goes last because LA names may contain ':'
+  const [kpi, year, condition, ...group] = value.split(':');
+  const surveyYear = parseSurveyYear(year);
+  if (!isKPIKey(kpi) || surveyYear === null || group.length === 0) return null;
+  if (!isConditionClass(condition)) return null;
+  return { kpi, year: surveyYear, condition, group: group.join(':') };
+};
+
+const formatBound = (value: number | null) => (value === null ? '' : String(value));
+
+const parseBound = (value: string | undefined): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === '') return null;
+  const bound = Number(value);
+  return Number.isFinite(bound) ? bound : undefined;
+};
+
+const parseKPIRange = (value: string): KPIRangeFilter | null => {
+  const [kpi, year, min, max] = value.split(':');
+  const surveyYear = parseSurveyYear(year);
+  const [lower, upper] = [parseBound(min), parseBound(max)];
+  if (!isMeasuredKPI(kpi) || surveyYear === null || lower === undefined || upper === undefined) return null;
+  if (lower === null && upper === null) return null;
+  return { kpi, year: surveyYear, min: lower, max: upper };
+};
+
+const parseConditionClassFilter = (value: string): ConditionClassFilter | null => {
+  const [kpi, year, classes = ''] = value.split(':');
+  const surveyYear = parseSurveyYear(year);
+  const conditionClasses = unique(classes.split(',').filter(isConditionClass));
+  if (!isMeasuredKPI(kpi) || surveyYear === null || conditionClasses.length === 0) return null;
+  return { kpi, year: surveyYear, classes: conditionClasses };
+};
+
+/**
+ * Query string for the dashboard state
+ */
+export function serializeDashboardState(state: DashboardUrlState): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set('v', String(URL_STATE_VERSION));
+  params.set('kpi', state.kpi);
+  params.set('year', String(state.filters.year));
+  state.filters.localAuthority.forEach(la => params.append('la', la));
+  state.filters.subgroup.forEach(code => params.append('sg', String(code)));
+  state.filters.route.forEach(route => params.append('route', route));
+  (state.filters.kpiRanges ?? []).forEach(range =>
+    params.append('range', `${range.kpi}:${range.year}:${formatBound(range.min)}:${formatBound(range.max)}`)
+  );
+  (state.filters.conditionClasses ?? [])
+    .filter(filter => filter.classes.length > 0)
+    .forEach(filter => params.append('cls', `${filter.kpi}:${filter.year}:${filter.classes.join(',')}`));
+  params.set('metric', state.laMetricType);
+  params.set('swipe', state.swipeYears.join(','));
+  state.chartSelections.forEach(selection => params.append('sel', serializeChartSelection(selection)));
+  return params;
+}
+
+/**
+ * Dashboard state carried by a query string
+ *
+ * @returns null when the query string holds no dashboard state, or was
+ * written by a newer version of the app
+ */
+export function parseDashboardState(params: URLSearchParams): ParsedDashboardState | null {
+  const version = Number(params.get('v'));
+  if (!Number.isInteger(version) || version < 1 || version > URL_STATE_VERSION) return null;
+
+  const subgroupCodes = SUBGROUP_OPTIONS.map(option => option.code);
+  const state: ParsedDashboardState = {
+    filters: {
+      localAuthority: unique(params.getAll('la').filter(Boolean)),
+      subgroup: unique(params.getAll('sg').map(Number).filter(code => subgroupCodes.includes(code))),
+      route: unique(params.getAll('route').filter(Boolean)),
+      kpiRanges: params.getAll('range')
+        .map(parseKPIRange)
+        .filter((range): range is KPIRangeFilter => range !== null),
+      conditionClasses: params.getAll('cls')
+        .map(parseConditionClassFilter)
+        .filter((filter): filter is ConditionClassFilter => filter !== null)
+    },
+    chartSelections: params.getAll('sel')
+      .map(parseChartSelection)
+      .filter((selection): selection is ChartSelection => selection !== null)
+  };
+
+  const kpi = params.get('kpi');
+  if (isKPIKey(kpi)) state.kpi = kpi;
+
+  const year = parseSurveyYear(params.get('year'));
+  if (year !== null) state.filters.year = year;
+
+  const metric = params.get('metric') as LAMetricType | null;
+  if (metric && LA_METRIC_TYPES.includes(metric)) state.laMetricType = metric;
+
+  const [left, right] = (params.get('swipe') ?? '').split(',').map(parseSurveyYear);
+  if (left && right && left !== right) state.swipeYears = [left, right];
+
+  return state;
+}
+
+/** Parameters owned by the dashboard state; anything else in the URL is kept */
+const DASHBOARD_PARAMS = ['v', 'kpi', 'year', 'la', 'sg', 'route', 'range', 'cls', 'metric', 'swipe', 'sel'];
+
+/**
+ * Replace the dashboard state in a query string, keeping unrelated parameters
+ * such as layerStrategy
+ */
+export function withDashboardState(params: URLSearchParams, state: DashboardUrlState): URLSearchParams {
+  const next = new URLSearchParams(params);
+  DASHBOARD_PARAMS.forEach(name => next.delete(name));
+  serializeDashboardState(state).forEach((value, name) => next.append(name, value));
+  return next;
+}
@@ -0,0 +1,279 @@
+// src/utils/whereClause.ts
+
+import { SUBGROUP_CODE_TO_FIELD, SUBGROUP_OPTIONS } from '@/config/layerConfig';
+
+/**
+ * ============================================================================
+ * WHERE-CLAUSE BUILDER
+ * ============================================================================
+ *
+ * Typed builder for ArcGIS SQL where clauses. Compose clauses with the `where`
+ * helpers and render them with `renderWhere()`; string literals are escaped
+ * and field names are validated, so values such as "Dun Laoghaire-Rathdown"
+ * or "O'Brien's Bridge" can never break a query.
+ *
+ *   renderWhere(where.and(
+ *     where.in('LA', ['Cork', "O'Brien"]),
+ *     where.subgroup(50)
+ *   ))
+ *   // LA IN ('Cork', 'O''Brien') AND (IsFormerNa = 0 AND IsDublin = 0 AND ...)
+ */
+
+export type SqlLiteral = string | number | boolean | null;
+
+export type ComparisonOperator = '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+export type WhereClause =
+  | { type: 'true' }
+  | { type: 'false' }
+  | { type: 'raw'; sql: string }
+  | { type: 'compare'; field: string; operator: ComparisonOperator; value: SqlLiteral }
+  | { type: 'in'; field: string; values: SqlLiteral[] }
+  | { type: 'range'; field: string; min?: number; max?: number; minInclusive: boolean; maxInclusive: boolean }
+  | { type: 'null'; field: string; negate: boolean }
+  | { type: 'and'; clauses: WhereClause[] }
+  | { type: 'or'; clauses: WhereClause[] }
+  | { type: 'not'; clause: WhereClause };
+
+export interface RangeBounds {
+  min?: number;
+  max?: number;
+  /** Include the lower bound (default true) */
+  minInclusive?: boolean;
+  /** Include the upper bound (default false) */
+  maxInclusive?: boolean;
+}
+
+/**
+ * Thrown for invalid field names or non-finite numeric values
+ */
+export class WhereClauseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WhereClauseError';
+  }
+}
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+/** === LITERALS === */
+
+/**
+ * Escape a string for use inside single quotes
+ */
+export function escapeSqlString(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+/**
+ * Render a JavaScript value as a SQL literal
+ */
+export function formatSqlLiteral(value: SqlLiteral): string {
+  if (value === null) return 'NULL';
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new WhereClauseError(`Cannot use non-finite number ${value} in a where clause`);
+    }
+    return String(value);
+  }
+  return `'${escapeSqlString(value)}'`;
+}
+
+function assertFieldName(field: string): string {
+  if (!FIELD_NAME_PATTERN.test(field)) {
+    throw new WhereClauseError(`Invalid field name: ${field}`);
+  }
+  return field;
+}
+
+/** === BUILDERS === */
+
+const flatten = (type: 'and' | 'or', clauses: Array<WhereClause | null | undefined | false>): WhereClause[] =>
+  clauses.flatMap(clause => {
+    if (!clause) return [];
+    return clause.type === type ? clause.clauses : [clause];
+  });
+
+export const where = {
+  /** Matches everything (renders as 1=1) */
+  all: (): WhereClause => ({ type: 'true' }),
+
+  /** Matches nothing (renders as 1=0) */
+  none: (): WhereClause => ({ type: 'false' }),
+
+  /**
+   * Trusted SQL, e.g. a definition expression already rendered by this builder.
+   * Never pass user-entered text here.
+   */
+  raw: (sql: string | null | undefined): WhereClause => {
+    const trimmed = sql?.trim();
+    return !trimmed || trimmed === '1=1' ? { type: 'true' } : { type: 'raw', sql: trimmed };
+  },
+
+  eq: (field: string, value: SqlLiteral): WhereClause =>
+    value === null
+      ? { type: 'null', field: assertFieldName(field), negate: false }
+      : { type: 'compare', field: assertFieldName(field), operator: '=', value },
+
+  ne: (field: string, value: SqlLiteral): WhereClause =>
+    value === null
+      ? { type: 'null', field: assertFieldName(field), negate: true }
+      : { type: 'compare', field: assertFieldName(field), operator: '<>', value },
+
+  lt: (field: string, value: number): WhereClause =>
+    ({ type: 'compare', field: assertFieldName(field), operator: '<', value }),
+
+  lte: (field: string, value: number): WhereClause =>
+    ({ type: 'compare', field: assertFieldName(field), operator: '<=', value }),
+
+  gt: (field: string, value: number): WhereClause =>
+    ({ type: 'compare', field: assertFieldName(field), operator: '>', value }),
+
+  gte: (field: string, value: number): WhereClause =>
+    ({ type: 'compare', field: assertFieldName(field), operator: '>=', value }),
+
+  in: (field: string, values: readonly SqlLiteral[]): WhereClause =>
+    ({ type: 'in', field: assertFieldName(field), values: [...values] }),
+
+  /**
+   * Numeric range; by default min is inclusive and max exclusive (min <= x < max)
+   */
+  range: (field: string, bounds: RangeBounds): WhereClause => ({
+    type: 'range',
+    field: assertFieldName(field),
+    min: bounds.min,
+    max: bounds.max,
+    minInclusive: bounds.minInclusive ?? true,
+    maxInclusive: bounds.maxInclusive ?? false
+  }),
+
+  isNull: (field: string): WhereClause => ({ type: 'null', field: assertFieldName(field), negate: false }),
+
+  isNotNull: (field: string): WhereClause => ({ type: 'null', field: assertFieldName(field), negate: true }),
+
+  /** Falsy entries are skipped so optional filters can be inlined */
+  and: (...clauses: Array<WhereClause | null | undefined | false>): WhereClause =>
+    ({ type: 'and', clauses: flatten('and', clauses) }),
+
+  or: (...clauses: Array<WhereClause | null | undefined | false>): WhereClause =>
+    ({ type: 'or', clauses: flatten('or', clauses) }),
+
+  not: (clause: WhereClause): WhereClause => ({ type: 'not', clause }),
+
+  /**
+   * Segments belonging to a subgroup code (10-40 use their flag field, 50 = Rural)
+   * @param fieldPrefix - Prefix for joined layers, e.g. 'Roads_Joined_'
+   */
+  subgroup: (code: number, fieldPrefix: string = ''): WhereClause => {
+    const fieldName = SUBGROUP_CODE_TO_FIELD[code];
+    if (!fieldName) {
+      console.warn(`Unknown subgroup code: ${code}`);
+      return { type: 'true' };
+    }
+
+    // Rural is the default (absence of other flags)
+    if (fieldName === 'Rural') {
+      return where.and(
+        ...SUBGROUP_OPTIONS
+          .filter(option => option.value !== 'Rural')
+          .map(option => where.eq(`${fieldPrefix}${option.value}`, 0))
+      );
+    }
+
+    return where.eq(`${fieldPrefix}${fieldName}`, 1);
+  },
+
+  /**
+   * Segments belonging to a subgroup by display label (e.g. 'City/Town')
+   * Returns null when the label is not a subgroup.
+   */
+  subgroupByLabel: (label: string, fieldPrefix: string = ''): WhereClause | null => {
+    const option = SUBGROUP_OPTIONS.find(opt => opt.label === label);
+    return option ? where.subgroup(option.code, fieldPrefix) : null;
+  }
+};
+
+/** === RENDERING === */
+
+/**
+ * Whether a clause renders as several terms and needs parentheses inside a junction
+ */
+function needsParentheses(clause: WhereClause): boolean {
+  switch (clause.type) {
+    case 'raw':
+      return true;
+    case 'range':
+      return clause.min !== undefined && clause.max !== undefined;
+    case 'and':
+    case 'or': {
+      // A junction of one clause renders as that clause, so it needs what the clause needs
+      const parts = clause.clauses.filter(child => child.type !== (clause.type === 'and' ? 'true' : 'false'));
+      return parts.length > 1 || (parts.length === 1 && needsParentheses(parts[0]));
+    }
+    default:
+      return false;
+  }
+}
+
+function renderOperand(clause: WhereClause): string {
+  const sql = renderWhere(clause);
+  return needsParentheses(clause) ? `(${sql})` : sql;
+}
+
+function renderJunction(clauses: WhereClause[], junction: 'AND' | 'OR'): string {
+  const identity = junction === 'AND' ? 'true' : 'false';
+  const absorbing = junction === 'AND' ? 'false' : 'true';
+
+  const parts = clauses.filter(clause => clause.type !== identity);
+  if (parts.some(clause => clause.type === absorbing)) {
+    return junction === 'AND' ? '1=0' : '1=1';
+  }
+  if (parts.length === 0) {
+    return junction === 'AND' ? '1=1' : '1=0';
+  }
+  if (parts.length === 1) {
+    return renderWhere(parts[0]);
+  }
+  return parts.map(renderOperand).join(` ${junction} `);
+}
+
+/**
+ * Render a clause to ArcGIS SQL
+ */
+export function renderWhere(clause: WhereClause): string {
+  switch (clause.type) {
+    case 'true':
+      return '1=1';
+    case 'false':
+      return '1=0';
+    case 'raw':
+      return clause.sql;
+    case 'compare':
+      return `${clause.field} ${clause.operator} ${formatSqlLiteral(clause.value)}`;
+    case 'in':
+      if (clause.values.length === 0) return '1=0';
+      return `${clause.field} IN (${clause.values.map(formatSqlLiteral).join(', ')})`;
+    case 'range': {
+      const parts: string[] = [];
+      if (clause.min !== undefined) {
+        parts.push(`${clause.field} ${clause.minInclusive ? '>=' : '>'} ${formatSqlLiteral(clause.min)}`);
+      }
+      if (clause.max !== undefined) {
+        parts.push(`${clause.field} ${clause.maxInclusive ? '<=' : '<'} ${formatSqlLiteral(clause.max)}`);
+      }
+      return parts.length > 0 ? parts.join(' AND ') : '1=1';
+    }
+    case 'null':
+      return `${clause.field} IS ${clause.negate ? 'NOT ' : ''}NULL`;
+    case 'and':
+      return renderJunction(clause.clauses, 'AND');
+    case 'or':
+      return renderJunction(clause.clauses, 'OR');
+    case 'not': {
+      if (clause.clause.type === 'true') return '1=0';
+      if (clause.clause.type === 'false') return '1=1';
+      return `NOT (${renderWhere(clause.clause)})`;
+    }
+  }
+}
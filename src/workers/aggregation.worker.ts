@@ -0,0 +1,41 @@
+// src/workers/aggregation.worker.ts
+// Runs segment aggregation off the main thread. Spawned by AggregationService.
+
+import { PROGRESS_REPORT_INTERVAL } from '@/config/constants';
+import {
+  aggregateSegments,
+  type AggregationRequest,
+  type AggregationResult,
+  type SegmentRow
+} from '@/utils/segmentAggregation';
+
+export interface AggregationWorkerRequest {
+  id: number;
+  rows: SegmentRow[];
+  request: AggregationRequest;
+}
+
+export type AggregationWorkerResponse =
+  | { id: number; type: 'progress'; processed: number; total: number }
+  | { id: number; type: 'result'; result: AggregationResult }
+  | { id: number; type: 'error'; error: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<AggregationWorkerRequest>) => {
+  const { id, rows, request } = event.data;
+
+  const post = (message: AggregationWorkerResponse) => ctx.postMessage(message);
+
+  try {
+    const result = aggregateSegments(
+      rows,
+      request,
+      (processed, total) => post({ id, type: 'progress', processed, total }),
+      PROGRESS_REPORT_INTERVAL
+    );
+    post({ id, type: 'result', result });
+  } catch (error) {
+    post({ id, type: 'error', error: error instanceof Error ? error.message : String(error) });
+  }
+};